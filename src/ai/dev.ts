@@ -2,4 +2,5 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/generate-trade-recommendation.ts';
-import '@/ai/flows/summarize-news-sentiment.ts';
\ No newline at end of file
+import '@/ai/flows/summarize-news-sentiment.ts';
+import '@/ai/flows/generate-confluence-recommendation.ts';
\ No newline at end of file
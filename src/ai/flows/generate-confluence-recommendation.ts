@@ -0,0 +1,155 @@
+// src/ai/flows/generate-confluence-recommendation.ts
+'use server';
+
+/**
+ * @fileOverview Generates a trade recommendation from trend and momentum readings on several timeframes, stating which of them agree.
+ *
+ * - generateConfluenceRecommendation - A function that generates a multi-timeframe recommendation.
+ * - GenerateConfluenceRecommendationInput - The input type for the generateConfluenceRecommendation function.
+ * - GenerateConfluenceRecommendationOutput - The return type for the generateConfluenceRecommendation function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const BiasSchema = z.enum(['bullish', 'bearish', 'neutral']);
+
+const TimeframeSummarySchema = z.object({
+  timeframe: z.string().describe('Timeframe of the reading (e.g., 15min, 1H, 4H, 1D).'),
+  trend: BiasSchema.describe('Trend from the close against SMA(20) and SMA(50).'),
+  momentum: BiasSchema.describe('Momentum from the MACD histogram; overbought RSI reads bearish and oversold RSI bullish.'),
+  close: z.number().optional().describe('Latest close on this timeframe.'),
+  rsi: z.number().optional().describe('RSI(14) on this timeframe.'),
+  macdHistogram: z.number().optional().describe('MACD(12,26,9) histogram on this timeframe.'),
+});
+
+const GenerateConfluenceRecommendationInputSchema = z.object({
+  assetName: z.string().describe('The asset being analyzed (e.g., EUR/USD).'),
+  timeframes: z.array(TimeframeSummarySchema).describe('One reading per timeframe, shortest first.'),
+  marketStatus: z.string().optional().describe('Current market status (e.g., "open", "closed").'),
+});
+
+export type GenerateConfluenceRecommendationInput = z.infer<typeof GenerateConfluenceRecommendationInputSchema>;
+
+const GenerateConfluenceRecommendationOutputSchema = z.object({
+  recommendation: z.enum(['BUY', 'SELL', 'HOLD']).describe('Trade recommendation.'),
+  confidence: z.enum(['High', 'Medium', 'Low']).optional().describe('Confidence level in the recommendation.'),
+  agreeingTimeframes: z.array(z.string()).describe('Timeframes whose readings support the recommendation.'),
+  conflictingTimeframes: z.array(z.string()).describe('Timeframes whose readings point the other way or are mixed.'),
+  reason: z.string().describe('Reasoning behind the recommendation.'),
+  error: z.string().optional().describe('An error message if the generation failed.'),
+});
+
+export type GenerateConfluenceRecommendationOutput = z.infer<typeof GenerateConfluenceRecommendationOutputSchema>;
+
+export async function generateConfluenceRecommendation(
+  input: GenerateConfluenceRecommendationInput
+): Promise<GenerateConfluenceRecommendationOutput> {
+  return generateConfluenceRecommendationFlow(input);
+}
+
+// Handlebars treats 0 as false, so the optional readings are passed preformatted (an RSI or histogram of 0 still shows)
+const ConfluencePromptInputSchema = GenerateConfluenceRecommendationInputSchema.extend({
+  timeframes: z.array(TimeframeSummarySchema.extend({
+    readings: z.string().describe('The optional readings that are known, e.g. ", close 1.0842, RSI 0".'),
+  })),
+});
+
+function promptInputFrom(input: GenerateConfluenceRecommendationInput): z.infer<typeof ConfluencePromptInputSchema> {
+  return {
+    ...input,
+    timeframes: input.timeframes.map(t => ({
+      ...t,
+      readings: ([['close', t.close], ['RSI', t.rsi], ['MACD histogram', t.macdHistogram]] as const)
+        .filter(([, value]) => value !== undefined)
+        .map(([label, value]) => `, ${label} ${value}`)
+        .join(''),
+    })),
+  };
+}
+
+const confluencePrompt = ai.definePrompt({
+  name: 'generateConfluenceRecommendationPrompt',
+  input: {schema: ConfluencePromptInputSchema},
+  output: {schema: GenerateConfluenceRecommendationOutputSchema.omit({ error: true })},
+  prompt: `You are an AI trading assistant performing multi-timeframe analysis of {{assetName}}. Based on the trend and momentum readings below, provide a trade recommendation (BUY, SELL, or HOLD) and state which timeframes agree with it.
+
+  Readings (shortest timeframe first):
+  {{#each timeframes}}
+  - {{timeframe}}: trend {{trend}}, momentum {{momentum}}{{readings}}
+  {{/each}}
+  {{#if marketStatus}}
+  - Market Status: {{marketStatus}} (If not 'open', the readings come from the last active session.)
+  {{/if}}
+
+  Multi-Timeframe Principles:
+  - Higher timeframes set the direction; lower timeframes time the entry. A lower-timeframe signal against the higher-timeframe trend is a counter-trend trade and deserves less confidence.
+  - BUY when the higher timeframes are bullish and at least one lower timeframe confirms; SELL on the bearish mirror image.
+  - When the higher timeframes disagree with each other, or most timeframes are neutral, recommend HOLD.
+  - Overbought or oversold momentum on a lower timeframe within a strong higher-timeframe trend suggests waiting for a pullback rather than reversing.
+
+  Your Output (JSON format):
+  Provide only a JSON object with "recommendation", "confidence", "agreeingTimeframes", "conflictingTimeframes" and "reason".
+  "agreeingTimeframes" lists the timeframes that support the recommendation (for HOLD, those that are neutral or mixed); "conflictingTimeframes" lists the rest. Use the timeframe names exactly as given.
+  The "confidence" is High when all timeframes agree, Medium when the higher timeframes agree but a lower one does not, and Low otherwise.
+  The "reason" should be 1-2 sentences naming the timeframes that drive the decision.
+  Example:
+  {
+    "recommendation": "BUY",
+    "confidence": "Medium",
+    "agreeingTimeframes": ["1H", "4H", "1D"],
+    "conflictingTimeframes": ["15min"],
+    "reason": "The 4H and 1D trends are bullish and 1H momentum confirms; the 15min pullback offers an entry rather than a reversal."
+  }
+`,
+});
+
+const generateConfluenceRecommendationFlow = ai.defineFlow(
+  {
+    name: 'generateConfluenceRecommendationFlow',
+    inputSchema: GenerateConfluenceRecommendationInputSchema,
+    outputSchema: GenerateConfluenceRecommendationOutputSchema,
+  },
+  async (input): Promise<GenerateConfluenceRecommendationOutput> => {
+    try {
+      if (input.timeframes.length < 2) {
+        return {
+          recommendation: 'HOLD',
+          agreeingTimeframes: [],
+          conflictingTimeframes: input.timeframes.map(t => t.timeframe),
+          reason: 'Multi-timeframe analysis needs readings on at least two timeframes. Defaulting to HOLD.',
+          error: 'Not enough timeframes for confluence analysis.',
+        };
+      }
+
+      const {output} = await confluencePrompt(promptInputFrom(input));
+      if (!output || !output.recommendation || !output.reason) {
+        console.error('generateConfluenceRecommendationPrompt returned invalid or incomplete output.');
+        return {
+          recommendation: 'HOLD',
+          agreeingTimeframes: [],
+          conflictingTimeframes: [],
+          reason: 'AI analysis failed due to incomplete data from the model. Defaulting to HOLD.',
+          error: 'AI prompt failed to return valid output structure.',
+        };
+      }
+      return {...output, error: undefined};
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : String(e);
+      console.error(`Error in generateConfluenceRecommendationFlow: ${errorMessage}`);
+      let displayError = 'An unexpected error occurred during AI analysis.';
+      if (errorMessage.includes('429') || errorMessage.toLowerCase().includes('quota') || errorMessage.toLowerCase().includes('rate limit')) {
+        displayError = 'AI rate limit exceeded. Please try again in a few moments.';
+      } else if (errorMessage.toLowerCase().includes('api key') || errorMessage.toLowerCase().includes('permission denied')) {
+        displayError = 'AI service API key issue or permission denied.';
+      }
+      return {
+        recommendation: 'HOLD',
+        agreeingTimeframes: [],
+        conflictingTimeframes: [],
+        reason: `AI analysis failed: ${displayError}. Defaulting to HOLD.`,
+        error: displayError,
+      };
+    }
+  }
+);
@@ -7,11 +7,18 @@
  * - generateTradeRecommendation - A function that generates a trade recommendation.
  * - GenerateTradeRecommendationInput - The input type for the generateTradeRecommendation function.
  * - GenerateTradeRecommendationOutput - The return type for the generateTradeRecommendation function.
+ * - TradePlan - Entry zone, stop-loss, targets and invalidation attached to a BUY or SELL.
  */
 
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {reconcileTradePlan} from '@/lib/signals/trade-plan';
+
+const RateProvenanceSchema = z.object({
+  source: z.enum(['fred', 'table']).describe("'fred' is a live FRED observation; 'table' is the stored central-bank rate table, which may be out of date."),
+  asOf: z.string().describe('Date of the FRED observation, or the date the rate table was last reviewed.'),
+});
 
 const GenerateTradeRecommendationInputSchema = z.object({
   rsi: z.number().describe('Relative Strength Index (RSI) value, typically between 0 and 100.'),
@@ -21,18 +28,62 @@ const GenerateTradeRecommendationInputSchema = z.object({
     .describe('Sentiment score derived from news headlines (e.g., -1 for very negative, 0 for neutral, 1 for very positive).'),
   interestRate: z
     .number()
-    .describe('The current benchmark annual interest rate for the primary currency in the pair (e.g., for EUR/USD, the ECB rate for EUR). Presented as a percentage, e.g., 1.5 for 1.5%.'),
+    .optional()
+    .describe('The current benchmark annual interest rate for the primary currency in the pair (e.g., for EUR/USD, the ECB rate for EUR). Presented as a percentage, e.g., 1.5 for 1.5%. Absent when no source has a rate.'),
+  interestRateProvenance: RateProvenanceSchema.optional().describe('Where interestRate came from when it was fetched; absent for a user-supplied rate, as in the backtest replay.'),
+  rateDifferential: z.object({
+    baseCurrency: z.string(),
+    quoteCurrency: z.string(),
+    baseRate: z.number().describe('Policy rate of the base currency, percent.'),
+    quoteRate: z.number().describe('Policy rate of the quote currency, percent.'),
+    differential: z.number().describe('Base rate minus quote rate, percentage points. Positive means holding the pair long earns carry.'),
+    change3m: z.number().optional().describe('Change of the differential over 3 months, points.'),
+    change6m: z.number().optional().describe('Change of the differential over 6 months, points.'),
+    change12m: z.number().optional().describe('Change of the differential over 12 months, points.'),
+    provenance: RateProvenanceSchema.optional(),
+  }).optional().describe('For FX pairs: both legs\' policy rates and their differential. When present it replaces interestRate in the analysis.'),
   price: z.number().describe('Current market price of the currency pair or asset.'),
   marketStatus: z.string().optional().describe('Current market status (e.g., "open", "closed", "extended-hours"). If "closed" or other non-open status, analysis is based on last available data.'),
+  atr: z.number().optional().describe('Average True Range (ATR 14) in price units; the typical bar range, used to size stops and targets.'),
+  supportLevels: z.array(z.number()).optional().describe('Support levels below the price, nearest first.'),
+  resistanceLevels: z.array(z.number()).optional().describe('Resistance levels above the price, nearest first.'),
+  upcomingEvents: z.array(z.object({
+    event: z.string().describe('Name of the scheduled release, e.g. "Non-Farm Payrolls".'),
+    currency: z.string().describe('Currency the release concerns.'),
+    minutesUntil: z.number().describe('Minutes until the release.'),
+  })).optional().describe('High-impact releases coming up for the currencies of the asset, soonest first.'),
+  recentReleases: z.array(z.object({
+    event: z.string().describe('Name of the release.'),
+    currency: z.string().describe('Currency the release concerns.'),
+    minutesAgo: z.number().describe('Minutes since the release.'),
+    actual: z.string().optional().describe('Printed value, with unit.'),
+    forecast: z.string().optional().describe('Consensus forecast, with unit.'),
+    surprisePct: z.number().optional().describe('Actual minus forecast, relative to the forecast, in percent. Positive means above forecast.'),
+  })).optional().describe('High-impact releases already out for the currencies of the asset, most recent first.'),
 });
 
 export type GenerateTradeRecommendationInput = z.infer<
   typeof GenerateTradeRecommendationInputSchema
 >;
 
+const TradePlanSchema = z.object({
+  entryZone: z.object({
+    low: z.number().describe('Lower bound of the entry zone.'),
+    high: z.number().describe('Upper bound of the entry zone.'),
+  }).describe('Price range in which to enter.'),
+  stopLoss: z.number().describe('Stop-loss price, beyond the nearest support (BUY) or resistance (SELL).'),
+  takeProfits: z.array(z.number()).describe('Take-profit targets, nearest first.'),
+  riskReward: z.number().describe('Reward to risk at the first target, measured from the middle of the entry zone.'),
+  invalidation: z.string().describe('Condition under which the trade idea no longer holds.'),
+});
+
+export type TradePlan = z.infer<typeof TradePlanSchema>;
+
 const GenerateTradeRecommendationOutputSchema = z.object({
   recommendation: z.enum(['BUY', 'SELL', 'HOLD']).describe('Trade recommendation.'),
   reason: z.string().describe('Reasoning behind the recommendation.'),
+  confidence: z.enum(['High', 'Medium', 'Low']).optional().describe('Confidence level in the recommendation.'),
+  tradePlan: TradePlanSchema.optional().describe('Entry, stop and targets for a BUY or SELL; omitted for HOLD.'),
   error: z.string().optional().describe('An error message if the generation failed.'),
 });
 
@@ -46,9 +97,27 @@ export async function generateTradeRecommendation(
   return generateTradeRecommendationFlow(input);
 }
 
+// Handlebars treats 0 as false, so presence is passed as flags or preformatted text (a 0% rate is still a rate)
+const RecommendationPromptInputSchema = GenerateTradeRecommendationInputSchema.extend({
+  hasInterestRate: z.boolean(),
+  rateDifferentialChanges: z.string().optional().describe('The differential changes that are known, e.g. ", 3-month change 0".'),
+});
+
+type RecommendationPromptInput = z.infer<typeof RecommendationPromptInputSchema>;
+
+function promptInputFrom(input: GenerateTradeRecommendationInput): RecommendationPromptInput {
+  const changes = input.rateDifferential
+    ? ([['3-month', input.rateDifferential.change3m], ['6-month', input.rateDifferential.change6m], ['12-month', input.rateDifferential.change12m]] as const)
+        .filter(([, change]) => change !== undefined)
+        .map(([label, change]) => `, ${label} change ${change}`)
+        .join('')
+    : '';
+  return { ...input, hasInterestRate: input.interestRate !== undefined, rateDifferentialChanges: changes || undefined };
+}
+
 const recommendationPrompt = ai.definePrompt({
   name: 'generateTradeRecommendationPrompt',
-  input: {schema: GenerateTradeRecommendationInputSchema},
+  input: {schema: RecommendationPromptInputSchema},
   output: {schema: GenerateTradeRecommendationOutputSchema.omit({ error: true })},
   prompt: `You are an AI-powered Forex and Assets trading assistant. Based on the provided market data, sentiment analysis, and economic indicators, provide a concise trade recommendation (BUY, SELL, or HOLD) and the reasoning behind it.
 
@@ -57,15 +126,50 @@ const recommendationPrompt = ai.definePrompt({
   - RSI (Relative Strength Index): {{rsi}}
   - MACD (Value - indicative of trend strength/direction): {{macd}}
   - News Sentiment Score: {{sentimentScore}} (Range: -1 to 1, positive is good for asset, negative is bad)
-  - Benchmark Interest Rate (for primary currency/asset's economy): {{interestRate}}%
+  {{#if rateDifferential}}
+  - Policy Rates: {{rateDifferential.baseCurrency}} {{rateDifferential.baseRate}}% vs {{rateDifferential.quoteCurrency}} {{rateDifferential.quoteRate}}%
+  - Rate Differential (base − quote): {{rateDifferential.differential}} points{{rateDifferentialChanges}}
+  {{#if rateDifferential.provenance}}
+  - Rate Source: {{rateDifferential.provenance.source}} as of {{rateDifferential.provenance.asOf}}
+  {{/if}}
+  {{else if hasInterestRate}}
+  - Benchmark Interest Rate (for primary currency/asset's economy): {{interestRate}}%{{#if interestRateProvenance}} (source: {{interestRateProvenance.source}} as of {{interestRateProvenance.asOf}}){{/if}}
+  {{else}}
+  - Benchmark Interest Rate: unavailable. Do not factor interest rates into this recommendation.
+  {{/if}}
   {{#if marketStatus}}
   - Market Status: {{marketStatus}} (Note: If status is not 'open', this analysis is based on last available data from an active session. Market conditions can change significantly upon reopening.)
   {{/if}}
+  {{#if atr}}
+  - ATR (14): {{atr}}
+  {{/if}}
+  {{#if supportLevels}}
+  - Support Levels (nearest first): {{#each supportLevels}}{{this}} {{/each}}
+  {{/if}}
+  {{#if resistanceLevels}}
+  - Resistance Levels (nearest first): {{#each resistanceLevels}}{{this}} {{/each}}
+  {{/if}}
+
+  {{#if upcomingEvents}}
+  Upcoming High-Impact Events:
+  {{#each upcomingEvents}}
+  - {{event}} ({{currency}}) in {{minutesUntil}} minutes
+  {{/each}}
+  {{/if}}
+  {{#if recentReleases}}
+  Recent High-Impact Releases:
+  {{#each recentReleases}}
+  - {{event}} ({{currency}}), {{minutesAgo}} minutes ago: actual {{#if actual}}{{actual}}{{else}}n/a{{/if}} vs forecast {{#if forecast}}{{forecast}}{{else}}n/a{{/if}}{{#if surprisePct}} (surprise {{surprisePct}}%){{/if}}
+  {{/each}}
+  {{/if}}
 
   General Trading Principles to Consider:
   - RSI: <30 often indicates oversold (potential BUY), >70 often indicates overbought (potential SELL). Mid-range (30-70) is neutral.
   - MACD: Positive MACD and/or MACD crossing above its signal line (not provided, use MACD value itself as proxy for momentum) can indicate bullish momentum. Negative MACD or crossing below signal can indicate bearish momentum.
   - Sentiment: Positive sentiment generally supports BUY, negative supports SELL.
+  - Scheduled Events: A high-impact release within the next hour can override the technical picture; lower the confidence or prefer HOLD. A large surprise in a recent release moves its currency in the direction of the surprise (a stronger-than-forecast print supports the currency, a weaker one weighs on it); for a pair, a surprise for the quote currency works in the opposite direction.
+  - Rate Differential (FX pairs): A positive differential means a long position earns carry and supports BUY; a negative one supports SELL. A widening differential (positive change) strengthens the case, a narrowing one weakens it. Judge the pair on the differential, not on either rate alone.
+  - Rate Sources: A rate whose source is 'table' comes from a stored central-bank table, not live data. It may be stale, so weigh it less and say so in the reason if it drives the call.
   - Interest Rates: Higher interest rates (or expectations of hikes) for a currency can make it more attractive (potential BUY), assuming other factors are stable. Lower rates can make it less attractive (potential SELL). For assets like Gold, lower real interest rates can be supportive.
 
   Simplified Rule-Based Logic (Apply with nuance):
@@ -73,17 +177,27 @@ const recommendationPrompt = ai.definePrompt({
   - Strong SELL conditions: RSI is high (e.g., > 65) AND Sentiment is negative (e.g., < -0.3) AND MACD indicates downtrend (e.g., negative and falling, or just strongly negative) AND Interest rates are unfavorable or unstable for the asset.
   - Otherwise, if conditions are mixed, unclear, or indicators are neutral, recommend HOLD.
 
+  Trade Plan (only for BUY or SELL, and only when ATR is provided; omit "tradePlan" for HOLD):
+  - "entryZone": from the current price to about 0.25 ATR toward a better fill (below the price for BUY, above for SELL).
+  - "stopLoss": beyond the nearest support (BUY) or resistance (SELL) plus a 0.5 ATR buffer, and between 1 and 3 ATR from the entry. Without a usable level, 1.5 ATR from the entry.
+  - "takeProfits": the next resistance (BUY) or support (SELL) levels that pay at least the risk, nearest first; otherwise 2x the risk from the entry.
+  - "riskReward": distance to the first target divided by the distance to the stop, from the middle of the entry zone.
+  - "invalidation": one sentence naming the price or event that would void the idea.
+
   Your Output (JSON format):
-  Provide only a JSON object with "recommendation" and "reason".
+  Provide only a JSON object with "recommendation", "confidence", "reason" and, for BUY or SELL, "tradePlan".
+  The "confidence" is High, Medium, or Low: High when most factors agree, Low when the call rests on a single factor or the data conflicts.
   The "reason" should be a brief, clear explanation (1-2 sentences) incorporating the key factors influencing your decision. If market status was provided and not 'open', briefly acknowledge this in the reason.
   Example (if market closed):
   {
     "recommendation": "BUY",
+    "confidence": "Medium",
     "reason": "Based on last session data (market closed), RSI is oversold at {{rsi}}, sentiment remains positive, and MACD shows potential for an upward move. Current interest rates are supportive. Monitor at market open."
   }
   Example (if market open):
   {
     "recommendation": "BUY",
+    "confidence": "High",
     "reason": "RSI is oversold at {{rsi}}, sentiment remains positive, and MACD shows potential for an upward move. Current interest rates are supportive."
   }
 `,
@@ -98,7 +212,7 @@ const generateTradeRecommendationFlow = ai.defineFlow(
   async (input): Promise<GenerateTradeRecommendationOutput> => {
     try {
       // Validate inputs to prevent issues with the prompt
-      if (input.rsi === undefined || input.macd === undefined || input.sentimentScore === undefined || input.interestRate === undefined || input.price === undefined) {
+      if (input.rsi === undefined || input.macd === undefined || input.sentimentScore === undefined || input.price === undefined) {
         console.error('generateTradeRecommendationFlow received incomplete input:', input);
         return {
           recommendation: 'HOLD',
@@ -107,7 +221,7 @@ const generateTradeRecommendationFlow = ai.defineFlow(
         };
       }
 
-      const {output} = await recommendationPrompt(input);
+      const {output} = await recommendationPrompt(promptInputFrom(input));
       if (!output || !output.recommendation || !output.reason) {
          console.error('generateTradeRecommendationPrompt returned invalid or incomplete output.');
          return {
@@ -116,7 +230,7 @@ const generateTradeRecommendationFlow = ai.defineFlow(
            error: 'AI prompt failed to return valid output structure.',
          };
       }
-      return {...output, error: undefined }; 
+      return {...output, tradePlan: reconcileTradePlan(output.recommendation, input, output.tradePlan), error: undefined }; 
     } catch (e) {
       const errorMessage = e instanceof Error ? e.message : String(e);
       console.error(`Error in generateTradeRecommendationFlow: ${errorMessage}`);
@@ -0,0 +1,48 @@
+'use server';
+
+import { generateConfluenceRecommendation } from '@/ai/flows/generate-confluence-recommendation';
+import { runProviderCascade } from '@/lib/market-data/cascade';
+import type { MarketAsset } from '@/lib/market-data/types';
+import { resolveApiKeys } from '@/lib/settings/server-keys';
+import { CONFLUENCE_TIMEFRAMES, readTimeframe, summarizeConfluence, type ConfluenceReport, type TimeframeReading } from '@/lib/signals/confluence';
+
+export type { ConfluenceReport, ConfluenceSummary, TimeframeBias, TimeframeReading } from '@/lib/signals/confluence';
+
+const MIN_TIMEFRAMES_WITH_DATA = 2;
+
+/**
+ * Reads trend and momentum for `asset` on each of `timeframeIds` and asks the confluence flow which of them agree.
+ * Timeframes are fetched one after another so the cascade's request budgets see each call; cached candles are reused.
+ */
+export async function analyzeConfluence(asset: MarketAsset, timeframeIds: string[] = CONFLUENCE_TIMEFRAMES): Promise<ConfluenceReport> {
+  const apiKeys = await resolveApiKeys();
+  const readings: TimeframeReading[] = [];
+  let marketStatus: string | undefined;
+  for (const timeframeId of timeframeIds) {
+    const marketData = await runProviderCascade(asset, timeframeId, apiKeys);
+    readings.push(readTimeframe(timeframeId, marketData));
+    marketStatus ??= marketData.marketStatus;
+  }
+
+  const summary = summarizeConfluence(readings);
+  const report: ConfluenceReport = { assetName: asset.name, readings, summary, generatedAt: Date.now() };
+  const withData = readings.filter(r => r.close !== undefined);
+  if (withData.length < MIN_TIMEFRAMES_WITH_DATA) {
+    report.error = `Only ${withData.length} of ${readings.length} timeframes returned data; confluence needs at least ${MIN_TIMEFRAMES_WITH_DATA}.`;
+    return report;
+  }
+
+  report.recommendation = await generateConfluenceRecommendation({
+    assetName: asset.name,
+    timeframes: withData.map(({ timeframe, trend, momentum, close, rsi, macdHistogram }) => ({
+      timeframe,
+      trend,
+      momentum,
+      close,
+      rsi: rsi === undefined ? undefined : parseFloat(rsi.toFixed(2)),
+      macdHistogram: macdHistogram === undefined ? undefined : parseFloat(macdHistogram.toFixed(6)),
+    })),
+    marketStatus,
+  });
+  return report;
+}
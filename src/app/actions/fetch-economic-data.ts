@@ -1,18 +1,10 @@
 
 'use server';
 
-// This interface is now shared and needs to be consistent with page.tsx
-interface AssetEconomicIds {
-  openexchangerates?: string; // Base currency (e.g., EUR) or commodity ticker (XAU)
-  exchangerateapi?: string;   // Base currency (e.g., EUR)
-}
-
-interface Asset {
-  name: string;
-  type: string;
-  economicIds: AssetEconomicIds;
-  // marketIds are handled by fetch-market-data.ts
-}
+import type { Asset } from '@/lib/assets/types';
+import { cached, cacheKey } from '@/lib/cache/cached';
+import { budgetExceededMessage, noteRateLimited, tryAcquire } from '@/lib/rate-limit/limiter';
+import { resolveApiKeys } from '@/lib/settings/server-keys';
 
 export interface EconomicData {
   indicatorName: string;
@@ -24,6 +16,27 @@ export interface EconomicData {
   providerSpecificError?: boolean;
 }
 
+// Latest-rates responses depend only on the base currency, so every asset using it shares one cached copy.
+// Error bodies are not cached. `budgetError` is set instead of a body when the request budget is used up.
+function fetchLatestRates(
+  provider: 'openExchangeRates' | 'exchangeRateApi',
+  apiKey: string,
+  base: string,
+  url: string
+): Promise<{ data?: any; budgetError?: string }> {
+  const load = async () => {
+    const budget = tryAcquire(provider, apiKey);
+    const label = provider === 'openExchangeRates' ? 'OpenExchangeRates.org' : 'ExchangeRate-API.com';
+    if (!budget.ok) return { budgetError: budgetExceededMessage(label, budget.retryAfterMs) };
+    const response = await fetch(url, { cache: 'no-store' });
+    if (response.status === 429) noteRateLimited(provider, apiKey);
+    return { data: await response.json() };
+  };
+  return cached(cacheKey('fxRates', provider, base), 'fxRates', load, {
+    cacheable: ({ data }) => !!data && !data.error && data.result !== 'error',
+  });
+}
+
 // OpenExchangeRates specific helper (already exists and adapted)
 function getSymbolsForOpenExchangeRates(assetEconomicId: string, assetType: string): { base: string, target: string, isCommodityOrCrypto: boolean, originalId: string } {
   const parts = assetEconomicId.split('/'); // e.g. "EUR/USD" might be passed as asset.name if economicId is just "EUR"
@@ -81,8 +94,12 @@ async function fetchFromOpenExchangeRates(
   let isKeyOrRateLimitError = false;
 
   try {
-    const response = await fetch(apiUrl, { next: { revalidate: 3600 } });
-    const data = await response.json();
+    const { data, budgetError } = await fetchLatestRates('openExchangeRates', apiKey, 'USD', apiUrl);
+    if (budgetError) {
+      result.error = budgetError;
+      result.providerSpecificError = true;
+      return result;
+    }
 
     if (data.error) {
         let errorMessage = `API Error ${data.status || ''}: ${data.message || 'Unknown error'}.`;
@@ -191,14 +208,18 @@ async function fetchFromExchangeRateApi(
   let isKeyOrRateLimitError = false;
 
   try {
-    const response = await fetch(apiUrl, { next: { revalidate: 3600 } });
-    const data = await response.json();
+    const { data, budgetError } = await fetchLatestRates('exchangeRateApi', apiKey, baseCurrency, apiUrl);
+    if (budgetError) {
+      result.error = budgetError;
+      result.providerSpecificError = true;
+      return result;
+    }
 
     if (data.result === 'error') {
       let errorType = data['error-type'] || 'Unknown error';
       if (errorType === 'invalid-key') { errorType = 'Invalid API Key.'; isKeyOrRateLimitError = true;}
       else if (errorType === 'inactive-account') { errorType = 'Inactive account.'; isKeyOrRateLimitError = true;}
-      else if (errorType === 'quota-reached') { errorType = 'Quota reached.'; isKeyOrRateLimitError = true;}
+      else if (errorType === 'quota-reached') { errorType = 'Quota reached.'; isKeyOrRateLimitError = true; noteRateLimited('exchangeRateApi', apiKey); }
       result.error = `ExchangeRate-API.com: ${errorType}`;
       result.providerSpecificError = isKeyOrRateLimitError;
       return result;
@@ -241,12 +262,9 @@ async function fetchFromExchangeRateApi(
 
 
 export async function fetchEconomicData(
-  asset: Asset,
-  apiKeys: {
-    openExchangeRates?: string | null;
-    exchangeRateApi?: string | null;
-  }
+  asset: Asset
 ): Promise<EconomicData> {
+  const apiKeys = await resolveApiKeys();
   let economicData: EconomicData = { 
     indicatorName: `Economic Data for ${asset.name}`, 
     value: 'N/A', 
@@ -1,31 +1,85 @@
-
 'use server';
 
-// This file is no longer used as the Tradays Economic Calendar is embedded as a widget.
-// It can be safely deleted or kept for reference if direct API access is desired in the future.
-
-export interface EconomicEvent {
-  id: string;
-  releaseTime: string;
-  currency: string;
-  countryCode: string;
-  title: string;
-  impact: 'Low' | 'Medium' | 'High' | 'Holiday';
-  actual?: string;
-  forecast?: string;
-  previous?: string;
-  timestamp: number;
-}
+import { cached, cacheKey } from '@/lib/cache/cached';
+import { currenciesForAsset } from '@/lib/calendar/currencies';
+import { getEconomicCalendarProvider } from '@/lib/calendar/registry';
+import type { EconomicEventsQuery, EconomicEventsResult } from '@/lib/calendar/types';
+import type { Asset } from '@/lib/assets/types';
+import { resolveApiKeys } from '@/lib/settings/server-keys';
+import { assessEventRisk, mergeEventRiskConfig, type EventRisk, type EventRiskConfig } from '@/lib/signals/event-risk';
+
+export type {
+  EconomicEvent,
+  EconomicEventsQuery,
+  EconomicEventsResult,
+  EconomicImpact,
+} from '@/lib/calendar/types';
+export type { EventRisk, RiskEvent } from '@/lib/signals/event-risk';
+
+const DAY_MS = 86_400_000;
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 31;
+
+/**
+ * Economic releases from the configured calendar provider (ECONOMIC_CALENDAR_PROVIDER, default Finnhub), filtered
+ * by currency and impact. The provider is asked for whole UTC days, so nearby ranges share one cached response.
+ */
+export async function fetchEconomicEvents(query: EconomicEventsQuery = {}): Promise<EconomicEventsResult> {
+  const from = query.from ?? Math.floor(Date.now() / DAY_MS) * DAY_MS;
+  const to = query.to ?? from + DEFAULT_RANGE_DAYS * DAY_MS;
+  if (to <= from) return { events: [], error: 'The calendar range must end after it starts.' };
+  if (to - from > MAX_RANGE_DAYS * DAY_MS) return { events: [], error: `The calendar range is limited to ${MAX_RANGE_DAYS} days.` };
 
-export async function fetchEconomicEvents(
-  // date?: Date // Parameter no longer needed
-): Promise<{ events: EconomicEvent[]; error?: string }> {
-  console.warn(
-    'fetchEconomicEvents server action is deprecated. Tradays calendar is now an embedded widget.'
+  const provider = getEconomicCalendarProvider();
+  const dayFrom = Math.floor(from / DAY_MS) * DAY_MS;
+  const dayTo = Math.ceil(to / DAY_MS) * DAY_MS;
+  const apiKeys = await resolveApiKeys();
+  const result = await cached(
+    cacheKey('economicEvents', provider.id, dayFrom, dayTo),
+    'economicEvents',
+    () => provider.fetchEvents(dayFrom, dayTo, apiKeys),
+    { cacheable: data => !data.error },
   );
-  return {
-    events: [],
-    error:
-      'This data fetching method is deprecated. The economic calendar is now an embedded widget.',
-  };
+
+  const currencies = query.currencies?.length ? new Set(query.currencies.map(c => c.toUpperCase())) : undefined;
+  const impacts = query.impacts?.length ? new Set(query.impacts) : undefined;
+  const events = result.events
+    .filter(event => event.timestamp >= from && event.timestamp < to)
+    .filter(event => !currencies || currencies.has(event.currency))
+    .filter(event => !impacts || impacts.has(event.impact))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  return { events, sourceProvider: result.sourceProvider, error: result.error };
+}
+
+// EVENT_BLACKOUT_MINUTES is "<before>/<after>" (e.g. "30/15") or one number for both; EVENT_BLACKOUT_ACTION is
+// "suppress" (signals become HOLD) or "downgrade" (Low confidence, no trade plan)
+function eventRiskConfigFromEnv(): EventRiskConfig {
+  const overrides: Partial<EventRiskConfig> = {};
+  const window = process.env.EVENT_BLACKOUT_MINUTES?.trim();
+  if (window) {
+    const [before, after = before] = window.split('/').map(Number);
+    if (before >= 0 && after >= 0) { // NaN fails both
+      overrides.blackoutBeforeMinutes = before;
+      overrides.blackoutAfterMinutes = after;
+    }
+  }
+  const action = process.env.EVENT_BLACKOUT_ACTION?.trim().toLowerCase();
+  if (action === 'suppress' || action === 'downgrade') overrides.action = action;
+  return mergeEventRiskConfig(overrides);
+}
+
+/** High-impact releases around now for the currencies of `asset`, and whether a blackout is in force. */
+export async function getEventRisk(asset: Pick<Asset, 'name' | 'economicIds'>): Promise<EventRisk> {
+  const config = eventRiskConfigFromEnv();
+  const now = Date.now();
+  const currencies = currenciesForAsset(asset);
+  const { events, error } = await fetchEconomicEvents({
+    from: now - config.lookbackHours * 3_600_000,
+    to: now + config.lookaheadHours * 3_600_000 + 1,
+    currencies,
+    impacts: config.impacts,
+  });
+  const risk = assessEventRisk(events, currencies, config, now);
+  if (error) risk.error = error;
+  return risk;
 }
@@ -1,78 +1,156 @@
-
 'use server';
 
-import { format } from 'date-fns';
+import { format, subMonths } from 'date-fns';
+import type { Asset } from '@/lib/assets/types';
+import { cached, cacheKey } from '@/lib/cache/cached';
+import { fetchFredHistory, requestFredObservations } from '@/lib/fred/client';
+import { policyRateSeriesFor } from '@/lib/fred/series';
+import { policyRatePath, rateInForce } from '@/lib/policy-rates/table';
+import type { RateProvenance } from '@/lib/policy-rates/types';
+import { resolveApiKeys } from '@/lib/settings/server-keys';
+import { computeRateDifferential, pairCurrencies, type PolicyRateSeries, type RateDifferential } from '@/lib/signals/rate-differential';
+import { getPolicyRateTable } from './manage-policy-rates';
+
+export type { DifferentialHorizon, RateDifferential } from '@/lib/signals/rate-differential';
+export type { RateProvenance } from '@/lib/policy-rates/types';
+
+type RateSourceProvider = 'FRED' | 'Policy-rate table';
 
 export interface InterestRateData {
   rate?: number;
   seriesId?: string;
-  lastUpdated?: string;
+  lastUpdated?: string;      // FRED observation date, or the table entry's effective date
+  provenance?: RateProvenance; // Set whenever `rate` is
+  error?: string;            // Kept when the rate came from the table, so the next refresh retries FRED
+  sourceProvider: RateSourceProvider;
+}
+
+export interface RateDifferentialData {
+  differential?: RateDifferential;
   error?: string;
-  sourceProvider: 'FRED';
+  sourceProvider: RateSourceProvider;
 }
 
-const FRED_SERIES_MAP: Record<string, string> = {
-  USD: 'FEDFUNDS',                // Federal Funds Effective Rate
-  EUR: 'ECBDFR',                  // ECB Deposit Facility Rate
-  JPY: 'BOJDPBAL',                // Bank of Japan Complementary Deposit Facility Rate
-  GBP: 'BOEPR',                   // Bank of England Official Bank Rate (Corrected from IUMABEDR)
-  AUD: 'RBATCTR',                 // Cash Rate Target, RBA
-  CAD: 'V122530',                 // Bank of Canada Overnight Rate Target
-  CHF: 'SNBCHFMA',                // SNB Policy Rate
-  NZD: 'RBNZOCRHC',               // Official Cash Rate, RBNZ
-  // SGD: 'IRSTCB01SGM156N' // Example: OECD Short-term rate for Singapore (monthly, might not be ideal)
-  // For SGD, direct daily policy rate from FRED might be tricky. Fallback estimation might be better.
-};
+const DIFFERENTIAL_HISTORY_MONTHS = 13; // 12-month change plus a month for series published with a lag
+const LATEST_LOOKBACK = 5;              // Recent observations requested, so a missing latest value falls back to the one before
 
+/** Policy rate for `primaryCurrency` from FRED, or from the user's central-bank rate table when FRED has none. */
 export async function fetchInterestRate(
-  primaryCurrency: string,
-  apiKey: string
+  primaryCurrency: string
 ): Promise<InterestRateData> {
+  const live = await fetchLiveRate(primaryCurrency);
+  return live.rate === undefined ? withTableRate(live, primaryCurrency) : live;
+}
+
+async function fetchLiveRate(primaryCurrency: string): Promise<InterestRateData> {
   const result: InterestRateData = { sourceProvider: 'FRED' };
+  const apiKey = (await resolveApiKeys()).fred;
 
   if (!apiKey) {
     result.error = 'FRED API key not provided.';
     return result;
   }
 
-  const seriesId = FRED_SERIES_MAP[primaryCurrency.toUpperCase()];
+  const seriesId = policyRateSeriesFor(primaryCurrency)?.id;
   result.seriesId = seriesId;
 
   if (!seriesId) {
-    result.error = `No FRED series ID mapped for currency: ${primaryCurrency}. Interest rate will be estimated.`;
+    result.error = `No FRED series ID mapped for currency: ${primaryCurrency}.`;
     return result;
   }
 
-  const apiUrl = `https://api.stlouisfed.org/fred/series/observations?series_id=${seriesId}&api_key=${apiKey}&file_type=json&limit=1&sort_order=desc`;
-
-  try {
-    const response = await fetch(apiUrl, { next: { revalidate: 3600 * 6 } }); // Revalidate every 6 hours
-    const data = await response.json();
-
-    if (!response.ok || data.error_message || !data.observations || data.observations.length === 0) {
-      let errorMessage = data.error_message || response.statusText || 'No observations found.';
-      if (response.status === 400 && data.error_message?.includes('API key')) {
-        errorMessage = 'Invalid FRED API Key.';
-      } else if (response.status === 400 && data.error_message?.toLowerCase().includes('series does not exist')) {
-        errorMessage = `The series ${seriesId} does not exist or is not accessible.`;
-      }
-      result.error = `FRED API Error for ${seriesId}: ${errorMessage}`;
-      return result;
-    }
-
-    const latestObservation = data.observations[0];
-    const rateValue = parseFloat(latestObservation.value);
-
-    if (isNaN(rateValue) || latestObservation.value === '.') {
-      result.error = `FRED: Valid rate not found for ${seriesId}. Last value: '${latestObservation.value}'.`;
-    } else {
-      result.rate = rateValue;
-      result.lastUpdated = latestObservation.date ? format(new Date(latestObservation.date), 'yyyy-MM-dd') : 'N/A';
-    }
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : String(err);
-    result.error = `FRED: Network/Client error for ${seriesId} - ${msg.substring(0, 100)}`;
+  return cached(cacheKey('interestRate', 'fred', seriesId), 'interestRate', () => requestLatestRate(seriesId, apiKey), {
+    cacheable: data => !data.error,
+  });
+}
+
+async function requestLatestRate(seriesId: string, apiKey: string): Promise<InterestRateData> {
+  const result: InterestRateData = { sourceProvider: 'FRED', seriesId };
+  const { observations, error } = await requestFredObservations(seriesId, apiKey, { limit: LATEST_LOOKBACK, sortOrder: 'desc' });
+  const latest = observations?.[observations.length - 1];
+  if (error) {
+    result.error = error;
+  } else if (!latest) {
+    result.error = `FRED: Valid rate not found for ${seriesId} in its last ${LATEST_LOOKBACK} observations.`;
+  } else {
+    result.rate = latest.value;
+    result.lastUpdated = latest.date;
+    result.provenance = { source: 'fred', asOf: latest.date };
   }
+  return result;
+}
 
+async function withTableRate(live: InterestRateData, currency: string): Promise<InterestRateData> {
+  const { table } = await getPolicyRateTable();
+  const entry = rateInForce(table, currency, format(new Date(), 'yyyy-MM-dd'));
+  if (!entry) return { ...live, error: `${live.error} The rate table has no entry for ${currency.toUpperCase()} either.` };
+  return {
+    rate: entry.rate,
+    seriesId: live.seriesId,
+    lastUpdated: entry.effectiveDate,
+    provenance: { source: 'table', asOf: table.asOf, tableVersion: table.version },
+    error: live.error,
+    sourceProvider: 'Policy-rate table',
+  };
+}
+
+/**
+ * Policy rates of both legs of an FX pair, their differential (base − quote), daily carry and how the differential
+ * changed over 3, 6 and 12 months. Uses FRED history, or the user's rate table for both legs when FRED can't supply
+ * either. Errors for non-FX assets.
+ */
+export async function fetchRateDifferential(asset: Pick<Asset, 'name' | 'type'>): Promise<RateDifferentialData> {
+  const pair = asset.type === 'currency' ? pairCurrencies(asset.name) : undefined;
+  if (!pair) return { error: `Rate differentials apply to FX pairs; ${asset.name} is not one.`, sourceProvider: 'FRED' };
+  const live = await fetchLiveDifferential(pair);
+  return live.differential ? live : withTableDifferential(live, pair);
+}
+
+async function fetchLiveDifferential(pair: [string, string]): Promise<RateDifferentialData> {
+  const result: RateDifferentialData = { sourceProvider: 'FRED' };
+  const apiKey = (await resolveApiKeys()).fred;
+  if (!apiKey) {
+    result.error = 'FRED API key not provided.';
+    return result;
+  }
+  const [baseSeries, quoteSeries] = pair.map(policyRateSeriesFor);
+  if (!baseSeries || !quoteSeries) {
+    result.error = `No FRED series ID mapped for currency: ${pair.filter(currency => !policyRateSeriesFor(currency)).join(', ')}.`;
+    return result;
+  }
+
+  const start = format(subMonths(new Date(), DIFFERENTIAL_HISTORY_MONTHS), 'yyyy-MM-01');
+  const [base, quote] = await Promise.all([baseSeries, quoteSeries].map(series => fetchFredHistory(series.id, apiKey, start)));
+  const failed = [base, quote].find(history => history.error);
+  if (failed) {
+    result.error = failed.error;
+    return result;
+  }
+  const differential = computeRateDifferential(
+    { currency: pair[0], seriesId: baseSeries.id, observations: base.observations! },
+    { currency: pair[1], seriesId: quoteSeries.id, observations: quote.observations! },
+  );
+  if (differential) result.differential = { ...differential, provenance: { source: 'fred', asOf: differential.lastUpdated } };
+  else result.error = `FRED returned no observations for ${pair.join('/')} since ${start}.`;
   return result;
 }
+
+async function withTableDifferential(live: RateDifferentialData, pair: [string, string]): Promise<RateDifferentialData> {
+  const { table } = await getPolicyRateTable();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [base, quote] = pair.map((currency): PolicyRateSeries => ({
+    currency,
+    seriesId: `table v${table.version}`,
+    observations: policyRatePath(table, currency).filter(o => o.date <= today), // Ignore decisions scheduled ahead
+  }));
+  const differential = computeRateDifferential(base, quote);
+  if (!differential) {
+    const missing = [base, quote].filter(series => series.observations.length === 0).map(series => series.currency);
+    return { ...live, error: `${live.error} The rate table has no entry for ${missing.join(', ')} either.` };
+  }
+  return {
+    differential: { ...differential, provenance: { source: 'table', asOf: table.asOf, tableVersion: table.version } },
+    error: live.error,
+    sourceProvider: 'Policy-rate table',
+  };
+}
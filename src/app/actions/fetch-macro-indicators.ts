@@ -0,0 +1,86 @@
+'use server';
+
+import { format, subYears } from 'date-fns';
+import { lastChange, spreadSeries, yearOverYear, type SeriesChange } from '@/lib/fred/analysis';
+import { fetchFredHistory } from '@/lib/fred/client';
+import { policyRateSeriesFor, US_CPI, US_TREASURY_10Y, US_TREASURY_2Y } from '@/lib/fred/series';
+import type { FredObservation, FredSeriesInfo } from '@/lib/fred/types';
+import { resolveApiKeys } from '@/lib/settings/server-keys';
+
+export type { FredObservation, FredSeriesInfo } from '@/lib/fred/types';
+export type { SeriesChange } from '@/lib/fred/analysis';
+
+export interface MacroSeries {
+  info: FredSeriesInfo;
+  observations: FredObservation[]; // Oldest first, from MacroIndicators.from; CPI as year-over-year percent
+  latest?: FredObservation;
+  lastChange?: SeriesChange;       // Policy rates only; yields move every day
+  error?: string;
+}
+
+export interface YieldCurve {
+  spread: number;                  // 10-year minus 2-year yield, percentage points; negative when inverted
+  date: string;
+  history: FredObservation[];
+}
+
+export interface MacroIndicators {
+  policyRates: MacroSeries[];      // One per requested currency with a mapped series
+  yields: MacroSeries[];           // US 2-year and 10-year Treasuries
+  yieldCurve?: YieldCurve;
+  inflation?: MacroSeries;         // US CPI, year over year
+  from: string;                    // Start of the charted history, yyyy-MM-dd
+  error?: string;
+  sourceProvider: 'FRED';
+}
+
+const HISTORY_YEARS = 2;
+
+/**
+ * Policy-rate paths for `currencies`, US 2y/10y yields with the curve spread, and US CPI inflation over the last two
+ * years from FRED. Series fail one by one; `error` is only set when nothing could be fetched.
+ */
+export async function fetchMacroIndicators(currencies: string[]): Promise<MacroIndicators> {
+  const now = new Date();
+  const from = format(subYears(now, HISTORY_YEARS), 'yyyy-MM-01');
+  const result: MacroIndicators = { policyRates: [], yields: [], from, sourceProvider: 'FRED' };
+  const apiKey = (await resolveApiKeys()).fred;
+  if (!apiKey) {
+    result.error = 'FRED API key not provided.';
+    return result;
+  }
+
+  const rateSeries = Array.from(new Set(currencies.map(c => c.toUpperCase())))
+    .map(policyRateSeriesFor)
+    .filter((info): info is FredSeriesInfo => !!info);
+  // CPI starts a year earlier so the first charted month has a year-over-year value
+  const cpiFrom = format(subYears(now, HISTORY_YEARS + 1), 'yyyy-MM-01');
+
+  const [rates, twoYear, tenYear, cpi] = await Promise.all([
+    Promise.all(rateSeries.map(info => fetchFredHistory(info.id, apiKey, from))),
+    fetchFredHistory(US_TREASURY_2Y.id, apiKey, from),
+    fetchFredHistory(US_TREASURY_10Y.id, apiKey, from),
+    fetchFredHistory(US_CPI.id, apiKey, cpiFrom),
+  ]);
+
+  result.policyRates = rateSeries.map((info, i) => {
+    const { observations, error } = rates[i];
+    return { ...toMacroSeries(info, observations, error), lastChange: observations && lastChange(observations) };
+  });
+  result.yields = [toMacroSeries(US_TREASURY_2Y, twoYear.observations, twoYear.error), toMacroSeries(US_TREASURY_10Y, tenYear.observations, tenYear.error)];
+  if (twoYear.observations && tenYear.observations) {
+    const history = spreadSeries(tenYear.observations, twoYear.observations);
+    const latest = history[history.length - 1];
+    if (latest) result.yieldCurve = { spread: latest.value, date: latest.date, history };
+  }
+  result.inflation = toMacroSeries(US_CPI, cpi.observations && yearOverYear(cpi.observations).filter(o => o.date >= from), cpi.error);
+
+  const all = [...result.policyRates, ...result.yields, result.inflation];
+  if (all.every(series => series.error)) result.error = all[0].error;
+  return result;
+}
+
+function toMacroSeries(info: FredSeriesInfo, observations: FredObservation[] | undefined, error?: string): MacroSeries {
+  if (error || !observations) return { info, observations: [], error: error ?? `FRED returned no observations for ${info.id}.` };
+  return { info, observations, latest: observations[observations.length - 1] };
+}
@@ -1,12 +1,12 @@
 
 'use server';
 
-// Define Asset type similar to how it's used in page.tsx for searchKeywords
-interface AssetForNews {
-  name: string;
-  type: 'currency' | 'commodity' | 'crypto';
-  searchKeywords: string[];
-}
+import type { Asset } from '@/lib/assets/types';
+import { cached, cacheKey } from '@/lib/cache/cached';
+import { budgetExceededMessage, noteRateLimited, tryAcquire } from '@/lib/rate-limit/limiter';
+import { resolveApiKeys } from '@/lib/settings/server-keys';
+
+type AssetForNews = Pick<Asset, 'name' | 'type' | 'searchKeywords'>;
 
 export interface NewsHeadlinesResult {
   headlines?: string[];
@@ -35,6 +35,8 @@ function constructNewsApiQuery(asset: AssetForNews): string {
   } else if (asset.type === 'crypto') {
     queryParts.push('cryptocurrency');
     if (assetName.includes('bitcoin')) queryParts.push('BTC');
+  } else if (asset.type === 'index' || asset.type === 'equity') {
+    queryParts.push('stock market');
   }
   
   // Add general financial terms to broaden the search if needed
@@ -53,6 +55,10 @@ function constructNewsApiQuery(asset: AssetForNews): string {
     finalQuery = `(${baseQuery}) AND (commodity OR "supply chain" OR demand)`;
   } else if (asset.type === 'crypto') {
     finalQuery = `(${baseQuery}) AND (crypto OR blockchain OR regulation)`;
+  } else if (asset.type === 'index') {
+    finalQuery = `(${baseQuery}) AND (stocks OR "stock market" OR earnings)`;
+  } else if (asset.type === 'equity') {
+    finalQuery = `(${baseQuery}) AND (shares OR earnings OR analyst)`;
   }
 
 
@@ -62,9 +68,9 @@ function constructNewsApiQuery(asset: AssetForNews): string {
 
 
 export async function fetchNewsHeadlines(
-  asset: AssetForNews, // Use the more detailed asset type
-  apiKey: string
+  asset: AssetForNews // Use the more detailed asset type
 ): Promise<NewsHeadlinesResult> {
+  const apiKey = (await resolveApiKeys()).newsApi;
   if (!apiKey) {
     return { error: 'NewsAPI.org API key not provided.', sourceProvider: 'NewsAPI.org' };
   }
@@ -78,10 +84,22 @@ export async function fetchNewsHeadlines(
     query
   )}&apiKey=${apiKey}&language=${language}&sortBy=${sortBy}&pageSize=${pageSize}`;
 
+  // Keyed by query, so assets sharing keywords share headlines
+  return cached(cacheKey('news', 'newsapi', query), 'news', () => requestHeadlines(url, apiKey, asset.name, query), {
+    cacheable: result => !result.error,
+  });
+}
+
+async function requestHeadlines(url: string, apiKey: string, assetName: string, query: string): Promise<NewsHeadlinesResult> {
   const result: NewsHeadlinesResult = { sourceProvider: 'NewsAPI.org' };
+  const budget = tryAcquire('newsApi', apiKey);
+  if (!budget.ok) {
+    result.error = budgetExceededMessage('NewsAPI.org', budget.retryAfterMs);
+    return result;
+  }
 
   try {
-    const response = await fetch(url, { next: { revalidate: 3600 } }); // Cache for 1 hour
+    const response = await fetch(url, { cache: 'no-store' });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => null);
@@ -90,7 +108,10 @@ export async function fetchNewsHeadlines(
         errorMessage = errorData.message;
       }
       if (response.status === 401) errorMessage = 'Invalid NewsAPI.org API Key.';
-      if (response.status === 429) errorMessage = 'NewsAPI.org rate limit exceeded.';
+      if (response.status === 429) {
+        errorMessage = 'NewsAPI.org rate limit exceeded.';
+        noteRateLimited('newsApi', apiKey);
+      }
       result.error = `NewsAPI.org: ${errorMessage}`;
       return result;
     }
@@ -103,7 +124,7 @@ export async function fetchNewsHeadlines(
     }
 
     if (!data.articles || data.articles.length === 0) {
-      result.error = `NewsAPI.org: No relevant headlines found for "${asset.name}" with query "${query}".`;
+      result.error = `NewsAPI.org: No relevant headlines found for "${assetName}" with query "${query}".`;
       result.headlines = []; // Send empty array rather than undefined
       return result;
     }
@@ -113,7 +134,7 @@ export async function fetchNewsHeadlines(
         .filter((title: string | null): title is string => title !== null && title.trim() !== '');
 
     if (result.headlines.length === 0) {
-         result.error = `NewsAPI.org: No usable headlines found after filtering for "${asset.name}".`;
+         result.error = `NewsAPI.org: No usable headlines found after filtering for "${assetName}".`;
     }
 
 
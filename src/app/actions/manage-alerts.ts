@@ -0,0 +1,198 @@
+'use server';
+
+import { randomUUID } from 'crypto';
+import { runAlertEvaluation, type AlertRunSummary } from '@/lib/alerts/runner';
+import { getAlertStore } from '@/lib/alerts/store';
+import type { AlertChannel, AlertCondition, AlertEvent, AlertRule, AlertRuleInput } from '@/lib/alerts/types';
+import { buildWebhookPayload, checkWebhookTarget, deliverWebhook, isValidWebhookUrl } from '@/lib/alerts/webhook';
+import { getOrCreateSettingsUserId, getSettingsUserId } from '@/lib/settings/server-keys';
+
+export type {
+  AlertChannel,
+  AlertCondition,
+  AlertConditionKind,
+  AlertEvent,
+  AlertRule,
+  AlertRuleInput,
+  CrossDirection,
+} from '@/lib/alerts/types';
+export type { AlertRunSummary } from '@/lib/alerts/runner';
+
+export interface AlertRulesResult {
+  rules: AlertRule[];
+  enabled: boolean; // False when no alert backend is configured
+  error?: string;
+}
+
+export interface AlertEventsResult {
+  events: AlertEvent[];
+  error?: string;
+}
+
+const DISABLED_MESSAGE = 'Alerts are disabled: Firebase is not configured (FIREBASE_SERVICE_ACCOUNT_KEY or GOOGLE_APPLICATION_CREDENTIALS).';
+const CHANNELS: AlertChannel[] = ['toast', 'browser', 'webhook'];
+const MAX_COOLDOWN_MINUTES = 24 * 60;
+// Test sends per minute, per user and across all users (a fresh cookie is only a request away)
+const TEST_WEBHOOK_USER_LIMIT = 5;
+const TEST_WEBHOOK_GLOBAL_LIMIT = 30;
+const TEST_WEBHOOK_WINDOW_MS = 60_000;
+const testWebhookSends = new Map<string, number[]>();
+
+function allowTestWebhook(userId: string): boolean {
+  const now = Date.now();
+  for (const [key, sends] of testWebhookSends) if (now - sends[sends.length - 1] >= TEST_WEBHOOK_WINDOW_MS) testWebhookSends.delete(key);
+  const recent = (key: string) => (testWebhookSends.get(key) ?? []).filter(at => now - at < TEST_WEBHOOK_WINDOW_MS);
+  const mine = recent(userId);
+  const all = recent('*');
+  if (mine.length >= TEST_WEBHOOK_USER_LIMIT || all.length >= TEST_WEBHOOK_GLOBAL_LIMIT) return false;
+  testWebhookSends.set(userId, [...mine, now]);
+  testWebhookSends.set('*', [...all, now]);
+  return true;
+}
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message : String(err)).substring(0, 150);
+
+function validateCondition(condition: AlertCondition): string | undefined {
+  const finite = (...values: number[]) => values.every(v => typeof v === 'number' && Number.isFinite(v));
+  switch (condition.kind) {
+    case 'price-cross':
+      return finite(condition.level) && condition.level > 0 ? undefined : 'Price level must be a positive number.';
+    case 'rsi-zone':
+      return finite(condition.lower, condition.upper) && condition.lower >= 0 && condition.upper <= 100 && condition.lower < condition.upper
+        ? undefined
+        : 'RSI bounds must satisfy 0 <= lower < upper <= 100.';
+    case 'sentiment-cross':
+      return finite(condition.threshold) && Math.abs(condition.threshold) <= 1 ? undefined : 'Sentiment threshold must be between -1 and 1.';
+    case 'macd-flip':
+    case 'signal-change':
+      return undefined;
+    default:
+      return 'Unknown alert condition.';
+  }
+}
+
+function validateRuleInput(input: AlertRuleInput): string | undefined {
+  if (!input.name.trim() || input.name.length > 80) return 'Alert name must be 1-80 characters.';
+  if (!input.asset?.name || !input.timeframe) return 'Asset and timeframe are required.';
+  if (input.channels.length === 0 || input.channels.some(c => !CHANNELS.includes(c))) return 'Choose at least one valid delivery channel.';
+  if (input.channels.includes('webhook') && !(input.webhookUrl && isValidWebhookUrl(input.webhookUrl))) {
+    return 'Webhook delivery needs a valid https URL.';
+  }
+  if (!Number.isFinite(input.cooldownMinutes) || input.cooldownMinutes < 0 || input.cooldownMinutes > MAX_COOLDOWN_MINUTES) {
+    return `Cooldown must be between 0 and ${MAX_COOLDOWN_MINUTES} minutes.`;
+  }
+  return validateCondition(input.condition);
+}
+
+export async function listAlertRules(): Promise<AlertRulesResult> {
+  const store = getAlertStore();
+  if (!store) return { rules: [], enabled: false, error: DISABLED_MESSAGE };
+  const userId = await getSettingsUserId();
+  if (!userId) return { rules: [], enabled: true };
+  try {
+    return { rules: await store.listRules(userId), enabled: true };
+  } catch (err) {
+    console.error('Loading alert rules failed:', err);
+    return { rules: [], enabled: true, error: `Could not load alert rules: ${errorText(err)}` };
+  }
+}
+
+/**
+ * Creates a rule, or replaces `ruleId`'s settings. Editing the condition, asset or timeframe resets the rule's
+ * baseline so it cannot fire on a comparison against a value observed under the old settings.
+ */
+export async function saveAlertRule(input: AlertRuleInput, ruleId?: string): Promise<{ rule?: AlertRule; error?: string }> {
+  const store = getAlertStore();
+  if (!store) return { error: DISABLED_MESSAGE };
+  const invalid = validateRuleInput(input);
+  if (invalid) return { error: invalid };
+  if (input.channels.includes('webhook')) {
+    const blocked = await checkWebhookTarget(input.webhookUrl!);
+    if (blocked) return { error: blocked };
+  }
+
+  try {
+    const userId = await getOrCreateSettingsUserId();
+    const existing = ruleId ? await store.getRule(userId, ruleId) : undefined;
+    if (ruleId && !existing) return { error: 'Alert rule not found.' };
+
+    const sameTarget = existing
+      && existing.asset.name === input.asset.name
+      && existing.timeframe === input.timeframe
+      && JSON.stringify(existing.condition) === JSON.stringify(input.condition);
+    const rule: AlertRule = {
+      ...(sameTarget ? existing : {}),
+      ...input,
+      name: input.name.trim(),
+      webhookUrl: input.channels.includes('webhook') ? input.webhookUrl : undefined,
+      id: existing?.id ?? randomUUID(),
+      createdAt: existing?.createdAt ?? Date.now(),
+    };
+    await store.saveRule(userId, rule);
+    return { rule };
+  } catch (err) {
+    console.error('Saving alert rule failed:', err);
+    return { error: `Could not save alert rule: ${errorText(err)}` };
+  }
+}
+
+export async function deleteAlertRule(ruleId: string): Promise<{ error?: string }> {
+  const store = getAlertStore();
+  if (!store) return { error: DISABLED_MESSAGE };
+  const userId = await getSettingsUserId();
+  if (!userId) return { error: 'Alert rule not found.' };
+  try {
+    await store.deleteRule(userId, ruleId);
+    return {};
+  } catch (err) {
+    return { error: `Could not delete alert rule: ${errorText(err)}` };
+  }
+}
+
+/** Events fired after `since` (Unix ms), newest first. Used by the dashboard to raise toasts and browser notifications. */
+export async function listAlertEvents(since?: number): Promise<AlertEventsResult> {
+  const store = getAlertStore();
+  if (!store) return { events: [], error: DISABLED_MESSAGE };
+  const userId = await getSettingsUserId();
+  if (!userId) return { events: [] };
+  try {
+    return { events: await store.listEvents(userId, since) };
+  } catch (err) {
+    return { events: [], error: `Could not load alert events: ${errorText(err)}` };
+  }
+}
+
+/** Evaluates the current user's rules immediately instead of waiting for the schedule. */
+export async function evaluateMyAlerts(): Promise<AlertRunSummary> {
+  const store = getAlertStore();
+  if (!store) return { rulesEvaluated: 0, triggered: 0, errors: [DISABLED_MESSAGE] };
+  const userId = await getSettingsUserId();
+  if (!userId) return { rulesEvaluated: 0, triggered: 0, errors: [] };
+  return runAlertEvaluation(store, { userId });
+}
+
+/** Sends an `alert.test` payload to the URL so receivers can be checked before a real alert fires. */
+export async function sendTestWebhook(url: string): Promise<{ ok: boolean; message: string }> {
+  if (!isValidWebhookUrl(url)) return { ok: false, message: 'Enter a valid https URL.' };
+  if (!allowTestWebhook(await getOrCreateSettingsUserId())) {
+    return { ok: false, message: 'Too many test webhooks; try again in a minute.' };
+  }
+  const now = Date.now();
+  const payload = buildWebhookPayload({
+    id: randomUUID(),
+    ruleId: 'test',
+    ruleName: 'Test alert',
+    assetName: 'EUR/USD',
+    timeframe: '1H',
+    condition: { kind: 'price-cross', level: 1.1, direction: 'above' },
+    message: 'Price crossed above 1.1 (now 1.1002)',
+    value: 1.1002,
+    previousValue: 1.0998,
+    channels: ['webhook'],
+    triggeredAt: now,
+  }, 'alert.test');
+  const result = await deliverWebhook(url, payload);
+  return result.ok
+    ? { ok: true, message: `Delivered (HTTP ${result.status}).` }
+    : { ok: false, message: result.error ?? 'Delivery failed.' };
+}
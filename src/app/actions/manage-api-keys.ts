@@ -0,0 +1,86 @@
+'use server';
+
+import {
+  API_KEY_PROVIDERS,
+  isApiKeyProviderId,
+  maskApiKey,
+  type ApiKeyProviderId,
+  type ApiKeyStatus,
+  type ConnectionTestResult,
+} from '@/lib/settings/api-keys';
+import { isEncryptionConfigured } from '@/lib/settings/crypto';
+import { testProviderConnection } from '@/lib/settings/connection-test';
+import { getOrCreateSettingsUserId, getSettingsUserId, loadUserSettings, resolveApiKeyFrom } from '@/lib/settings/server-keys';
+import { getSettingsStore } from '@/lib/settings/store';
+
+export type { ApiKeyProviderId, ApiKeyStatus, ConnectionTestResult } from '@/lib/settings/api-keys';
+
+export interface ApiKeyStatusResult {
+  statuses: ApiKeyStatus[];
+  canStoreUserKeys: boolean; // False when SETTINGS_ENCRYPTION_KEY is missing; only environment keys apply
+}
+
+export interface SaveApiKeyResult {
+  status?: ApiKeyStatus;
+  error?: string;
+}
+
+const MAX_KEY_LENGTH = 200;
+
+/** Masked status of every provider key for the current user. Never returns key material. */
+export async function getApiKeyStatuses(): Promise<ApiKeyStatusResult> {
+  const settings = await loadUserSettings(await getSettingsUserId());
+  const statuses = API_KEY_PROVIDERS.map(({ id }) => {
+    const { key, source } = resolveApiKeyFrom(settings, id);
+    return { id, source, ...(key && { maskedKey: maskApiKey(key) }) };
+  });
+  return { statuses, canStoreUserKeys: isEncryptionConfigured() };
+}
+
+async function updateUserKey(id: ApiKeyProviderId, key: string | undefined): Promise<SaveApiKeyResult> {
+  if (!isApiKeyProviderId(id)) return { error: `Unknown provider: ${id}` };
+  if (!isEncryptionConfigured()) {
+    return { error: 'Per-user keys are disabled: SETTINGS_ENCRYPTION_KEY is not set on the server.' };
+  }
+  try {
+    const userId = await getOrCreateSettingsUserId();
+    const updated = await getSettingsStore().update(userId, (settings = { apiKeys: {} }) => {
+      const apiKeys = { ...settings.apiKeys };
+      if (key) apiKeys[id] = key;
+      else delete apiKeys[id];
+      return { ...settings, apiKeys, updatedAt: Date.now() };
+    });
+
+    const { key: resolved, source } = resolveApiKeyFrom(updated, id);
+    return { status: { id, source, ...(resolved && { maskedKey: maskApiKey(resolved) }) } };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`Saving API key for ${id} failed: ${msg}`);
+    return { error: `Could not save settings: ${msg.substring(0, 120)}` };
+  }
+}
+
+export async function saveApiKey(id: ApiKeyProviderId, key: string): Promise<SaveApiKeyResult> {
+  const trimmed = key.trim();
+  if (!trimmed) return { error: 'API key is empty.' };
+  if (trimmed.length > MAX_KEY_LENGTH || /\s/.test(trimmed)) return { error: 'API key format looks invalid.' };
+  return updateUserKey(id, trimmed);
+}
+
+/** Removes the user's key; the environment key (if any) applies again. */
+export async function clearApiKey(id: ApiKeyProviderId): Promise<SaveApiKeyResult> {
+  return updateUserKey(id, undefined);
+}
+
+/** Tests whichever key is currently in effect for the provider (user key first, then environment). */
+export async function testApiKeyConnection(id: ApiKeyProviderId): Promise<ConnectionTestResult> {
+  const testedAt = Date.now();
+  if (!isApiKeyProviderId(id)) return { id, ok: false, message: `Unknown provider: ${id}`, testedAt };
+
+  const settings = await loadUserSettings(await getSettingsUserId());
+  const { key } = resolveApiKeyFrom(settings, id);
+  if (!key) return { id, ok: false, message: 'No API key configured.', testedAt };
+
+  const { ok, message } = await testProviderConnection(id, key);
+  return { id, ok, message, durationMs: Date.now() - testedAt, testedAt };
+}
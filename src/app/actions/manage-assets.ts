@@ -0,0 +1,179 @@
+'use server';
+
+import { MAX_CATALOG_SIZE, normalizeAsset, parseAssetCatalogFile } from '@/lib/assets/catalog';
+import { DEFAULT_ASSETS } from '@/lib/assets/defaults';
+import { getAssetCatalogStore } from '@/lib/assets/store';
+import { checkAssetSymbols, resolveAssetSymbols } from '@/lib/assets/symbols';
+import type { Asset, SymbolCheck } from '@/lib/assets/types';
+import { auditAssetSymbols, type ResolvedSymbol, type SymbolWarning } from '@/lib/market-data/symbols';
+import { getOrCreateSettingsUserId, getSettingsUserId, resolveApiKeys } from '@/lib/settings/server-keys';
+
+export type { Asset, AssetEconomicIds, AssetType, SymbolCheck, SymbolCheckStatus } from '@/lib/assets/types';
+export type { ResolvedSymbol, SymbolSource, SymbolWarning } from '@/lib/market-data/symbols';
+
+export interface AssetCatalogResult {
+  assets: Asset[];
+  isCustom: boolean;   // False while the user is on the built-in defaults
+  updatedAt?: number;  // Unix milliseconds
+  error?: string;
+}
+
+export interface SymbolPreviewResult {
+  resolved: ResolvedSymbol[]; // One entry per provider
+  warnings: SymbolWarning[];
+  checks?: SymbolCheck[];     // Only when checking was requested
+  error?: string;
+}
+
+export interface SaveAssetResult {
+  assets?: Asset[];      // The whole catalog after the change
+  checks?: SymbolCheck[];
+  warnings?: SymbolWarning[];
+  error?: string;
+}
+
+export interface ImportAssetsResult {
+  assets?: Asset[];
+  imported: number;
+  errors: string[];      // Assets skipped and why
+}
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message : String(err)).substring(0, 150);
+
+async function loadCatalog(userId: string | undefined): Promise<AssetCatalogResult> {
+  const stored = userId ? await getAssetCatalogStore().load(userId) : undefined;
+  return stored ? { assets: stored.assets, isCustom: true, updatedAt: stored.updatedAt } : { assets: DEFAULT_ASSETS, isCustom: false };
+}
+
+async function saveCatalog(userId: string, assets: Asset[]): Promise<void> {
+  await getAssetCatalogStore().save(userId, { assets, updatedAt: Date.now() });
+}
+
+export async function getAssetCatalog(): Promise<AssetCatalogResult> {
+  try {
+    return await loadCatalog(await getSettingsUserId());
+  } catch (err) {
+    console.error('Loading asset catalog failed:', err);
+    return { assets: DEFAULT_ASSETS, isCustom: false, error: `Could not load your asset catalog, showing defaults: ${errorText(err)}` };
+  }
+}
+
+/**
+ * Resolves the provider tickers a draft asset would use (looking up any the mapping table can't supply) and
+ * audits them. With `check`, each ticker is also checked against the provider's symbol search.
+ */
+export async function previewAssetSymbols(input: Asset, check = false): Promise<SymbolPreviewResult> {
+  const { asset, error } = normalizeAsset(input);
+  if (!asset) return { resolved: [], warnings: [], error };
+  try {
+    const apiKeys = await resolveApiKeys();
+    const resolved = await resolveAssetSymbols(asset, apiKeys);
+    const withLookups = withLookedUpSymbols(asset, resolved);
+    return {
+      resolved,
+      warnings: auditAssetSymbols(withLookups),
+      checks: check ? await checkAssetSymbols(withLookups, apiKeys) : undefined,
+    };
+  } catch (err) {
+    return { resolved: [], warnings: [], error: `Could not resolve symbols: ${errorText(err)}` };
+  }
+}
+
+// Tickers found by symbol search are stored as explicit mappings, so the market data path never searches
+function withLookedUpSymbols(asset: Asset, resolved: ResolvedSymbol[]): Asset {
+  const lookedUp = resolved.filter(r => r.source === 'lookup');
+  if (lookedUp.length === 0) return asset;
+  return { ...asset, marketIds: { ...asset.marketIds, ...Object.fromEntries(lookedUp.map(r => [r.provider, r.symbol])) } };
+}
+
+/**
+ * Adds an asset, or replaces `originalName` (which may rename it). Provider tickers are resolved from the
+ * canonical symbol where not overridden. Tickers a provider reports as unknown block the save unless
+ * `allowUnlisted` is set; tickers that could not be checked never do.
+ */
+export async function saveAsset(input: Asset, originalName?: string, allowUnlisted = false): Promise<SaveAssetResult> {
+  const { asset: normalized, error } = normalizeAsset(input);
+  if (!normalized) return { error };
+
+  try {
+    const userId = await getOrCreateSettingsUserId();
+    const { assets } = await loadCatalog(userId);
+    const index = originalName ? assets.findIndex(a => a.name === originalName) : -1;
+    if (originalName && index < 0) return { error: `${originalName} is no longer in your catalog.` };
+    if (assets.some((a, i) => i !== index && a.name.toLowerCase() === normalized.name.toLowerCase())) {
+      return { error: `An asset named ${normalized.name} already exists.` };
+    }
+    if (index < 0 && assets.length >= MAX_CATALOG_SIZE) return { error: `Catalogs are limited to ${MAX_CATALOG_SIZE} assets.` };
+
+    const apiKeys = await resolveApiKeys();
+    const asset = withLookedUpSymbols(normalized, await resolveAssetSymbols(normalized, apiKeys));
+    const warnings = auditAssetSymbols(asset);
+    const checks = await checkAssetSymbols(asset, apiKeys);
+    if (checks.length === 0) {
+      return { warnings, error: `No provider ticker could be resolved for ${asset.symbol ?? asset.name}; enter one manually.` };
+    }
+    const unlisted = checks.filter(c => c.status === 'invalid');
+    if (unlisted.length > 0 && !allowUnlisted) {
+      return { checks, warnings, error: `Not found by the provider: ${unlisted.map(c => `${c.symbol} (${c.provider})`).join(', ')}.` };
+    }
+
+    const next = index < 0 ? [...assets, asset] : assets.map((a, i) => (i === index ? asset : a));
+    await saveCatalog(userId, next);
+    return { assets: next, checks, warnings };
+  } catch (err) {
+    console.error('Saving asset failed:', err);
+    return { error: `Could not save asset: ${errorText(err)}` };
+  }
+}
+
+export async function deleteAsset(name: string): Promise<SaveAssetResult> {
+  try {
+    const userId = await getOrCreateSettingsUserId();
+    const { assets } = await loadCatalog(userId);
+    const next = assets.filter(a => a.name !== name);
+    if (next.length === assets.length) return { assets };
+    if (next.length === 0) return { error: 'The catalog needs at least one asset.' };
+    await saveCatalog(userId, next);
+    return { assets: next };
+  } catch (err) {
+    return { error: `Could not delete asset: ${errorText(err)}` };
+  }
+}
+
+/**
+ * Imports an exported catalog file. `merge` adds new assets and replaces same-named ones; `replace`
+ * swaps the whole catalog. Symbols are validated for format only, to avoid one search per imported ticker.
+ */
+export async function importAssetCatalog(json: string, mode: 'merge' | 'replace'): Promise<ImportAssetsResult> {
+  const { assets: imported, errors } = parseAssetCatalogFile(json);
+  if (imported.length === 0) return { imported: 0, errors: errors.length > 0 ? errors : ['The file contains no assets.'] };
+
+  try {
+    const userId = await getOrCreateSettingsUserId();
+    let next = imported;
+    if (mode === 'merge') {
+      const { assets } = await loadCatalog(userId);
+      const importedByName = new Map(imported.map(a => [a.name.toLowerCase(), a]));
+      next = [
+        ...assets.map(a => importedByName.get(a.name.toLowerCase()) ?? a),
+        ...imported.filter(a => !assets.some(existing => existing.name.toLowerCase() === a.name.toLowerCase())),
+      ];
+    }
+    if (next.length > MAX_CATALOG_SIZE) return { imported: 0, errors: [`Catalogs are limited to ${MAX_CATALOG_SIZE} assets.`] };
+    await saveCatalog(userId, next);
+    return { assets: next, imported: imported.length, errors };
+  } catch (err) {
+    return { imported: 0, errors: [`Could not import assets: ${errorText(err)}`] };
+  }
+}
+
+/** Drops the user's catalog so the built-in defaults apply again. */
+export async function resetAssetCatalog(): Promise<AssetCatalogResult> {
+  try {
+    const userId = await getSettingsUserId();
+    if (userId) await getAssetCatalogStore().remove(userId);
+    return { assets: DEFAULT_ASSETS, isCustom: false };
+  } catch (err) {
+    return { ...(await getAssetCatalog()), error: `Could not reset catalog: ${errorText(err)}` };
+  }
+}
@@ -0,0 +1,97 @@
+'use server';
+
+import { format } from 'date-fns';
+import { DEFAULT_POLICY_RATE_TABLE } from '@/lib/policy-rates/defaults';
+import { getPolicyRateTableStore } from '@/lib/policy-rates/store';
+import { isIsoDate, normalizePolicyRateEntries, parsePolicyRateCsv } from '@/lib/policy-rates/table';
+import type { PolicyRateEntry, PolicyRateTable } from '@/lib/policy-rates/types';
+import { getOrCreateSettingsUserId, getSettingsUserId } from '@/lib/settings/server-keys';
+
+export type { PolicyRateEntry, PolicyRateTable, RateProvenance, RateSource } from '@/lib/policy-rates/types';
+
+export interface PolicyRateTableResult {
+  table: PolicyRateTable;
+  isCustom: boolean;     // False while the user is on the built-in table
+  error?: string;
+}
+
+export interface SavePolicyRatesResult {
+  table?: PolicyRateTable;
+  errors: string[];      // Rows rejected and why; nothing is saved when any row is invalid
+}
+
+export interface ImportPolicyRatesResult {
+  table?: PolicyRateTable;
+  imported: number;
+  errors: string[];      // Rows skipped and why
+}
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message : String(err)).substring(0, 150);
+
+async function loadTable(userId: string | undefined): Promise<PolicyRateTableResult> {
+  const stored = userId ? await getPolicyRateTableStore().load(userId) : undefined;
+  return stored ? { table: stored, isCustom: true } : { table: DEFAULT_POLICY_RATE_TABLE, isCustom: false };
+}
+
+async function saveTable(userId: string, previous: PolicyRateTable, entries: PolicyRateEntry[], asOf: string): Promise<PolicyRateTable> {
+  const table: PolicyRateTable = { version: previous.version + 1, asOf, entries, updatedAt: Date.now() };
+  await getPolicyRateTableStore().save(userId, table);
+  return table;
+}
+
+/** The current user's table, or the built-in one. Also the fallback source when FRED has no rate. */
+export async function getPolicyRateTable(): Promise<PolicyRateTableResult> {
+  try {
+    return await loadTable(await getSettingsUserId());
+  } catch (err) {
+    console.error('Loading policy-rate table failed:', err);
+    return { table: DEFAULT_POLICY_RATE_TABLE, isCustom: false, error: `Could not load your rate table, using the built-in one: ${errorText(err)}` };
+  }
+}
+
+/** Replaces every entry and marks the table reviewed on `asOf` (default today). Bumps the version. */
+export async function savePolicyRateTable(entries: PolicyRateEntry[], asOf?: string): Promise<SavePolicyRatesResult> {
+  const reviewed = asOf ?? format(new Date(), 'yyyy-MM-dd');
+  if (!isIsoDate(reviewed)) return { errors: ['The review date must be yyyy-MM-dd.'] };
+  const { entries: normalized, errors } = normalizePolicyRateEntries(entries);
+  if (errors.length > 0) return { errors };
+  if (normalized.length === 0) return { errors: ['The table needs at least one rate.'] };
+
+  try {
+    const userId = await getOrCreateSettingsUserId();
+    const { table } = await loadTable(userId);
+    return { table: await saveTable(userId, table, normalized, reviewed), errors: [] };
+  } catch (err) {
+    return { errors: [`Could not save the rate table: ${errorText(err)}`] };
+  }
+}
+
+/**
+ * Imports `currency,rate,effective_date[,bank]` rows. `merge` adds the rows to the table, replacing entries with the
+ * same currency and date; `replace` swaps the whole table. Either way the table counts as reviewed today.
+ */
+export async function importPolicyRatesCsv(csv: string, mode: 'merge' | 'replace'): Promise<ImportPolicyRatesResult> {
+  const { entries: imported, errors } = parsePolicyRateCsv(csv);
+  if (imported.length === 0) return { imported: 0, errors: errors.length > 0 ? errors : ['The file contains no rates.'] };
+
+  try {
+    const userId = await getOrCreateSettingsUserId();
+    const { table } = await loadTable(userId);
+    const { entries } = normalizePolicyRateEntries(mode === 'merge' ? [...table.entries, ...imported] : imported);
+    const saved = await saveTable(userId, table, entries, format(new Date(), 'yyyy-MM-dd'));
+    return { table: saved, imported: imported.length, errors };
+  } catch (err) {
+    return { imported: 0, errors: [`Could not import rates: ${errorText(err)}`] };
+  }
+}
+
+/** Drops the user's table so the built-in one applies again. */
+export async function resetPolicyRateTable(): Promise<PolicyRateTableResult> {
+  try {
+    const userId = await getSettingsUserId();
+    if (userId) await getPolicyRateTableStore().remove(userId);
+    return { table: DEFAULT_POLICY_RATE_TABLE, isCustom: false };
+  } catch (err) {
+    return { ...(await getPolicyRateTable()), error: `Could not reset the rate table: ${errorText(err)}` };
+  }
+}
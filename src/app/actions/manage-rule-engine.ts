@@ -0,0 +1,60 @@
+'use server';
+
+import { isEncryptionConfigured } from '@/lib/settings/crypto';
+import { getOrCreateSettingsUserId, getSettingsUserId, loadUserSettings } from '@/lib/settings/server-keys';
+import { getSettingsStore } from '@/lib/settings/store';
+import { DEFAULT_RULE_ENGINE_CONFIG, validateRuleEngineConfig, type RuleEngineConfig } from '@/lib/signals/rule-engine';
+
+export type { RuleEngineConfig, RuleFactor } from '@/lib/signals/rule-engine';
+
+export interface RuleEngineSettingsResult {
+  config: RuleEngineConfig;
+  isCustom: boolean;  // False while the built-in thresholds and weights apply
+  canStore: boolean;  // False when SETTINGS_ENCRYPTION_KEY is missing; the built-in config always applies
+  error?: string;
+}
+
+const DISABLED_MESSAGE = 'Rule settings are disabled: SETTINGS_ENCRYPTION_KEY is not set on the server.';
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message : String(err)).substring(0, 150);
+
+async function updateRuleEngine(ruleEngine: RuleEngineConfig | undefined): Promise<void> {
+  const userId = await getOrCreateSettingsUserId();
+  // Undefined is dropped on serialization, so a reset removes it
+  await getSettingsStore().update(userId, (settings = { apiKeys: {} }) => ({ ...settings, ruleEngine, updatedAt: Date.now() }));
+}
+
+/** The current user's rule-engine thresholds and weights, or the built-in ones. */
+export async function getRuleEngineSettings(): Promise<RuleEngineSettingsResult> {
+  const canStore = isEncryptionConfigured();
+  const settings = await loadUserSettings(await getSettingsUserId());
+  return settings?.ruleEngine
+    ? { config: settings.ruleEngine, isCustom: true, canStore }
+    : { config: DEFAULT_RULE_ENGINE_CONFIG, isCustom: false, canStore };
+}
+
+/** Validates and saves the whole config; nothing is saved when any setting is invalid. */
+export async function saveRuleEngineSettings(input: RuleEngineConfig): Promise<RuleEngineSettingsResult> {
+  if (!isEncryptionConfigured()) return { ...(await getRuleEngineSettings()), error: DISABLED_MESSAGE };
+  const { config, error } = validateRuleEngineConfig(input);
+  if (!config) return { ...(await getRuleEngineSettings()), error };
+
+  try {
+    await updateRuleEngine(config);
+    return { config, isCustom: true, canStore: true };
+  } catch (err) {
+    console.error('Saving rule-engine settings failed:', err);
+    return { ...(await getRuleEngineSettings()), error: `Could not save rule settings: ${errorText(err)}` };
+  }
+}
+
+/** Drops the user's config so the built-in thresholds and weights apply again. */
+export async function resetRuleEngineSettings(): Promise<RuleEngineSettingsResult> {
+  const canStore = isEncryptionConfigured();
+  try {
+    if (canStore && (await getSettingsUserId())) await updateRuleEngine(undefined);
+    return { config: DEFAULT_RULE_ENGINE_CONFIG, isCustom: false, canStore };
+  } catch (err) {
+    return { ...(await getRuleEngineSettings()), error: `Could not reset rule settings: ${errorText(err)}` };
+  }
+}
@@ -0,0 +1,66 @@
+'use server';
+
+import { getCacheStats, type CacheStats } from '@/lib/cache/cached';
+import { getMarketDataProvider } from '@/lib/market-data/registry';
+import type { MarketDataProviderId } from '@/lib/market-data/types';
+import { getQuotaStatus, type ProviderQuotaStatus } from '@/lib/rate-limit/limiter';
+import { formatRateLimit, getProviderPlan, sustainableIntervalMs } from '@/lib/rate-limit/plans';
+import { API_KEY_PROVIDERS, type ApiKeyProviderId } from '@/lib/settings/api-keys';
+import { resolveApiKeys } from '@/lib/settings/server-keys';
+
+export type { CacheStats } from '@/lib/cache/cached';
+export type { ProviderQuotaStatus, QuotaWindowStatus } from '@/lib/rate-limit/limiter';
+
+export interface ProviderQuota {
+  id: ApiKeyProviderId;
+  label: string;
+  configured: boolean;         // Has an API key for the current user
+  planLimits: string;          // e.g. "8/min, 800/day", or "unlimited"
+  status?: ProviderQuotaStatus; // Only for configured providers
+}
+
+export interface ProviderQuotasResult {
+  providers: ProviderQuota[];
+  refreshFloorMs?: number; // Shortest dashboard auto-refresh the market data budgets sustain; undefined without market keys
+  cache: CacheStats;
+  error?: string;
+}
+
+// Calls one dashboard refresh costs a market data provider when nothing is cached
+function callsPerRefresh(id: MarketDataProviderId): number {
+  const provider = getMarketDataProvider(id);
+  if (!provider) return 0;
+  const { quote, candles, marketStatus } = provider.capabilities;
+  return [quote, candles, marketStatus && !!provider.fetchMarketStatus].filter(Boolean).length;
+}
+
+/** Remaining request budget per provider for the current user's keys, plus response cache statistics. */
+export async function getProviderQuotas(): Promise<ProviderQuotasResult> {
+  try {
+    const apiKeys = await resolveApiKeys();
+    let refreshFloorMs: number | undefined;
+
+    const providers = API_KEY_PROVIDERS.map(({ id, label, category }): ProviderQuota => {
+      const plan = getProviderPlan(id);
+      const planLimits = plan.limits.length > 0 ? plan.limits.map(formatRateLimit).join(', ') : 'unlimited';
+      const apiKey = apiKeys[id];
+      if (!apiKey) return { id, label, configured: false, planLimits };
+
+      // The cascade moves on when a provider's budget runs out, so the roomiest market provider sets the pace
+      const calls = category === 'market' ? callsPerRefresh(id as MarketDataProviderId) : 0;
+      if (calls > 0) {
+        const interval = sustainableIntervalMs(plan, calls);
+        refreshFloorMs = refreshFloorMs === undefined ? interval : Math.min(refreshFloorMs, interval);
+      }
+      return { id, label, configured: true, planLimits, status: getQuotaStatus(id, apiKey) };
+    });
+
+    return { providers, refreshFloorMs, cache: getCacheStats() };
+  } catch (err) {
+    return {
+      providers: [],
+      cache: getCacheStats(),
+      error: `Could not load provider quotas: ${(err instanceof Error ? err.message : String(err)).substring(0, 150)}`,
+    };
+  }
+}
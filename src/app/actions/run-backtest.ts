@@ -0,0 +1,164 @@
+'use server';
+
+import { generateTradeRecommendation, type GenerateTradeRecommendationInput } from '@/ai/flows/generate-trade-recommendation';
+import { DEFAULT_BACKTEST_CONFIG, runBacktest as replaySignals } from '@/lib/backtest/engine';
+import { rsiMacdRuleSignals, TECHNICAL_ONLY_RULES } from '@/lib/backtest/strategies';
+import type { BacktestConfig, BacktestReport, BacktestStrategyId, TradeAction } from '@/lib/backtest/types';
+import { macd, rsi } from '@/lib/indicators';
+import { fetchCandleHistory } from '@/lib/market-data/cascade';
+import type { HistoricalDataPoint, MarketAsset, MarketDataProviderId } from '@/lib/market-data/types';
+import { getSettingsUserId, loadUserSettings, resolveApiKeys } from '@/lib/settings/server-keys';
+import { priceDecimalsFor } from '@/lib/signals/trade-input';
+
+export type {
+  BacktestMetrics,
+  BacktestReport,
+  BacktestStrategyId,
+  BacktestTrade,
+  EquityPoint,
+} from '@/lib/backtest/types';
+
+const DEFAULT_BARS = 500;
+const MIN_BARS = 50;
+const MAX_BARS = 5000;
+const MAX_WARMUP_BARS = 500;
+const MAX_COST_BPS = 500; // 5% per side
+const MAX_INITIAL_EQUITY = 1e12;
+const AI_MAX_DECISION_BARS = 60; // Bounds model calls per run; the AI replay only covers the most recent bars
+const AI_CACHE_LIMIT = 5000;
+
+// Responses keyed by the exact flow input, so re-running a backtest over the same bars costs no model calls.
+const aiDecisionCache = new Map<string, TradeAction>();
+
+export interface BacktestRequest {
+  asset: MarketAsset;
+  timeframeId: string;
+  strategy: BacktestStrategyId;
+  bars?: number;
+  config?: Partial<BacktestConfig>;
+  interestRate?: number; // Held constant for the AI replay; defaults to 0
+  providerOrder?: MarketDataProviderId[];
+}
+
+// Request values come from the browser; non-numbers fall back to the default
+function clamp(value: number | undefined, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+}
+
+function backtestConfigFrom(overrides: Partial<BacktestConfig> = {}): BacktestConfig {
+  const defaults = DEFAULT_BACKTEST_CONFIG;
+  return {
+    initialEquity: clamp(overrides.initialEquity, 1, MAX_INITIAL_EQUITY, defaults.initialEquity),
+    costBps: clamp(overrides.costBps, 0, MAX_COST_BPS, defaults.costBps),
+    allowShort: typeof overrides.allowShort === 'boolean' ? overrides.allowShort : defaults.allowShort,
+    warmupBars: Math.round(clamp(overrides.warmupBars, 0, MAX_WARMUP_BARS, defaults.warmupBars)),
+  };
+}
+
+/**
+ * Replays the AI flow bar by bar with the same rounding the dashboard uses for live requests. Sentiment has no
+ * history and is fed as neutral. Bars whose call fails fall back to HOLD and are not cached.
+ */
+async function aiSignals(
+  candles: HistoricalDataPoint[],
+  firstDecisionIndex: number,
+  asset: MarketAsset,
+  interestRate: number
+): Promise<{ signals: TradeAction[]; calls: number; cacheHits: number; failures: number; lastError?: string }> {
+  const closes = candles.map(c => c.close);
+  const rsiSeries = rsi(closes);
+  const macdLine = macd(closes).macd;
+  const priceDigits = priceDecimalsFor(asset);
+
+  const signals: TradeAction[] = new Array(candles.length).fill('HOLD');
+  let calls = 0;
+  let cacheHits = 0;
+  let failures = 0;
+  let lastError: string | undefined;
+
+  for (let i = firstDecisionIndex; i < candles.length; i++) {
+    const r = rsiSeries[i];
+    const m = macdLine[i];
+    if (r === undefined || m === undefined) continue;
+    const input: GenerateTradeRecommendationInput = {
+      rsi: parseFloat(r.toFixed(2)),
+      macd: parseFloat(m.toFixed(4)),
+      sentimentScore: 0,
+      interestRate: parseFloat(interestRate.toFixed(2)),
+      price: parseFloat(closes[i].toFixed(priceDigits)),
+      marketStatus: 'open',
+    };
+    const key = JSON.stringify(input);
+    const cached = aiDecisionCache.get(key);
+    if (cached) {
+      signals[i] = cached;
+      cacheHits++;
+      continue;
+    }
+
+    calls++;
+    const output = await generateTradeRecommendation(input);
+    if (output.error) {
+      failures++;
+      lastError = output.error;
+      continue;
+    }
+    signals[i] = output.recommendation;
+    if (aiDecisionCache.size >= AI_CACHE_LIMIT) aiDecisionCache.delete(aiDecisionCache.keys().next().value!);
+    aiDecisionCache.set(key, output.recommendation);
+  }
+  return { signals, calls, cacheHits, failures, lastError };
+}
+
+/**
+ * Fetches up to `bars` recent candles for the asset and replays the chosen strategy over them.
+ * Errors are reported on the result rather than thrown, like the other market data actions.
+ */
+export async function runBacktest(request: BacktestRequest): Promise<BacktestReport> {
+  const { asset, timeframeId, strategy } = request;
+  const apiKeys = await resolveApiKeys();
+  const bars = Math.round(clamp(request.bars, MIN_BARS, MAX_BARS, DEFAULT_BARS));
+  const config = backtestConfigFrom(request.config);
+
+  const history = await fetchCandleHistory(asset, timeframeId, apiKeys, bars, request.providerOrder);
+  let candles = history.candles;
+  const report: BacktestReport = {
+    assetName: asset.name,
+    timeframe: timeframeId,
+    strategy,
+    barCount: 0,
+    sourceProvider: history.sourceProvider,
+    attempts: history.attempts,
+  };
+
+  if (candles.length <= config.warmupBars + 1) {
+    report.error = history.error ?? `Not enough history for a backtest: ${candles.length} bars returned, more than ${config.warmupBars + 1} needed.`;
+    return report;
+  }
+
+  let signals: TradeAction[];
+  if (strategy === 'ai') {
+    // Keep just enough bars before the AI window to warm the indicators up
+    candles = candles.slice(-(AI_MAX_DECISION_BARS + config.warmupBars));
+    const ai = await aiSignals(candles, config.warmupBars, asset, request.interestRate ?? 0);
+    signals = ai.signals;
+    report.aiCalls = ai.calls;
+    report.aiCacheHits = ai.cacheHits;
+    if (ai.failures > 0) {
+      report.error = `AI replay: ${ai.failures} of ${ai.calls} model calls failed and were treated as HOLD (last error: ${ai.lastError}).`;
+    }
+  } else {
+    // The user's thresholds apply, but only the technical factors can be replayed
+    const settings = await loadUserSettings(await getSettingsUserId());
+    signals = rsiMacdRuleSignals(candles, { ...settings?.ruleEngine, ...TECHNICAL_ONLY_RULES });
+  }
+
+  const result = replaySignals(candles, signals, timeframeId, config);
+  return {
+    ...report,
+    ...result,
+    barCount: candles.length - config.warmupBars,
+    firstTimestamp: candles[config.warmupBars].timestamp,
+    lastTimestamp: candles[candles.length - 1].timestamp,
+  };
+}
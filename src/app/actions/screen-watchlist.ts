@@ -0,0 +1,85 @@
+'use server';
+
+import { summarizeNewsSentiment } from '@/ai/flows/summarize-news-sentiment';
+import { fetchMarketData } from '@/app/actions/fetch-market-data';
+import { fetchNewsHeadlines } from '@/app/actions/fetch-news-headlines';
+import type { Asset } from '@/lib/assets/types';
+import { getSignalJournalStore, SCAN_LIMIT } from '@/lib/journal/store';
+import type { HistoricalDataPoint } from '@/lib/market-data/types';
+import type { LatestSignal, LatestSignalsResult, ScreenerRow } from '@/lib/screener/types';
+import { getSettingsUserId } from '@/lib/settings/server-keys';
+import { getMacdStatus, getRsiStatus } from '@/lib/signals/indicator-status';
+
+export type { LatestSignal, LatestSignalsResult, ScreenerRow } from '@/lib/screener/types';
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message : String(err)).substring(0, 150);
+
+// Change of the latest price against the close of the bar before the current one
+function changeFromPreviousBar(price: number | undefined, candles: HistoricalDataPoint[] | undefined): number | undefined {
+  if (price === undefined || !candles || candles.length < 2) return undefined;
+  const previousClose = candles[candles.length - 2].close;
+  return previousClose ? ((price - previousClose) / previousClose) * 100 : undefined;
+}
+
+/**
+ * One watchlist row: price and indicators from the market data cascade, plus live news sentiment when
+ * `includeSentiment` is set (one NewsAPI call and one AI call per asset, so it is opt-in).
+ */
+export async function screenAsset(asset: Asset, timeframeId: string, includeSentiment = false): Promise<ScreenerRow> {
+  const marketData = await fetchMarketData(asset, timeframeId);
+  const price = marketData.price ?? marketData.historical?.[marketData.historical.length - 1]?.close;
+  const row: ScreenerRow = {
+    assetName: asset.name,
+    timeframe: timeframeId,
+    price,
+    changePct: changeFromPreviousBar(price, marketData.historical),
+    rsi: marketData.rsi,
+    rsiStatus: getRsiStatus(marketData.rsi),
+    macdHistogram: marketData.macd?.histogram,
+    macdStatus: getMacdStatus(marketData.macd),
+    marketStatus: marketData.marketStatus,
+    sourceProvider: marketData.sourceProvider,
+    error: marketData.error,
+    errorKind: marketData.errorKind,
+    updatedAt: Date.now(),
+  };
+
+  if (includeSentiment && marketData.errorKind !== 'rate-limit') {
+    try {
+      const news = await fetchNewsHeadlines(asset);
+      if (news.headlines && news.headlines.length > 0) {
+        const sentiment = await summarizeNewsSentiment({ currencyPair: asset.name, newsHeadlines: news.headlines });
+        if (!sentiment.error) row.sentimentScore = sentiment.sentimentScore;
+      }
+    } catch (err) {
+      console.error(`Watchlist sentiment for ${asset.name} failed:`, err);
+    }
+  }
+  return row;
+}
+
+/** The newest journaled signal per asset for a timeframe. Empty when the journal is disabled. */
+export async function getLatestSignals(timeframeId: string): Promise<LatestSignalsResult> {
+  const store = getSignalJournalStore();
+  const userId = await getSettingsUserId();
+  if (!store || !userId) return { signals: {} };
+  try {
+    const records = await store.list(userId, { timeframe: timeframeId, limit: SCAN_LIMIT });
+    const signals: Record<string, LatestSignal> = {};
+    for (const record of records) { // Newest first
+      if (signals[record.assetName]) continue;
+      const sentimentScore = (record.input as { sentimentScore?: unknown }).sentimentScore;
+      signals[record.assetName] = {
+        recommendation: record.output.recommendation,
+        confidence: record.output.confidence,
+        source: record.source,
+        sentimentScore: typeof sentimentScore === 'number' ? sentimentScore : undefined,
+        createdAt: record.createdAt,
+      };
+    }
+    return { signals };
+  } catch (err) {
+    console.error('Loading latest signals failed:', err);
+    return { signals: {}, error: `Could not load latest signals: ${errorText(err)}` };
+  }
+}
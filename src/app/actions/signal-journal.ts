@@ -0,0 +1,181 @@
+'use server';
+
+import {
+  buildSignalScorecard,
+  DEFAULT_OUTCOME_HORIZON_BARS,
+  evaluateSignalOutcome,
+  isDirectionalSignal,
+  outcomeDueAt,
+  outcomeHistoryBars,
+} from '@/lib/journal/outcomes';
+import { getSignalJournalStore, SCAN_LIMIT } from '@/lib/journal/store';
+import type {
+  NewSignalRecord,
+  SignalHistoryFilter,
+  SignalRecord,
+  SignalScorecard,
+  SignalTradeAction,
+} from '@/lib/journal/types';
+import { fetchCandleHistory } from '@/lib/market-data/cascade';
+import type { MarketAsset } from '@/lib/market-data/types';
+import { getOrCreateSettingsUserId, getSettingsUserId, resolveApiKeys } from '@/lib/settings/server-keys';
+
+export type {
+  NewSignalRecord,
+  RecordedSignal,
+  ScorecardRow,
+  SignalAnnotation,
+  SignalConfidence,
+  SignalHistoryFilter,
+  SignalOutcome,
+  SignalRecommendation,
+  SignalRecord,
+  SignalScorecard,
+  SignalSource,
+  SignalTradeAction,
+} from '@/lib/journal/types';
+
+export interface SignalHistoryResult {
+  signals: SignalRecord[];
+  enabled: boolean; // False when no journal backend is configured
+  error?: string;
+}
+
+export interface OutcomeScoringResult {
+  scored: number;  // Signals labelled in this run (including unscorable)
+  pending: number; // BUY/SELL signals whose horizon has not completed yet
+  error?: string;
+}
+
+export interface SignalScorecardResult {
+  scorecard?: SignalScorecard;
+  enabled: boolean;
+  error?: string;
+}
+
+const DISABLED_MESSAGE = 'Signal journal is disabled: Firebase is not configured (FIREBASE_SERVICE_ACCOUNT_KEY or GOOGLE_APPLICATION_CREDENTIALS).';
+const MAX_NOTE_LENGTH = 1000;
+const TRADE_ACTIONS: SignalTradeAction[] = ['followed', 'faded', 'skipped', 'other'];
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message : String(err)).substring(0, 150);
+
+/**
+ * Persists one generated signal for the current user (identified by the settings cookie).
+ * Never throws: journal failures must not break the dashboard refresh.
+ */
+export async function recordSignal(record: NewSignalRecord): Promise<{ id?: string; error?: string }> {
+  const store = getSignalJournalStore();
+  if (!store) return { error: DISABLED_MESSAGE };
+  try {
+    const saved = await store.add(await getOrCreateSettingsUserId(), record);
+    return { id: saved.id };
+  } catch (err) {
+    console.error(`Recording signal for ${record.assetName} failed:`, err);
+    return { error: `Could not record signal: ${errorText(err)}` };
+  }
+}
+
+/** Most recent signals first, narrowed by the filter. */
+export async function listSignalHistory(filter: SignalHistoryFilter = {}): Promise<SignalHistoryResult> {
+  const store = getSignalJournalStore();
+  if (!store) return { signals: [], enabled: false, error: DISABLED_MESSAGE };
+  const userId = await getSettingsUserId();
+  if (!userId) return { signals: [], enabled: true }; // Nothing has been recorded from this browser yet
+  try {
+    return { signals: await store.list(userId, filter), enabled: true };
+  } catch (err) {
+    console.error('Loading signal history failed:', err);
+    return { signals: [], enabled: true, error: `Could not load signal history: ${errorText(err)}` };
+  }
+}
+
+/** Records what was actually done with a signal. Replaces any earlier annotation. */
+export async function annotateSignal(
+  signalId: string,
+  action: SignalTradeAction,
+  note?: string
+): Promise<{ error?: string }> {
+  const store = getSignalJournalStore();
+  if (!store) return { error: DISABLED_MESSAGE };
+  if (!TRADE_ACTIONS.includes(action)) return { error: `Unknown action: ${action}` };
+  const userId = await getSettingsUserId();
+  if (!userId) return { error: 'No signal history exists for this browser.' };
+
+  const trimmedNote = note?.trim().substring(0, MAX_NOTE_LENGTH);
+  try {
+    await store.annotate(userId, signalId, { action, note: trimmedNote || undefined, updatedAt: Date.now() });
+    return {};
+  } catch (err) {
+    console.error(`Annotating signal ${signalId} failed:`, err);
+    return { error: `Could not save annotation: ${errorText(err)}` };
+  }
+}
+
+/**
+ * The outcome job: labels every unscored BUY/SELL signal whose horizon has passed. Price paths come from
+ * fetchCandleHistory, one call per asset and timeframe with due signals, reaching back to the oldest of them. `assets` maps the recorded asset names
+ * back to provider symbols; signals for unknown assets stay pending.
+ */
+export async function scoreSignalOutcomes(
+  assets: MarketAsset[],
+  horizonBars: number = DEFAULT_OUTCOME_HORIZON_BARS
+): Promise<OutcomeScoringResult> {
+  const store = getSignalJournalStore();
+  if (!store) return { scored: 0, pending: 0, error: DISABLED_MESSAGE };
+  const userId = await getSettingsUserId();
+  if (!userId) return { scored: 0, pending: 0 };
+
+  let unscored: SignalRecord[];
+  try {
+    unscored = (await store.list(userId, { scored: false, limit: SCAN_LIMIT })).filter(isDirectionalSignal);
+  } catch (err) {
+    console.error('Loading unscored signals failed:', err);
+    return { scored: 0, pending: 0, error: `Could not load signals: ${errorText(err)}` };
+  }
+
+  const now = Date.now();
+  const dueGroups = new Map<string, SignalRecord[]>();
+  for (const record of unscored) {
+    if (outcomeDueAt(record, horizonBars) > now) continue;
+    const key = `${record.assetName}|${record.timeframe}`;
+    dueGroups.set(key, [...(dueGroups.get(key) ?? []), record]);
+  }
+
+  let scored = 0;
+  const errors: string[] = [];
+  const apiKeys = await resolveApiKeys();
+  for (const group of dueGroups.values()) {
+    const { assetName, timeframe } = group[0];
+    const asset = assets.find(a => a.name === assetName);
+    if (!asset) continue;
+
+    const history = await fetchCandleHistory(asset, timeframe, apiKeys, outcomeHistoryBars(group, now));
+    if (history.candles.length === 0) {
+      errors.push(`${assetName} ${timeframe}: ${history.error ?? 'no price history'}`);
+      continue;
+    }
+    for (const record of group) {
+      const outcome = evaluateSignalOutcome(record, history.candles, history.barMinutes, horizonBars, now);
+      if (!outcome) continue;
+      try {
+        await store.setOutcome(userId, record.id, outcome);
+        scored++;
+      } catch (err) {
+        errors.push(`${assetName} ${timeframe}: ${errorText(err)}`);
+      }
+    }
+  }
+
+  return {
+    scored,
+    pending: unscored.length - scored,
+    ...(errors.length > 0 && { error: `Outcome scoring: ${errors.join('; ')}` }),
+  };
+}
+
+/** Hit rates of the most recent scored signals, narrowed by the filter. */
+export async function getSignalScorecard(filter: SignalHistoryFilter = {}): Promise<SignalScorecardResult> {
+  const history = await listSignalHistory({ ...filter, limit: SCAN_LIMIT });
+  if (!history.enabled || history.error) return { enabled: history.enabled, error: history.error };
+  return { scorecard: buildSignalScorecard(history.signals), enabled: true };
+}
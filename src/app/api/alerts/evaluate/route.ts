@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { runScheduledAlertEvaluation } from '@/lib/alerts/scheduler';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Entry point for an external scheduler (cron, Cloud Scheduler). Requires
+ * `Authorization: Bearer <ALERTS_CRON_SECRET>`; disabled when the secret is not set.
+ */
+async function handle(request: Request) {
+  const secret = process.env.ALERTS_CRON_SECRET;
+  if (!secret) return NextResponse.json({ error: 'ALERTS_CRON_SECRET is not configured.' }, { status: 503 });
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+  const summary = await runScheduledAlertEvaluation();
+  return NextResponse.json(summary);
+}
+
+export const GET = handle;
+export const POST = handle;
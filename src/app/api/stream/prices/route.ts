@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { getAssetCatalog } from '@/app/actions/manage-assets';
+import { resolveApiKeys } from '@/lib/settings/server-keys';
+import { subscribeToPrices } from '@/lib/streaming/hub';
+import type { PriceStreamStatusEvent, PriceStreamTickEvent } from '@/lib/streaming/types';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MIN_TICK_INTERVAL_MS = 250; // Busy FX feeds quote many times a second; browsers get the latest price at most this often
+const HEARTBEAT_INTERVAL_MS = 15_000; // Keeps proxies from closing an idle stream
+
+/**
+ * Server-sent events with live prices for one asset of the caller's catalog: `GET ?asset=<name>&seed=<price>`.
+ * Emits `status` events (PriceStreamStatusEvent) and `tick` events (PriceStreamTickEvent). When no feed can
+ * serve the asset a single `unavailable` status is sent and the stream ends; the dashboard then keeps polling.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const assetName = params.get('asset');
+  const { assets } = await getAssetCatalog();
+  const asset = assets.find(a => a.name === assetName);
+  if (!asset) return NextResponse.json({ error: `Unknown asset "${assetName ?? ''}".` }, { status: 404 });
+
+  const apiKeys = await resolveApiKeys();
+  const seedPrice = Number(params.get('seed')) || undefined;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let open = true;
+      const write = (chunk: string) => {
+        if (open) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: 'status' | 'tick', data: PriceStreamStatusEvent | PriceStreamTickEvent) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      let pendingTick: PriceStreamTickEvent | undefined;
+      let lastSentAt = 0;
+      let flushTimer: ReturnType<typeof setTimeout> | undefined;
+      const flush = () => {
+        flushTimer = undefined;
+        if (!pendingTick) return;
+        send('tick', pendingTick);
+        pendingTick = undefined;
+        lastSentAt = Date.now();
+      };
+
+      let feedName: string | undefined;
+      const { subscription, error } = subscribeToPrices(asset, apiKeys, {
+        onTick(tick) {
+          pendingTick = { price: tick.price, timestamp: tick.timestamp, ...(tick.volume !== undefined && { volume: tick.volume }) };
+          if (!flushTimer) flushTimer = setTimeout(flush, Math.max(0, lastSentAt + MIN_TICK_INTERVAL_MS - Date.now()));
+        },
+        onStatus(status, message) {
+          send('status', { status, feed: feedName, message });
+        },
+      }, { seedPrice });
+
+      if (!subscription) {
+        send('status', { status: 'unavailable', message: error });
+        open = false;
+        controller.close();
+        return;
+      }
+      feedName = subscription.feedName;
+
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+      cleanup = () => {
+        if (!open) return;
+        open = false;
+        clearInterval(heartbeat);
+        clearTimeout(flushTimer);
+        subscription.unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,446 @@
+'use client';
+
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import Link from 'next/link';
+import Header from '@/components/layout/Header';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, ArrowLeft, CheckCircle2, Download, HelpCircle, Loader2, Pencil, Plus, RotateCcw, SearchCheck, Trash2, Upload, XCircle } from 'lucide-react';
+import {
+  deleteAsset,
+  getAssetCatalog,
+  importAssetCatalog,
+  previewAssetSymbols,
+  resetAssetCatalog,
+  saveAsset,
+  type Asset,
+  type AssetCatalogResult,
+  type AssetType,
+  type ResolvedSymbol,
+  type SymbolCheck,
+  type SymbolSource,
+  type SymbolWarning,
+} from '@/app/actions/manage-assets';
+import { ASSET_TYPES, MARKET_ID_PROVIDERS, serializeAssetCatalog } from '@/lib/assets/catalog';
+import { auditAssetSymbols, resolveProviderSymbol } from '@/lib/market-data/symbols';
+import type { MarketDataProviderId } from '@/lib/market-data/types';
+
+const PROVIDER_LABELS: Record<MarketDataProviderId, { label: string; example: string }> = {
+  polygon: { label: 'Polygon.io', example: 'C:EURUSD, X:ETHUSD, AAPL' },
+  finnhub: { label: 'Finnhub.io', example: 'OANDA:EUR_USD, BINANCE:ETHUSDT, AAPL' },
+  twelvedata: { label: 'TwelveData', example: 'EUR/USD, ETH/USD, AAPL' },
+};
+
+const SOURCE_LABELS: Record<SymbolSource, string> = {
+  override: 'Override',
+  table: 'Mapping table',
+  derived: 'Derived',
+  lookup: 'Symbol search',
+};
+
+const SYMBOL_EXAMPLES: Record<AssetType, string> = {
+  currency: 'EUR/USD',
+  commodity: 'XAU/USD, WTI, BRENT',
+  crypto: 'ETH/USD',
+  index: 'SPX, NDX',
+  equity: 'AAPL',
+};
+
+const TYPE_LABELS: Record<AssetType, string> = {
+  currency: 'Currency pair',
+  commodity: 'Commodity',
+  crypto: 'Crypto',
+  index: 'Index',
+  equity: 'Equity',
+};
+
+interface AssetDraft {
+  name: string;
+  type: AssetType;
+  symbol: string;
+  keywords: string; // Comma-separated
+  marketIds: Record<MarketDataProviderId, string>;
+  openexchangerates: string;
+  exchangerateapi: string;
+  primaryCurrencyForInterestRate: string;
+}
+
+const emptyDraft = (): AssetDraft => ({
+  name: '',
+  type: 'currency',
+  symbol: '',
+  keywords: '',
+  marketIds: { polygon: '', finnhub: '', twelvedata: '' },
+  openexchangerates: '',
+  exchangerateapi: '',
+  primaryCurrencyForInterestRate: '',
+});
+
+const draftFromAsset = (asset: Asset): AssetDraft => ({
+  name: asset.name,
+  type: asset.type,
+  symbol: asset.symbol ?? '',
+  keywords: asset.searchKeywords.join(', '),
+  marketIds: { polygon: asset.marketIds.polygon ?? '', finnhub: asset.marketIds.finnhub ?? '', twelvedata: asset.marketIds.twelvedata ?? '' },
+  openexchangerates: asset.economicIds.openexchangerates ?? '',
+  exchangerateapi: asset.economicIds.exchangerateapi ?? '',
+  primaryCurrencyForInterestRate: asset.economicIds.primaryCurrencyForInterestRate ?? '',
+});
+
+// The server normalizes and validates; empty strings are dropped there
+const assetFromDraft = (draft: AssetDraft): Asset => ({
+  name: draft.name,
+  type: draft.type,
+  symbol: draft.symbol,
+  searchKeywords: draft.keywords.split(','),
+  marketIds: draft.marketIds,
+  economicIds: {
+    openexchangerates: draft.openexchangerates,
+    exchangerateapi: draft.exchangerateapi,
+    primaryCurrencyForInterestRate: draft.primaryCurrencyForInterestRate,
+  },
+});
+
+function SymbolCheckLine({ check }: { check?: SymbolCheck }) {
+  if (!check) return null;
+  const Icon = check.status === 'valid' ? CheckCircle2 : check.status === 'invalid' ? XCircle : HelpCircle;
+  const color = check.status === 'valid' ? 'text-green-500' : check.status === 'invalid' ? 'text-destructive' : 'text-muted-foreground';
+  return (
+    <p className={`text-xs flex items-center gap-1 ${color}`}>
+      <Icon size={12} className="shrink-0" />
+      {check.status === 'valid' ? check.description ?? 'Listed by the provider.' : check.message}
+    </p>
+  );
+}
+
+function SymbolWarningLines({ warnings }: { warnings: SymbolWarning[] }) {
+  return (
+    <>
+      {warnings.map(w => (
+        <p key={w.message} className={`text-xs flex items-center gap-1 ${w.severity === 'warning' ? 'text-amber-500' : 'text-muted-foreground'}`}>
+          <AlertTriangle size={12} className="shrink-0" />
+          {w.message}
+        </p>
+      ))}
+    </>
+  );
+}
+
+function AssetForm({
+  original,
+  onSaved,
+  onCancel,
+}: {
+  original?: Asset;
+  onSaved: (assets: Asset[]) => void;
+  onCancel: () => void;
+}) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AssetDraft>(original ? draftFromAsset(original) : emptyDraft());
+  const [checks, setChecks] = useState<SymbolCheck[]>([]);
+  const [lookups, setLookups] = useState<ResolvedSymbol[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolution is pure, so tickers and warnings follow the draft as it is typed; symbol search results
+  // only arrive with a check or save
+  const draftAsset = assetFromDraft(draft);
+  const resolved = MARKET_ID_PROVIDERS.map(provider => {
+    const local = resolveProviderSymbol(draftAsset, provider);
+    return local.symbol ? local : lookups.find(r => r.provider === provider) ?? local;
+  });
+  const warnings = auditAssetSymbols(draftAsset);
+
+  const update = (patch: Partial<AssetDraft>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    if (patch.symbol !== undefined || patch.type !== undefined) {
+      setChecks([]);
+      setLookups([]);
+    }
+  };
+  const updateSymbol = (provider: MarketDataProviderId, symbol: string) => {
+    setDraft(prev => ({ ...prev, marketIds: { ...prev.marketIds, [provider]: symbol } }));
+    setChecks(prev => prev.filter(c => c.provider !== provider));
+  };
+  const hasUnlisted = checks.some(c => c.status === 'invalid');
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    const result = await previewAssetSymbols(draftAsset, true);
+    setIsChecking(false);
+    setError(result.error ?? null);
+    setChecks(result.checks ?? []);
+    setLookups(result.resolved.filter(r => r.source === 'lookup'));
+  };
+
+  const handleSave = async (allowUnlisted: boolean) => {
+    setIsSaving(true);
+    const result = await saveAsset(draftAsset, original?.name, allowUnlisted);
+    setIsSaving(false);
+    if (result.checks) setChecks(result.checks);
+    if (result.error || !result.assets) {
+      setError(result.error ?? 'Unknown error.');
+      return;
+    }
+    toast({ title: original ? `${draft.name.trim()} updated` : `${draft.name.trim()} added` });
+    onSaved(result.assets);
+  };
+
+  return (
+    <div className="space-y-4 p-4 rounded-md bg-muted/30">
+      <div className="grid gap-3 md:grid-cols-4">
+        <div className="space-y-1">
+          <Label htmlFor="asset-name">Name</Label>
+          <Input id="asset-name" value={draft.name} onChange={e => update({ name: e.target.value })} placeholder="ETH/USD" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="asset-symbol">Symbol</Label>
+          <Input id="asset-symbol" value={draft.symbol} onChange={e => update({ symbol: e.target.value })} placeholder={SYMBOL_EXAMPLES[draft.type]} />
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={draft.type} onValueChange={value => update({ type: value as AssetType })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {ASSET_TYPES.map(type => <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="asset-keywords">News keywords</Label>
+          <Input id="asset-keywords" value={draft.keywords} onChange={e => update({ keywords: e.target.value })} placeholder="Ethereum, ETH, crypto" />
+        </div>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        {resolved.map(({ provider, symbol, source }) => (
+          <div key={provider} className="space-y-1">
+            <Label htmlFor={`asset-symbol-${provider}`}>{PROVIDER_LABELS[provider].label} ticker</Label>
+            <Input
+              id={`asset-symbol-${provider}`}
+              value={draft.marketIds[provider]}
+              onChange={e => updateSymbol(provider, e.target.value)}
+              placeholder={source && source !== 'override' ? symbol : PROVIDER_LABELS[provider].example}
+            />
+            <p className="text-xs text-muted-foreground">
+              {source ? `${SOURCE_LABELS[source]}: ${symbol}` : 'Not resolved; enter an override or Check symbols to search.'}
+            </p>
+            <SymbolWarningLines warnings={warnings.filter(w => w.provider === provider)} />
+            <SymbolCheckLine check={checks.find(c => c.provider === provider)} />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <div className="space-y-1">
+          <Label htmlFor="asset-oer">Open Exchange Rates code</Label>
+          <Input id="asset-oer" value={draft.openexchangerates} onChange={e => update({ openexchangerates: e.target.value })} placeholder="EUR, XAU" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="asset-era">ExchangeRate-API code</Label>
+          <Input id="asset-era" value={draft.exchangerateapi} onChange={e => update({ exchangerateapi: e.target.value })} placeholder="EUR" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="asset-rate-currency">Interest rate currency</Label>
+          <Input id="asset-rate-currency" value={draft.primaryCurrencyForInterestRate} onChange={e => update({ primaryCurrencyForInterestRate: e.target.value })} placeholder="USD" />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => handleSave(false)} disabled={isSaving || !draft.name.trim()}>
+          {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />} {original ? 'Save' : 'Add Asset'}
+        </Button>
+        {hasUnlisted && (
+          <Button size="sm" variant="destructive" onClick={() => handleSave(true)} disabled={isSaving}>
+            Save anyway
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={handleCheck} disabled={isChecking}>
+          {isChecking ? <Loader2 size={16} className="animate-spin" /> : <SearchCheck size={16} />} Check symbols
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+function ResolvedSymbolCell({ asset, provider }: { asset: Asset; provider: MarketDataProviderId }) {
+  const { symbol, source } = resolveProviderSymbol(asset, provider);
+  const warning = auditAssetSymbols(asset).find(w => w.provider === provider && w.severity === 'warning');
+  return (
+    <TableCell title={warning?.message ?? (source ? SOURCE_LABELS[source] : 'Not available on this provider')}>
+      <span className="inline-flex items-center gap-1">
+        <code className={`text-xs ${source === 'override' ? 'font-semibold' : ''}`}>{symbol ?? '—'}</code>
+        {warning && <AlertTriangle size={12} className="text-amber-500 shrink-0" />}
+      </span>
+    </TableCell>
+  );
+}
+
+export default function AssetsPage() {
+  const { toast } = useToast();
+  const [catalog, setCatalog] = useState<AssetCatalogResult | null>(null);
+  const [editing, setEditing] = useState<Asset | 'new' | null>(null);
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getAssetCatalog().then(setCatalog);
+  }, []);
+
+  const handleSaved = (assets: Asset[]) => {
+    setCatalog({ assets, isCustom: true, updatedAt: Date.now() });
+    setEditing(null);
+  };
+
+  const handleDelete = async (asset: Asset) => {
+    const result = await deleteAsset(asset.name);
+    if (result.error || !result.assets) {
+      toast({ title: `${asset.name} not deleted`, description: result.error, variant: 'destructive' });
+      return;
+    }
+    handleSaved(result.assets);
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Replace your catalog with the built-in assets? Your added and edited assets are removed.')) return;
+    const result = await resetAssetCatalog();
+    setCatalog(result);
+    if (result.error) toast({ title: 'Catalog not reset', description: result.error, variant: 'destructive' });
+  };
+
+  const handleExport = () => {
+    if (!catalog) return;
+    const url = URL.createObjectURL(new Blob([serializeAssetCatalog(catalog.assets)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'foresight-assets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    const result = await importAssetCatalog(await file.text(), importMode);
+    if (result.assets) handleSaved(result.assets);
+    toast({
+      title: result.imported > 0 ? `Imported ${result.imported} asset${result.imported === 1 ? '' : 's'}` : 'Nothing imported',
+      description: result.errors.length > 0 ? result.errors.slice(0, 5).join(' ') : undefined,
+      variant: result.imported > 0 ? 'default' : 'destructive',
+    });
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8 max-w-6xl space-y-6">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/"><ArrowLeft className="mr-2 h-4 w-4" />Back to dashboard</Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline">Asset Catalog</CardTitle>
+            <CardDescription>
+              The instruments the dashboard, watchlist and alerts can use. Provider tickers are resolved from each
+              asset&apos;s symbol (for example <code>EUR/USD</code> becomes <code>C:EURUSD</code> on Polygon and{' '}
+              <code>OANDA:EUR_USD</code> on Finnhub); enter a ticker only to override one. Tickers are checked against
+              the provider&apos;s symbol search when you save, using your API keys.
+              Renaming an asset does not carry over signal history recorded under the old name.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2 items-center">
+              <Button size="sm" onClick={() => setEditing('new')} disabled={!catalog || editing !== null}>
+                <Plus size={16} /> Add Asset
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleExport} disabled={!catalog}>
+                <Download size={16} /> Export JSON
+              </Button>
+              <Select value={importMode} onValueChange={value => setImportMode(value as 'merge' | 'replace')}>
+                <SelectTrigger className="w-[200px] h-9" aria-label="Import mode"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Import: add &amp; update</SelectItem>
+                  <SelectItem value="replace">Import: replace catalog</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={!catalog}>
+                <Upload size={16} /> Import JSON
+              </Button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+              {catalog?.isCustom && (
+                <Button size="sm" variant="ghost" onClick={handleReset}>
+                  <RotateCcw size={16} /> Reset to defaults
+                </Button>
+              )}
+              {catalog && !catalog.isCustom && <Badge variant="outline">Built-in defaults</Badge>}
+            </div>
+
+            {catalog?.error && <p className="text-sm text-destructive">{catalog.error}</p>}
+            {editing === 'new' && <AssetForm onSaved={handleSaved} onCancel={() => setEditing(null)} />}
+
+            {!catalog ? (
+              <div className="space-y-2">
+                {[0, 1, 2, 3].map(i => <Skeleton key={i} className="h-10 w-full" />)}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Symbol</TableHead>
+                    {MARKET_ID_PROVIDERS.map(provider => <TableHead key={provider}>{PROVIDER_LABELS[provider].label}</TableHead>)}
+                    <TableHead>Rate</TableHead>
+                    <TableHead className="w-[90px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {catalog.assets.map(asset => (
+                    editing !== 'new' && editing?.name === asset.name ? (
+                      <TableRow key={asset.name}>
+                        <TableCell colSpan={MARKET_ID_PROVIDERS.length + 5}>
+                          <AssetForm original={asset} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      <TableRow key={asset.name}>
+                        <TableCell className="font-medium">{asset.name}</TableCell>
+                        <TableCell className="text-muted-foreground">{TYPE_LABELS[asset.type]}</TableCell>
+                        <TableCell><code className="text-xs">{asset.symbol ?? '—'}</code></TableCell>
+                        {MARKET_ID_PROVIDERS.map(provider => <ResolvedSymbolCell key={provider} asset={asset} provider={provider} />)}
+                        <TableCell className="text-muted-foreground">{asset.economicIds.primaryCurrencyForInterestRate ?? '—'}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditing(asset)} disabled={editing !== null} aria-label={`Edit ${asset.name}`}>
+                              <Pencil size={14} />
+                            </Button>
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(asset)} disabled={editing !== null} aria-label={`Delete ${asset.name}`}>
+                              <Trash2 size={14} />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import Header from '@/components/layout/Header';
 import SignalDisplayCard from '@/components/dashboard/SignalDisplayCard';
 import MarketOverviewCard from '@/components/dashboard/MarketOverviewCard';
@@ -14,11 +15,22 @@ import SentimentAnalysisCard from '@/components/dashboard/SentimentAnalysisCard'
 import EconomicIndicatorCard, { type EconomicIndicatorData as FetchedEconomicIndicatorData } from '@/components/dashboard/EconomicIndicatorCard';
 import ChartAnalyzerCard, { type LiveDataForChartAnalysis } from '@/components/dashboard/ChartAnalyzerCard';
 import EconomicCalendarCard from '@/components/dashboard/EconomicCalendarCard';
+import MacroIndicatorsCard from '@/components/dashboard/MacroIndicatorsCard';
+import BacktestCard from '@/components/dashboard/BacktestCard';
+import ConfluenceCard from '@/components/dashboard/ConfluenceCard';
+import TradePlanCard from '@/components/dashboard/TradePlanCard';
+import SignalHistoryCard from '@/components/dashboard/SignalHistoryCard';
+import SignalScorecardCard from '@/components/dashboard/SignalScorecardCard';
+import AlertsCard from '@/components/dashboard/AlertsCard';
+import ScreenerCard from '@/components/dashboard/ScreenerCard';
+import ProviderQuotaCard from '@/components/dashboard/ProviderQuotaCard';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { RefreshCw, Loader2, Clock, AlertTriangle, Info, KeyRound, Eye, EyeOff, PlayCircle, PauseCircle, Landmark, XCircle, CalendarDays } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw, Loader2, Clock, AlertTriangle, Info, KeyRound, Settings, CheckCircle2, PlayCircle, PauseCircle, Landmark, XCircle, CalendarDays } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from "@/hooks/use-toast";
+import { useAlertNotifications } from "@/hooks/use-alert-notifications";
+import { usePriceStream } from "@/hooks/use-price-stream";
 
 import { generateTradeRecommendation, GenerateTradeRecommendationInput, GenerateTradeRecommendationOutput } from '@/ai/flows/generate-trade-recommendation';
 import { summarizeNewsSentiment, SummarizeNewsSentimentInput, SummarizeNewsSentimentOutput } from '@/ai/flows/summarize-news-sentiment';
@@ -26,111 +38,31 @@ import { analyzeChartImage, AnalyzeChartImageInput, AnalyzeChartImageOutput } fr
 
 
 import { fetchMarketData, MarketData } from '@/app/actions/fetch-market-data';
-import { fetchEconomicData } from '@/app/actions/fetch-economic-data';
+import { fetchEconomicData, type EconomicData } from '@/app/actions/fetch-economic-data';
 import { fetchNewsHeadlines, NewsHeadlinesResult } from '@/app/actions/fetch-news-headlines';
-import { fetchInterestRate, InterestRateData } from '@/app/actions/fetch-interest-rate';
-// Removed: import { fetchEconomicEvents, EconomicEvent } from '@/app/actions/fetch-economic-events';
-
-
-interface Asset {
-  name: string; 
-  type: 'currency' | 'commodity' | 'crypto';
-  searchKeywords: string[]; 
-  marketIds: { 
-    polygon?: string;     
-    finnhub?: string;     
-    twelvedata?: string;  
-  };
-  economicIds: { 
-    openexchangerates?: string; 
-    exchangerateapi?: string;   
-    primaryCurrencyForInterestRate?: string; 
-  };
-}
-
-
-const ASSETS: Asset[] = [
-  { 
-    name: "EUR/USD", type: "currency", searchKeywords: ["EUR", "USD", "Euro", "Dollar", "ECB", "Federal Reserve"],
-    marketIds: { polygon: "C:EURUSD", finnhub: "OANDA:EUR_USD", twelvedata: "EUR/USD" },
-    economicIds: { openexchangerates: "EUR", exchangerateapi: "EUR", primaryCurrencyForInterestRate: "EUR" }
-  },
-  { 
-    name: "GBP/USD", type: "currency", searchKeywords: ["GBP", "USD", "British Pound", "US Dollar", "Bank of England", "BoE", "Federal Reserve", "Fed"],
-    marketIds: { polygon: "C:GBPUSD", finnhub: "OANDA:GBP_USD", twelvedata: "GBP/USD" },
-    economicIds: { openexchangerates: "GBP", exchangerateapi: "GBP", primaryCurrencyForInterestRate: "GBP" }
-  },
-  { 
-    name: "USD/JPY", type: "currency", searchKeywords: ["USD", "JPY", "Japanese Yen", "Bank of Japan", "BoJ"],
-    marketIds: { polygon: "C:USDJPY", finnhub: "OANDA:USD_JPY", twelvedata: "USD/JPY" },
-    economicIds: { openexchangerates: "USD", exchangerateapi: "USD", primaryCurrencyForInterestRate: "JPY" } 
-  },
-  { 
-    name: "AUD/USD", type: "currency", searchKeywords: ["AUD", "USD", "Australian Dollar", "Reserve Bank of Australia", "RBA"],
-    marketIds: { polygon: "C:AUDUSD", finnhub: "OANDA:AUD_USD", twelvedata: "AUD/USD" },
-    economicIds: { openexchangerates: "AUD", exchangerateapi: "AUD", primaryCurrencyForInterestRate: "AUD" }
-  },
-  { 
-    name: "USD/CAD", type: "currency", searchKeywords: ["USD", "CAD", "Canadian Dollar", "Bank of Canada", "BoC"],
-    marketIds: { polygon: "C:USDCAD", finnhub: "OANDA:USD_CAD", twelvedata: "USD/CAD" },
-    economicIds: { openexchangerates: "USD", exchangerateapi: "USD", primaryCurrencyForInterestRate: "CAD" } 
-  },
-  {
-    name: "USD/CHF", type: "currency", searchKeywords: ["USD", "CHF", "Swiss Franc", "SNB", "Swiss National Bank"],
-    marketIds: { polygon: "C:USDCHF", finnhub: "OANDA:USD_CHF", twelvedata: "USD/CHF" },
-    economicIds: { openexchangerates: "USD", exchangerateapi: "USD", primaryCurrencyForInterestRate: "CHF" }
-  },
-  {
-    name: "NZD/USD", type: "currency", searchKeywords: ["NZD", "USD", "New Zealand Dollar", "RBNZ", "Reserve Bank of New Zealand"],
-    marketIds: { polygon: "C:NZDUSD", finnhub: "OANDA:NZD_USD", twelvedata: "NZD/USD" },
-    economicIds: { openexchangerates: "NZD", exchangerateapi: "NZD", primaryCurrencyForInterestRate: "NZD" }
-  },
-  {
-    name: "EUR/GBP", type: "currency", searchKeywords: ["EUR", "GBP", "Euro", "British Pound", "ECB", "BoE"],
-    marketIds: { polygon: "C:EURGBP", finnhub: "OANDA:EUR_GBP", twelvedata: "EUR/GBP" },
-    economicIds: { openexchangerates: "EUR", exchangerateapi: "EUR", primaryCurrencyForInterestRate: "EUR" } 
-  },
-  { 
-    name: "EUR/JPY", type: "currency", searchKeywords: ["EUR", "JPY", "Euro", "Japanese Yen", "ECB", "Bank of Japan", "BoJ"],
-    marketIds: { polygon: "C:EURJPY", finnhub: "OANDA:EUR_JPY", twelvedata: "EUR/JPY" },
-    economicIds: { openexchangerates: "EUR", exchangerateapi: "EUR", primaryCurrencyForInterestRate: "EUR" } 
-  },
-  { 
-    name: "GBP/JPY", type: "currency", searchKeywords: ["GBP", "JPY", "British Pound", "Japanese Yen", "Bank of England", "Bank of Japan"],
-    marketIds: { polygon: "C:GBPJPY", finnhub: "OANDA:GBP_JPY", twelvedata: "GBP/JPY" },
-    economicIds: { openexchangerates: "GBP", exchangerateapi: "GBP", primaryCurrencyForInterestRate: "GBP" } 
-  },
-  { 
-    name: "AUD/CAD", type: "currency", searchKeywords: ["AUD", "CAD", "Australian Dollar", "Canadian Dollar", "Reserve Bank of Australia", "RBA", "Bank of Canada", "BoC"],
-    marketIds: { polygon: "C:AUDCAD", finnhub: "OANDA:AUD_CAD", twelvedata: "AUD/CAD" },
-    economicIds: { openexchangerates: "AUD", exchangerateapi: "AUD", primaryCurrencyForInterestRate: "AUD" } 
-  },
-  { 
-    name: "USD/SGD", type: "currency", searchKeywords: ["USD", "SGD", "Singapore Dollar", "Monetary Authority of Singapore", "MAS"],
-    marketIds: { polygon: "C:USDSGD", finnhub: "OANDA:USD_SGD", twelvedata: "USD/SGD" },
-    economicIds: { openexchangerates: "USD", exchangerateapi: "USD", primaryCurrencyForInterestRate: "SGD" } 
-  },
-  { 
-    name: "Gold (XAU/USD)", type: "commodity", searchKeywords: ["Gold", "XAUUSD", "precious metals", "commodities"],
-    marketIds: { polygon: "X:XAUUSD", finnhub: "FXCM:XAU/USD", twelvedata: "XAU/USD" }, 
-    economicIds: { openexchangerates: "XAU", exchangerateapi: "XAU", primaryCurrencyForInterestRate: "USD" } 
-  },
-  { 
-    name: "Silver (XAG/USD)", type: "commodity", searchKeywords: ["Silver", "XAGUSD", "precious metals", "commodities"],
-    marketIds: { polygon: "X:XAGUSD", finnhub: "FXCM:XAG/USD", twelvedata: "XAG/USD" },
-    economicIds: { openexchangerates: "XAG", exchangerateapi: "XAG", primaryCurrencyForInterestRate: "USD" } 
-  },
-  { 
-    name: "Crude Oil (WTI)", type: "commodity", searchKeywords: ["Crude Oil", "WTI", "energy", "OPEC"],
-    marketIds: { polygon: "CL", finnhub: "USO", twelvedata: "CL" }, 
-    economicIds: { openexchangerates: "WTI", exchangerateapi: "WTI", primaryCurrencyForInterestRate: "USD" } 
-  },
-  { 
-    name: "Bitcoin (BTC/USD)", type: "crypto", searchKeywords: ["Bitcoin", "BTC", "crypto", "cryptocurrency"],
-    marketIds: { polygon: "X:BTCUSD", finnhub: "BINANCE:BTCUSDT", twelvedata: "BTC/USD" },
-    economicIds: { openexchangerates: "BTC", exchangerateapi: "BTC", primaryCurrencyForInterestRate: "USD" } 
-  },
-];
+import { fetchInterestRate, fetchRateDifferential, InterestRateData, type RateDifferential, type RateDifferentialData } from '@/app/actions/fetch-interest-rate';
+import { runBacktest } from '@/app/actions/run-backtest';
+import { analyzeConfluence } from '@/app/actions/analyze-confluence';
+import { getLatestSignals, screenAsset } from '@/app/actions/screen-watchlist';
+import { getAssetCatalog, importAssetCatalog, type Asset } from '@/app/actions/manage-assets';
+import { annotateSignal, getSignalScorecard, listSignalHistory, recordSignal, scoreSignalOutcomes } from '@/app/actions/signal-journal';
+import { getApiKeyStatuses, type ApiKeyStatusResult } from '@/app/actions/manage-api-keys';
+import { getRuleEngineSettings } from '@/app/actions/manage-rule-engine';
+import { getProviderQuotas } from '@/app/actions/provider-quotas';
+import { API_KEY_PROVIDERS, type ApiKeyProviderId } from '@/lib/settings/api-keys';
+import { DEFAULT_ASSETS } from '@/lib/assets/defaults';
+import { evaluateTradeRules, type RuleEngineConfig, type SignalEngineId } from '@/lib/signals/rule-engine';
+import { buildTradeRecommendationInput } from '@/lib/signals/trade-input';
+import { getMacdStatus, getRsiStatus } from '@/lib/signals/indicator-status';
+import { timeframeToMinutes } from '@/lib/market-data/candles';
+import { candleCloseTime, nextBarClose, sessionConventionFor } from '@/lib/market-data/bars';
+import { ALL_DATA_DOMAINS, dueDomains, headlinesKey, materialTradeInputChanges, type DomainTimestamps } from '@/lib/signals/refresh-policy';
+import { fetchEconomicEvents, getEventRisk, type EventRisk } from '@/app/actions/fetch-economic-events';
+import { fetchMacroIndicators } from '@/app/actions/fetch-macro-indicators';
+import { applyEventBlackout } from '@/lib/signals/event-risk';
+import { DIFFERENTIAL_HORIZONS } from '@/lib/signals/rate-differential';
+import { describeRateProvenance } from '@/lib/policy-rates/table';
+import { currenciesForAsset } from '@/lib/calendar/currencies';
 
 
 const TIMEFRAMES = [
@@ -145,104 +77,116 @@ const TIMEFRAMES = [
   { id: "1D", name: "1D" },
 ];
 
-const DEFAULT_POLYGON_KEY = 'zWvUPCQiznWJu0wB3hRic9Qr7YuDC26Q';
-const DEFAULT_FINNHUB_KEY = 'd167e09r01qvtdbgqdfgd167e09r01qvtdbgqdg0';
-const DEFAULT_TWELVEDATA_KEY = '3a10512308b24fbb880b7a137f824a4d';
-const DEFAULT_OPEN_EXCHANGE_RATES_KEY = '23ea9d3f2b64490cb54e23b4c2b50133';
-const DEFAULT_EXCHANGERATE_API_KEY = 'd30c5b3ab75049fb4f361d6d';
-const DEFAULT_NEWSAPI_KEY = 'd2412348368f4a3ea431d8704ca200fc';
-const DEFAULT_FRED_KEY = '31d90da534e6f5269237979b7ff11e13';
-
-
-const getRsiStatus = (rsiValue?: number): string => {
-  if (rsiValue === undefined || rsiValue === null || isNaN(rsiValue)) return 'N/A';
-  if (rsiValue < 30) return 'Oversold';
-  if (rsiValue > 70) return 'Overbought';
-  return 'Neutral';
-};
-
-const getMacdStatus = (macdData?: { value?: number; signal?: number; histogram?: number }): string => {
-  if (!macdData || macdData.value === undefined || macdData.value === null || isNaN(macdData.value) ||
-      macdData.signal === undefined || macdData.signal === null || isNaN(macdData.signal)) {
-    return 'N/A';
-  }
-  const epsilon = 0.0000001; 
-  if (macdData.histogram !== undefined && macdData.histogram > epsilon) return 'Uptrend';
-  if (macdData.histogram !== undefined && macdData.histogram < -epsilon) return 'Downtrend';
-  if (macdData.value > macdData.signal) return 'Uptrend';
-  if (macdData.value < macdData.signal) return 'Downtrend';
-  return 'Neutral';
-};
+// Symbols added from the watchlist before the asset catalog existed; imported into the catalog once
+const LEGACY_CUSTOM_ASSETS_STORAGE_KEY = 'watchlistCustomAssets';
+const BAR_CLOSE_GRACE_MS = 3000; // Providers need a moment to publish the closed bar
 
+const MARKET_KEY_IDS: ApiKeyProviderId[] = API_KEY_PROVIDERS.filter(p => p.category === 'market').map(p => p.id);
 
-async function fetchAllDashboardData(
-  asset: Asset, 
-  timeframeId: string,
-  apiKeys: { 
-    polygon?: string | null;
-    finnhub?: string | null;
-    twelvedata?: string | null;
-    openExchangeRates?: string | null;
-    exchangeRateApi?: string | null;
-    newsApi?: string | null; 
-    fred?: string | null;
-  }
-): Promise<{
+
+// What earlier refreshes fetched and fed the AI flows, so the next one can skip what has not changed
+interface RefreshState {
+  fetchedAt: DomainTimestamps;
+  news?: NewsHeadlinesResult;
+  economic?: EconomicData;
+  interestRate?: InterestRateData;
+  rateDifferential?: RateDifferentialData;
+  headlinesKey?: string;                          // Headlines behind the sentiment on display
+  tradeInput?: GenerateTradeRecommendationInput;  // Input behind the AI signal on display
+  tradeSignal?: GenerateTradeRecommendationOutput; // That AI signal as generated, before any event blackout
+  signalGeneratedAt?: number;
+}
+
+interface DashboardData {
   tradeRecommendation: GenerateTradeRecommendationOutput | null;
+  ruleRecommendation: GenerateTradeRecommendationOutput | null;
   newsSentiment: SummarizeNewsSentimentOutput | null;
   marketOverviewData?: MarketData; 
   technicalIndicatorsData?: ProcessedTechnicalIndicatorsData; 
   economicIndicatorData?: FetchedEconomicIndicatorData; 
   fetchedInterestRateData?: InterestRateData; 
-  // economicEvents?: EconomicEvent[]; // Removed
-  // economicEventsError?: string; // Removed
+  eventRisk?: EventRisk;
+  rateDifferential?: RateDifferential; // FX pairs only
   liveDataForChartAnalysis?: LiveDataForChartAnalysis;
+  recordedSignalId?: string;
+  refreshState?: RefreshState;
+  inputsUnchangedSince?: number; // Set when this refresh kept the previous AI signal
+  provisionalRecommendation?: GenerateTradeRecommendationOutput; // Rules on the forming bar's indicators
+  signalBarClose?: number;       // Close of the bar the official signals were computed from (Unix ms)
   combinedError?: string;
-}> {
+}
+
+/**
+ * Loads the dashboard for an asset. With `previous` (the last result for the same asset and timeframe) only
+ * the data domains that are due are fetched again, and the AI flows only rerun when their inputs changed.
+ * `ruleConfig` is the user's rule-engine settings; the built-in ones apply without it.
+ */
+async function fetchAllDashboardData(
+  asset: Asset, 
+  timeframeId: string,
+  previous?: DashboardData,
+  ruleConfig?: RuleEngineConfig,
+): Promise<DashboardData> {
   let combinedError: string | undefined;
   let tradeRecommendation: GenerateTradeRecommendationOutput | null = null;
+  let ruleRecommendation: GenerateTradeRecommendationOutput | null = null;
+  let recordedSignalId: string | undefined;
+
+  const now = Date.now();
+  const prevState = previous?.refreshState;
+  const convention = sessionConventionFor(asset.type);
+  const due = prevState ? dueDomains(prevState.fetchedAt, timeframeId, convention, now) : ALL_DATA_DOMAINS;
+  const fetchedAt: DomainTimestamps = { ...prevState?.fetchedAt };
+  due.forEach(domain => { fetchedAt[domain] = now; });
+  const refetch = (domain: 'news' | 'rates', cached: unknown) => due.includes(domain) || cached === undefined;
   
   try {
-    const marketApiDataPromise = fetchMarketData(asset, timeframeId, {
-      polygon: apiKeys.polygon,
-      finnhub: apiKeys.finnhub,
-      twelvedata: apiKeys.twelvedata,
-    });
-
-    const economicApiDataPromise = fetchEconomicData(asset, {
-      openExchangeRates: apiKeys.openExchangeRates,
-      exchangeRateApi: apiKeys.exchangeRateApi,
-    });
-    
-    let newsApiPromise: Promise<NewsHeadlinesResult> = Promise.resolve({ headlines: [], error: "NewsAPI key not provided." , sourceProvider: 'NewsAPI.org'});
-    if (apiKeys.newsApi) {
-        newsApiPromise = fetchNewsHeadlines(asset, apiKeys.newsApi);
+    const marketApiDataPromise = fetchMarketData(asset, timeframeId);
+    const economicApiDataPromise = refetch('rates', prevState?.economic)
+      ? fetchEconomicData(asset)
+      : Promise.resolve(prevState!.economic!);
+    const newsApiPromise: Promise<NewsHeadlinesResult> = refetch('news', prevState?.news)
+      ? fetchNewsHeadlines(asset)
+      : Promise.resolve(prevState!.news!);
+
+    let interestRatePromise: Promise<InterestRateData> = Promise.resolve({ error: `Asset ${asset.name} not configured for FRED interest rate fetching.`, sourceProvider: 'FRED' });
+    if (!refetch('rates', prevState?.interestRate)) {
+        interestRatePromise = Promise.resolve(prevState!.interestRate!);
+    } else if (asset.economicIds.primaryCurrencyForInterestRate) {
+        interestRatePromise = fetchInterestRate(asset.economicIds.primaryCurrencyForInterestRate);
     }
 
-    let interestRatePromise: Promise<InterestRateData> = Promise.resolve({ error: "FRED API key not provided or asset not applicable.", sourceProvider: 'FRED' });
-    if (apiKeys.fred && asset.economicIds.primaryCurrencyForInterestRate) {
-        interestRatePromise = fetchInterestRate(asset.economicIds.primaryCurrencyForInterestRate, apiKeys.fred);
-    } else if (apiKeys.fred && !asset.economicIds.primaryCurrencyForInterestRate) {
-        interestRatePromise = Promise.resolve({ error: `Asset ${asset.name} not configured for FRED interest rate fetching.`, sourceProvider: 'FRED' });
+    // FX pairs are judged on both legs' rates, not the primary currency's alone
+    let rateDifferentialPromise: Promise<RateDifferentialData | undefined> = Promise.resolve(undefined);
+    if (asset.type === 'currency') {
+        rateDifferentialPromise = refetch('rates', prevState?.rateDifferential)
+          ? fetchRateDifferential(asset)
+          : Promise.resolve(prevState!.rateDifferential!);
     }
 
-    // Removed: const economicEventsPromise = fetchEconomicEvents();
-
-
-    const [marketApiData, economicApiData, fetchedNewsData, fetchedInterestRateData] = await Promise.all([
+    const [marketApiData, economicApiData, fetchedNewsData, fetchedInterestRateData, rateDifferentialData, eventRisk] = await Promise.all([
         marketApiDataPromise, 
         economicApiDataPromise, 
         newsApiPromise,
         interestRatePromise,
-        // Removed: fetchedEconomicEventsResult
+        rateDifferentialPromise,
+        getEventRisk(asset), // Calendar responses are cached server-side, so this is cheap on every refresh
     ]);
+
+    // Official signals use completed bars only; the indicator card and provisional view include the forming bar
+    const closedBar = marketApiData.closedBar;
+    // ATR and support/resistance for the official signal come from the same closed candles as its RSI and MACD
+    const signalMarketData: MarketData = closedBar
+      ? { ...marketApiData, rsi: closedBar.rsi, macd: closedBar.macd, historical: marketApiData.historical?.filter(c => c.timestamp < closedBar.closeTime) }
+      : marketApiData;
+    // Until the provider publishes the bar that just closed, keep treating indicators as due
+    if (!closedBar || candleCloseTime(closedBar.closeTime, marketApiData.barMinutes ?? timeframeToMinutes(timeframeId)) <= now) delete fetchedAt.indicators;
     
     let dataErrors: string[] = [];
     if (marketApiData.error) dataErrors.push(`Market Data (${marketApiData.sourceProvider || 'Unknown'}): ${marketApiData.error}`);
     if (economicApiData.error) dataErrors.push(`Economic Data (${economicApiData.sourceProvider || 'Unknown'}): ${economicApiData.error}`);
     if (fetchedNewsData.error && (!fetchedNewsData.headlines || fetchedNewsData.headlines.length === 0)) dataErrors.push(`News Headlines (${fetchedNewsData.sourceProvider || 'NewsAPI.org'}): ${fetchedNewsData.error}`);
     if (fetchedInterestRateData.error && fetchedInterestRateData.rate === undefined) dataErrors.push(`Interest Rate (FRED): ${fetchedInterestRateData.error}`);
-    // Removed: if (fetchedEconomicEventsResult.error) dataErrors.push(`Economic Calendar (Tradays): ${fetchedEconomicEventsResult.error}`);
     
     if (dataErrors.length > 0) combinedError = dataErrors.join('; ');
     
@@ -261,15 +205,25 @@ async function fetchAllDashboardData(
       rsi,
       macd,
       error: marketApiData.error && (!marketApiData.rsi && !marketApiData.macd?.value) ? marketApiData.error : undefined,
-      sourceProvider: marketApiData.sourceProvider 
+      sourceProvider: marketApiData.sourceProvider,
+      barClosesAt: marketApiData.historical?.length ? nextBarClose(timeframeId, convention, now) : undefined,
     };
     
     const headlinesForSentiment = fetchedNewsData.headlines && fetchedNewsData.headlines.length > 0 
         ? fetchedNewsData.headlines 
         : [`No specific news headlines found for ${asset.name}. General market conditions apply.`];
     
+    const currentHeadlinesKey = headlinesKey(headlinesForSentiment);
     const newsSentimentInput: SummarizeNewsSentimentInput = { currencyPair: asset.name, newsHeadlines: headlinesForSentiment };
-    const newsSentiment = await summarizeNewsSentiment(newsSentimentInput);
+    const newsSentiment = previous?.newsSentiment && !previous.newsSentiment.error && prevState?.headlinesKey === currentHeadlinesKey
+      ? previous.newsSentiment
+      : await summarizeNewsSentiment(newsSentimentInput);
+
+    let tradeInput: GenerateTradeRecommendationInput | undefined;
+    let tradeSignal: GenerateTradeRecommendationOutput | undefined;
+    let signalGeneratedAt: number | undefined;
+    let inputsUnchangedSince: number | undefined;
+    let provisionalRecommendation: GenerateTradeRecommendationOutput | undefined;
 
     if (marketApiData.marketStatus === 'closed') {
         tradeRecommendation = {
@@ -277,53 +231,54 @@ async function fetchAllDashboardData(
             reason: 'Market is currently closed. Live trading signal generation is paused.',
             error: undefined,
         };
+        ruleRecommendation = tradeRecommendation;
     } else if (marketApiData.error && !marketApiData.price && !marketApiData.rsi && !marketApiData.macd?.value) {
         tradeRecommendation = { 
             recommendation: 'HOLD', 
             reason: `Market data unavailable: ${marketApiData.error}`, 
             error: marketApiData.error 
         };
+        ruleRecommendation = tradeRecommendation;
     } else {
-        const currentPrice = marketApiData.price ?? (asset.type === 'crypto' ? 60000 : asset.type === 'commodity' ? (asset.name.includes("XAU") ? 2300 : (asset.name.includes("XAG") ? 25 : (asset.name.includes("Oil") ? 75 : 100) )) : 1.1);
-        const rsiValue = marketApiData.rsi ?? 50;
-        const macdValue = marketApiData.macd?.value ?? 0;
-        const derivedSentimentScore = newsSentiment?.sentimentScore ?? 0.0;
-        let derivedInterestRate: number;
-        if (fetchedInterestRateData.rate !== undefined && !fetchedInterestRateData.error) {
-            derivedInterestRate = fetchedInterestRateData.rate;
+        const signalContext = { eventRisk, rateDifferential: rateDifferentialData?.differential };
+        const tradeRecommendationInput = buildTradeRecommendationInput(asset, signalMarketData, newsSentiment?.sentimentScore, fetchedInterestRateData, signalContext);
+        ruleRecommendation = applyEventBlackout(evaluateTradeRules(tradeRecommendationInput, ruleConfig), eventRisk);
+        if (closedBar) {
+            provisionalRecommendation = applyEventBlackout(evaluateTradeRules(buildTradeRecommendationInput(asset, marketApiData, newsSentiment?.sentimentScore, fetchedInterestRateData, signalContext), ruleConfig), eventRisk);
+        }
+        // The official signal stands until the next bar close, and is only regenerated then if an input moved materially
+        const canKeepSignal = !!prevState?.tradeSignal && !prevState.tradeSignal.error && !!prevState.tradeInput
+          && (!due.includes('indicators') || materialTradeInputChanges(prevState.tradeInput, tradeRecommendationInput).length === 0);
+
+        if (canKeepSignal) {
+            // Compared against the input the signal was generated from, so slow drift still adds up to a rerun
+            tradeSignal = prevState!.tradeSignal;
+            tradeInput = prevState!.tradeInput;
+            signalGeneratedAt = prevState!.signalGeneratedAt;
+            inputsUnchangedSince = prevState!.signalGeneratedAt;
         } else {
-            const primaryCurrencyForRate = asset.economicIds.primaryCurrencyForInterestRate?.toUpperCase();
-            switch (primaryCurrencyForRate) {
-                case 'EUR': derivedInterestRate = 0.5; break;
-                case 'USD': derivedInterestRate = 1.0; break;
-                case 'GBP': derivedInterestRate = 0.75; break;
-                case 'JPY': derivedInterestRate = -0.1; break;
-                case 'AUD': derivedInterestRate = 0.8; break;
-                case 'CAD': derivedInterestRate = 0.9; break;
-                case 'CHF': derivedInterestRate = 0.25; break;
-                case 'NZD': derivedInterestRate = 0.85; break;
-                case 'SGD': derivedInterestRate = 0.6; break; 
-                default: derivedInterestRate = 0.25; 
-            }
-            if (asset.type === 'commodity' || asset.type === 'crypto') {
-               derivedInterestRate = 0.25; 
-               if(asset.economicIds.primaryCurrencyForInterestRate === 'USD' && fetchedInterestRateData.rate !== undefined && !fetchedInterestRateData.error) {
-                  derivedInterestRate = fetchedInterestRateData.rate; 
-               } else if (asset.economicIds.primaryCurrencyForInterestRate === 'USD') {
-                  derivedInterestRate = 1.0; 
-               }
+            const generated = await generateTradeRecommendation(tradeRecommendationInput);
+            tradeSignal = generated;
+            tradeInput = tradeRecommendationInput;
+            signalGeneratedAt = now;
+
+            if (!generated.error) {
+                const journalResult = await recordSignal({
+                    source: 'trade-recommendation',
+                    assetName: asset.name,
+                    timeframe: timeframeId,
+                    input: tradeRecommendationInput,
+                    ...(marketApiData.price === undefined && { priceIsFallback: true }), // buildTradeRecommendationInput substituted a placeholder
+                    output: { recommendation: generated.recommendation, reason: generated.reason, confidence: generated.confidence },
+                    ruleOutput: { recommendation: ruleRecommendation.recommendation, reason: ruleRecommendation.reason },
+                    marketDataProvider: marketApiData.sourceProvider,
+                    dataTimestamp: marketApiData.lastTradeTimestamp,
+                    barMinutes: marketApiData.barMinutes,
+                });
+                recordedSignalId = journalResult.id; // Journal errors (e.g. Firebase not configured) are shown by the history card
             }
         }
-
-        const tradeRecommendationInput: GenerateTradeRecommendationInput = {
-          rsi: parseFloat(rsiValue.toFixed(2)),
-          macd: parseFloat(macdValue.toFixed(4)),
-          sentimentScore: parseFloat(derivedSentimentScore.toFixed(2)), 
-          interestRate: parseFloat(derivedInterestRate.toFixed(2)), 
-          price: parseFloat(currentPrice.toFixed(asset.name.includes("JPY") || asset.name.includes("XAU") || asset.name.includes("XAG") || asset.name.includes("Oil") || asset.type === "crypto" ? 2 : 4)),
-          marketStatus: marketApiData.marketStatus
-        };
-        tradeRecommendation = await generateTradeRecommendation(tradeRecommendationInput);
+        tradeRecommendation = applyEventBlackout(tradeSignal!, eventRisk);
     }
     
     const finalEconomicData: FetchedEconomicIndicatorData = {
@@ -342,7 +297,7 @@ async function fetchAllDashboardData(
     if (newsSentiment.error) finalErrors.push(`Sentiment AI: ${newsSentiment.error}`);
     if (tradeRecommendation && tradeRecommendation.error) finalErrors.push(`Trade AI: ${tradeRecommendation.error}`);
     if (fetchedInterestRateData.error && fetchedInterestRateData.rate === undefined) finalErrors.push(`Interest Rate (FRED): ${fetchedInterestRateData.error}`);
-    // Removed: if (fetchedEconomicEventsResult.error) finalErrors.push(`Economic Calendar (Tradays): ${fetchedEconomicEventsResult.error}`);
+    else if (rateDifferentialData?.error && !rateDifferentialData.differential) finalErrors.push(`Rate Differential (FRED): ${rateDifferentialData.error}`);
 
 
     const finalCombinedError = finalErrors.length > 0 ? finalErrors.join('; ') : undefined;
@@ -359,14 +314,31 @@ async function fetchAllDashboardData(
 
     return {
         tradeRecommendation,
+        ruleRecommendation,
         newsSentiment,
         marketOverviewData: {...marketApiData, sourceProvider: marketApiData.sourceProvider, marketStatus: marketApiData.marketStatus || 'unknown'},
         technicalIndicatorsData: processedTechIndicators, 
         economicIndicatorData: finalEconomicData,
         fetchedInterestRateData,
-        // economicEvents: fetchedEconomicEventsResult.events, // Removed
-        // economicEventsError: fetchedEconomicEventsResult.error, // Removed
+        eventRisk,
+        rateDifferential: rateDifferentialData?.differential,
         liveDataForChartAnalysis: liveDataForChart,
+        recordedSignalId,
+        refreshState: {
+          fetchedAt,
+          // Failed fetches are not kept, so the next refresh retries them
+          news: fetchedNewsData.error ? undefined : fetchedNewsData,
+          economic: economicApiData.error ? undefined : economicApiData,
+          interestRate: fetchedInterestRateData.error ? undefined : fetchedInterestRateData,
+          rateDifferential: rateDifferentialData?.error ? undefined : rateDifferentialData,
+          headlinesKey: newsSentiment.error ? undefined : currentHeadlinesKey,
+          tradeInput,
+          tradeSignal,
+          signalGeneratedAt,
+        },
+        inputsUnchangedSince,
+        provisionalRecommendation,
+        signalBarClose: closedBar?.closeTime,
         combinedError: finalCombinedError || combinedError
     };
 
@@ -383,13 +355,12 @@ async function fetchAllDashboardData(
     };
     return {
         tradeRecommendation: { recommendation: 'HOLD', reason: `Analysis error: ${finalCombinedError}`, error: finalCombinedError },
+        ruleRecommendation: null,
         newsSentiment: { overallSentiment: 'Unknown', summary: `Analysis error: ${finalCombinedError}`, sentimentScore: 0.0, error: finalCombinedError },
         marketOverviewData: { assetName: asset.name, timeframe: timeframeId, error: finalCombinedError, sourceProvider: 'Unknown', marketStatus: 'unknown' },
         technicalIndicatorsData: defaultTechIndicators,
         economicIndicatorData: { indicatorName: 'N/A', value: 'N/A', sourceProvider: 'Unknown', error: finalCombinedError },
         fetchedInterestRateData: { error: finalCombinedError, sourceProvider: 'FRED'},
-        // economicEvents: [], // Removed
-        // economicEventsError: finalCombinedError, // Removed
         liveDataForChartAnalysis: {},
         combinedError: finalCombinedError
     };
@@ -397,130 +368,76 @@ async function fetchAllDashboardData(
 }
 
 export default function HomePage() {
-  const [selectedAsset, setSelectedAsset] = useState<Asset>(ASSETS[0]);
+  const [selectedAsset, setSelectedAsset] = useState<Asset>(DEFAULT_ASSETS[0]);
   const [selectedTimeframe, setSelectedTimeframe] = useState(TIMEFRAMES[4]);
   
-  const [dashboardData, setDashboardData] = useState<{
-    tradeRecommendation: GenerateTradeRecommendationOutput | null;
-    newsSentiment: SummarizeNewsSentimentOutput | null;
-    marketOverviewData?: MarketData;
-    technicalIndicatorsData?: ProcessedTechnicalIndicatorsData;
-    economicIndicatorData?: FetchedEconomicIndicatorData;
-    fetchedInterestRateData?: InterestRateData;
-    // economicEvents?: EconomicEvent[]; // Removed
-    // economicEventsError?: string; // Removed
-    liveDataForChartAnalysis?: LiveDataForChartAnalysis;
-    combinedError?: string;
-  } | null>(null);
+  const [dashboardData, setDashboardData] = useState<DashboardData | null>(null);
 
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastError, setLastError] = useState<string | null>(null);
   const { toast } = useToast();
   const [isAutoRefreshEnabled, setIsAutoRefreshEnabled] = useState(true);
+  const [signalEngine, setSignalEngine] = useState<SignalEngineId>('ai');
+  const [ruleConfig, setRuleConfig] = useState<RuleEngineConfig | undefined>(); // The user's rule-engine settings
 
 
-  const [polygonApiKey, setPolygonApiKey] = useState<string | null>(null);
-  const [tempPolygonKey, setTempPolygonKey] = useState('');
-  const [showPolygonKey, setShowPolygonKey] = useState(false);
-
-  const [finnhubApiKey, setFinnhubApiKey] = useState<string | null>(null);
-  const [tempFinnhubKey, setTempFinnhubKey] = useState('');
-  const [showFinnhubKey, setShowFinnhubKey] = useState(false);
-
-  const [twelveDataApiKey, setTwelveDataApiKey] = useState<string | null>(null);
-  const [tempTwelveDataKey, setTempTwelveDataKey] = useState('');
-  const [showTwelveDataKey, setShowTwelveDataKey] = useState(false);
-  
-  const [openExchangeRatesApiKey, setOpenExchangeRatesApiKey] = useState<string | null>(null);
-  const [tempOpenExchangeRatesKey, setTempOpenExchangeRatesKey] = useState('');
-  const [showOpenExchangeRatesKey, setShowOpenExchangeRatesKey] = useState(false);
-
-  const [exchangeRateApiKey, setExchangeRateApiKey] = useState<string | null>(null);
-  const [tempExchangeRateApiKey, setTempExchangeRateApiKey] = useState('');
-  const [showExchangeRateApiKey, setShowExchangeRateApiKey] = useState(false);
-  
-  const [newsApiKey, setNewsApiKey] = useState<string | null>(null);
-  const [tempNewsApiKey, setTempNewsApiKey] = useState('');
-  const [showNewsApiKey, setShowNewsApiKey] = useState(false);
-
-  const [fredApiKey, setFredApiKey] = useState<string | null>(null);
-  const [tempFredApiKey, setTempFredApiKey] = useState('');
-  const [showFredApiKey, setShowFredApiKey] = useState(false);
+  const [keyStatus, setKeyStatus] = useState<ApiKeyStatusResult | null>(null);
+  const [journalVersion, setJournalVersion] = useState<string | undefined>(); // Last signal recorded outside a refresh
+  const [assets, setAssets] = useState<Asset[]>(DEFAULT_ASSETS); // The user's asset catalog
+  const [refreshFloorMs, setRefreshFloorMs] = useState(0); // Fastest auto-refresh the providers' request budgets sustain
 
 
   useEffect(() => {
-    const initKey = (storageKey: string, defaultKey: string, setKeyFn: (key: string | null) => void, setTempKeyFn: (key: string) => void) => {
-      let keyToUse = localStorage.getItem(storageKey);
-      if (!keyToUse) {
-        keyToUse = defaultKey;
+    // Keys live on the server; the browser only learns which providers are configured
+    const keyStatusPromise = getApiKeyStatuses()
+      .then(setKeyStatus)
+      .catch(err => {
+        console.error('Could not load API key status:', err);
+        setKeyStatus({ statuses: [], canStoreUserKeys: false });
+      });
+
+    const loadCatalog = async () => {
+      const legacyAssets = localStorage.getItem(LEGACY_CUSTOM_ASSETS_STORAGE_KEY);
+      if (legacyAssets) {
+        const result = await importAssetCatalog(legacyAssets, 'merge');
+        if (result.errors.length > 0) console.warn('Some watchlist symbols were not imported:', result.errors);
+        localStorage.removeItem(LEGACY_CUSTOM_ASSETS_STORAGE_KEY);
       }
-      setKeyFn(keyToUse || null);
-      setTempKeyFn(keyToUse || '');
+      const catalog = await getAssetCatalog();
+      if (catalog.error) toast({ title: 'Asset catalog', description: catalog.error, variant: 'destructive' });
+      setAssets(catalog.assets);
+      setSelectedAsset(current => catalog.assets.find(a => a.name === current.name) ?? catalog.assets[0]);
     };
 
-    initKey('polygonApiKey', DEFAULT_POLYGON_KEY, setPolygonApiKey, setTempPolygonKey);
-    initKey('finnhubApiKey', DEFAULT_FINNHUB_KEY, setFinnhubApiKey, setTempFinnhubKey);
-    initKey('twelveDataApiKey', DEFAULT_TWELVEDATA_KEY, setTwelveDataApiKey, setTempTwelveDataKey);
-    initKey('openExchangeRatesApiKey', DEFAULT_OPEN_EXCHANGE_RATES_KEY, setOpenExchangeRatesApiKey, setTempOpenExchangeRatesKey);
-    initKey('exchangeRateApiKey', DEFAULT_EXCHANGERATE_API_KEY, setExchangeRateApiKey, setTempExchangeRateApiKey);
-    initKey('newsApiKey', DEFAULT_NEWSAPI_KEY, setNewsApiKey, setTempNewsApiKey);
-    initKey('fredApiKey', DEFAULT_FRED_KEY, setFredApiKey, setTempFredApiKey);
-    
-    setIsLoading(false); 
-  }, []);
-
-  const handleSetKey = (tempKey: string, setKeyFn: (key: string | null) => void, storageKey: string, keyName: string) => {
-    const trimmedKey = tempKey.trim();
-    if (trimmedKey) {
-      setKeyFn(trimmedKey);
-      localStorage.setItem(storageKey, trimmedKey);
-      toast({ title: `${keyName} API Key Set`, description: "Data fetching for this provider is configured." });
-      
-      const currentKeys = {
-          polygon: storageKey === 'polygonApiKey' ? trimmedKey : polygonApiKey,
-          finnhub: storageKey === 'finnhubApiKey' ? trimmedKey : finnhubApiKey,
-          twelvedata: storageKey === 'twelveDataApiKey' ? trimmedKey : twelveDataApiKey,
-          openExchangeRates: storageKey === 'openExchangeRatesApiKey' ? trimmedKey : openExchangeRatesApiKey,
-          exchangeRateApi: storageKey === 'exchangeRateApiKey' ? trimmedKey : exchangeRateApiKey,
-          newsApi: storageKey === 'newsApiKey' ? trimmedKey : newsApiKey,
-          fred: storageKey === 'fredApiKey' ? trimmedKey : fredApiKey,
-      };
-      if (currentKeys.polygon || currentKeys.finnhub || currentKeys.twelvedata) { 
-          loadData(selectedAsset, selectedTimeframe, currentKeys);
-      }
-    } else {
-      setKeyFn(null); 
-      localStorage.removeItem(storageKey); 
-      toast({ title: `${keyName} API Key Cleared`, description: `API key for ${keyName} has been removed.`, variant: "destructive" });
-    }
+    const ruleConfigPromise = getRuleEngineSettings()
+      .then(result => setRuleConfig(result.config))
+      .catch(err => console.error('Could not load rule-engine settings:', err));
+
+    // The first dashboard load waits for all three, so it uses the user's catalog and rule settings
+    Promise.all([keyStatusPromise, loadCatalog().catch(err => console.error('Could not load asset catalog:', err)), ruleConfigPromise])
+      .finally(() => setIsLoading(false));
+
+    const storedEngine = localStorage.getItem('signalEngine');
+    if (storedEngine === 'ai' || storedEngine === 'rules') setSignalEngine(storedEngine);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleSignalEngineChange = (engine: SignalEngineId) => {
+    setSignalEngine(engine);
+    localStorage.setItem('signalEngine', engine);
   };
 
 
+  const isAnyMarketKeySet = !!keyStatus?.statuses.some(status => MARKET_KEY_IDS.includes(status.id) && status.source !== 'none');
+
   const loadData = useCallback(async (
       asset: Asset, 
-      timeframe: typeof TIMEFRAMES[0],
-      currentApiKeys: { 
-        polygon?: string | null;
-        finnhub?: string | null;
-        twelvedata?: string | null;
-        openExchangeRates?: string | null;
-        exchangeRateApi?: string | null;
-        newsApi?: string | null;
-        fred?: string | null;
-      }
+      timeframe: typeof TIMEFRAMES[0]
     ) => {
-    if (!currentApiKeys.polygon && !currentApiKeys.finnhub && !currentApiKeys.twelvedata) {
-      setLastError("At least one Market Data API key (Polygon, Finnhub, or TwelveData) is required. Please set one to fetch data.");
-      setIsLoading(false); 
-      setDashboardData(null); 
-      return;
-    }
-        
     setIsLoading(true);
     setLastError(null);
     setDashboardData(null); 
-    const data = await fetchAllDashboardData(asset, timeframe.id, currentApiKeys);
+    const data = await fetchAllDashboardData(asset, timeframe.id, undefined, ruleConfig);
     setDashboardData(data);
     
     let errorMessages: string[] = [];
@@ -532,32 +449,29 @@ export default function HomePage() {
         setLastError(null); 
     }
     setIsLoading(false);
-  }, []); 
+  }, [ruleConfig]); 
 
   useEffect(() => {
-    const currentApiKeys = { 
-        polygon: polygonApiKey, 
-        finnhub: finnhubApiKey, 
-        twelvedata: twelveDataApiKey, 
-        openExchangeRates: openExchangeRatesApiKey, 
-        exchangeRateApi: exchangeRateApiKey,
-        newsApi: newsApiKey, 
-        fred: fredApiKey,
-    };
-    if ((currentApiKeys.polygon || currentApiKeys.finnhub || currentApiKeys.twelvedata) && !isLoading && !isRefreshing) {
+    if (!isAnyMarketKeySet) return;
+    getProviderQuotas()
+      .then(result => setRefreshFloorMs(result.refreshFloorMs ?? 0))
+      .catch(err => console.error('Could not load provider quotas:', err));
+  }, [isAnyMarketKeySet]);
+
+  useEffect(() => {
+    if (isAnyMarketKeySet && !isLoading && !isRefreshing) {
       if (!dashboardData) { 
-         loadData(selectedAsset, selectedTimeframe, currentApiKeys);
+         loadData(selectedAsset, selectedTimeframe);
       }
     }
-  }, [polygonApiKey, finnhubApiKey, twelveDataApiKey, openExchangeRatesApiKey, exchangeRateApiKey, newsApiKey, fredApiKey, selectedAsset, selectedTimeframe, loadData, dashboardData, isLoading, isRefreshing]);
+  }, [isAnyMarketKeySet, selectedAsset, selectedTimeframe, loadData, dashboardData, isLoading, isRefreshing]);
 
 
   const handleAssetChange = (asset: Asset) => {
     if (asset.name !== selectedAsset.name) { 
       setSelectedAsset(asset);
-      const currentApiKeys = { polygon: polygonApiKey, finnhub: finnhubApiKey, twelvedata: twelveDataApiKey, openExchangeRates: openExchangeRatesApiKey, exchangeRateApi: exchangeRateApiKey, newsApi: newsApiKey, fred: fredApiKey };
-      if (currentApiKeys.polygon || currentApiKeys.finnhub || currentApiKeys.twelvedata) {
-        loadData(asset, selectedTimeframe, currentApiKeys);
+      if (isAnyMarketKeySet) {
+        loadData(asset, selectedTimeframe);
       }
     }
   };
@@ -565,22 +479,33 @@ export default function HomePage() {
   const handleTimeframeChange = (timeframe: typeof TIMEFRAMES[0]) => {
     if (timeframe.id !== selectedTimeframe.id) {
       setSelectedTimeframe(timeframe);
-      const currentApiKeys = { polygon: polygonApiKey, finnhub: finnhubApiKey, twelvedata: twelveDataApiKey, openExchangeRates: openExchangeRatesApiKey, exchangeRateApi: exchangeRateApiKey, newsApi: newsApiKey, fred: fredApiKey };
-      if (currentApiKeys.polygon || currentApiKeys.finnhub || currentApiKeys.twelvedata) {
-        loadData(selectedAsset, timeframe, currentApiKeys);
+      if (isAnyMarketKeySet) {
+        loadData(selectedAsset, timeframe);
       }
     }
   };
 
-  const handleRefresh = useCallback(async () => {
-    const currentApiKeys = { polygon: polygonApiKey, finnhub: finnhubApiKey, twelvedata: twelveDataApiKey, openExchangeRates: openExchangeRatesApiKey, exchangeRateApi: exchangeRateApiKey, newsApi: newsApiKey, fred: fredApiKey };
-    if (!currentApiKeys.polygon && !currentApiKeys.finnhub && !currentApiKeys.twelvedata) {
-      toast({ title: "Market Data API Key Required", description: "Please set at least one market data API key (Polygon, Finnhub, or TwelveData).", variant: "destructive" });
+  // Click-through from the watchlist: switches asset and timeframe with a single reload
+  const handleWatchlistSelect = (assetName: string, timeframeId: string) => {
+    const asset = assets.find(a => a.name === assetName);
+    const timeframe = TIMEFRAMES.find(tf => tf.id === timeframeId);
+    if (!asset || !timeframe || isDataFetchingDisabled) return;
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    if (asset.name === selectedAsset.name && timeframe.id === selectedTimeframe.id) return;
+    setSelectedAsset(asset);
+    setSelectedTimeframe(timeframe);
+    loadData(asset, timeframe);
+  };
+
+  // Auto-refreshes only fetch what is due; the refresh button reloads everything and reruns the AI flows
+  const handleRefresh = useCallback(async (fullRefresh = false) => {
+    if (!isAnyMarketKeySet) {
+      toast({ title: "Market Data API Key Required", description: "Configure at least one market data API key (Polygon, Finnhub, or TwelveData) in Settings.", variant: "destructive" });
       return;
     }
       setIsRefreshing(true);
       setLastError(null); 
-      const data = await fetchAllDashboardData(selectedAsset, selectedTimeframe.id, currentApiKeys);
+      const data = await fetchAllDashboardData(selectedAsset, selectedTimeframe.id, fullRefresh ? undefined : dashboardData ?? undefined, ruleConfig);
       setDashboardData(data);
       if (data.combinedError) {
         setLastError(data.combinedError);
@@ -588,13 +513,34 @@ export default function HomePage() {
          setLastError(null);
       }
       setIsRefreshing(false);
-  }, [polygonApiKey, finnhubApiKey, twelveDataApiKey, openExchangeRatesApiKey, exchangeRateApiKey, newsApiKey, fredApiKey, selectedAsset, selectedTimeframe, toast]);
+  }, [isAnyMarketKeySet, selectedAsset, selectedTimeframe, toast, dashboardData, ruleConfig]);
+
+  const handleAnalyzeChart = useCallback(async (input: AnalyzeChartImageInput): Promise<AnalyzeChartImageOutput> => {
+    const result = await analyzeChartImage(input);
+    if (!result.error) {
+      const { imageDataUri, ...inputSnapshot } = input;
+      const journalResult = await recordSignal({
+        source: 'chart-analysis',
+        assetName: selectedAsset.name,
+        timeframe: selectedTimeframe.id,
+        input: inputSnapshot,
+        output: { recommendation: result.recommendation, reason: result.reason, confidence: result.confidence },
+        marketDataProvider: dashboardData?.marketOverviewData?.sourceProvider,
+        dataTimestamp: dashboardData?.marketOverviewData?.lastTradeTimestamp,
+        barMinutes: dashboardData?.marketOverviewData?.barMinutes,
+      });
+      if (journalResult.id) setJournalVersion(journalResult.id);
+    }
+    return result;
+  }, [selectedAsset, selectedTimeframe, dashboardData]);
 
   const renderCardSkeleton = (heightClass = "h-[250px]") => <Skeleton className={`${heightClass} w-full`} />;
 
-  const isAnyMarketKeySet = !!(polygonApiKey || finnhubApiKey || twelveDataApiKey);
   const isKeySetupPhase = !isAnyMarketKeySet;
   const isDataFetchingDisabled = isLoading || isRefreshing || isKeySetupPhase;
+  const lastAlertAt = useAlertNotifications(!isKeySetupPhase);
+  const priceStream = usePriceStream(selectedAsset.name, isAutoRefreshEnabled && !isKeySetupPhase, dashboardData?.marketOverviewData?.price);
+  const isStreaming = priceStream.status === 'live';
 
 
   useEffect(() => {
@@ -617,7 +563,10 @@ export default function HomePage() {
       }
     };
 
-    const intervalMs = getIntervalMs(selectedTimeframe.id);
+    // Free plans can't sustain the short intervals (Polygon's 5 calls/min covers one refresh every 36s).
+    // While prices stream, the full refresh only has to keep indicators and signals current, once per bar.
+    const pollMs = isStreaming ? timeframeToMinutes(selectedTimeframe.id) * 60 * 1000 : getIntervalMs(selectedTimeframe.id);
+    const intervalMs = Math.max(pollMs, refreshFloorMs);
     
     const intervalId = setInterval(() => {
       if (!document.hidden && !isRefreshing && !isLoading) { 
@@ -628,152 +577,56 @@ export default function HomePage() {
     return () => {
       clearInterval(intervalId);
     };
-  }, [selectedAsset, selectedTimeframe, handleRefresh, isKeySetupPhase, isLoading, isRefreshing, dashboardData, isAutoRefreshEnabled]);
-
+  }, [selectedAsset, selectedTimeframe, handleRefresh, isKeySetupPhase, isLoading, isRefreshing, dashboardData, isAutoRefreshEnabled, refreshFloorMs, isStreaming]);
 
-  const ApiKeyInputGroup = ({
-    label,
-    id,
-    value,
-    onChange,
-    showKey,
-    onToggleShowKey,
-    onSetKey,
-    placeholder,
-    providerName
-  }: {
-    label: string;
-    id: string;
-    value: string;
-    onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-    showKey: boolean;
-    onToggleShowKey: () => void;
-    onSetKey: () => void;
-    placeholder: string;
-    providerName: string;
-  }) => (
-    <div>
-      <label htmlFor={id} className="block text-sm font-medium text-foreground mb-1">{label}</label>
-      <div className="flex gap-2 items-center">
-        <Input
-          id={id}
-          type={showKey ? "text" : "password"}
-          value={value}
-          onChange={onChange}
-          placeholder={placeholder}
-          className="flex-grow"
-        />
-        <Button variant="ghost" size="icon" onClick={onToggleShowKey} aria-label={showKey ? `Hide ${providerName} API key` : `Show ${providerName} API key`}>
-          {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
-        </Button>
-        <Button onClick={onSetKey} size="sm"><KeyRound size={16} /> Set</Button>
-      </div>
-    </div>
-  );
+  // The official signal is due as soon as the forming bar closes, whatever the polling interval
+  useEffect(() => {
+    if (!isAutoRefreshEnabled || isKeySetupPhase || !dashboardData || isLoading || isRefreshing) return;
+    const closeAt = nextBarClose(selectedTimeframe.id, sessionConventionFor(selectedAsset.type));
+    const timeoutId = setTimeout(() => {
+      if (!document.hidden) handleRefresh();
+    }, closeAt - Date.now() + BAR_CLOSE_GRACE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [selectedAsset, selectedTimeframe, handleRefresh, isKeySetupPhase, isLoading, isRefreshing, dashboardData, isAutoRefreshEnabled]);
 
 
   return (
     <div className="flex flex-col min-h-screen bg-background">
       <Header />
       <main className="flex-grow container mx-auto p-4 md:p-8">
-        <div className="mb-6 p-4 border border-border rounded-lg bg-card shadow-md space-y-4">
-            <h3 className="text-lg font-semibold text-foreground mb-2">API Key Configuration</h3>
-            <p className="text-xs text-muted-foreground mb-3">
-                API keys are pre-filled and stored in your browser's local storage. Change them if needed.
+        {keyStatus && (
+          <div className="mb-6 p-4 border border-border rounded-lg bg-card shadow-md">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h3 className="text-lg font-semibold text-foreground">API Keys</h3>
+              <Button asChild variant="outline" size="sm">
+                <Link href="/settings"><Settings className="mr-2 h-4 w-4" />Manage in Settings</Link>
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {API_KEY_PROVIDERS.map(provider => {
+                const configured = (keyStatus.statuses.find(status => status.id === provider.id)?.source ?? 'none') !== 'none';
+                return (
+                  <Badge key={provider.id} variant={configured ? 'secondary' : 'outline'} className="gap-1">
+                    {configured ? <CheckCircle2 size={12} className="text-green-500" /> : <XCircle size={12} className="text-muted-foreground" />}
+                    {provider.label}
+                  </Badge>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3">
+                Keys are stored on the server and never sent to the browser.
                 Market data tries Polygon.io &rarr; Finnhub.io &rarr; TwelveData.
                 Economic data tries OpenExchangeRates.org &rarr; ExchangeRate-API.com.
-                News headlines from NewsAPI.org. Interest rates from FRED. Economic calendar widget from Tradays.com.
+                News headlines from NewsAPI.org. Interest rates from FRED. Economic calendar from Finnhub.io.
             </p>
-            <div className="grid md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-x-4 gap-y-6">
-                <ApiKeyInputGroup
-                    label="Polygon.io API Key (Market Data):"
-                    id="polygonKeyInput"
-                    value={tempPolygonKey}
-                    onChange={(e) => setTempPolygonKey(e.target.value)}
-                    showKey={showPolygonKey}
-                    onToggleShowKey={() => setShowPolygonKey(!showPolygonKey)}
-                    onSetKey={() => handleSetKey(tempPolygonKey, setPolygonApiKey, 'polygonApiKey', 'Polygon.io')}
-                    placeholder="Enter Polygon.io API Key"
-                    providerName="Polygon.io"
-                />
-                <ApiKeyInputGroup
-                    label="Finnhub.io API Key (Market Data):"
-                    id="finnhubKeyInput"
-                    value={tempFinnhubKey}
-                    onChange={(e) => setTempFinnhubKey(e.target.value)}
-                    showKey={showFinnhubKey}
-                    onToggleShowKey={() => setShowFinnhubKey(!showFinnhubKey)}
-                    onSetKey={() => handleSetKey(tempFinnhubKey, setFinnhubApiKey, 'finnhubApiKey', 'Finnhub.io')}
-                    placeholder="Enter Finnhub.io API Key"
-                    providerName="Finnhub.io"
-                />
-                 <ApiKeyInputGroup
-                    label="Twelve Data API Key (Market Data):"
-                    id="twelveDataKeyInput"
-                    value={tempTwelveDataKey}
-                    onChange={(e) => setTempTwelveDataKey(e.target.value)}
-                    showKey={showTwelveDataKey}
-                    onToggleShowKey={() => setShowTwelveDataKey(!showTwelveDataKey)}
-                    onSetKey={() => handleSetKey(tempTwelveDataKey, setTwelveDataApiKey, 'twelveDataApiKey', 'Twelve Data')}
-                    placeholder="Enter Twelve Data API Key"
-                    providerName="Twelve Data"
-                />
-                <ApiKeyInputGroup
-                    label="Open Exchange Rates API Key (Economic Data):"
-                    id="openExchangeRatesKeyInput"
-                    value={tempOpenExchangeRatesKey}
-                    onChange={(e) => setTempOpenExchangeRatesKey(e.target.value)}
-                    showKey={showOpenExchangeRatesKey}
-                    onToggleShowKey={() => setShowOpenExchangeRatesKey(!showOpenExchangeRatesKey)}
-                    onSetKey={() => handleSetKey(tempOpenExchangeRatesKey, setOpenExchangeRatesApiKey, 'openExchangeRatesApiKey', 'Open Exchange Rates')}
-                    placeholder="Enter Open Exchange Rates API Key"
-                    providerName="Open Exchange Rates"
-                />
-                <ApiKeyInputGroup
-                    label="ExchangeRate-API.com Key (Economic Data):"
-                    id="exchangeRateApiKeyInput"
-                    value={tempExchangeRateApiKey}
-                    onChange={(e) => setTempExchangeRateApiKey(e.target.value)}
-                    showKey={showExchangeRateApiKey}
-                    onToggleShowKey={() => setShowExchangeRateApiKey(!showExchangeRateApiKey)}
-                    onSetKey={() => handleSetKey(tempExchangeRateApiKey, setExchangeRateApiKey, 'exchangeRateApiKey', 'ExchangeRate-API.com')}
-                    placeholder="Enter ExchangeRate-API.com API Key"
-                    providerName="ExchangeRate-API.com"
-                />
-                 <ApiKeyInputGroup
-                    label="NewsAPI.org Key (News Headlines):"
-                    id="newsApiKeyInput"
-                    value={tempNewsApiKey}
-                    onChange={(e) => setTempNewsApiKey(e.target.value)}
-                    showKey={showNewsApiKey}
-                    onToggleShowKey={() => setShowNewsApiKey(!showNewsApiKey)}
-                    onSetKey={() => handleSetKey(tempNewsApiKey, setNewsApiKey, 'newsApiKey', 'NewsAPI.org')}
-                    placeholder="Enter NewsAPI.org API Key"
-                    providerName="NewsAPI.org"
-                />
-                <ApiKeyInputGroup
-                    label="FRED API Key (Interest Rates):"
-                    id="fredApiKeyInput"
-                    value={tempFredApiKey}
-                    onChange={(e) => setTempFredApiKey(e.target.value)}
-                    showKey={showFredApiKey}
-                    onToggleShowKey={() => setShowFredApiKey(!showFredApiKey)}
-                    onSetKey={() => handleSetKey(tempFredApiKey, setFredApiKey, 'fredApiKey', 'FRED')}
-                    placeholder="Enter FRED API Key"
-                    providerName="FRED"
-                />
-            </div>
-             <div className="text-xs text-muted-foreground p-2 bg-muted/30 rounded-md mt-2">
-                <AlertTriangle size={14} className="inline mr-1 text-destructive" />
-                For production, API keys should be managed server-side. Storing sensitive keys in browser local storage is for convenience in development only.
-            </div>
-        </div>
+          </div>
+        )}
 
         <div className="flex flex-col gap-4 mb-6">
           <div className="flex flex-wrap items-center justify-between gap-4">
             <h2 className="text-lg font-semibold text-foreground">Select Asset:</h2>
             <div className="flex gap-2 flex-wrap">
-              {ASSETS.map(asset => (
+              {assets.map(asset => (
                 <Button
                   key={asset.name} 
                   variant={selectedAsset.name === asset.name ? "default" : "outline"}
@@ -784,6 +637,9 @@ export default function HomePage() {
                   {asset.name}
                 </Button>
               ))}
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/assets"><Settings className="mr-1 h-4 w-4" />Manage</Link>
+              </Button>
             </div>
           </div>
           <div className="flex flex-wrap items-center justify-between gap-4">
@@ -817,7 +673,7 @@ export default function HomePage() {
                 )}
                 {isAutoRefreshEnabled ? 'Stop Auto-Refresh' : 'Start Auto-Refresh'}
             </Button>
-            <Button onClick={handleRefresh} disabled={isDataFetchingDisabled} className="self-end" size="sm">
+            <Button onClick={() => handleRefresh(true)} disabled={isDataFetchingDisabled} className="self-end" size="sm">
                 {isRefreshing ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 ) : (
@@ -833,12 +689,39 @@ export default function HomePage() {
             <div className="flex items-center gap-2 text-primary">
               <Landmark size={18} />
               <span className="font-semibold">
-                Live Interest Rate ({dashboardData.fetchedInterestRateData.seriesId || selectedAsset.economicIds.primaryCurrencyForInterestRate || 'N/A'}):
+                {dashboardData.fetchedInterestRateData.provenance?.source === 'table' ? 'Interest Rate' : 'Live Interest Rate'} ({dashboardData.fetchedInterestRateData.seriesId || selectedAsset.economicIds.primaryCurrencyForInterestRate || 'N/A'}):
               </span>
               <span className="text-foreground font-bold">{dashboardData.fetchedInterestRateData.rate?.toFixed(2)}%</span>
+              {dashboardData.fetchedInterestRateData.provenance?.source === 'table' && (
+                <Badge variant="outline" className="text-xxs border-yellow-500/50 text-yellow-500" title={dashboardData.fetchedInterestRateData.error}>
+                  FRED unavailable &middot; from rate table
+                </Badge>
+              )}
             </div>
+            {dashboardData.rateDifferential && (
+              <p className="text-xs ml-7 mt-1">
+                <span className="text-muted-foreground">
+                  {dashboardData.rateDifferential.baseCurrency} {dashboardData.rateDifferential.baseRate.toFixed(2)}% vs {dashboardData.rateDifferential.quoteCurrency} {dashboardData.rateDifferential.quoteRate.toFixed(2)}%:
+                </span>{' '}
+                <span className="font-semibold">differential {dashboardData.rateDifferential.differential >= 0 ? '+' : ''}{dashboardData.rateDifferential.differential.toFixed(2)} pts</span>
+                <span className="text-muted-foreground">
+                  {' '}&middot; carry {dashboardData.rateDifferential.carryPer100kPerDay.toFixed(2)} {dashboardData.rateDifferential.baseCurrency}/day per 100k long
+                  {DIFFERENTIAL_HORIZONS.filter(h => dashboardData.rateDifferential!.changes[h.id] !== undefined).map(h => {
+                    const change = dashboardData.rateDifferential!.changes[h.id]!;
+                    return ` · ${h.id} ${change >= 0 ? '+' : ''}${change.toFixed(2)}`;
+                  }).join('')}
+                </span>
+              </p>
+            )}
             <p className="text-xs text-muted-foreground ml-7">
-              Source: FRED | Last Updated: {dashboardData.fetchedInterestRateData.lastUpdated || 'N/A'}
+              Source: {dashboardData.fetchedInterestRateData.provenance ? describeRateProvenance(dashboardData.fetchedInterestRateData.provenance) : 'N/A'}
+              {dashboardData.rateDifferential?.provenance && dashboardData.rateDifferential.provenance.source !== dashboardData.fetchedInterestRateData.provenance?.source && (
+                <> | Differential: {describeRateProvenance(dashboardData.rateDifferential.provenance)}</>
+              )}
+              {dashboardData.fetchedInterestRateData.provenance?.source === 'table' && `, in effect since ${dashboardData.fetchedInterestRateData.lastUpdated}`}
+              {[dashboardData.fetchedInterestRateData.provenance, dashboardData.rateDifferential?.provenance].some(p => p?.source === 'table') && (
+                <> | <Link href="/settings" className="underline">Edit the rate table</Link></>
+              )}
             </p>
           </div>
         )}
@@ -859,10 +742,10 @@ export default function HomePage() {
             <div className="text-center py-10">
                 <KeyRound size={48} className="mx-auto text-muted-foreground mb-4" />
                 <p className="text-xl text-muted-foreground">
-                    Please ensure at least one Market Data API key (Polygon, Finnhub, or TwelveData) is set above to enable core data fetching and AI analysis.
+                    At least one Market Data API key (Polygon, Finnhub, or TwelveData) is required to enable core data fetching and AI analysis.
                 </p>
                 <p className="text-sm text-muted-foreground mt-2">
-                    Default keys have been pre-filled. If they are incorrect or restricted, please update them.
+                    Add one on the <Link href="/settings" className="underline">Settings</Link> page, or set it as a server environment variable.
                 </p>
             </div>
         )}
@@ -881,11 +764,23 @@ export default function HomePage() {
         ) : dashboardData && !isKeySetupPhase ? (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2">
-              <SignalDisplayCard data={dashboardData?.tradeRecommendation} isLoading={isLoading || isRefreshing} />
+              <SignalDisplayCard
+                data={dashboardData?.tradeRecommendation}
+                ruleData={dashboardData?.ruleRecommendation ?? undefined}
+                primaryEngine={signalEngine}
+                onPrimaryEngineChange={handleSignalEngineChange}
+                isLoading={isLoading || isRefreshing}
+                inputsUnchangedSince={dashboardData.inputsUnchangedSince}
+                signalBarClose={dashboardData.signalBarClose}
+                nextSignalAt={nextBarClose(selectedTimeframe.id, sessionConventionFor(selectedAsset.type))}
+                provisionalData={dashboardData.provisionalRecommendation}
+                eventRisk={dashboardData.eventRisk}
+              />
             </div>
             <div className="lg:row-span-1">
               <MarketOverviewCard
                 initialData={dashboardData?.marketOverviewData} 
+                stream={priceStream}
                 key={`${selectedAsset.name}-${selectedTimeframe.id}-market`}
               />
             </div>
@@ -908,18 +803,75 @@ export default function HomePage() {
                  key={`${selectedAsset.name}-${selectedTimeframe.id}-econ`}
               />
             </div>
+            <div className="lg:col-span-1">
+              <TradePlanCard
+                signal={signalEngine === 'rules' ? dashboardData.ruleRecommendation : dashboardData.tradeRecommendation}
+                asset={selectedAsset}
+                isLoading={isLoading || isRefreshing}
+              />
+            </div>
             {isAnyMarketKeySet && (
                  <div className="lg:col-span-3">
                     <ChartAnalyzerCard 
                         selectedAsset={selectedAsset}
                         selectedTimeframe={selectedTimeframe}
                         liveData={dashboardData.liveDataForChartAnalysis}
-                        onAnalyzeChart={analyzeChartImage}
+                        onAnalyzeChart={handleAnalyzeChart}
                     />
                 </div>
             )}
             <div className="lg:col-span-3">
-                <EconomicCalendarCard />
+                <BacktestCard
+                    selectedAsset={selectedAsset}
+                    selectedTimeframe={selectedTimeframe}
+                    interestRate={dashboardData.fetchedInterestRateData?.rate}
+                    onRunBacktest={runBacktest}
+                />
+            </div>
+            <div className="lg:col-span-3">
+                <ConfluenceCard
+                    selectedAsset={selectedAsset}
+                    onAnalyze={analyzeConfluence}
+                />
+            </div>
+            <div className="lg:col-span-3">
+                <SignalHistoryCard
+                    selectedAssetName={selectedAsset.name}
+                    timeframes={TIMEFRAMES}
+                    refreshToken={`${dashboardData.recordedSignalId ?? ''}:${journalVersion ?? ''}`}
+                    onLoadHistory={listSignalHistory}
+                    onAnnotate={annotateSignal}
+                />
+            </div>
+            <div className="lg:col-span-3">
+                <SignalScorecardCard
+                    assets={assets}
+                    refreshToken={`${dashboardData.recordedSignalId ?? ''}:${journalVersion ?? ''}`}
+                    onScoreOutcomes={scoreSignalOutcomes}
+                    onLoadScorecard={getSignalScorecard}
+                />
+            </div>
+            <div className="lg:col-span-3">
+                <AlertsCard
+                    selectedAsset={selectedAsset}
+                    selectedTimeframe={selectedTimeframe}
+                    currentPrice={priceStream.lastTick?.price ?? dashboardData.marketOverviewData?.price}
+                    refreshToken={lastAlertAt}
+                />
+            </div>
+            <div className="lg:col-span-3">
+                <EconomicCalendarCard
+                    assetName={selectedAsset.name}
+                    assetCurrencies={currenciesForAsset(selectedAsset)}
+                    onLoadEvents={fetchEconomicEvents}
+                />
+            </div>
+            <div className="lg:col-span-3">
+                <MacroIndicatorsCard
+                    assetName={selectedAsset.name}
+                    assetCurrencies={currenciesForAsset(selectedAsset)}
+                    onLoadIndicators={fetchMacroIndicators}
+                />
             </div>
           </div>
         ) : !isKeySetupPhase && !isLoading ? ( 
@@ -930,11 +882,30 @@ export default function HomePage() {
                 </p>
             </div>
         ) : null}
+
+        {!isKeySetupPhase && (
+          <div className="mt-6">
+            <ScreenerCard
+              assets={assets}
+              timeframes={TIMEFRAMES}
+              selectedAssetName={selectedAsset.name}
+              selectedTimeframeId={selectedTimeframe.id}
+              onScreenAsset={screenAsset}
+              onLoadLatestSignals={getLatestSignals}
+              onSelectAsset={handleWatchlistSelect}
+            />
+          </div>
+        )}
+        {!isKeySetupPhase && (
+          <div className="mt-6">
+            <ProviderQuotaCard />
+          </div>
+        )}
       </main>
       <footer className="text-center p-4 text-sm text-muted-foreground border-t border-border/50">
         Market data via Polygon.io, Finnhub.io, or TwelveData.
         Economic data via OpenExchangeRates.org or ExchangeRate-API.com.
-        News headlines via NewsAPI.org. Interest rate data via FRED®. Economic Calendar via Tradays.com.
+        News headlines via NewsAPI.org. Interest rate data via FRED®. Economic calendar via Finnhub.io.
         © {new Date().getFullYear()} ForeSight AI. All rights reserved.
       </footer>
     </div>
@@ -0,0 +1,498 @@
+'use client';
+
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import Link from 'next/link';
+import Header from '@/components/layout/Header';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, ArrowLeft, CheckCircle2, Download, KeyRound, Loader2, PlugZap, Plus, RotateCcw, Save, Trash2, Upload, XCircle } from 'lucide-react';
+import {
+  clearApiKey,
+  getApiKeyStatuses,
+  saveApiKey,
+  testApiKeyConnection,
+  type ApiKeyStatusResult,
+  type ConnectionTestResult,
+} from '@/app/actions/manage-api-keys';
+import {
+  getPolicyRateTable,
+  importPolicyRatesCsv,
+  resetPolicyRateTable,
+  savePolicyRateTable,
+  type PolicyRateTable,
+  type PolicyRateTableResult,
+} from '@/app/actions/manage-policy-rates';
+import {
+  getRuleEngineSettings,
+  resetRuleEngineSettings,
+  saveRuleEngineSettings,
+  type RuleEngineConfig,
+  type RuleEngineSettingsResult,
+  type RuleFactor,
+} from '@/app/actions/manage-rule-engine';
+import { API_KEY_PROVIDERS, type ApiKeyProviderId, type ApiKeyProviderInfo, type ApiKeyStatus } from '@/lib/settings/api-keys';
+import { policyRatesToCsv } from '@/lib/policy-rates/table';
+
+const SOURCE_LABELS: Record<ApiKeyStatus['source'], string> = {
+  user: 'Your key',
+  env: 'Server environment',
+  none: 'Not configured',
+};
+
+function ApiKeyRow({
+  provider,
+  status,
+  canStoreUserKeys,
+  onStatusChange,
+}: {
+  provider: ApiKeyProviderInfo;
+  status: ApiKeyStatus;
+  canStoreUserKeys: boolean;
+  onStatusChange: (status: ApiKeyStatus) => void;
+}) {
+  const { toast } = useToast();
+  // Write-only: the field is cleared after saving and is never filled from the server
+  const [draftKey, setDraftKey] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+
+  const handleSave = async (clear: boolean) => {
+    setIsSaving(true);
+    const result = clear ? await clearApiKey(provider.id) : await saveApiKey(provider.id, draftKey);
+    setIsSaving(false);
+    if (result.error || !result.status) {
+      toast({ title: `${provider.label} key not saved`, description: result.error ?? 'Unknown error.', variant: 'destructive' });
+      return;
+    }
+    setDraftKey('');
+    setTestResult(null);
+    onStatusChange(result.status);
+    toast({ title: clear ? `${provider.label} key removed` : `${provider.label} key saved` });
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(await testApiKeyConnection(provider.id));
+    setIsTesting(false);
+  };
+
+  return (
+    <div className="py-4 border-b border-border/50 last:border-b-0 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <p className="font-medium text-foreground">{provider.label}</p>
+          <p className="text-xs text-muted-foreground">{provider.purpose} &middot; env: <code>{provider.envVar}</code></p>
+        </div>
+        <div className="flex items-center gap-2">
+          {status.maskedKey && <code className="text-xs text-muted-foreground">{status.maskedKey}</code>}
+          <Badge variant={status.source === 'none' ? 'outline' : 'secondary'}>{SOURCE_LABELS[status.source]}</Badge>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center">
+        {canStoreUserKeys && (
+          <>
+            <Input
+              type="password"
+              autoComplete="off"
+              value={draftKey}
+              onChange={e => setDraftKey(e.target.value)}
+              placeholder={status.source === 'user' ? 'Replace your key' : `Enter ${provider.label} API key`}
+              className="flex-grow min-w-[200px] max-w-md"
+              aria-label={`${provider.label} API key`}
+            />
+            <Button size="sm" onClick={() => handleSave(false)} disabled={isSaving || !draftKey.trim()}>
+              {isSaving ? <Loader2 size={16} className="animate-spin" /> : <KeyRound size={16} />} Save
+            </Button>
+            {status.source === 'user' && (
+              <Button size="sm" variant="outline" onClick={() => handleSave(true)} disabled={isSaving}>
+                <Trash2 size={16} /> Clear
+              </Button>
+            )}
+          </>
+        )}
+        <Button size="sm" variant="outline" onClick={handleTest} disabled={isTesting || status.source === 'none'}>
+          {isTesting ? <Loader2 size={16} className="animate-spin" /> : <PlugZap size={16} />} Test connection
+        </Button>
+      </div>
+
+      {testResult && (
+        <p className={`text-xs flex items-center gap-1 ${testResult.ok ? 'text-green-500' : 'text-destructive'}`}>
+          {testResult.ok ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+          {testResult.message}
+          {testResult.durationMs !== undefined && <span className="text-muted-foreground">({testResult.durationMs} ms)</span>}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Rates are edited as text and validated on the server when saved
+type DraftRate = { currency: string; rate: string; effectiveDate: string; bank: string };
+
+const toDraft = (table: PolicyRateTable): DraftRate[] =>
+  table.entries.map(e => ({ currency: e.currency, rate: String(e.rate), effectiveDate: e.effectiveDate, bank: e.bank ?? '' }));
+
+function PolicyRateTableCard() {
+  const { toast } = useToast();
+  const [result, setResult] = useState<PolicyRateTableResult | null>(null);
+  const [draft, setDraft] = useState<DraftRate[]>([]);
+  const [asOf, setAsOf] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyResult = (next: PolicyRateTableResult) => {
+    setResult(next);
+    setDraft(toDraft(next.table));
+    setAsOf(next.table.asOf);
+  };
+
+  useEffect(() => {
+    getPolicyRateTable().then(applyResult);
+  }, []);
+
+  const updateRow = (index: number, patch: Partial<DraftRate>) => {
+    setDraft(prev => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await savePolicyRateTable(draft.map(row => ({ ...row, rate: parseFloat(row.rate) })), asOf);
+    setIsSaving(false);
+    if (!saved.table) {
+      toast({ title: 'Rate table not saved', description: saved.errors.slice(0, 5).join(' '), variant: 'destructive' });
+      return;
+    }
+    applyResult({ table: saved.table, isCustom: true });
+    toast({ title: `Rate table saved (version ${saved.table.version})` });
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Replace your rate table with the built-in one? Your edits are removed.')) return;
+    const reset = await resetPolicyRateTable();
+    applyResult(reset);
+    if (reset.error) toast({ title: 'Rate table not reset', description: reset.error, variant: 'destructive' });
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    const url = URL.createObjectURL(new Blob([policyRatesToCsv(result.table)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'foresight-policy-rates.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    const imported = await importPolicyRatesCsv(await file.text(), importMode);
+    if (imported.table) applyResult({ table: imported.table, isCustom: true });
+    toast({
+      title: imported.imported > 0 ? `Imported ${imported.imported} rate${imported.imported === 1 ? '' : 's'}` : 'Nothing imported',
+      description: imported.errors.length > 0 ? imported.errors.slice(0, 5).join(' ') : undefined,
+      variant: imported.imported > 0 ? 'default' : 'destructive',
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline">Central-Bank Rates</CardTitle>
+        <CardDescription>
+          Policy rates used when FRED has no value for a currency. Each row is a decision with the date it took effect;
+          the latest one on or before today applies, and earlier rows give the rate differential its 3, 6 and 12 month
+          changes. Signals built on these rates are labelled with the table&apos;s review date. CSV columns:{' '}
+          <code>currency,rate,effective_date,bank</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2 items-center">
+          <Button size="sm" onClick={handleSave} disabled={!result || isSaving}>
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />} Save table
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setDraft(prev => [...prev, { currency: '', rate: '', effectiveDate: '', bank: '' }])} disabled={!result}>
+            <Plus size={16} /> Add rate
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={!result}>
+            <Download size={16} /> Export CSV
+          </Button>
+          <Select value={importMode} onValueChange={value => setImportMode(value as 'merge' | 'replace')}>
+            <SelectTrigger className="w-[200px] h-9" aria-label="Import mode"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="merge">Import: add &amp; update</SelectItem>
+              <SelectItem value="replace">Import: replace table</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={!result}>
+            <Upload size={16} /> Import CSV
+          </Button>
+          <input ref={fileInputRef} type="file" accept="text/csv,.csv" className="hidden" onChange={handleImport} />
+          {result?.isCustom && (
+            <Button size="sm" variant="ghost" onClick={handleReset}>
+              <RotateCcw size={16} /> Reset to built-in
+            </Button>
+          )}
+        </div>
+
+        {result?.error && <p className="text-sm text-destructive">{result.error}</p>}
+        {!result ? (
+          <div className="space-y-2">
+            {[0, 1, 2].map(i => <Skeleton key={i} className="h-10 w-full" />)}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="rates-as-of" className="text-xs">Reviewed on</Label>
+                <Input id="rates-as-of" type="date" value={asOf} onChange={e => setAsOf(e.target.value)} className="w-[160px] h-8" />
+              </div>
+              <Badge variant="outline">{result.isCustom ? `Your table, version ${result.table.version}` : 'Built-in table'}</Badge>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Currency</TableHead>
+                  <TableHead>Rate %</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead>Bank / rate</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {draft.map((row, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Input value={row.currency} onChange={e => updateRow(i, { currency: e.target.value })} className="w-[80px] h-8" aria-label="Currency" /></TableCell>
+                    <TableCell><Input type="number" step="0.01" value={row.rate} onChange={e => updateRow(i, { rate: e.target.value })} className="w-[90px] h-8" aria-label="Rate" /></TableCell>
+                    <TableCell><Input type="date" value={row.effectiveDate} onChange={e => updateRow(i, { effectiveDate: e.target.value })} className="w-[160px] h-8" aria-label="Effective date" /></TableCell>
+                    <TableCell><Input value={row.bank} onChange={e => updateRow(i, { bank: e.target.value })} className="min-w-[180px] h-8" aria-label="Bank" /></TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="ghost" onClick={() => setDraft(prev => prev.filter((_, j) => j !== i))} aria-label="Remove rate">
+                        <Trash2 size={16} />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+type ThresholdField = Exclude<keyof RuleEngineConfig, 'weights'>;
+
+const THRESHOLD_FIELDS: { id: ThresholdField; label: string; step: string }[] = [
+  { id: 'rsiOversold', label: 'RSI oversold (BUY below)', step: '1' },
+  { id: 'rsiOverbought', label: 'RSI overbought (SELL above)', step: '1' },
+  { id: 'macdNeutralBand', label: 'MACD neutral band (±)', step: '0.0001' },
+  { id: 'sentimentPositive', label: 'Sentiment positive (BUY above)', step: '0.05' },
+  { id: 'sentimentNegative', label: 'Sentiment negative (SELL below)', step: '0.05' },
+  { id: 'rateSupportive', label: 'Rate supportive % (BUY at or above)', step: '0.25' },
+  { id: 'rateUnsupportive', label: 'Rate unsupportive % (SELL at or below)', step: '0.25' },
+  { id: 'differentialSupportive', label: 'FX rate differential (± pts)', step: '0.25' },
+  { id: 'decisionThreshold', label: 'Decision threshold (score ±)', step: '0.05' },
+];
+
+const WEIGHT_FIELDS: { id: RuleFactor; label: string }[] = [
+  { id: 'rsi', label: 'RSI weight' },
+  { id: 'macd', label: 'MACD weight' },
+  { id: 'sentiment', label: 'Sentiment weight' },
+  { id: 'interestRate', label: 'Interest rate weight' },
+];
+
+// Settings are edited as text and validated on the server when saved
+type DraftRuleConfig = Record<ThresholdField | `weight.${RuleFactor}`, string>;
+
+const toRuleDraft = (config: RuleEngineConfig): DraftRuleConfig => ({
+  ...Object.fromEntries(THRESHOLD_FIELDS.map(({ id }) => [id, String(config[id])])),
+  ...Object.fromEntries(WEIGHT_FIELDS.map(({ id }) => [`weight.${id}`, String(config.weights[id])])),
+}) as DraftRuleConfig;
+
+const fromRuleDraft = (draft: DraftRuleConfig): RuleEngineConfig => ({
+  ...Object.fromEntries(THRESHOLD_FIELDS.map(({ id }) => [id, parseFloat(draft[id])])),
+  weights: Object.fromEntries(WEIGHT_FIELDS.map(({ id }) => [id, parseFloat(draft[`weight.${id}`])])),
+}) as RuleEngineConfig;
+
+function RuleEngineCard() {
+  const { toast } = useToast();
+  const [result, setResult] = useState<RuleEngineSettingsResult | null>(null);
+  const [draft, setDraft] = useState<DraftRuleConfig | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const applyResult = (next: RuleEngineSettingsResult) => {
+    setResult(next);
+    setDraft(toRuleDraft(next.config));
+  };
+
+  useEffect(() => {
+    getRuleEngineSettings().then(applyResult);
+  }, []);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    const saved = await saveRuleEngineSettings(fromRuleDraft(draft));
+    setIsSaving(false);
+    if (saved.error) {
+      toast({ title: 'Rule settings not saved', description: saved.error, variant: 'destructive' });
+      return;
+    }
+    applyResult(saved);
+    toast({ title: 'Rule settings saved' });
+  };
+
+  const handleReset = async () => {
+    const reset = await resetRuleEngineSettings();
+    applyResult(reset);
+    if (reset.error) toast({ title: 'Rule settings not reset', description: reset.error, variant: 'destructive' });
+  };
+
+  const renderField = (key: keyof DraftRuleConfig, label: string, step: string) => (
+    <div key={key} className="space-y-1">
+      <Label htmlFor={`rule-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`rule-${key}`}
+        type="number"
+        step={step}
+        value={draft?.[key] ?? ''}
+        onChange={e => setDraft(prev => prev && { ...prev, [key]: e.target.value })}
+        disabled={!result?.canStore}
+        className="h-8"
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-headline">Rule Engine</CardTitle>
+        <CardDescription>
+          Thresholds and weights of the rules-based signal engine. Each factor votes BUY, SELL or neutral; the weighted
+          votes give a score from -1 to 1, and a signal needs the decision threshold. Backtests of the rules strategy use
+          your thresholds with the technical factors only.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {result && !result.canStore && (
+          <div className="text-xs text-muted-foreground p-2 bg-muted/30 rounded-md">
+            <AlertTriangle size={14} className="inline mr-1 text-destructive" />
+            Saving rule settings is disabled because <code>SETTINGS_ENCRYPTION_KEY</code> is not set on the server.
+            The built-in settings apply.
+          </div>
+        )}
+        {result?.error && <p className="text-sm text-destructive">{result.error}</p>}
+        {!draft ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {THRESHOLD_FIELDS.map(({ id, label, step }) => renderField(id, label, step))}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {WEIGHT_FIELDS.map(({ id, label }) => renderField(`weight.${id}`, label, '0.1'))}
+            </div>
+          </>
+        )}
+        <div className="flex flex-wrap gap-2 items-center">
+          <Button size="sm" onClick={handleSave} disabled={!result?.canStore || isSaving}>
+            {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />} Save rules
+          </Button>
+          {result?.isCustom && (
+            <Button size="sm" variant="ghost" onClick={handleReset}>
+              <RotateCcw size={16} /> Reset to built-in
+            </Button>
+          )}
+          {result && <Badge variant="outline">{result.isCustom ? 'Your settings' : 'Built-in settings'}</Badge>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SettingsPage() {
+  const [keyStatus, setKeyStatus] = useState<ApiKeyStatusResult | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getApiKeyStatuses()
+      .then(setKeyStatus)
+      .catch(err => setLoadError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const handleStatusChange = (updated: ApiKeyStatus) => {
+    setKeyStatus(prev => prev && {
+      ...prev,
+      statuses: prev.statuses.map(status => (status.id === updated.id ? updated : status)),
+    });
+  };
+
+  const statusFor = (id: ApiKeyProviderId): ApiKeyStatus =>
+    keyStatus?.statuses.find(status => status.id === id) ?? { id, source: 'none' };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background">
+      <Header />
+      <main className="flex-grow container mx-auto p-4 md:p-8 max-w-4xl space-y-6">
+        <Button asChild variant="ghost" size="sm">
+          <Link href="/"><ArrowLeft className="mr-2 h-4 w-4" />Back to dashboard</Link>
+        </Button>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline">API Keys</CardTitle>
+            <CardDescription>
+              Keys are kept on the server: environment variables apply to everyone, and a key you save here
+              is encrypted and overrides the environment key for this browser only. Saved keys are never shown again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loadError ? (
+              <p className="text-sm text-destructive">Could not load key status: {loadError}</p>
+            ) : !keyStatus ? (
+              <div className="space-y-4">
+                {API_KEY_PROVIDERS.map(provider => <Skeleton key={provider.id} className="h-16 w-full" />)}
+              </div>
+            ) : (
+              <>
+                {!keyStatus.canStoreUserKeys && (
+                  <div className="text-xs text-muted-foreground p-2 bg-muted/30 rounded-md mb-2">
+                    <AlertTriangle size={14} className="inline mr-1 text-destructive" />
+                    Saving keys here is disabled because <code>SETTINGS_ENCRYPTION_KEY</code> is not set on the server.
+                    Only environment variable keys are used.
+                  </div>
+                )}
+                {API_KEY_PROVIDERS.map(provider => (
+                  <ApiKeyRow
+                    key={provider.id}
+                    provider={provider}
+                    status={statusFor(provider.id)}
+                    canStoreUserKeys={keyStatus.canStoreUserKeys}
+                    onStatusChange={handleStatusChange}
+                  />
+                ))}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <PolicyRateTableCard />
+
+        <RuleEngineCard />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { BellRing, Loader2, Plus, Trash2, AlertTriangle, RefreshCw, Send } from 'lucide-react';
+import { format } from 'date-fns';
+import DashboardCard from './DashboardCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteAlertRule,
+  evaluateMyAlerts,
+  listAlertEvents,
+  listAlertRules,
+  saveAlertRule,
+  sendTestWebhook,
+  type AlertChannel,
+  type AlertCondition,
+  type AlertConditionKind,
+  type AlertEvent,
+  type AlertRule,
+  type AlertRuleInput,
+  type CrossDirection,
+} from '@/app/actions/manage-alerts';
+import type { Asset } from '@/app/actions/manage-assets';
+import { CONDITION_LABELS, describeCondition } from '@/lib/alerts/conditions';
+
+// Type for the Timeframe, matching what's in page.tsx
+interface Timeframe {
+  id: string;
+  name: string;
+}
+
+type AlertsCardProps = {
+  selectedAsset: Asset;
+  selectedTimeframe: Timeframe;
+  currentPrice?: number;
+  refreshToken?: string | number; // Reloads rules and events when it changes, e.g. after a new event arrived
+};
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  toast: 'In-app toast',
+  browser: 'Browser notification',
+  webhook: 'Webhook',
+};
+
+const DIRECTIONS: { id: CrossDirection; label: string }[] = [
+  { id: 'either', label: 'Either way' },
+  { id: 'above', label: 'Upwards' },
+  { id: 'below', label: 'Downwards' },
+];
+
+export default function AlertsCard({ selectedAsset, selectedTimeframe, currentPrice, refreshToken }: AlertsCardProps) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [disabledReason, setDisabledReason] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const [kind, setKind] = useState<AlertConditionKind>('price-cross');
+  const [level, setLevel] = useState('');
+  const [direction, setDirection] = useState<CrossDirection>('either');
+  const [rsiLower, setRsiLower] = useState('30');
+  const [rsiUpper, setRsiUpper] = useState('70');
+  const [threshold, setThreshold] = useState('0.3');
+  const [channels, setChannels] = useState<AlertChannel[]>(['toast']);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [cooldownMinutes, setCooldownMinutes] = useState('15');
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>('default');
+
+  const loadAlerts = useCallback(async () => {
+    const [rulesResult, eventsResult] = await Promise.all([listAlertRules(), listAlertEvents()]);
+    setDisabledReason(rulesResult.enabled ? null : rulesResult.error ?? 'Alerts are disabled.');
+    setLoadError(rulesResult.enabled ? rulesResult.error ?? eventsResult.error ?? null : null);
+    setRules(rulesResult.rules);
+    setEvents(eventsResult.events.slice(0, 20));
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts, refreshToken]);
+
+  useEffect(() => {
+    setNotificationPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+  }, []);
+
+  useEffect(() => {
+    setLevel(currentPrice !== undefined ? String(currentPrice) : '');
+  }, [selectedAsset.name]); // eslint-disable-line react-hooks/exhaustive-deps -- Prefill once per asset, not on every tick
+
+  const buildCondition = (): AlertCondition => {
+    switch (kind) {
+      case 'price-cross': return { kind, level: parseFloat(level), direction };
+      case 'rsi-zone': return { kind, lower: parseFloat(rsiLower), upper: parseFloat(rsiUpper) };
+      case 'sentiment-cross': return { kind, threshold: parseFloat(threshold), direction };
+      case 'macd-flip':
+      case 'signal-change':
+        return { kind };
+    }
+  };
+
+  const toggleChannel = (channel: AlertChannel, checked: boolean) => {
+    setChannels(prev => (checked ? [...prev, channel] : prev.filter(c => c !== channel)));
+  };
+
+  const handleCreate = async () => {
+    const condition = buildCondition();
+    const input: AlertRuleInput = {
+      name: `${selectedAsset.name} ${selectedTimeframe.name}: ${describeCondition(condition)}`.substring(0, 80),
+      asset: selectedAsset,
+      timeframe: selectedTimeframe.id,
+      condition,
+      channels,
+      webhookUrl: webhookUrl.trim() || undefined,
+      enabled: true,
+      cooldownMinutes: parseFloat(cooldownMinutes),
+    };
+    setIsBusy(true);
+    const result = await saveAlertRule(input);
+    setIsBusy(false);
+    if (result.error) {
+      toast({ title: 'Alert not saved', description: result.error, variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Alert created', description: `${input.name}. It arms on its first evaluation.` });
+    loadAlerts();
+  };
+
+  const handleToggle = async (rule: AlertRule, enabled: boolean) => {
+    const { id, createdAt, lastObserved, lastEvaluatedAt, lastTriggeredAt, lastError, ...input } = rule;
+    const result = await saveAlertRule({ ...input, enabled }, id);
+    if (result.error) toast({ title: 'Alert not updated', description: result.error, variant: 'destructive' });
+    loadAlerts();
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    const result = await deleteAlertRule(rule.id);
+    if (result.error) toast({ title: 'Alert not deleted', description: result.error, variant: 'destructive' });
+    loadAlerts();
+  };
+
+  const handleEvaluateNow = async () => {
+    setIsBusy(true);
+    const summary = await evaluateMyAlerts();
+    setIsBusy(false);
+    toast({
+      title: `Checked ${summary.rulesEvaluated} alert${summary.rulesEvaluated === 1 ? '' : 's'}`,
+      description: summary.errors.length > 0 ? summary.errors.join('; ') : `${summary.triggered} triggered.`,
+      variant: summary.errors.length > 0 ? 'destructive' : 'default',
+    });
+    loadAlerts();
+  };
+
+  const handleTestWebhook = async () => {
+    const result = await sendTestWebhook(webhookUrl.trim());
+    toast({ title: result.ok ? 'Test webhook sent' : 'Test webhook failed', description: result.message, variant: result.ok ? 'default' : 'destructive' });
+  };
+
+  const requestNotificationPermission = async () => {
+    if (typeof Notification === 'undefined') return;
+    setNotificationPermission(await Notification.requestPermission());
+  };
+
+  const renderConditionFields = () => {
+    const directionSelect = (
+      <Select value={direction} onValueChange={value => setDirection(value as CrossDirection)}>
+        <SelectTrigger className="w-[130px] h-9"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {DIRECTIONS.map(d => <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    );
+    switch (kind) {
+      case 'price-cross':
+        return (
+          <>
+            <Input type="number" step="any" value={level} onChange={e => setLevel(e.target.value)} placeholder="Level" className="w-[130px] h-9" aria-label="Price level" />
+            {directionSelect}
+          </>
+        );
+      case 'rsi-zone':
+        return (
+          <>
+            <Input type="number" value={rsiLower} onChange={e => setRsiLower(e.target.value)} className="w-[80px] h-9" aria-label="RSI lower bound" />
+            <Input type="number" value={rsiUpper} onChange={e => setRsiUpper(e.target.value)} className="w-[80px] h-9" aria-label="RSI upper bound" />
+          </>
+        );
+      case 'sentiment-cross':
+        return (
+          <>
+            <Input type="number" step="0.1" min="-1" max="1" value={threshold} onChange={e => setThreshold(e.target.value)} className="w-[100px] h-9" aria-label="Sentiment threshold" />
+            {directionSelect}
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderForm = () => (
+    <div className="space-y-3 p-3 rounded-md bg-muted/30">
+      <div className="flex flex-wrap gap-2 items-center">
+        <span className="text-sm font-medium">{selectedAsset.name} ({selectedTimeframe.name})</span>
+        <Select value={kind} onValueChange={value => setKind(value as AlertConditionKind)}>
+          <SelectTrigger className="w-[230px] h-9"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CONDITION_LABELS) as AlertConditionKind[]).map(k => <SelectItem key={k} value={k}>{CONDITION_LABELS[k]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        {renderConditionFields()}
+      </div>
+      <div className="flex flex-wrap gap-4 items-center">
+        {(Object.keys(CHANNEL_LABELS) as AlertChannel[]).map(channel => (
+          <div key={channel} className="flex items-center gap-2">
+            <Checkbox id={`alert-channel-${channel}`} checked={channels.includes(channel)} onCheckedChange={checked => toggleChannel(channel, checked === true)} />
+            <Label htmlFor={`alert-channel-${channel}`} className="text-xs">{CHANNEL_LABELS[channel]}</Label>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Label htmlFor="alert-cooldown" className="text-xs">Cooldown (min)</Label>
+          <Input id="alert-cooldown" type="number" min="0" value={cooldownMinutes} onChange={e => setCooldownMinutes(e.target.value)} className="w-[80px] h-8" />
+        </div>
+      </div>
+      {channels.includes('webhook') && (
+        <div className="flex flex-wrap gap-2 items-center">
+          <Input type="url" value={webhookUrl} onChange={e => setWebhookUrl(e.target.value)} placeholder="https://example.com/hooks/foresight" className="flex-grow max-w-md h-9" aria-label="Webhook URL" />
+          <Button size="sm" variant="outline" onClick={handleTestWebhook} disabled={!webhookUrl.trim()}>
+            <Send className="mr-2 h-4 w-4" />Send test
+          </Button>
+        </div>
+      )}
+      {channels.includes('browser') && notificationPermission !== 'granted' && (
+        <p className="text-xs text-muted-foreground">
+          {notificationPermission === 'unsupported' ? 'This browser does not support notifications.' : (
+            <>Browser notifications are not allowed yet. <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={requestNotificationPermission}>Allow notifications</Button></>
+          )}
+        </p>
+      )}
+      <Button size="sm" onClick={handleCreate} disabled={isBusy || channels.length === 0}>
+        {isBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}Create Alert
+      </Button>
+    </div>
+  );
+
+  const renderRules = () => (
+    rules.length === 0 ? (
+      <p className="text-xs text-muted-foreground">No alerts yet.</p>
+    ) : (
+      <div className="space-y-2">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex flex-wrap items-center justify-between gap-2 p-2 border border-border/50 rounded-md">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{rule.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {rule.channels.map(c => CHANNEL_LABELS[c]).join(', ')} &middot; cooldown {rule.cooldownMinutes} min
+                {rule.lastEvaluatedAt && <> &middot; checked {format(new Date(rule.lastEvaluatedAt), 'MMM dd, HH:mm')}</>}
+                {rule.lastObserved !== undefined && <> &middot; last value {typeof rule.lastObserved === 'number' ? +rule.lastObserved.toFixed(5) : rule.lastObserved}</>}
+              </p>
+              {rule.lastError && <p className="text-xs text-destructive truncate" title={rule.lastError}>{rule.lastError}</p>}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={rule.enabled} onCheckedChange={checked => handleToggle(rule, checked)} aria-label={`Enable ${rule.name}`} />
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleDelete(rule)} aria-label={`Delete ${rule.name}`}>
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  );
+
+  const renderEvents = () => (
+    events.length === 0 ? (
+      <p className="text-xs text-muted-foreground">No alerts have fired yet.</p>
+    ) : (
+      <ScrollArea className="h-[180px]">
+        <ul className="space-y-2">
+          {events.map(event => (
+            <li key={event.id} className="text-xs">
+              <span className="text-muted-foreground">{format(new Date(event.triggeredAt), 'MMM dd, HH:mm')}</span>{' '}
+              <span className="font-medium">{event.assetName} ({event.timeframe})</span>: {event.message}
+              {event.webhook && (
+                <Badge variant={event.webhook.ok ? 'secondary' : 'destructive'} className="ml-2" title={event.webhook.error}>
+                  webhook {event.webhook.ok ? 'delivered' : 'failed'}
+                </Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    )
+  );
+
+  return (
+    <DashboardCard title="Alerts" icon={BellRing}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <p className="text-xs text-muted-foreground max-w-3xl">
+            Alerts are evaluated on the server on a schedule, even when this page is closed. Each fires when its value
+            crosses between two checks; toasts and browser notifications appear while the dashboard is open.
+          </p>
+          {!disabledReason && (
+            <Button size="sm" variant="outline" onClick={handleEvaluateNow} disabled={isBusy || rules.length === 0}>
+              <RefreshCw className="mr-2 h-4 w-4" />Check Now
+            </Button>
+          )}
+        </div>
+        {disabledReason ? (
+          <div className="text-xs text-muted-foreground p-2 bg-muted/30 rounded-md">
+            <AlertTriangle size={14} className="inline mr-1 text-destructive" />
+            {disabledReason}
+          </div>
+        ) : (
+          <>
+            {loadError && <p className="text-xs text-destructive">{loadError}</p>}
+            {renderForm()}
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Rules</h4>
+                {renderRules()}
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold mb-2">Recent Alerts</h4>
+                {renderEvents()}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </DashboardCard>
+  );
+}
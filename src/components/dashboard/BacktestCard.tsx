@@ -0,0 +1,254 @@
+'use client';
+
+import { useState } from 'react';
+import { FlaskConical, Loader2, PlayCircle, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Legend,
+} from 'recharts';
+import DashboardCard from './DashboardCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { BacktestRequest, BacktestReport, BacktestStrategyId } from '@/app/actions/run-backtest';
+import type { MarketAsset } from '@/lib/market-data/types';
+
+// Type for the Timeframe, matching what's in page.tsx
+interface Timeframe {
+  id: string;
+  name: string;
+}
+
+const STRATEGIES: { id: BacktestStrategyId; label: string; description: string }[] = [
+  { id: 'rules', label: 'RSI/MACD Rules', description: 'Replays the rule engine\'s technical factors: RSI < 35 / > 65, confirmed by the sign of MACD.' },
+  { id: 'ai', label: 'AI Signal (cached)', description: 'Replays the AI recommendation flow on the last 60 bars. Responses are cached, so repeat runs are free.' },
+];
+
+const BAR_OPTIONS = [250, 500, 1000];
+
+type BacktestCardProps = {
+  selectedAsset: MarketAsset;
+  selectedTimeframe: Timeframe;
+  interestRate?: number;
+  onRunBacktest: (request: BacktestRequest) => Promise<BacktestReport>;
+};
+
+const formatPct = (value: number | undefined, digits = 2) =>
+  value === undefined || isNaN(value) ? 'N/A' : `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+
+export default function BacktestCard({ selectedAsset, selectedTimeframe, interestRate, onRunBacktest }: BacktestCardProps) {
+  const [strategy, setStrategy] = useState<BacktestStrategyId>('rules');
+  const [bars, setBars] = useState(500);
+  const [allowShort, setAllowShort] = useState(true);
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const result = await onRunBacktest({
+        asset: selectedAsset,
+        timeframeId: selectedTimeframe.id,
+        strategy,
+        bars,
+        config: { allowShort },
+        interestRate,
+      });
+      setReport(result);
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : String(e);
+      setReport({
+        assetName: selectedAsset.name,
+        timeframe: selectedTimeframe.id,
+        strategy,
+        barCount: 0,
+        sourceProvider: 'Unknown',
+        error: `Backtest failed: ${errorMessage}`,
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const isStale = report && (report.assetName !== selectedAsset.name || report.timeframe !== selectedTimeframe.id);
+  const dateFormat = selectedTimeframe.id === '1D' ? 'MMM dd, yyyy' : 'MMM dd, HH:mm';
+
+  const renderMetrics = () => {
+    if (!report?.metrics) return null;
+    const m = report.metrics;
+    const stats: { label: string; value: string; tone?: 'good' | 'bad' }[] = [
+      { label: 'Total Return', value: formatPct(m.totalReturnPct), tone: m.totalReturnPct >= 0 ? 'good' : 'bad' },
+      { label: 'Buy & Hold', value: formatPct(m.buyAndHoldReturnPct) },
+      { label: 'Win Rate', value: m.winRatePct === undefined ? 'N/A' : `${m.winRatePct.toFixed(1)}%` },
+      { label: 'Trades', value: String(m.tradeCount) },
+      { label: 'Max Drawdown', value: `-${m.maxDrawdownPct.toFixed(2)}%`, tone: 'bad' },
+      { label: 'Sharpe', value: m.sharpe === undefined ? 'N/A' : m.sharpe.toFixed(2) },
+      { label: 'Avg Trade', value: formatPct(m.averageTradePct, 3) },
+      { label: 'Exposure', value: `${m.exposurePct.toFixed(0)}%` },
+    ];
+    return (
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-2 rounded-md bg-muted/30">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className={cn(
+              'text-lg font-semibold',
+              stat.tone === 'good' && 'text-accent',
+              stat.tone === 'bad' && 'text-destructive',
+            )}>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderEquityCurve = () => {
+    if (!report?.equityCurve || report.equityCurve.length === 0) return null;
+    return (
+      <ResponsiveContainer width="100%" height={220}>
+        <LineChart data={report.equityCurve} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+          <XAxis dataKey="date" fontSize={10} tick={{ fill: 'hsl(var(--muted-foreground))' }} minTickGap={30} />
+          <YAxis fontSize={10} tick={{ fill: 'hsl(var(--muted-foreground))' }} domain={['auto', 'auto']} tickFormatter={(value: number) => value.toFixed(0)} />
+          <Tooltip
+            contentStyle={{ background: 'hsl(var(--background))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+            formatter={(value: number) => value.toFixed(2)}
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          <Line type="monotone" dataKey="equity" name="Strategy" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} isAnimationActive={false} />
+          <Line type="monotone" dataKey="buyAndHold" name="Buy & Hold" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  const renderTrades = () => {
+    if (!report?.trades) return null;
+    if (report.trades.length === 0) {
+      return <p className="text-xs text-muted-foreground">No trades were triggered over this period.</p>;
+    }
+    return (
+      <ScrollArea className="h-[240px] rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Side</TableHead>
+              <TableHead>Entry</TableHead>
+              <TableHead>Exit</TableHead>
+              <TableHead className="text-right">Bars</TableHead>
+              <TableHead className="text-right">Return</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...report.trades].reverse().map(trade => (
+              <TableRow key={`${trade.entryTimestamp}-${trade.side}`}>
+                <TableCell>
+                  <Badge variant={trade.side === 'long' ? 'default' : 'destructive'} className="text-xs uppercase">{trade.side}</Badge>
+                </TableCell>
+                <TableCell className="text-xs">
+                  {format(new Date(trade.entryTimestamp), dateFormat)}
+                  <span className="block text-muted-foreground">{trade.entryPrice}</span>
+                </TableCell>
+                <TableCell className="text-xs">
+                  {format(new Date(trade.exitTimestamp), dateFormat)}
+                  <span className="block text-muted-foreground">{trade.exitPrice}{trade.exitReason === 'end' && ' (end)'}</span>
+                </TableCell>
+                <TableCell className="text-right text-xs">{trade.bars}</TableCell>
+                <TableCell className={cn('text-right text-xs font-medium', trade.returnPct >= 0 ? 'text-accent' : 'text-destructive')}>
+                  {formatPct(trade.returnPct, 3)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    );
+  };
+
+  return (
+    <DashboardCard title="Strategy Backtest" icon={FlaskConical}>
+      <div className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Replays historical candles for {selectedAsset.name} ({selectedTimeframe.name}). Signals are decided on each bar&apos;s close
+          and filled at the next bar&apos;s open, with a 1 bp cost per side.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          {STRATEGIES.map(s => (
+            <Button
+              key={s.id}
+              size="sm"
+              variant={strategy === s.id ? 'default' : 'outline'}
+              onClick={() => setStrategy(s.id)}
+              disabled={isRunning}
+            >
+              {s.label}
+            </Button>
+          ))}
+          {strategy === 'rules' && BAR_OPTIONS.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={bars === option ? 'secondary' : 'ghost'}
+              onClick={() => setBars(option)}
+              disabled={isRunning}
+            >
+              {option} bars
+            </Button>
+          ))}
+          <div className="flex items-center gap-2 ml-2">
+            <Switch id="backtest-allow-short" checked={allowShort} onCheckedChange={setAllowShort} disabled={isRunning} />
+            <Label htmlFor="backtest-allow-short" className="text-xs">Allow shorts</Label>
+          </div>
+          <Button onClick={handleRun} disabled={isRunning} size="sm" className="ml-auto">
+            {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlayCircle className="mr-2 h-4 w-4" />}
+            Run Backtest
+          </Button>
+        </div>
+        <p className="text-xxs text-muted-foreground">{STRATEGIES.find(s => s.id === strategy)?.description}</p>
+
+        {isRunning && (
+          <div className="flex items-center justify-center p-6 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mr-3" />
+            <p className="text-sm">{strategy === 'ai' ? 'Replaying AI signals bar by bar...' : 'Running backtest...'}</p>
+          </div>
+        )}
+
+        {!isRunning && report && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span>{report.assetName} ({report.timeframe}) &middot; {report.barCount} bars</span>
+              {report.firstTimestamp && report.lastTimestamp && (
+                <span>&middot; {format(new Date(report.firstTimestamp), dateFormat)} &ndash; {format(new Date(report.lastTimestamp), dateFormat)}</span>
+              )}
+              <span>&middot; Data from {report.sourceProvider}</span>
+              {report.aiCalls !== undefined && (
+                <span>&middot; {report.aiCalls} model calls, {report.aiCacheHits ?? 0} cached</span>
+              )}
+              {isStale && <Badge variant="outline" className="text-xs">Previous selection</Badge>}
+            </div>
+            {report.error && (
+              <div className="p-3 bg-destructive/10 border border-destructive/30 rounded-md text-sm text-destructive flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{report.error}</span>
+              </div>
+            )}
+            {renderMetrics()}
+            {renderEquityCurve()}
+            {renderTrades()}
+          </div>
+        )}
+      </div>
+    </DashboardCard>
+  );
+}
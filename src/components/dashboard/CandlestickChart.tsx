@@ -0,0 +1,207 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  Cell,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ReferenceLine,
+  type TooltipProps,
+} from 'recharts';
+import type { HistoricalDataPoint } from '@/app/actions/fetch-market-data';
+import { bollinger, ema, macd, rsi, sma, supportResistanceLevels } from '@/lib/indicators';
+
+export type ChartOverlay = 'sma20' | 'ema50' | 'bollinger' | 'levels';
+
+export const CHART_OVERLAYS: { id: ChartOverlay; label: string }[] = [
+  { id: 'sma20', label: 'SMA 20' },
+  { id: 'ema50', label: 'EMA 50' },
+  { id: 'bollinger', label: 'Bollinger' },
+  { id: 'levels', label: 'S/R Levels' },
+];
+
+const DISPLAY_POINTS = 60; // Candles shown; earlier bars only warm up the overlays
+const SYNC_ID = 'market-overview';
+
+const UP_COLOR = 'hsl(var(--accent))';
+const DOWN_COLOR = 'hsl(var(--destructive))';
+
+type ChartRow = HistoricalDataPoint & {
+  range: [number, number];
+  sma20?: number;
+  ema50?: number;
+  bbUpper?: number;
+  bbMiddle?: number;
+  bbLower?: number;
+  rsi?: number;
+  macdLine?: number;
+  macdSignal?: number;
+  macdHist?: number;
+};
+
+// Geometry recharts injects when it clones the shape element for each bar
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartRow;
+}
+
+// Draws one candle inside the [low, high] range bar recharts lays out for us.
+const CandleShape = ({ x = 0, y = 0, width = 0, height, payload }: CandleShapeProps) => {
+  if (!payload || height === undefined) return null;
+  const { open, close, high, low } = payload;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const pxPerUnit = high === low ? 0 : height / (high - low);
+  const yOf = (value: number) => y + (high - value) * pxPerUnit;
+  const bodyTop = yOf(Math.max(open, close));
+  const bodyHeight = Math.max(1, yOf(Math.min(open, close)) - bodyTop);
+  const centerX = x + width / 2;
+  return (
+    <g>
+      <line x1={centerX} x2={centerX} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const CandleTooltip = ({ active, payload, label, digits }: TooltipProps<number, string> & { digits: number }) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const row: ChartRow = payload[0].payload;
+  return (
+    <div className="bg-background/80 backdrop-blur-sm p-2 border border-border shadow-lg rounded-md text-xs space-y-0.5">
+      <p className="text-sm text-foreground">{label}</p>
+      <p className="text-primary">{`O ${row.open.toFixed(digits)} H ${row.high.toFixed(digits)} L ${row.low.toFixed(digits)} C ${row.close.toFixed(digits)}`}</p>
+      {row.volume !== undefined && <p className="text-muted-foreground">Volume: {row.volume.toLocaleString()}</p>}
+      {row.rsi !== undefined && <p className="text-muted-foreground">RSI: {row.rsi.toFixed(2)}</p>}
+      {row.macdHist !== undefined && <p className="text-muted-foreground">MACD Hist: {row.macdHist.toFixed(5)}</p>}
+    </div>
+  );
+};
+
+type CandlestickChartProps = {
+  candles: HistoricalDataPoint[];
+  overlays: ChartOverlay[];
+  priceDigits: number;
+  gridStrokeColor: string;
+  tickFillColor: string;
+};
+
+export default function CandlestickChart({ candles, overlays, priceDigits, gridStrokeColor, tickFillColor }: CandlestickChartProps) {
+  const { rows, levels, domain } = useMemo(() => {
+    const closes = candles.map(c => c.close);
+    const sma20 = sma(closes, 20);
+    const ema50 = ema(closes, 50);
+    const bands = bollinger(closes);
+    const rsiSeries = rsi(closes);
+    const macdSeries = macd(closes);
+
+    const allRows: ChartRow[] = candles.map((c, i) => ({
+      ...c,
+      range: [c.low, c.high],
+      sma20: sma20[i],
+      ema50: ema50[i],
+      bbUpper: bands.upper[i],
+      bbMiddle: bands.middle[i],
+      bbLower: bands.lower[i],
+      rsi: rsiSeries[i],
+      macdLine: macdSeries.macd[i],
+      macdSignal: macdSeries.signal[i],
+      macdHist: macdSeries.histogram[i],
+    }));
+    const visible = allRows.slice(-DISPLAY_POINTS);
+    const visibleCandles = candles.slice(-DISPLAY_POINTS);
+
+    let min = Math.min(...visible.map(r => r.low));
+    let max = Math.max(...visible.map(r => r.high));
+    if (overlays.includes('bollinger')) {
+      for (const r of visible) {
+        if (r.bbLower !== undefined) min = Math.min(min, r.bbLower);
+        if (r.bbUpper !== undefined) max = Math.max(max, r.bbUpper);
+      }
+    }
+    const padding = (max - min) * 0.05 || max * 0.001;
+
+    return {
+      rows: visible,
+      levels: supportResistanceLevels(visibleCandles),
+      domain: [min - padding, max + padding] as [number, number],
+    };
+  }, [candles, overlays]);
+
+  const axisProps = {
+    fontSize: 10,
+    tick: { fill: tickFillColor },
+    axisLine: { stroke: gridStrokeColor },
+    tickLine: { stroke: gridStrokeColor },
+  };
+
+  return (
+    <div className="space-y-1">
+      <ResponsiveContainer width="100%" height={220}>
+        <ComposedChart data={rows} syncId={SYNC_ID} margin={{ top: 5, right: 20, left: -25, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={gridStrokeColor} />
+          <XAxis dataKey="date" {...axisProps} hide />
+          <YAxis {...axisProps} domain={domain} tickFormatter={(value: number) => value.toFixed(priceDigits)} allowDataOverflow />
+          <Tooltip content={<CandleTooltip digits={priceDigits} />} />
+          <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+          {overlays.includes('sma20') && (
+            <Line type="monotone" dataKey="sma20" stroke="hsl(var(--primary))" strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+          )}
+          {overlays.includes('ema50') && (
+            <Line type="monotone" dataKey="ema50" stroke="hsl(var(--chart-4))" strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+          )}
+          {overlays.includes('bollinger') && [
+            <Line key="bbUpper" type="monotone" dataKey="bbUpper" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 2" dot={false} isAnimationActive={false} connectNulls />,
+            <Line key="bbMiddle" type="monotone" dataKey="bbMiddle" stroke="hsl(var(--muted-foreground) / 0.6)" dot={false} isAnimationActive={false} connectNulls />,
+            <Line key="bbLower" type="monotone" dataKey="bbLower" stroke="hsl(var(--muted-foreground))" strokeDasharray="4 2" dot={false} isAnimationActive={false} connectNulls />,
+          ]}
+          {overlays.includes('levels') && levels.support.map(level => (
+            <ReferenceLine key={`sup-${level}`} y={level} stroke={UP_COLOR} strokeDasharray="6 3" label={{ value: `S ${level.toFixed(priceDigits)}`, fontSize: 9, fill: tickFillColor, position: 'insideBottomLeft' }} />
+          ))}
+          {overlays.includes('levels') && levels.resistance.map(level => (
+            <ReferenceLine key={`res-${level}`} y={level} stroke={DOWN_COLOR} strokeDasharray="6 3" label={{ value: `R ${level.toFixed(priceDigits)}`, fontSize: 9, fill: tickFillColor, position: 'insideTopLeft' }} />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <p className="text-xxs text-muted-foreground pl-1">RSI (14)</p>
+      <ResponsiveContainer width="100%" height={70}>
+        <ComposedChart data={rows} syncId={SYNC_ID} margin={{ top: 0, right: 20, left: -25, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={gridStrokeColor} />
+          <XAxis dataKey="date" {...axisProps} hide />
+          <YAxis {...axisProps} domain={[0, 100]} ticks={[30, 70]} />
+          <Tooltip content={() => null} />
+          <ReferenceLine y={70} stroke={DOWN_COLOR} strokeDasharray="3 3" />
+          <ReferenceLine y={30} stroke={UP_COLOR} strokeDasharray="3 3" />
+          <Line type="monotone" dataKey="rsi" stroke="hsl(var(--primary))" strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <p className="text-xxs text-muted-foreground pl-1">MACD (12, 26, 9)</p>
+      <ResponsiveContainer width="100%" height={90}>
+        <ComposedChart data={rows} syncId={SYNC_ID} margin={{ top: 0, right: 20, left: -25, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={gridStrokeColor} />
+          <XAxis dataKey="date" {...axisProps} />
+          <YAxis {...axisProps} tickFormatter={(value: number) => value.toExponential(0)} />
+          <Tooltip content={() => null} />
+          <ReferenceLine y={0} stroke={gridStrokeColor} />
+          <Bar dataKey="macdHist" isAnimationActive={false}>
+            {rows.map(row => (
+              <Cell key={row.timestamp} fill={(row.macdHist ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} />
+            ))}
+          </Bar>
+          <Line type="monotone" dataKey="macdLine" stroke="hsl(var(--primary))" strokeWidth={1} dot={false} isAnimationActive={false} connectNulls />
+          <Line type="monotone" dataKey="macdSignal" stroke="hsl(var(--chart-4))" strokeWidth={1} dot={false} isAnimationActive={false} connectNulls />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -10,17 +10,12 @@ import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import type { Asset } from '@/lib/assets/types';
 import Image from 'next/image';
 
 // Types for the AI flow (should match analyze-chart-image-flow.ts)
 import type { AnalyzeChartImageInput, AnalyzeChartImageOutput } from '@/ai/flows/analyze-chart-image-flow.ts'; 
 
-// Type for the Asset, matching what's in page.tsx
-interface Asset {
-  name: string;
-  type: 'currency' | 'commodity' | 'crypto';
-  // other fields if needed by this card, but generally assetName is enough for the flow
-}
 // Type for the Timeframe, matching what's in page.tsx
 interface Timeframe {
     id: string;
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { Layers, Loader2, PlayCircle, AlertTriangle, Check, X } from 'lucide-react';
+import { format } from 'date-fns';
+import DashboardCard from './DashboardCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { ConfluenceReport, TimeframeBias } from '@/app/actions/analyze-confluence';
+import type { MarketAsset } from '@/lib/market-data/types';
+
+type ConfluenceCardProps = {
+  selectedAsset: MarketAsset;
+  onAnalyze: (asset: MarketAsset) => Promise<ConfluenceReport>;
+};
+
+const BIAS_LABELS: Record<TimeframeBias, string> = { bullish: 'Bullish', bearish: 'Bearish', neutral: 'Neutral' };
+
+const biasClass = (bias: TimeframeBias) => cn(
+  bias === 'bullish' && 'text-accent',
+  bias === 'bearish' && 'text-destructive',
+  bias === 'neutral' && 'text-muted-foreground',
+);
+
+const signalTextClass = (recommendation?: string) =>
+  recommendation === 'BUY' ? 'text-accent' : recommendation === 'SELL' ? 'text-destructive' : 'text-muted-foreground';
+
+export default function ConfluenceCard({ selectedAsset, onAnalyze }: ConfluenceCardProps) {
+  const [report, setReport] = useState<ConfluenceReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setReport(await onAnalyze(selectedAsset));
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : String(e);
+      setReport({
+        assetName: selectedAsset.name,
+        readings: [],
+        summary: { bias: 'neutral', bullish: [], bearish: [], mixed: [] },
+        generatedAt: Date.now(),
+        error: `Confluence analysis failed: ${errorMessage}`,
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const isStale = report && report.assetName !== selectedAsset.name;
+  const recommendation = report?.recommendation;
+
+  const renderRecommendation = () => {
+    if (!recommendation) return null;
+    return (
+      <div className="p-3 rounded-md bg-muted/30 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className={cn('text-lg font-bold', recommendation.error ? 'text-destructive' : signalTextClass(recommendation.recommendation))}>
+            {recommendation.recommendation}
+          </span>
+          {recommendation.confidence && <Badge variant="outline" className="text-xs">{recommendation.confidence} confidence</Badge>}
+          {recommendation.agreeingTimeframes.length > 0 && (
+            <span className="text-xs text-muted-foreground">
+              Agree: {recommendation.agreeingTimeframes.join(', ')}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">{recommendation.reason}</p>
+      </div>
+    );
+  };
+
+  const renderMatrix = () => {
+    if (!report || report.readings.length === 0) return null;
+    const agreeing = new Set(recommendation?.agreeingTimeframes ?? []);
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Timeframe</TableHead>
+            <TableHead>Trend</TableHead>
+            <TableHead>Momentum</TableHead>
+            <TableHead className="text-right">RSI</TableHead>
+            <TableHead className="text-right">MACD Hist.</TableHead>
+            {recommendation && <TableHead className="text-center">Agrees</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.readings.map(reading => (
+            <TableRow key={reading.timeframe}>
+              <TableCell className="font-medium">{reading.timeframe}</TableCell>
+              {reading.close === undefined ? (
+                <TableCell colSpan={4} className="text-xs text-destructive">{reading.error ?? 'No data.'}</TableCell>
+              ) : (
+                <>
+                  <TableCell className={biasClass(reading.trend)}>{BIAS_LABELS[reading.trend]}</TableCell>
+                  <TableCell className={biasClass(reading.momentum)}>{BIAS_LABELS[reading.momentum]}</TableCell>
+                  <TableCell className="text-right tabular-nums">{reading.rsi?.toFixed(1) ?? 'N/A'}</TableCell>
+                  <TableCell className="text-right tabular-nums">{reading.macdHistogram?.toFixed(5) ?? 'N/A'}</TableCell>
+                </>
+              )}
+              {recommendation && (
+                <TableCell className="text-center">
+                  {agreeing.has(reading.timeframe)
+                    ? <Check className="inline h-4 w-4 text-accent" />
+                    : <X className="inline h-4 w-4 text-muted-foreground" />}
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <DashboardCard title="Multi-Timeframe Confluence" icon={Layers}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-xs text-muted-foreground flex-1">
+            Reads trend (close vs. SMA 20/50) and momentum (MACD histogram, RSI extremes) for {selectedAsset.name} on
+            15min, 1H, 4H and 1D, then asks the AI which timeframes agree. Uses one market data request per timeframe.
+          </p>
+          <Button onClick={handleRun} disabled={isRunning} size="sm">
+            {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlayCircle className="mr-2 h-4 w-4" />}
+            Analyze
+          </Button>
+        </div>
+
+        {isRunning && (
+          <div className="flex items-center justify-center p-6 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mr-3" />
+            <p className="text-sm">Reading each timeframe...</p>
+          </div>
+        )}
+
+        {!isRunning && report && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span>{report.assetName} &middot; {format(report.generatedAt, 'MMM dd, HH:mm')}</span>
+              {isStale && <Badge variant="outline" className="text-xs">Previous selection</Badge>}
+            </div>
+            {(report.error || recommendation?.error) && (
+              <div className="p-3 bg-destructive/10 border border-destructive/30 rounded-md text-sm text-destructive flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{report.error ?? recommendation?.error}</span>
+              </div>
+            )}
+            {renderRecommendation()}
+            {renderMatrix()}
+          </div>
+        )}
+      </div>
+    </DashboardCard>
+  );
+}
@@ -1,78 +1,153 @@
-
 'use client';
 
-import { useEffect, useRef } from 'react';
-import { CalendarClock, AlertTriangle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { CalendarClock, AlertTriangle, Loader2 } from 'lucide-react';
+import { format, startOfDay, addDays } from 'date-fns';
 import DashboardCard from './DashboardCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type { EconomicEventsQuery, EconomicEventsResult, EconomicImpact } from '@/app/actions/fetch-economic-events';
+
+type CalendarRange = 'today' | 'tomorrow' | '3d' | '7d';
+
+const RANGES: { id: CalendarRange; label: string }[] = [
+  { id: 'today', label: 'Today' },
+  { id: 'tomorrow', label: 'Tomorrow' },
+  { id: '3d', label: 'Next 3 days' },
+  { id: '7d', label: 'Next 7 days' },
+];
+
+const IMPACT_OPTIONS: EconomicImpact[] = ['High', 'Medium', 'Low', 'Holiday'];
+
+const IMPACT_BADGE: Record<EconomicImpact, string> = {
+  High: 'bg-red-500/20 text-red-400 border-red-500/50',
+  Medium: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/50',
+  Low: 'bg-muted/50 text-muted-foreground border-muted',
+  Holiday: 'bg-blue-500/20 text-blue-400 border-blue-500/50',
+};
+
+// Ranges are in local days, which is how users read a calendar
+function rangeBounds(range: CalendarRange): { from: number; to: number } {
+  const today = startOfDay(new Date());
+  switch (range) {
+    case 'today': return { from: today.getTime(), to: addDays(today, 1).getTime() };
+    case 'tomorrow': return { from: addDays(today, 1).getTime(), to: addDays(today, 2).getTime() };
+    case '3d': return { from: today.getTime(), to: addDays(today, 3).getTime() };
+    case '7d': return { from: today.getTime(), to: addDays(today, 7).getTime() };
+  }
+}
 
-export default function EconomicCalendarCard() {
-  const scriptContainerRef = useRef<HTMLDivElement>(null);
-  const widgetLoadedRef = useRef(false);
+type EconomicCalendarCardProps = {
+  assetName: string;
+  assetCurrencies: string[]; // Currencies whose releases move the selected asset
+  onLoadEvents: (query: EconomicEventsQuery) => Promise<EconomicEventsResult>;
+};
+
+export default function EconomicCalendarCard({ assetName, assetCurrencies, onLoadEvents }: EconomicCalendarCardProps) {
+  const [range, setRange] = useState<CalendarRange>('today');
+  const [impacts, setImpacts] = useState<EconomicImpact[]>(['High', 'Medium']);
+  const [assetOnly, setAssetOnly] = useState(true);
+  const [result, setResult] = useState<EconomicEventsResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const currencyKey = assetCurrencies.join(',');
+  const impactKey = impacts.join(',');
 
   useEffect(() => {
-    if (widgetLoadedRef.current || !scriptContainerRef.current) {
-      return;
-    }
+    let cancelled = false;
+    setIsLoading(true);
+    onLoadEvents({ ...rangeBounds(range), impacts, currencies: assetOnly ? assetCurrencies : undefined })
+      .then(loaded => { if (!cancelled) setResult(loaded); })
+      .catch(e => { if (!cancelled) setResult({ events: [], error: `Could not load the calendar: ${e instanceof Error ? e.message : String(e)}` }); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [range, impactKey, assetOnly, currencyKey, onLoadEvents]); // eslint-disable-line react-hooks/exhaustive-deps -- Keyed on the joined lists so equal arrays don't refetch
 
-    // Ensure the container div exists
-    let widgetDiv = document.getElementById('economicCalendarWidget');
-    if (!widgetDiv) {
-      widgetDiv = document.createElement('div');
-      widgetDiv.id = 'economicCalendarWidget';
-      // Set initial styles for the container if needed, the widget might override them.
-      // widgetDiv.style.width = "100%";
-      // widgetDiv.style.height = "400px"; // Adjust height as needed
-      scriptContainerRef.current.appendChild(widgetDiv);
-    }
-    
-    const script = document.createElement('script');
-    script.async = true;
-    script.type = 'text/javascript';
-    script.setAttribute('data-type', 'calendar-widget');
-    script.src = 'https://www.tradays.com/c/js/widgets/calendar/widget.js?v=13';
-    
-    // Configuration for the widget
-    const config = {
-      width: '100%',
-      height: '450px', // You might want to adjust this height
-      mode: '2', // 1 for "Important events", 2 for "All events"
-      // You can add more configuration options here as per Tradays documentation
-      // Example: "importance": "3" for only high impact events
-      // "lang": "en"
-    };
-    script.innerHTML = JSON.stringify(config);
+  const toggleImpact = (impact: EconomicImpact) => {
+    setImpacts(prev => prev.includes(impact) ? prev.filter(i => i !== impact) : [...prev, impact]);
+  };
 
-    scriptContainerRef.current.appendChild(script);
-    widgetLoadedRef.current = true;
+  const now = Date.now();
+  const multiDay = range === '3d' || range === '7d';
 
-    return () => {
-      // Clean up the script and widget div if the component unmounts
-      // This is important to prevent issues if the component re-renders often
-      if (scriptContainerRef.current) {
-        // scriptContainerRef.current.innerHTML = ''; // Clear the container
-      }
-      // It's tricky to fully "remove" a widget that manipulates the DOM externally.
-      // Setting widgetLoadedRef to false might help if re-initialization is needed on remount.
-      // widgetLoadedRef.current = false; 
-    };
-  }, []);
+  const renderEvents = () => {
+    if (!result) return null;
+    if (result.events.length === 0) {
+      return <p className="text-xs text-muted-foreground p-4 text-center">No events match these filters.</p>;
+    }
+    return (
+      <ScrollArea className="h-[360px] rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>Cur.</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Impact</TableHead>
+              <TableHead className="text-right">Actual</TableHead>
+              <TableHead className="text-right">Forecast</TableHead>
+              <TableHead className="text-right">Previous</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {result.events.map(event => (
+              <TableRow key={event.id} className={cn(event.timestamp < now && 'opacity-60')}>
+                <TableCell className="text-xs whitespace-nowrap">{format(event.timestamp, multiDay ? 'EEE dd, HH:mm' : 'HH:mm')}</TableCell>
+                <TableCell className="text-xs font-medium">{event.currency}</TableCell>
+                <TableCell className="text-xs">{event.title}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={cn('text-xxs', IMPACT_BADGE[event.impact])}>{event.impact}</Badge>
+                </TableCell>
+                <TableCell className="text-right text-xs tabular-nums font-medium">{event.actual ?? '—'}</TableCell>
+                <TableCell className="text-right text-xs tabular-nums">{event.forecast ?? '—'}</TableCell>
+                <TableCell className="text-right text-xs tabular-nums text-muted-foreground">{event.previous ?? '—'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    );
+  };
 
   return (
-    <DashboardCard 
-      title="Today's Economic Calendar" 
-      icon={CalendarClock} 
-      className="lg:col-span-3"
-      contentClassName="p-0" // Remove padding from card content if widget handles it
-    >
-      {/* Container for the script and the widget's div */}
-      <div ref={scriptContainerRef}>
-         {/* The widget script will create and populate this div, or you can create it here directly. */}
-         {/* If the script expects the div to exist, create it: */}
-         {/* <div id="economicCalendarWidget" style={{width: "100%", height: "450px"}}></div> */}
+    <DashboardCard title="Economic Calendar" icon={CalendarClock}>
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGES.map(r => (
+            <Button key={r.id} size="sm" variant={range === r.id ? 'default' : 'outline'} className="h-7 px-2 text-xs" onClick={() => setRange(r.id)}>
+              {r.label}
+            </Button>
+          ))}
+          <span className="mx-1 h-5 w-px bg-border" />
+          {IMPACT_OPTIONS.map(impact => (
+            <Button key={impact} size="sm" variant={impacts.includes(impact) ? 'secondary' : 'ghost'} className="h-7 px-2 text-xs" onClick={() => toggleImpact(impact)}>
+              {impact}
+            </Button>
+          ))}
+          <span className="mx-1 h-5 w-px bg-border" />
+          <Button size="sm" variant={assetOnly ? 'secondary' : 'ghost'} className="h-7 px-2 text-xs" onClick={() => setAssetOnly(true)} title={`Releases for ${assetName}`}>
+            {assetCurrencies.join(', ')}
+          </Button>
+          <Button size="sm" variant={assetOnly ? 'ghost' : 'secondary'} className="h-7 px-2 text-xs" onClick={() => setAssetOnly(false)}>
+            All currencies
+          </Button>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        {result?.error && (
+          <div className="p-3 bg-destructive/10 border border-destructive/30 rounded-md text-sm text-destructive flex items-start gap-2">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{result.error}</span>
+          </div>
+        )}
+        {renderEvents()}
+        {result?.sourceProvider && (
+          <p className="text-xxs text-muted-foreground">Times in your local time zone &middot; Data from {result.sourceProvider}</p>
+        )}
       </div>
-      <p className="text-xs text-muted-foreground text-center p-2 border-t border-border">
-        Economic calendar widget powered by Tradays.com.
-      </p>
     </DashboardCard>
   );
 }
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Landmark, AlertTriangle, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Legend,
+} from 'recharts';
+import DashboardCard from './DashboardCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { alignSeries } from '@/lib/fred/analysis';
+import type { FredObservation, MacroIndicators } from '@/app/actions/fetch-macro-indicators';
+
+type ChartView = 'rates' | 'yields' | 'inflation';
+
+const VIEWS: { id: ChartView; label: string }[] = [
+  { id: 'rates', label: 'Policy rates' },
+  { id: 'yields', label: 'US yields' },
+  { id: 'inflation', label: 'US inflation' },
+];
+
+const LINE_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+const signed = (value: number, digits = 2) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), 'dd MMM yyyy');
+
+type MacroIndicatorsCardProps = {
+  assetName: string;
+  assetCurrencies: string[]; // Currencies whose policy rates are charted
+  onLoadIndicators: (currencies: string[]) => Promise<MacroIndicators>;
+};
+
+export default function MacroIndicatorsCard({ assetName, assetCurrencies, onLoadIndicators }: MacroIndicatorsCardProps) {
+  const [view, setView] = useState<ChartView>('rates');
+  const [indicators, setIndicators] = useState<MacroIndicators | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const currencyKey = assetCurrencies.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    onLoadIndicators(assetCurrencies)
+      .then(loaded => { if (!cancelled) setIndicators(loaded); })
+      .catch(e => { if (!cancelled) setIndicators({ policyRates: [], yields: [], from: '', sourceProvider: 'FRED', error: `Could not load FRED data: ${e instanceof Error ? e.message : String(e)}` }); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [currencyKey, onLoadIndicators]); // eslint-disable-line react-hooks/exhaustive-deps -- Keyed on the joined list so equal arrays don't refetch
+
+  const renderStats = () => {
+    if (!indicators) return null;
+    const stats: { label: string; value: string; detail: string; warn?: boolean }[] = [];
+    for (const series of indicators.policyRates) {
+      if (!series.latest) continue;
+      const change = series.lastChange;
+      stats.push({
+        label: `${series.info.currency} policy rate`,
+        value: `${series.latest.value.toFixed(2)}%`,
+        detail: change
+          ? `Last change ${formatDay(change.date)} (${signed((change.to - change.from) * 100, 0)} bp)`
+          : `Unchanged since ${formatDay(indicators.from)}`,
+      });
+    }
+    if (indicators.yieldCurve) {
+      const { spread, date } = indicators.yieldCurve;
+      stats.push({ label: 'US 10y − 2y spread', value: `${signed(spread)} pts`, detail: `${spread < 0 ? 'Inverted' : 'Normal'} curve, ${formatDay(date)}`, warn: spread < 0 });
+    }
+    const cpi = indicators.inflation?.latest;
+    if (cpi) stats.push({ label: 'US CPI inflation', value: `${cpi.value.toFixed(1)}%`, detail: `Year over year, ${format(new Date(`${cpi.date}T00:00:00`), 'MMM yyyy')}` });
+
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-2 rounded-md bg-muted/30">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className={cn('text-lg font-semibold tabular-nums', stat.warn && 'text-destructive')}>{stat.value}</p>
+            <p className="text-xxs text-muted-foreground">{stat.detail}</p>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderChart = () => {
+    if (!indicators) return null;
+    let lines: { key: string; name: string; observations: FredObservation[]; step?: boolean; dashed?: boolean }[];
+    switch (view) {
+      case 'rates':
+        lines = indicators.policyRates.map(s => ({ key: s.info.currency, name: `${s.info.currency} (${s.info.id})`, observations: s.observations, step: true }));
+        break;
+      case 'yields':
+        lines = [
+          ...indicators.yields.map(s => ({ key: s.info.id, name: s.info.label, observations: s.observations })),
+          { key: 'spread', name: '10y − 2y spread', observations: indicators.yieldCurve?.history ?? [], dashed: true },
+        ];
+        break;
+      case 'inflation':
+        lines = indicators.inflation ? [{ key: 'cpi', name: 'CPI, % year over year', observations: indicators.inflation.observations }] : [];
+        break;
+    }
+    lines = lines.filter(line => line.observations.length > 0);
+    if (lines.length === 0) {
+      return <p className="text-xs text-muted-foreground p-4 text-center">No FRED data for this view.</p>;
+    }
+
+    const rows = alignSeries(Object.fromEntries(lines.map(line => [line.key, line.observations])));
+    return (
+      <ResponsiveContainer width="100%" height={240}>
+        <LineChart data={rows} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border) / 0.5)" />
+          <XAxis dataKey="date" fontSize={10} tick={{ fill: 'hsl(var(--muted-foreground))' }} minTickGap={40} tickFormatter={(date: string) => format(new Date(`${date}T00:00:00`), 'MMM yy')} />
+          <YAxis fontSize={10} tick={{ fill: 'hsl(var(--muted-foreground))' }} domain={['auto', 'auto']} tickFormatter={(value: number) => `${value.toFixed(1)}%`} />
+          <Tooltip
+            contentStyle={{ background: 'hsl(var(--background))', border: '1px solid hsl(var(--border))', fontSize: 12 }}
+            labelFormatter={(date: string) => formatDay(date)}
+            formatter={(value: number) => `${value.toFixed(2)}%`}
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+          {lines.map((line, i) => (
+            <Line
+              key={line.key}
+              type={line.step ? 'stepAfter' : 'monotone'}
+              dataKey={line.key}
+              name={line.name}
+              stroke={LINE_COLORS[i % LINE_COLORS.length]}
+              strokeWidth={line.dashed ? 1 : 2}
+              strokeDasharray={line.dashed ? '4 2' : undefined}
+              dot={false}
+              isAnimationActive={false}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  const seriesErrors = indicators && !indicators.error
+    ? [...indicators.policyRates, ...indicators.yields, ...(indicators.inflation ? [indicators.inflation] : [])].filter(s => s.error)
+    : [];
+
+  return (
+    <DashboardCard title="Economic Indicators" icon={Landmark}>
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {VIEWS.map(v => (
+            <Button key={v.id} size="sm" variant={view === v.id ? 'default' : 'outline'} className="h-7 px-2 text-xs" onClick={() => setView(v.id)}>
+              {v.label}
+            </Button>
+          ))}
+          <Badge variant="outline" className="text-xxs" title={`Policy rates for ${assetName}`}>{assetCurrencies.join(', ')}</Badge>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        {indicators?.error && (
+          <div className="p-3 bg-destructive/10 border border-destructive/30 rounded-md text-sm text-destructive flex items-start gap-2">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{indicators.error}</span>
+          </div>
+        )}
+        {renderStats()}
+        {renderChart()}
+        {seriesErrors.map(s => (
+          <p key={s.info.id} className="text-xs text-destructive flex items-center gap-1"><AlertTriangle className="h-3 w-3" />{s.error}</p>
+        ))}
+        {indicators && !indicators.error && (
+          <p className="text-xxs text-muted-foreground">Since {formatDay(indicators.from)} &middot; Data from FRED</p>
+        )}
+      </div>
+    </DashboardCard>
+  );
+}
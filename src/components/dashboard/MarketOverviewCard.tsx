@@ -1,23 +1,18 @@
 
 'use client';
 
-import { DollarSign, AlertTriangle, AreaChart, Zap, PowerOff, Store, ClockIcon } from 'lucide-react';
+import { DollarSign, AlertTriangle, AreaChart, Zap, PowerOff, Store, ClockIcon, Radio } from 'lucide-react';
 import DashboardCard from './DashboardCard';
 import { useEffect, useState } from 'react';
-import type { MarketData, HistoricalDataPoint } from '@/app/actions/fetch-market-data';
-import {
-  ResponsiveContainer,
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  Tooltip,
-  CartesianGrid,
-} from 'recharts';
+import type { MarketData } from '@/app/actions/fetch-market-data';
+import CandlestickChart, { CHART_OVERLAYS, type ChartOverlay } from './CandlestickChart';
 import { useTheme } from 'next-themes'; 
 import { format, fromUnixTime, differenceInMinutes } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { applyTickToCandles } from '@/lib/market-data/candles';
+import type { PriceStreamState } from '@/hooks/use-price-stream';
 
 const defaultData: MarketData = {
   assetName: 'EUR/USD',
@@ -30,24 +25,13 @@ const defaultData: MarketData = {
 
 type MarketOverviewCardProps = {
   initialData?: MarketData;
+  stream?: PriceStreamState; // Live ticks update the price and the latest candle between refreshes
 };
 
-const CustomTooltip = ({ active, payload, label }: any) => {
-  if (active && payload && payload.length) {
-    return (
-      <div className="bg-background/80 backdrop-blur-sm p-2 border border-border shadow-lg rounded-md">
-        <p className="label text-sm text-foreground">{`${label}`}</p>
-        <p className="intro text-sm text-primary">{`Price: ${payload[0].value.toFixed(4)}`}</p>
-      </div>
-    );
-  }
-  return null;
-};
-
-
-export default function MarketOverviewCard({ initialData }: MarketOverviewCardProps) {
+export default function MarketOverviewCard({ initialData, stream }: MarketOverviewCardProps) {
   const [currentMarketData, setCurrentMarketData] = useState<MarketData>(initialData || defaultData);
   const [clientMounted, setClientMounted] = useState(false);
+  const [overlays, setOverlays] = useState<ChartOverlay[]>(['sma20', 'levels']);
   const { resolvedTheme } = useTheme(); 
 
   useEffect(() => {
@@ -67,23 +51,38 @@ export default function MarketOverviewCard({ initialData }: MarketOverviewCardPr
     }
   }, [initialData]);
 
-  const formatPrice = (value: number | undefined, pair: string | undefined) => {
-    if (value === undefined || value === null || isNaN(value) || !pair) return 'N/A';
+  const lastTick = stream?.lastTick;
+  useEffect(() => {
+    if (!lastTick) return;
+    setCurrentMarketData(prev => ({
+      ...prev,
+      price: lastTick.price,
+      lastTradeTimestamp: Math.max(prev.lastTradeTimestamp ?? 0, lastTick.timestamp),
+      historical: prev.historical && prev.timeframe ? applyTickToCandles(prev.historical, lastTick, prev.timeframe, prev.barMinutes) : prev.historical,
+    }));
+  }, [lastTick]);
+
+  const priceDigits = (pair: string) => {
     const isJpyPair = pair.includes("JPY");
     const isCrypto = pair.includes("BTC") || pair.includes("ETH"); // Simple check
     const isXauXagCl = pair.includes("XAU") || pair.includes("XAG") || pair.toLowerCase().includes("oil");
+    return isJpyPair || isXauXagCl || isCrypto ? 2 : 4;
+  }
 
-    if (isJpyPair || isXauXagCl || isCrypto) {
-      return value.toFixed(2);
-    }
-    return value.toFixed(4);
+  const formatPrice = (value: number | undefined, pair: string | undefined) => {
+    if (value === undefined || value === null || isNaN(value) || !pair) return 'N/A';
+    return value.toFixed(priceDigits(pair));
   }
 
+  const toggleOverlay = (overlay: ChartOverlay) => {
+    setOverlays(prev => prev.includes(overlay) ? prev.filter(o => o !== overlay) : [...prev, overlay]);
+  };
+
   const dataSourceText = currentMarketData.sourceProvider && currentMarketData.sourceProvider !== 'Unknown'
     ? `Data from ${currentMarketData.sourceProvider}`
     : 'Data source unknown';
+  const isStreaming = stream?.status === 'live';
 
-  const chartStrokeColor = resolvedTheme === 'dark' ? 'hsl(var(--primary))' : 'hsl(var(--primary))';
   const gridStrokeColor = resolvedTheme === 'dark' ? 'hsl(var(--border) / 0.5)' : 'hsl(var(--border) / 0.7)';
   const tickFillColor = resolvedTheme === 'dark' ? 'hsl(var(--muted-foreground))' : 'hsl(var(--muted-foreground))';
 
@@ -147,34 +146,38 @@ export default function MarketOverviewCard({ initialData }: MarketOverviewCardPr
           <div className="text-center">
             <AreaChart size={32} className="mx-auto text-muted-foreground opacity-50 mb-2" />
             <p className="text-xs text-muted-foreground">Historical price data not available.</p>
-            {currentMarketData.sourceProvider && <p className="text-xxs text-muted-foreground/80 mt-1">Attempted: {currentMarketData.sourceProvider}</p>}
+            {currentMarketData.attempts && currentMarketData.attempts.length > 0 ? (
+              <p className="text-xxs text-muted-foreground/80 mt-1">
+                Attempted: {currentMarketData.attempts.map(a => `${a.provider} (${a.errorKind || a.status})`).join(', ')}
+              </p>
+            ) : currentMarketData.sourceProvider && <p className="text-xxs text-muted-foreground/80 mt-1">Attempted: {currentMarketData.sourceProvider}</p>}
           </div>
         </div>
       );
     }
     return (
-      <ResponsiveContainer width="100%" height={200} className="aspect-[16/9]">
-        <LineChart data={currentMarketData.historical} margin={{ top: 5, right: 20, left: -25, bottom: 5 }}>
-          <CartesianGrid strokeDasharray="3 3" stroke={gridStrokeColor} />
-          <XAxis 
-            dataKey="date" 
-            fontSize={10} 
-            tick={{ fill: tickFillColor }} 
-            axisLine={{ stroke: gridStrokeColor }} 
-            tickLine={{ stroke: gridStrokeColor }}
-          />
-          <YAxis 
-            fontSize={10} 
-            tickFormatter={(value) => value.toFixed(currentMarketData.assetName?.includes("JPY") ? 2 : 4)} 
-            tick={{ fill: tickFillColor }} 
-            axisLine={{ stroke: gridStrokeColor }} 
-            tickLine={{ stroke: gridStrokeColor }}
-            domain={['dataMin', 'dataMax']}
-          />
-          <Tooltip content={<CustomTooltip />} cursor={{ stroke: chartStrokeColor, strokeWidth: 1, strokeDasharray: "3 3" }}/>
-          <Line type="monotone" dataKey="price" stroke={chartStrokeColor} strokeWidth={2} dot={false} />
-        </LineChart>
-      </ResponsiveContainer>
+      <>
+        <div className="flex flex-wrap gap-1 mb-2">
+          {CHART_OVERLAYS.map(({ id, label }) => (
+            <Button
+              key={id}
+              size="sm"
+              variant={overlays.includes(id) ? 'default' : 'outline'}
+              className="h-7 px-2 text-xs"
+              onClick={() => toggleOverlay(id)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <CandlestickChart
+          candles={currentMarketData.historical}
+          overlays={overlays}
+          priceDigits={priceDigits(currentMarketData.assetName || '')}
+          gridStrokeColor={gridStrokeColor}
+          tickFillColor={tickFillColor}
+        />
+      </>
     );
   };
 
@@ -198,10 +201,20 @@ export default function MarketOverviewCard({ initialData }: MarketOverviewCardPr
               </p>
             </>
           )}
-           {currentMarketData.price !== undefined && <p className="text-xs text-muted-foreground mt-1">{dataSourceText}</p>}
+           {currentMarketData.price !== undefined && (
+            <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1.5">
+              {dataSourceText}
+              {isStreaming && (
+                <Badge variant="outline" className="text-xxs bg-green-500/20 text-green-400 border-green-500/50" title={`Streaming from ${stream?.feed ?? 'provider'}`}>
+                  <Radio className="h-3 w-3 mr-1" />Live
+                </Badge>
+              )}
+              {stream?.status === 'reconnecting' && <span title={stream.message}>· stream reconnecting, polling</span>}
+            </p>
+          )}
         </div>
         <div className="mt-4">
-          <h4 className="text-sm font-medium text-muted-foreground mb-2">Price Trend (Last ~60 points)</h4>
+          <h4 className="text-sm font-medium text-muted-foreground mb-2">Price Chart (Last ~60 candles)</h4>
           {renderChart()}
         </div>
          {currentMarketData.error && currentMarketData.price !== undefined && ( // Show error if data is partial
@@ -0,0 +1,124 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Gauge, Loader2, RefreshCw } from 'lucide-react';
+import { formatDistanceToNowStrict } from 'date-fns';
+import DashboardCard from './DashboardCard';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getProviderQuotas, type ProviderQuota, type ProviderQuotasResult } from '@/app/actions/provider-quotas';
+
+const POLL_INTERVAL_MS = 30_000;
+
+const formatSeconds = (ms: number) => (ms < 120_000 ? `${Math.ceil(ms / 1000)}s` : `${Math.ceil(ms / 60_000)} min`);
+
+function BudgetCell({ quota }: { quota: ProviderQuota }) {
+  const { status } = quota;
+  if (!status) return <span className="text-muted-foreground">No key</span>;
+  if (status.unlimited) return <span className="text-muted-foreground">Unlimited</span>;
+  return (
+    <div className="space-y-1 min-w-[160px]">
+      {status.windows.map(w => (
+        <div key={w.window} className="space-y-0.5">
+          <div className="flex justify-between text-xs">
+            <span>{w.remaining.toLocaleString()} / {w.limit.toLocaleString()} per {w.window}</span>
+            {w.remaining < w.limit && <span className="text-muted-foreground">full in {formatSeconds(w.fullInMs)}</span>}
+          </div>
+          <Progress value={(w.remaining / w.limit) * 100} className="h-1.5" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Remaining request budget per provider and how the response cache is doing. Budgets are tracked by the server
+ * process for the keys in use; a provider out of budget is skipped by the market data cascade until it refills.
+ */
+export default function ProviderQuotaCard() {
+  const [result, setResult] = useState<ProviderQuotasResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setResult(await getProviderQuotas());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    load();
+    const intervalId = setInterval(() => {
+      if (!document.hidden) load();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [load]);
+
+  const cache = result?.cache;
+  const cacheLookups = cache ? cache.hits + cache.staleHits + cache.misses + cache.coalesced : 0;
+  const now = Date.now();
+
+  return (
+    <DashboardCard title="API Budgets" icon={Gauge}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+          <span>
+            {result?.refreshFloorMs !== undefined
+              ? `Auto-refresh runs at most every ${formatSeconds(result.refreshFloorMs)} on the current plans.`
+              : 'Configure a market data key to see refresh budgets.'}
+          </span>
+          <Button size="sm" variant="outline" onClick={load} disabled={isLoading}>
+            {isLoading ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />} Refresh
+          </Button>
+        </div>
+
+        {result?.error && <p className="text-sm text-destructive">{result.error}</p>}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Provider</TableHead>
+              <TableHead>Plan</TableHead>
+              <TableHead>Remaining</TableHead>
+              <TableHead className="text-right">Calls</TableHead>
+              <TableHead className="text-right">Held back</TableHead>
+              <TableHead className="text-right">429s</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(result?.providers ?? []).map(quota => (
+              <TableRow key={quota.id} className={quota.configured ? undefined : 'opacity-60'}>
+                <TableCell className="font-medium">
+                  {quota.label}
+                  {quota.status?.blockedUntil && (
+                    <Badge variant="destructive" className="ml-2">Paused {formatSeconds(quota.status.blockedUntil - now)}</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {quota.status?.plan ?? 'free'} <span className="text-xs">({quota.planLimits})</span>
+                </TableCell>
+                <TableCell><BudgetCell quota={quota} /></TableCell>
+                <TableCell className="text-right">{quota.status?.calls ?? '—'}</TableCell>
+                <TableCell className="text-right">{quota.status?.denied ?? '—'}</TableCell>
+                <TableCell className="text-right" title={quota.status?.lastRateLimitedAt ? `Last ${formatDistanceToNowStrict(quota.status.lastRateLimitedAt)} ago` : undefined}>
+                  {quota.status?.rateLimited ?? '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {cache && cacheLookups > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Response cache: {Math.round(((cache.hits + cache.staleHits + cache.coalesced) / cacheLookups) * 100)}% of {cacheLookups} lookups
+            answered without a new upstream call ({cache.hits} fresh, {cache.staleHits} stale, {cache.coalesced} shared in flight).
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Counts are since the server started. Set RATE_LIMIT_&lt;PROVIDER&gt; to a plan name or limits such as 100/min to match a paid plan.
+        </p>
+      </div>
+    </DashboardCard>
+  );
+}
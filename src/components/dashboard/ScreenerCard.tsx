@@ -0,0 +1,351 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp, ListFilter, Loader2, RefreshCw, AlertTriangle, Settings } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import DashboardCard from './DashboardCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { priceDecimalsFor } from '@/lib/signals/trade-input';
+import type { Asset } from '@/app/actions/manage-assets';
+import type { LatestSignal, LatestSignalsResult, ScreenerRow } from '@/app/actions/screen-watchlist';
+
+type ScreenerCardProps = {
+  assets: Asset[];
+  timeframes: { id: string; name: string }[];
+  selectedAssetName: string;
+  selectedTimeframeId: string;
+  onScreenAsset: (asset: Asset, timeframeId: string, includeSentiment?: boolean) => Promise<ScreenerRow>;
+  onLoadLatestSignals: (timeframeId: string) => Promise<LatestSignalsResult>;
+  onSelectAsset: (assetName: string, timeframeId: string) => void;
+};
+
+type SortKey = 'name' | 'price' | 'change' | 'rsi' | 'macd' | 'sentiment' | 'signal';
+
+// Requests are spaced out so a full pass stays inside free-tier provider limits; a rate-limited
+// asset pauses the pass and is retried once before the rest of the pass is skipped.
+const REQUEST_SPACING_MS = 1500;
+const RATE_LIMIT_BACKOFF_MS = 60_000;
+const AUTO_REFRESH_MS = 5 * 60_000;
+
+const ALL = 'all';
+const SIGNAL_ORDER: Record<string, number> = { BUY: 2, HOLD: 1, UNCLEAR: 0, SELL: -1 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const errorRow = (asset: Asset, timeframeId: string, error: string): ScreenerRow => ({
+  assetName: asset.name, timeframe: timeframeId, rsiStatus: 'N/A', macdStatus: 'N/A', error, updatedAt: Date.now(),
+});
+
+const signalClass = (recommendation?: string) => cn(
+  'font-semibold',
+  recommendation === 'BUY' && 'text-accent',
+  recommendation === 'SELL' && 'text-destructive',
+  (recommendation === 'HOLD' || recommendation === 'UNCLEAR') && 'text-muted-foreground',
+);
+
+export default function ScreenerCard({
+  assets,
+  timeframes,
+  selectedAssetName,
+  selectedTimeframeId,
+  onScreenAsset,
+  onLoadLatestSignals,
+  onSelectAsset,
+}: ScreenerCardProps) {
+  const [timeframeId, setTimeframeId] = useState(selectedTimeframeId);
+  const [includeSentiment, setIncludeSentiment] = useState(false);
+  const [rows, setRows] = useState<Record<string, ScreenerRow>>({});
+  const [latestSignals, setLatestSignals] = useState<Record<string, LatestSignal>>({});
+  const [signalsError, setSignalsError] = useState<string | undefined>();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [pausedUntil, setPausedUntil] = useState<number | null>(null);
+  const [lastRunAt, setLastRunAt] = useState<number | null>(null);
+  const [deferredRefreshes, setDeferredRefreshes] = useState(0);
+
+  const [search, setSearch] = useState('');
+  const [rsiFilter, setRsiFilter] = useState(ALL);
+  const [macdFilter, setMacdFilter] = useState(ALL);
+  const [signalFilter, setSignalFilter] = useState(ALL);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'name', descending: false });
+
+  const runIdRef = useRef(0); // Bumped to cancel a pass in progress
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
+  const assetKey = assets.map(a => a.name).join('|');
+
+  const runScreen = useCallback(async () => {
+    const runId = ++runIdRef.current;
+    const isCancelled = () => runIdRef.current !== runId;
+    const queue = assetsRef.current;
+    setProgress({ done: 0, total: queue.length });
+    setPausedUntil(null);
+
+    onLoadLatestSignals(timeframeId)
+      .then(result => {
+        if (isCancelled()) return;
+        setLatestSignals(result.signals);
+        setSignalsError(result.error);
+      })
+      .catch(() => setSignalsError('Could not load latest signals.'));
+
+    const screen = (asset: Asset) => onScreenAsset(asset, timeframeId, includeSentiment)
+      .catch(err => errorRow(asset, timeframeId, err instanceof Error ? err.message : String(err)));
+
+    for (let i = 0; i < queue.length; i++) {
+      let row = await screen(queue[i]);
+      if (row.errorKind === 'rate-limit') {
+        if (isCancelled()) return;
+        setPausedUntil(Date.now() + RATE_LIMIT_BACKOFF_MS);
+        await sleep(RATE_LIMIT_BACKOFF_MS);
+        if (isCancelled()) return;
+        setPausedUntil(null);
+        row = await screen(queue[i]);
+      }
+      if (isCancelled()) return;
+      setRows(prev => ({ ...prev, [row.assetName]: row }));
+      setProgress({ done: i + 1, total: queue.length });
+
+      if (row.errorKind === 'rate-limit') {
+        const skipped = queue.slice(i + 1);
+        setRows(prev => ({
+          ...prev,
+          ...Object.fromEntries(skipped.map(a => [a.name, errorRow(a, timeframeId, 'Skipped: provider rate limit reached.')])),
+        }));
+        break;
+      }
+      if (i < queue.length - 1) await sleep(REQUEST_SPACING_MS);
+      if (isCancelled()) return;
+    }
+    setProgress(null);
+    setLastRunAt(Date.now());
+  }, [timeframeId, includeSentiment, onScreenAsset, onLoadLatestSignals]);
+
+  useEffect(() => {
+    setRows({});
+    setLatestSignals({});
+  }, [timeframeId]);
+
+  useEffect(() => {
+    runScreen();
+    return () => { runIdRef.current++; };
+  }, [runScreen, assetKey]);
+
+  useEffect(() => {
+    if (progress || lastRunAt === null) return;
+    const timeoutId = setTimeout(() => {
+      if (!document.hidden) runScreen();
+      else setDeferredRefreshes(n => n + 1); // Check again later instead of screening a hidden tab
+    }, AUTO_REFRESH_MS);
+    return () => clearTimeout(timeoutId);
+  }, [progress, lastRunAt, deferredRefreshes, runScreen]);
+
+  const sentimentFor = (name: string) => rows[name]?.sentimentScore ?? latestSignals[name]?.sentimentScore;
+
+  const visibleAssets = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const filtered = assets.filter(asset => {
+      const row = rows[asset.name];
+      if (term && !asset.name.toLowerCase().includes(term)) return false;
+      if (rsiFilter !== ALL && row?.rsiStatus !== rsiFilter) return false;
+      if (macdFilter !== ALL && row?.macdStatus !== macdFilter) return false;
+      if (signalFilter !== ALL && latestSignals[asset.name]?.recommendation !== signalFilter) return false;
+      return true;
+    });
+
+    const value = (asset: Asset): number | string | undefined => {
+      const row = rows[asset.name];
+      switch (sort.key) {
+        case 'name': return asset.name;
+        case 'price': return row?.price;
+        case 'change': return row?.changePct;
+        case 'rsi': return row?.rsi;
+        case 'macd': return row?.macdHistogram;
+        case 'sentiment': return sentimentFor(asset.name);
+        case 'signal': {
+          const recommendation = latestSignals[asset.name]?.recommendation;
+          return recommendation ? SIGNAL_ORDER[recommendation] : undefined;
+        }
+      }
+    };
+    return [...filtered].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      if (va === undefined && vb === undefined) return 0;
+      if (va === undefined) return 1; // Missing values always last
+      if (vb === undefined) return -1;
+      const cmp = typeof va === 'string' ? va.localeCompare(String(vb)) : va - (vb as number);
+      return sort.descending ? -cmp : cmp;
+    });
+  }, [assets, rows, latestSignals, search, rsiFilter, macdFilter, signalFilter, sort]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => (prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== 'name' }));
+  };
+
+
+  const renderSortableHead = (key: SortKey, label: string, className?: string) => (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(key)}>
+        {label}
+        {sort.key === key && (sort.descending ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+      </button>
+    </TableHead>
+  );
+
+  const renderFilters = () => (
+    <div className="flex flex-wrap gap-2 items-center">
+      <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search assets" className="w-[160px] h-9" aria-label="Search assets" />
+      <Select value={timeframeId} onValueChange={setTimeframeId}>
+        <SelectTrigger className="w-[100px] h-9" aria-label="Watchlist timeframe"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {timeframes.map(tf => <SelectItem key={tf.id} value={tf.id}>{tf.name}</SelectItem>)}
+        </SelectContent>
+      </Select>
+      <Select value={rsiFilter} onValueChange={setRsiFilter}>
+        <SelectTrigger className="w-[140px] h-9" aria-label="RSI filter"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any RSI</SelectItem>
+          <SelectItem value="Oversold">Oversold</SelectItem>
+          <SelectItem value="Neutral">Neutral</SelectItem>
+          <SelectItem value="Overbought">Overbought</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select value={macdFilter} onValueChange={setMacdFilter}>
+        <SelectTrigger className="w-[140px] h-9" aria-label="MACD filter"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any MACD</SelectItem>
+          <SelectItem value="Uptrend">Uptrend</SelectItem>
+          <SelectItem value="Downtrend">Downtrend</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select value={signalFilter} onValueChange={setSignalFilter}>
+        <SelectTrigger className="w-[130px] h-9" aria-label="Signal filter"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any signal</SelectItem>
+          <SelectItem value="BUY">BUY</SelectItem>
+          <SelectItem value="SELL">SELL</SelectItem>
+          <SelectItem value="HOLD">HOLD</SelectItem>
+        </SelectContent>
+      </Select>
+      <div className="flex items-center gap-2 ml-1">
+        <Switch id="screener-sentiment" checked={includeSentiment} onCheckedChange={setIncludeSentiment} />
+        <Label htmlFor="screener-sentiment" className="text-xs" title="One NewsAPI request and one AI call per asset on every pass">
+          Live sentiment
+        </Label>
+      </div>
+    </div>
+  );
+
+
+  const renderTable = () => (
+    <ScrollArea className="h-[420px]">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {renderSortableHead('name', 'Asset')}
+            {renderSortableHead('price', 'Price', 'text-right')}
+            {renderSortableHead('change', '% Chg', 'text-right')}
+            {renderSortableHead('rsi', 'RSI', 'text-right')}
+            {renderSortableHead('macd', 'MACD')}
+            {renderSortableHead('sentiment', 'Sentiment', 'text-right')}
+            {renderSortableHead('signal', 'Latest Signal')}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visibleAssets.map(asset => {
+            const row = rows[asset.name];
+            const signal = latestSignals[asset.name];
+            const sentiment = sentimentFor(asset.name);
+            return (
+              <TableRow
+                key={asset.name}
+                className={cn('cursor-pointer', asset.name === selectedAssetName && 'bg-muted/50')}
+                onClick={() => onSelectAsset(asset.name, timeframeId)}
+                title={`Open ${asset.name} (${timeframeId}) in the dashboard`}
+              >
+                <TableCell className="font-medium whitespace-nowrap">
+                  {asset.name}
+                  {row?.marketStatus === 'closed' && <Badge variant="secondary" className="ml-2 text-[10px]">closed</Badge>}
+                </TableCell>
+                {row?.error && row.price === undefined ? (
+                  <TableCell colSpan={5} className="text-xs text-destructive truncate max-w-[420px]" title={row.error}>
+                    <AlertTriangle size={12} className="inline mr-1" />{row.error}
+                  </TableCell>
+                ) : (
+                  <>
+                    <TableCell className="text-right tabular-nums">{row?.price !== undefined ? row.price.toFixed(priceDecimalsFor(asset)) : <Loader2 className="inline h-3 w-3 animate-spin text-muted-foreground" />}</TableCell>
+                    <TableCell className={cn('text-right tabular-nums', row?.changePct !== undefined && (row.changePct >= 0 ? 'text-accent' : 'text-destructive'))}>
+                      {row?.changePct !== undefined ? `${row.changePct >= 0 ? '+' : ''}${row.changePct.toFixed(2)}%` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums" title={row?.rsiStatus}>
+                      {row?.rsi !== undefined ? row.rsi.toFixed(1) : '—'}
+                      {(row?.rsiStatus === 'Oversold' || row?.rsiStatus === 'Overbought') && <span className="ml-1 text-xs text-muted-foreground">({row.rsiStatus === 'Oversold' ? 'OS' : 'OB'})</span>}
+                    </TableCell>
+                    <TableCell className={cn(row?.macdStatus === 'Uptrend' && 'text-accent', row?.macdStatus === 'Downtrend' && 'text-destructive')}>
+                      {row?.macdStatus ?? '—'}
+                    </TableCell>
+                    <TableCell
+                      className="text-right tabular-nums"
+                      title={row?.sentimentScore === undefined && sentiment !== undefined ? 'From the latest recorded signal' : undefined}
+                    >
+                      {sentiment !== undefined ? `${sentiment.toFixed(2)}${row?.sentimentScore === undefined ? '*' : ''}` : '—'}
+                    </TableCell>
+                  </>
+                )}
+                <TableCell className="whitespace-nowrap">
+                  {signal ? (
+                    <span title={`${signal.source === 'chart-analysis' ? 'Chart analysis' : 'Trade recommendation'}${signal.confidence ? `, ${signal.confidence} confidence` : ''}`}>
+                      <span className={signalClass(signal.recommendation)}>{signal.recommendation}</span>
+                      <span className="ml-1 text-xs text-muted-foreground">{formatDistanceToNow(new Date(signal.createdAt), { addSuffix: true })}</span>
+                    </span>
+                  ) : <span className="text-muted-foreground">&mdash;</span>}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </ScrollArea>
+  );
+
+  return (
+    <DashboardCard title="Watchlist" icon={ListFilter}>
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {renderFilters()}
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" asChild>
+              <Link href="/assets"><Settings className="mr-2 h-4 w-4" />Manage Assets</Link>
+            </Button>
+            <Button size="sm" variant="outline" onClick={runScreen} disabled={!!progress}>
+              {progress ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              {progress ? `${progress.done}/${progress.total}` : 'Refresh'}
+            </Button>
+          </div>
+        </div>
+        {pausedUntil && (
+          <p className="text-xs text-muted-foreground">
+            <AlertTriangle size={12} className="inline mr-1 text-destructive" />
+            Provider rate limit reached; resuming {formatDistanceToNow(new Date(pausedUntil), { addSuffix: true })}.
+          </p>
+        )}
+        {signalsError && <p className="text-xs text-destructive">{signalsError}</p>}
+        {renderTable()}
+        <p className="text-xs text-muted-foreground">
+          Click a row to open it in the dashboard. % change is against the previous bar&apos;s close; signals come from the
+          signal history, and * marks sentiment taken from the latest recorded signal.
+          {lastRunAt && ` Updated ${formatDistanceToNow(new Date(lastRunAt), { addSuffix: true })}; refreshes every ${AUTO_REFRESH_MS / 60_000} minutes.`}
+        </p>
+      </div>
+    </DashboardCard>
+  );
+}
@@ -1,15 +1,34 @@
 import type { GenerateTradeRecommendationOutput } from '@/ai/flows/generate-trade-recommendation';
-import { TrendingUp, TrendingDown, MinusCircle, AlertTriangle, ShieldAlert } from 'lucide-react';
+import type { SignalEngineId } from '@/lib/signals/rule-engine';
+import type { EventRisk } from '@/app/actions/fetch-economic-events';
+import { TrendingUp, TrendingDown, MinusCircle, AlertTriangle, ShieldAlert, Bot, ListChecks, GitCompare, Clock, Hourglass, CalendarClock } from 'lucide-react';
+import { format } from 'date-fns';
 import DashboardCard from './DashboardCard';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
 type SignalDisplayCardProps = {
-  data?: GenerateTradeRecommendationOutput;
+  data?: GenerateTradeRecommendationOutput; // AI model signal
+  ruleData?: GenerateTradeRecommendationOutput; // Deterministic rule engine signal
+  primaryEngine?: SignalEngineId;
+  onPrimaryEngineChange?: (engine: SignalEngineId) => void;
   isLoading: boolean;
+  inputsUnchangedSince?: number; // Unix ms; set when the last refresh kept the AI signal because its inputs barely moved
+  signalBarClose?: number;       // Unix ms; close of the bar the official signal was computed from
+  nextSignalAt?: number;         // Unix ms; when the forming bar closes
+  provisionalData?: GenerateTradeRecommendationOutput; // Rules engine on the forming bar, for the intra-bar view
+  eventRisk?: EventRisk;         // High-impact releases around now for the asset's currencies
 };
 
-export default function SignalDisplayCard({ data, isLoading }: SignalDisplayCardProps) {
+const ENGINE_LABELS: Record<SignalEngineId, string> = { ai: 'AI Model', rules: 'Rules Engine' };
+
+const signalTextClass = (recommendation?: GenerateTradeRecommendationOutput['recommendation']) =>
+  recommendation === 'BUY' ? 'text-accent' : recommendation === 'SELL' ? 'text-destructive' : 'text-muted-foreground';
+
+export default function SignalDisplayCard({ data: aiData, ruleData, primaryEngine = 'ai', onPrimaryEngineChange, isLoading, inputsUnchangedSince, signalBarClose, nextSignalAt, provisionalData, eventRisk }: SignalDisplayCardProps) {
+  const data = primaryEngine === 'rules' ? ruleData : aiData;
+
   const renderSignal = () => {
     if (isLoading) {
       return <p className="text-muted-foreground text-center py-8">Generating signal...</p>;
@@ -70,15 +89,142 @@ export default function SignalDisplayCard({ data, isLoading }: SignalDisplayCard
           {recommendation}
         </Badge>
         <p className="mt-4 text-sm text-muted-foreground px-4">{reason}</p>
+        {primaryEngine === 'ai' && inputsUnchangedSince !== undefined && (
+          <p className="mt-2 text-xs text-muted-foreground flex items-center justify-center gap-1" title="The AI signal is regenerated once price, indicators, sentiment or rates move materially.">
+            <Clock className="h-3 w-3" /> Inputs unchanged since {format(inputsUnchangedSince, 'HH:mm')}
+          </p>
+        )}
+        {signalBarClose !== undefined && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Official signal on the bar closed {format(signalBarClose, 'MMM dd HH:mm')}
+            {nextSignalAt !== undefined && <> · next at {format(nextSignalAt, 'HH:mm')}</>}
+          </p>
+        )}
       </div>
     );
   };
   
+  // Intra-bar view: indicators of the forming bar can still change before it closes
+  const renderProvisional = () => {
+    if (isLoading || !provisionalData || provisionalData.error) return null;
+    return (
+      <div className="mx-4 mb-4 p-3 rounded-md border border-dashed border-border text-left">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+            <Hourglass className="h-3.5 w-3.5" /> Provisional (forming bar, rules engine)
+          </span>
+          <span className={cn("text-sm font-bold", signalTextClass(provisionalData.recommendation))}>{provisionalData.recommendation}</span>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">{provisionalData.reason}</p>
+      </div>
+    );
+  };
+
+  const renderEventRisk = () => {
+    if (isLoading || !eventRisk || eventRisk.error) return null;
+    const { blackout, upcoming, recent } = eventRisk;
+    const next = upcoming[0];
+    const last = recent[0];
+    if (!blackout && !next && !last) return null;
+    return (
+      <div className={cn("mx-4 mb-4 p-3 rounded-md text-xs text-left space-y-1", blackout ? "bg-yellow-500/10 border border-yellow-500/40" : "bg-muted/30")}>
+        {blackout && (
+          <p className="font-medium text-yellow-400 flex items-center gap-1.5">
+            <CalendarClock className="h-3.5 w-3.5" />
+            Event blackout until {format(blackout.endsAt, 'HH:mm')}: {blackout.title} ({blackout.currency}) at {format(blackout.timestamp, 'HH:mm')}.
+            {eventRisk.action === 'suppress' ? ' New entries are held.' : ' Signals are downgraded.'}
+          </p>
+        )}
+        {next && !(blackout && blackout.timestamp === next.timestamp && blackout.title === next.title) && (
+          <p className="text-muted-foreground">Next high-impact: {next.title} ({next.currency}) {format(next.timestamp, 'EEE HH:mm')}</p>
+        )}
+        {last && (
+          <p className="text-muted-foreground">
+            Last release: {last.title} ({last.currency}) {last.actual ?? 'n/a'} vs {last.forecast ?? 'n/a'} forecast
+            {last.surprisePct !== undefined && (
+              <span className={cn(last.surprisePct > 0 ? 'text-accent' : last.surprisePct < 0 ? 'text-destructive' : '')}> ({last.surprisePct > 0 ? '+' : ''}{last.surprisePct}%)</span>
+            )}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderComparison = () => {
+    if (isLoading || (!aiData && !ruleData)) return null;
+    const signals: { engine: SignalEngineId; output?: GenerateTradeRecommendationOutput; Icon: typeof Bot }[] = [
+      { engine: 'ai', output: aiData, Icon: Bot },
+      { engine: 'rules', output: ruleData, Icon: ListChecks },
+    ];
+    const deviates = !!aiData && !!ruleData && !aiData.error && aiData.recommendation !== ruleData.recommendation;
+
+    return (
+      <div className="border-t border-border/50 px-4 py-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h4 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+            <GitCompare className="h-4 w-4" /> AI vs. Rules
+          </h4>
+          {deviates ? (
+            <Badge variant="outline" className="text-xs bg-yellow-500/20 text-yellow-400 border-yellow-500/50">Model deviates from rules</Badge>
+          ) : aiData && ruleData && !aiData.error ? (
+            <Badge variant="outline" className="text-xs">Model agrees with rules</Badge>
+          ) : null}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {signals.map(({ engine, output, Icon }) => (
+            <div
+              key={engine}
+              className={cn(
+                "p-3 rounded-md border text-left",
+                engine === primaryEngine ? "border-primary/50 bg-primary/5" : "border-border bg-muted/20"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+                  <Icon className="h-3.5 w-3.5" /> {ENGINE_LABELS[engine]}
+                </span>
+                {onPrimaryEngineChange && (
+                  <Button
+                    size="sm"
+                    variant={engine === primaryEngine ? 'default' : 'ghost'}
+                    className="h-6 px-2 text-xs"
+                    onClick={() => onPrimaryEngineChange(engine)}
+                    disabled={engine === primaryEngine}
+                  >
+                    {engine === primaryEngine ? 'Primary' : 'Use as primary'}
+                  </Button>
+                )}
+              </div>
+              {output ? (
+                <>
+                  <p className={cn("text-lg font-bold", output.error ? 'text-destructive' : signalTextClass(output.recommendation))}>
+                    {output.error ? 'ERROR' : output.recommendation}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{output.error || output.reason}</p>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">No signal available.</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const titleClass = "text-3xl justify-center text-primary";
 
   return (
-    <DashboardCard title="AI Trading Signal" className="bg-card/80 backdrop-blur-sm" contentClassName="p-0" titleClassName={titleClass}>
+    <DashboardCard
+      title={primaryEngine === 'rules' ? 'Rule-Based Trading Signal' : 'AI Trading Signal'}
+      className="bg-card/80 backdrop-blur-sm"
+      contentClassName="p-0"
+      titleClassName={titleClass}
+    >
       {renderSignal()}
+      {renderEventRisk()}
+      {renderProvisional()}
+      {renderComparison()}
     </DashboardCard>
   );
 }
@@ -0,0 +1,268 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { History, Loader2, RefreshCw, AlertTriangle, PencilLine } from 'lucide-react';
+import { format } from 'date-fns';
+import DashboardCard from './DashboardCard';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type {
+  SignalHistoryFilter,
+  SignalHistoryResult,
+  SignalOutcome,
+  SignalRecommendation,
+  SignalRecord,
+  SignalTradeAction,
+} from '@/app/actions/signal-journal';
+import type { TradeAction } from '@/lib/backtest/types';
+
+type SignalHistoryCardProps = {
+  selectedAssetName: string;
+  timeframes: { id: string; name: string }[];
+  refreshToken?: string | number; // Reloads the history when it changes, e.g. after a new signal was recorded
+  onLoadHistory: (filter: SignalHistoryFilter) => Promise<SignalHistoryResult>;
+  onAnnotate: (signalId: string, action: SignalTradeAction, note?: string) => Promise<{ error?: string }>;
+};
+
+const TRADE_ACTION_LABELS: Record<SignalTradeAction, string> = {
+  followed: 'Followed',
+  faded: 'Traded against',
+  skipped: 'Skipped',
+  other: 'Other',
+};
+
+const ALL = 'all';
+
+const signalClass = (recommendation?: SignalRecommendation) => cn(
+  'font-semibold',
+  recommendation === 'BUY' && 'text-accent',
+  recommendation === 'SELL' && 'text-destructive',
+  (recommendation === 'HOLD' || recommendation === 'UNCLEAR') && 'text-muted-foreground',
+);
+
+const renderOutcome = (outcome?: SignalOutcome) => {
+  if (!outcome) return <span className="text-muted-foreground">&mdash;</span>;
+  if (outcome.status === 'unscorable') return <span className="text-muted-foreground" title={outcome.note}>n/a</span>;
+  return (
+    <span
+      className={outcome.status === 'hit' ? 'text-accent' : 'text-destructive'}
+      title={`MFE ${outcome.mfePct?.toFixed(3)}% / MAE ${outcome.maePct?.toFixed(3)}% over ${outcome.horizonBars} bars`}
+    >
+      {outcome.status === 'hit' ? 'Hit' : 'Miss'} {outcome.returnPct !== undefined && `(${outcome.returnPct >= 0 ? '+' : ''}${outcome.returnPct.toFixed(2)}%)`}
+    </span>
+  );
+};
+
+export default function SignalHistoryCard({ selectedAssetName, timeframes, refreshToken, onLoadHistory, onAnnotate }: SignalHistoryCardProps) {
+  const [assetScope, setAssetScope] = useState<'current' | 'all'>('current');
+  const [timeframe, setTimeframe] = useState<string>(ALL);
+  const [recommendation, setRecommendation] = useState<TradeAction | typeof ALL>(ALL);
+  const [onlyUnannotated, setOnlyUnannotated] = useState(false);
+  const [history, setHistory] = useState<SignalHistoryResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftAction, setDraftAction] = useState<SignalTradeAction>('followed');
+  const [draftNote, setDraftNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setHistory(await onLoadHistory({
+        assetName: assetScope === 'current' ? selectedAssetName : undefined,
+        timeframe: timeframe === ALL ? undefined : timeframe,
+        recommendation: recommendation === ALL ? undefined : recommendation,
+        annotated: onlyUnannotated ? false : undefined,
+      }));
+    } catch (e) {
+      setHistory({ signals: [], enabled: true, error: `Could not load signal history: ${e instanceof Error ? e.message : String(e)}` });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onLoadHistory, assetScope, selectedAssetName, timeframe, recommendation, onlyUnannotated]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, refreshToken]);
+
+  const startEditing = (signal: SignalRecord) => {
+    setEditingId(signal.id);
+    setDraftAction(signal.annotation?.action ?? 'followed');
+    setDraftNote(signal.annotation?.note ?? '');
+    setSaveError(null);
+  };
+
+  const handleSaveAnnotation = async (signalId: string) => {
+    setIsSaving(true);
+    const result = await onAnnotate(signalId, draftAction, draftNote);
+    setIsSaving(false);
+    if (result.error) {
+      setSaveError(result.error);
+      return;
+    }
+    setHistory(prev => prev && {
+      ...prev,
+      signals: prev.signals.map(s => s.id === signalId
+        ? { ...s, annotation: { action: draftAction, note: draftNote.trim() || undefined, updatedAt: Date.now() } }
+        : s),
+    });
+    setEditingId(null);
+  };
+
+  const renderFilters = () => (
+    <div className="flex flex-wrap gap-2 items-center">
+      <Button size="sm" variant={assetScope === 'current' ? 'default' : 'outline'} onClick={() => setAssetScope('current')}>
+        {selectedAssetName}
+      </Button>
+      <Button size="sm" variant={assetScope === 'all' ? 'default' : 'outline'} onClick={() => setAssetScope('all')}>
+        All assets
+      </Button>
+      <Select value={timeframe} onValueChange={setTimeframe}>
+        <SelectTrigger className="w-[130px] h-9"><SelectValue placeholder="Timeframe" /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All timeframes</SelectItem>
+          {timeframes.map(tf => <SelectItem key={tf.id} value={tf.id}>{tf.name}</SelectItem>)}
+        </SelectContent>
+      </Select>
+      <Select value={recommendation} onValueChange={value => setRecommendation(value as TradeAction | typeof ALL)}>
+        <SelectTrigger className="w-[130px] h-9"><SelectValue placeholder="Signal" /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All signals</SelectItem>
+          <SelectItem value="BUY">BUY</SelectItem>
+          <SelectItem value="SELL">SELL</SelectItem>
+          <SelectItem value="HOLD">HOLD</SelectItem>
+        </SelectContent>
+      </Select>
+      <Button size="sm" variant={onlyUnannotated ? 'default' : 'outline'} onClick={() => setOnlyUnannotated(prev => !prev)}>
+        Needs annotation
+      </Button>
+      <Button size="sm" variant="ghost" onClick={loadHistory} disabled={isLoading} className="ml-auto">
+        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+
+  const renderEditor = (signal: SignalRecord) => (
+    <div className="space-y-2 p-2 bg-muted/30 rounded-md">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(TRADE_ACTION_LABELS) as SignalTradeAction[]).map(action => (
+          <Button key={action} size="sm" variant={draftAction === action ? 'default' : 'outline'} onClick={() => setDraftAction(action)}>
+            {TRADE_ACTION_LABELS[action]}
+          </Button>
+        ))}
+      </div>
+      <Textarea
+        value={draftNote}
+        onChange={e => setDraftNote(e.target.value)}
+        placeholder="Entry, exit, size, why you deviated..."
+        rows={2}
+        maxLength={1000}
+      />
+      {saveError && <p className="text-xs text-destructive">{saveError}</p>}
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => handleSaveAnnotation(signal.id)} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} disabled={isSaving}>Cancel</Button>
+      </div>
+    </div>
+  );
+
+  const renderTable = () => {
+    if (!history) return null;
+    if (history.signals.length === 0) {
+      return <p className="text-xs text-muted-foreground">No signals recorded for these filters yet. Each dashboard refresh adds one.</p>;
+    }
+    return (
+      <ScrollArea className="h-[320px]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              {assetScope === 'all' && <TableHead>Asset</TableHead>}
+              <TableHead>TF</TableHead>
+              <TableHead>AI</TableHead>
+              <TableHead>Rules</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">RSI</TableHead>
+              <TableHead>Outcome</TableHead>
+              <TableHead>What we did</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {history.signals.map(signal => (
+              <Fragment key={signal.id}>
+                <TableRow>
+                  <TableCell className="text-xs whitespace-nowrap">{format(new Date(signal.createdAt), 'MMM dd, HH:mm')}</TableCell>
+                  {assetScope === 'all' && <TableCell className="text-xs">{signal.assetName}</TableCell>}
+                  <TableCell className="text-xs">{signal.timeframe}</TableCell>
+                  <TableCell className="text-xs" title={signal.output.reason}>
+                    <span className={signalClass(signal.output.recommendation)}>{signal.output.recommendation}</span>
+                    {signal.source === 'chart-analysis' && <span className="text-muted-foreground"> (chart)</span>}
+                    {signal.output.confidence && <span className="block text-muted-foreground">{signal.output.confidence}</span>}
+                  </TableCell>
+                  <TableCell className="text-xs" title={signal.ruleOutput?.reason}>
+                    <span className={signalClass(signal.ruleOutput?.recommendation)}>{signal.ruleOutput?.recommendation ?? 'N/A'}</span>
+                  </TableCell>
+                  <TableCell className="text-xs text-right">{signal.input.price ?? 'N/A'}</TableCell>
+                  <TableCell className="text-xs text-right">{signal.input.rsi?.toFixed(1) ?? 'N/A'}</TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">{renderOutcome(signal.outcome)}</TableCell>
+                  <TableCell className="text-xs">
+                    <div className="flex items-center gap-2">
+                      {signal.annotation ? (
+                        <Badge variant="secondary" title={signal.annotation.note}>{TRADE_ACTION_LABELS[signal.annotation.action]}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">&mdash;</span>
+                      )}
+                      <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => startEditing(signal)} aria-label="Annotate signal">
+                        <PencilLine size={14} />
+                      </Button>
+                    </div>
+                    {signal.annotation?.note && editingId !== signal.id && (
+                      <p className="text-muted-foreground mt-1 max-w-[220px] truncate" title={signal.annotation.note}>{signal.annotation.note}</p>
+                    )}
+                  </TableCell>
+                </TableRow>
+                {editingId === signal.id && (
+                  <TableRow>
+                    <TableCell colSpan={assetScope === 'all' ? 9 : 8}>{renderEditor(signal)}</TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    );
+  };
+
+  return (
+    <DashboardCard title="Signal History" icon={History}>
+      <div className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Every AI trade signal and chart analysis is saved with the inputs sent to the model (and the rule engine&apos;s verdict for trade signals).
+          Annotate signals with what you actually did to build a trading journal.
+        </p>
+        {history && !history.enabled ? (
+          <div className="text-xs text-muted-foreground p-2 bg-muted/30 rounded-md">
+            <AlertTriangle size={14} className="inline mr-1 text-destructive" />
+            {history.error}
+          </div>
+        ) : (
+          <>
+            {renderFilters()}
+            {history?.error && <p className="text-xs text-destructive">{history.error}</p>}
+            {renderTable()}
+          </>
+        )}
+      </div>
+    </DashboardCard>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Target, Loader2, RefreshCw, AlertTriangle } from 'lucide-react';
+import DashboardCard from './DashboardCard';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import type {
+  OutcomeScoringResult,
+  ScorecardRow,
+  SignalHistoryFilter,
+  SignalScorecard,
+  SignalScorecardResult,
+} from '@/app/actions/signal-journal';
+import type { MarketAsset } from '@/lib/market-data/types';
+
+type SignalScorecardCardProps = {
+  assets: MarketAsset[];
+  refreshToken?: string | number; // Re-runs scoring when it changes, e.g. after a dashboard refresh
+  onScoreOutcomes: (assets: MarketAsset[]) => Promise<OutcomeScoringResult>;
+  onLoadScorecard: (filter: SignalHistoryFilter) => Promise<SignalScorecardResult>;
+};
+
+type Breakdown = keyof Pick<SignalScorecard, 'byAsset' | 'byTimeframe' | 'byConfidence' | 'byProvider' | 'bySource'>;
+
+const BREAKDOWNS: { id: Breakdown; label: string }[] = [
+  { id: 'byAsset', label: 'Asset' },
+  { id: 'byTimeframe', label: 'Timeframe' },
+  { id: 'byConfidence', label: 'Confidence' },
+  { id: 'byProvider', label: 'Data Provider' },
+  { id: 'bySource', label: 'Signal Source' },
+];
+
+const formatPct = (value: number | undefined, digits = 2, signed = false) =>
+  value === undefined || isNaN(value) ? 'N/A' : `${signed && value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+
+export default function SignalScorecardCard({ assets, refreshToken, onScoreOutcomes, onLoadScorecard }: SignalScorecardCardProps) {
+  const [breakdown, setBreakdown] = useState<Breakdown>('byAsset');
+  const [result, setResult] = useState<SignalScorecardResult | null>(null);
+  const [scoringError, setScoringError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const scoreAndLoad = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const scoring = await onScoreOutcomes(assets);
+      setScoringError(scoring.error ?? null);
+      setResult(await onLoadScorecard({}));
+    } catch (e) {
+      setResult({ enabled: true, error: `Could not load scorecard: ${e instanceof Error ? e.message : String(e)}` });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [assets, onScoreOutcomes, onLoadScorecard]);
+
+  useEffect(() => {
+    scoreAndLoad();
+  }, [scoreAndLoad, refreshToken]);
+
+  const scorecard = result?.scorecard;
+
+  const renderSummary = (card: SignalScorecard) => {
+    const { overall } = card;
+    const stats: { label: string; value: string; tone?: 'good' | 'bad' }[] = [
+      { label: 'Hit Rate', value: formatPct(overall.hitRatePct, 1), tone: overall.hitRatePct === undefined ? undefined : overall.hitRatePct >= 50 ? 'good' : 'bad' },
+      { label: 'Scored', value: `${overall.hits}/${overall.signals}` },
+      { label: 'Avg Return', value: formatPct(overall.avgReturnPct, 3, true), tone: (overall.avgReturnPct ?? 0) >= 0 ? 'good' : 'bad' },
+      { label: 'Avg MFE / MAE', value: `${formatPct(overall.avgMfePct, 3)} / ${formatPct(overall.avgMaePct, 3)}` },
+      { label: 'Pending', value: String(card.pending) },
+      { label: 'Unscorable', value: String(card.unscorable) },
+    ];
+    return (
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-2 rounded-md bg-muted/30">
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className={cn(
+              'text-lg font-semibold',
+              stat.tone === 'good' && 'text-accent',
+              stat.tone === 'bad' && 'text-destructive',
+            )}>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderBreakdown = (rows: ScorecardRow[]) => {
+    if (rows.length === 0) {
+      return <p className="text-xs text-muted-foreground">No BUY/SELL signal has completed its horizon yet.</p>;
+    }
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{BREAKDOWNS.find(b => b.id === breakdown)?.label}</TableHead>
+            <TableHead className="text-right">Signals</TableHead>
+            <TableHead className="text-right">Hit Rate</TableHead>
+            <TableHead className="text-right">Avg Return</TableHead>
+            <TableHead className="text-right">Avg MFE</TableHead>
+            <TableHead className="text-right">Avg MAE</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.key}>
+              <TableCell className="text-xs font-medium">{row.key}</TableCell>
+              <TableCell className="text-xs text-right">{row.signals}</TableCell>
+              <TableCell className="text-xs text-right">{formatPct(row.hitRatePct, 1)}</TableCell>
+              <TableCell className={cn('text-xs text-right', (row.avgReturnPct ?? 0) >= 0 ? 'text-accent' : 'text-destructive')}>
+                {formatPct(row.avgReturnPct, 3, true)}
+              </TableCell>
+              <TableCell className="text-xs text-right">{formatPct(row.avgMfePct, 3)}</TableCell>
+              <TableCell className="text-xs text-right">{formatPct(row.avgMaePct, 3)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <DashboardCard title="Signal Scorecard" icon={Target}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <p className="text-xs text-muted-foreground max-w-3xl">
+            Each recorded BUY/SELL signal is scored once its horizon of bars has closed: a hit if price finished the
+            horizon in the signal&apos;s direction, with the largest favorable (MFE) and adverse (MAE) moves along the way.
+            HOLD and UNCLEAR signals are not scored.
+          </p>
+          <Button size="sm" variant="outline" onClick={scoreAndLoad} disabled={isLoading}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Score Now
+          </Button>
+        </div>
+
+        {result && !result.enabled ? (
+          <div className="text-xs text-muted-foreground p-2 bg-muted/30 rounded-md">
+            <AlertTriangle size={14} className="inline mr-1 text-destructive" />
+            {result.error}
+          </div>
+        ) : (
+          <>
+            {result?.error && <p className="text-xs text-destructive">{result.error}</p>}
+            {scoringError && <p className="text-xs text-destructive">{scoringError}</p>}
+            {scorecard && (
+              <>
+                {renderSummary(scorecard)}
+                <div className="flex flex-wrap gap-2">
+                  {BREAKDOWNS.map(b => (
+                    <Button key={b.id} size="sm" variant={breakdown === b.id ? 'default' : 'outline'} onClick={() => setBreakdown(b.id)}>
+                      {b.label}
+                    </Button>
+                  ))}
+                </div>
+                {renderBreakdown(scorecard[breakdown])}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </DashboardCard>
+  );
+}
@@ -1,11 +1,13 @@
 
 'use client';
 
-import { Gauge, BarChartHorizontalBig, Activity, AlertTriangle } from 'lucide-react';
+import { Gauge, BarChartHorizontalBig, Activity, AlertTriangle, Hourglass } from 'lucide-react';
+import { format } from 'date-fns';
 import DashboardCard from './DashboardCard';
 import { Progress } from "@/components/ui/progress";
 import { Badge } from '@/components/ui/badge';
 import { useEffect, useState } from 'react';
+import type { MarketData } from '@/app/actions/fetch-market-data';
 
 // Export types for use in page.tsx
 export type RsiData = { value?: number; status: string };
@@ -14,7 +16,8 @@ export type TechnicalIndicatorsData = {
   rsi: RsiData;
   macd: MacdData;
   error?: string; // To display API errors for the entire technical indicators block
-  sourceProvider?: 'Polygon.io' | 'Finnhub.io' | 'TwelveData' | 'Unknown'; // Added sourceProvider
+  sourceProvider?: MarketData['sourceProvider'];
+  barClosesAt?: number; // Unix ms; set when the values include a bar that is still forming
 };
 
 const defaultData: TechnicalIndicatorsData = {
@@ -72,6 +75,11 @@ export default function TechnicalIndicatorsCard({ initialData }: TechnicalIndica
   return (
     <DashboardCard title="Technical Indicators" icon={Activity}>
       <div className="space-y-6">
+        {indicators.barClosesAt !== undefined && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+            <Hourglass className="h-3 w-3" /> Provisional: includes the bar closing at {format(indicators.barClosesAt, 'HH:mm')}
+          </p>
+        )}
         <div>
           <div className="flex justify-between items-center mb-1">
             <h4 className="text-md font-medium text-foreground flex items-center gap-2">
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Crosshair, MinusCircle, AlertTriangle } from 'lucide-react';
+import DashboardCard from './DashboardCard';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { GenerateTradeRecommendationOutput } from '@/ai/flows/generate-trade-recommendation';
+import type { Asset } from '@/lib/assets/types';
+import { calculatePositionSize } from '@/lib/signals/position-size';
+import { priceDecimalsFor } from '@/lib/signals/trade-input';
+
+const SIZING_STORAGE_KEY = 'positionSizing';
+const DEFAULT_SIZING = { equity: '10000', riskPercent: '1' };
+
+type TradePlanCardProps = {
+  signal?: GenerateTradeRecommendationOutput | null; // Signal of the primary engine
+  asset: Pick<Asset, 'name' | 'type'>;
+  isLoading: boolean;
+};
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export default function TradePlanCard({ signal, asset, isLoading }: TradePlanCardProps) {
+  const [equity, setEquity] = useState(DEFAULT_SIZING.equity);
+  const [riskPercent, setRiskPercent] = useState(DEFAULT_SIZING.riskPercent);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(SIZING_STORAGE_KEY);
+    if (!stored) return;
+    try {
+      const parsed = JSON.parse(stored) as Partial<typeof DEFAULT_SIZING>;
+      if (parsed.equity) setEquity(parsed.equity);
+      if (parsed.riskPercent) setRiskPercent(parsed.riskPercent);
+    } catch {
+      localStorage.removeItem(SIZING_STORAGE_KEY);
+    }
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(SIZING_STORAGE_KEY, JSON.stringify({ equity, riskPercent }));
+  }, [equity, riskPercent]);
+
+  const plan = signal?.tradePlan;
+  const digits = priceDecimalsFor(asset);
+  const formatPrice = (value: number) => value.toFixed(digits);
+
+  const renderPlan = () => {
+    if (!plan || !signal) return null;
+    const entry = (plan.entryZone.low + plan.entryZone.high) / 2;
+    const size = calculatePositionSize({
+      equity: Number(equity),
+      riskPercent: Number(riskPercent),
+      entry,
+      stopLoss: plan.stopLoss,
+      assetName: asset.name,
+      assetType: asset.type,
+    });
+    const rows: { label: string; value: string; tone?: 'good' | 'bad' }[] = [
+      { label: 'Entry Zone', value: `${formatPrice(plan.entryZone.low)} – ${formatPrice(plan.entryZone.high)}` },
+      { label: 'Stop-Loss', value: formatPrice(plan.stopLoss), tone: 'bad' },
+      ...plan.takeProfits.map((tp, i) => ({ label: `Take-Profit ${i + 1}`, value: formatPrice(tp), tone: 'good' as const })),
+      { label: 'Risk / Reward', value: `1 : ${plan.riskReward.toFixed(2)}` },
+    ];
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Badge variant={signal.recommendation === 'BUY' ? 'default' : 'destructive'} className="text-xs">{signal.recommendation}</Badge>
+          <span className="text-xs text-muted-foreground">{asset.name}</span>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {rows.map(row => (
+            <div key={row.label} className="p-2 rounded-md bg-muted/30">
+              <p className="text-xs text-muted-foreground">{row.label}</p>
+              <p className={cn('text-sm font-semibold tabular-nums', row.tone === 'good' && 'text-accent', row.tone === 'bad' && 'text-destructive')}>{row.value}</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground"><span className="font-medium text-foreground">Invalidation:</span> {plan.invalidation}</p>
+
+        <div className="border-t border-border pt-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="sizing-equity" className="text-xs">Equity</Label>
+              <Input id="sizing-equity" type="number" min="0" step="any" value={equity} onChange={e => setEquity(e.target.value)} className="w-[110px] h-8" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="sizing-risk" className="text-xs">Risk %</Label>
+              <Input id="sizing-risk" type="number" min="0" max="100" step="0.1" value={riskPercent} onChange={e => setRiskPercent(e.target.value)} className="w-[80px] h-8" />
+            </div>
+          </div>
+          {size.error ? (
+            <p className="text-xs text-destructive flex items-center gap-1"><AlertTriangle className="h-3 w-3" />{size.error}</p>
+          ) : (
+            <div className="text-sm space-y-1">
+              <p>
+                <span className="text-muted-foreground">Position size: </span>
+                <span className="font-semibold">
+                  {size.lots !== undefined ? `${size.lots.toFixed(2)} lots (${formatAmount(size.units)} units)` : `${formatAmount(size.units)} units`}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Risking {formatAmount(size.riskAmount)} over a {size.stopPips !== undefined ? `${size.stopPips.toFixed(1)} pip` : formatPrice(size.stopDistance)} stop
+                &middot; notional {formatAmount(size.notional)} ({size.leverage.toFixed(1)}x)
+              </p>
+            </div>
+          )}
+          <p className="text-xxs text-muted-foreground">Amounts are in the quote currency. Sized from the middle of the entry zone.</p>
+        </div>
+      </div>
+    );
+  };
+
+  const renderEmpty = () => (
+    <div className="flex flex-col items-center justify-center text-center p-6 text-muted-foreground">
+      <MinusCircle className="h-8 w-8 mb-2 opacity-50" />
+      <p className="text-sm">
+        {signal?.recommendation === 'HOLD'
+          ? 'No trade plan while the signal is HOLD.'
+          : 'A trade plan needs enough candles to measure ATR.'}
+      </p>
+    </div>
+  );
+
+  return (
+    <DashboardCard title="Trade Plan & Position Size" icon={Crosshair}>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground p-6 text-center">Waiting for the latest signal...</p>
+      ) : plan ? renderPlan() : renderEmpty()}
+    </DashboardCard>
+  );
+}
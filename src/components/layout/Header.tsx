@@ -1,13 +1,24 @@
-import { BrainCircuit } from 'lucide-react';
+import Link from 'next/link';
+import { BrainCircuit, Layers, Settings } from 'lucide-react';
 
 export default function Header() {
   return (
     <header className="py-6 px-4 md:px-8 border-b border-border/50">
       <div className="container mx-auto flex items-center gap-3">
-        <BrainCircuit className="h-8 w-8 text-primary" />
-        <h1 className="text-3xl font-headline font-bold text-foreground">
-          ForeSight AI
-        </h1>
+        <Link href="/" className="flex items-center gap-3">
+          <BrainCircuit className="h-8 w-8 text-primary" />
+          <h1 className="text-3xl font-headline font-bold text-foreground">
+            ForeSight AI
+          </h1>
+        </Link>
+        <nav className="ml-auto flex items-center gap-4">
+          <Link href="/assets" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <Layers size={16} /> Assets
+          </Link>
+          <Link href="/settings" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <Settings size={16} /> Settings
+          </Link>
+        </nav>
       </div>
     </header>
   );
@@ -0,0 +1,52 @@
+"use client"
+
+import * as React from "react"
+import { listAlertEvents, type AlertEvent } from "@/app/actions/manage-alerts"
+import { toast } from "@/hooks/use-toast"
+
+const POLL_INTERVAL_MS = 30_000
+const LAST_SEEN_STORAGE_KEY = "alertsLastSeenAt"
+
+function deliver(event: AlertEvent) {
+  const title = `Alert: ${event.ruleName}`
+  const body = `${event.assetName} (${event.timeframe}): ${event.message}`
+  if (event.channels.includes("toast")) {
+    toast({ title, description: body })
+  }
+  if (event.channels.includes("browser") && typeof Notification !== "undefined" && Notification.permission === "granted") {
+    new Notification(title, { body, tag: event.id })
+  }
+}
+
+/**
+ * Polls for alert events fired by the server-side evaluation and raises them as toasts and/or browser
+ * notifications, per each rule's channels. Events from before the first visit are not replayed.
+ * Returns the time of the newest event seen, so alert views can refresh when it changes.
+ */
+export function useAlertNotifications(enabled: boolean): number | undefined {
+  const [lastEventAt, setLastEventAt] = React.useState<number | undefined>(undefined)
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let lastSeen = Number(localStorage.getItem(LAST_SEEN_STORAGE_KEY)) || Date.now()
+    localStorage.setItem(LAST_SEEN_STORAGE_KEY, String(lastSeen))
+
+    const poll = async () => {
+      if (document.hidden) return
+      const { events } = await listAlertEvents(lastSeen).catch(() => ({ events: [] as AlertEvent[] }))
+      if (events.length === 0) return
+      // Oldest first, so stacked toasts read in firing order
+      for (const event of [...events].reverse()) deliver(event)
+      lastSeen = Math.max(...events.map(e => e.triggeredAt))
+      localStorage.setItem(LAST_SEEN_STORAGE_KEY, String(lastSeen))
+      setLastEventAt(lastSeen)
+    }
+
+    poll()
+    const intervalId = setInterval(poll, POLL_INTERVAL_MS)
+    return () => clearInterval(intervalId)
+  }, [enabled])
+
+  return lastEventAt
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import * as React from "react"
+import type { PriceStreamStatusEvent, PriceStreamTickEvent, StreamStatus } from "@/lib/streaming/types"
+
+export interface PriceStreamState {
+  status: StreamStatus | "off"
+  feed?: string
+  message?: string
+  lastTick?: PriceStreamTickEvent
+}
+
+const OFF: PriceStreamState = { status: "off" }
+
+/**
+ * Live prices for one catalog asset from /api/stream/prices. `seedPrice` (the last polled price) starts the
+ * mock feed near reality and is read only when connecting. Once the server reports the stream unavailable the
+ * connection is closed for good, and callers keep polling while `status` is anything but "live".
+ */
+export function usePriceStream(assetName: string | undefined, enabled: boolean, seedPrice?: number): PriceStreamState {
+  const [state, setState] = React.useState<PriceStreamState>(OFF)
+  const seedRef = React.useRef(seedPrice)
+  seedRef.current = seedPrice
+
+  React.useEffect(() => {
+    if (!enabled || !assetName || typeof EventSource === "undefined") {
+      setState(OFF)
+      return
+    }
+
+    const params = new URLSearchParams({ asset: assetName })
+    if (seedRef.current !== undefined) params.set("seed", String(seedRef.current))
+    const source = new EventSource(`/api/stream/prices?${params}`)
+    setState({ status: "connecting" })
+
+    source.addEventListener("status", (event) => {
+      const { status, feed, message }: PriceStreamStatusEvent = JSON.parse((event as MessageEvent).data)
+      setState(prev => ({ ...prev, status, feed: feed ?? prev.feed, message }))
+      if (status === "unavailable") source.close()
+    })
+    source.addEventListener("tick", (event) => {
+      const tick: PriceStreamTickEvent = JSON.parse((event as MessageEvent).data)
+      setState(prev => ({ ...prev, status: "live", lastTick: tick }))
+    })
+    // EventSource retries on its own; a 404 or a closed stream leaves it CLOSED
+    source.onerror = () => {
+      setState(prev => prev.status === "unavailable"
+        ? prev
+        : { ...prev, status: source.readyState === EventSource.CLOSED ? "unavailable" : "reconnecting" })
+    }
+
+    return () => source.close()
+  }, [assetName, enabled])
+
+  return state
+}
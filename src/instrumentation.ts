@@ -0,0 +1,7 @@
+export async function register() {
+  // Server-side schedules only run in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startAlertScheduler } = await import('@/lib/alerts/scheduler');
+    startAlertScheduler();
+  }
+}
@@ -0,0 +1,100 @@
+// Pure condition checks. Every condition is an edge trigger: it compares the value seen at the previous
+// evaluation with the current one, so the first evaluation of a rule only records a baseline.
+
+import type { AlertCondition, AlertSnapshot, CrossDirection, ObservedValue } from './types';
+
+export interface ConditionResult {
+  observed?: ObservedValue; // Undefined when the snapshot lacks the watched value; the previous value is kept
+  triggered?: { message: string; value: ObservedValue; previousValue: ObservedValue };
+}
+
+export const CONDITION_LABELS: Record<AlertCondition['kind'], string> = {
+  'price-cross': 'Price crosses level',
+  'rsi-zone': 'RSI crosses 30/70',
+  'macd-flip': 'MACD histogram flips sign',
+  'signal-change': 'AI signal leaves HOLD',
+  'sentiment-cross': 'Sentiment crosses threshold',
+};
+
+/** Conditions that need the news sentiment flow, and those that also need the trade recommendation flow. */
+export const needsSentiment = (condition: AlertCondition) => condition.kind === 'sentiment-cross' || condition.kind === 'signal-change';
+export const needsTradeSignal = (condition: AlertCondition) => condition.kind === 'signal-change';
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.kind) {
+    case 'price-cross':
+      return `Price crosses ${condition.direction === 'either' ? '' : `${condition.direction} `}${condition.level}`;
+    case 'rsi-zone':
+      return `RSI crosses ${condition.lower} or ${condition.upper}`;
+    case 'macd-flip':
+      return 'MACD histogram flips sign';
+    case 'signal-change':
+      return 'AI signal changes from HOLD to BUY/SELL';
+    case 'sentiment-cross':
+      return `Sentiment crosses ${condition.direction === 'either' ? '' : `${condition.direction} `}${condition.threshold}`;
+  }
+}
+
+function crossed(previous: number, current: number, level: number, direction: CrossDirection): 'above' | 'below' | undefined {
+  if (previous < level && current >= level && direction !== 'below') return 'above';
+  if (previous > level && current <= level && direction !== 'above') return 'below';
+  return undefined;
+}
+
+const rsiZone = (value: number, lower: number, upper: number) => (value < lower ? -1 : value > upper ? 1 : 0);
+
+export function evaluateCondition(
+  condition: AlertCondition,
+  snapshot: AlertSnapshot,
+  previous: ObservedValue | undefined
+): ConditionResult {
+  switch (condition.kind) {
+    case 'price-cross': {
+      const current = snapshot.price;
+      if (current === undefined) return {};
+      const side = typeof previous === 'number' ? crossed(previous, current, condition.level, condition.direction) : undefined;
+      return {
+        observed: current,
+        ...(side && { triggered: { message: `Price crossed ${side} ${condition.level} (now ${current})`, value: current, previousValue: previous! } }),
+      };
+    }
+    case 'rsi-zone': {
+      const current = snapshot.rsi;
+      if (current === undefined) return {};
+      if (typeof previous !== 'number') return { observed: current };
+      const from = rsiZone(previous, condition.lower, condition.upper);
+      const to = rsiZone(current, condition.lower, condition.upper);
+      if (from === to) return { observed: current };
+      const message = to === 1 ? `RSI rose above ${condition.upper} (${current.toFixed(1)}): overbought`
+        : to === -1 ? `RSI fell below ${condition.lower} (${current.toFixed(1)}): oversold`
+        : `RSI left the ${from === 1 ? 'overbought' : 'oversold'} zone (${current.toFixed(1)})`;
+      return { observed: current, triggered: { message, value: current, previousValue: previous } };
+    }
+    case 'macd-flip': {
+      const current = snapshot.macdHistogram;
+      if (current === undefined) return {};
+      if (typeof previous !== 'number' || previous === 0 || current === 0 || Math.sign(previous) === Math.sign(current)) {
+        return { observed: current === 0 && typeof previous === 'number' ? previous : current }; // A zero reading keeps the last sign
+      }
+      const message = `MACD histogram turned ${current > 0 ? 'positive' : 'negative'} (${current.toFixed(5)})`;
+      return { observed: current, triggered: { message, value: current, previousValue: previous } };
+    }
+    case 'signal-change': {
+      const current = snapshot.recommendation;
+      if (current === undefined) return {};
+      if (previous === 'HOLD' && (current === 'BUY' || current === 'SELL')) {
+        return { observed: current, triggered: { message: `AI signal changed from HOLD to ${current}`, value: current, previousValue: previous } };
+      }
+      return { observed: current };
+    }
+    case 'sentiment-cross': {
+      const current = snapshot.sentimentScore;
+      if (current === undefined) return {};
+      const side = typeof previous === 'number' ? crossed(previous, current, condition.threshold, condition.direction) : undefined;
+      return {
+        observed: current,
+        ...(side && { triggered: { message: `News sentiment crossed ${side} ${condition.threshold} (now ${current.toFixed(2)})`, value: current, previousValue: previous! } }),
+      };
+    }
+  }
+}
@@ -0,0 +1,152 @@
+// Server-side alert evaluation. Runs from the scheduled route / in-process scheduler for every user, or from a
+// server action for the current user. Data comes from the same actions and flows the dashboard uses, executed
+// as the rule's owner so their stored API keys apply.
+
+import { randomUUID } from 'crypto';
+import { generateTradeRecommendation } from '@/ai/flows/generate-trade-recommendation';
+import { summarizeNewsSentiment } from '@/ai/flows/summarize-news-sentiment';
+import { getEventRisk } from '@/app/actions/fetch-economic-events';
+import { fetchInterestRate, fetchRateDifferential } from '@/app/actions/fetch-interest-rate';
+import { fetchMarketData } from '@/app/actions/fetch-market-data';
+import { fetchNewsHeadlines } from '@/app/actions/fetch-news-headlines';
+import type { Asset } from '@/lib/assets/types';
+import { runAsSettingsUser } from '@/lib/settings/server-keys';
+import { applyEventBlackout } from '@/lib/signals/event-risk';
+import { buildTradeRecommendationInput } from '@/lib/signals/trade-input';
+import { evaluateCondition, needsSentiment, needsTradeSignal } from './conditions';
+import type { AlertStore } from './store';
+import type { AlertEvent, AlertRule, AlertSnapshot } from './types';
+import { buildWebhookPayload, deliverWebhook } from './webhook';
+
+export interface AlertRunSummary {
+  rulesEvaluated: number;
+  triggered: number;
+  errors: string[];
+}
+
+/** Latest values for one asset and timeframe. The AI flows only run when a rule needs them. */
+export async function collectAlertSnapshot(
+  asset: Asset,
+  timeframeId: string,
+  needs: { sentiment: boolean; tradeSignal: boolean }
+): Promise<AlertSnapshot> {
+  const errors: string[] = [];
+  const marketData = await fetchMarketData(asset, timeframeId);
+  if (marketData.error) errors.push(`Market Data (${marketData.sourceProvider || 'Unknown'}): ${marketData.error}`);
+  const snapshot: AlertSnapshot = {
+    price: marketData.price,
+    rsi: marketData.rsi,
+    macdHistogram: marketData.macd?.histogram,
+    errors,
+  };
+  if (!needs.sentiment && !needs.tradeSignal) return snapshot;
+
+  const news = await fetchNewsHeadlines(asset);
+  const headlines = news.headlines && news.headlines.length > 0
+    ? news.headlines
+    : [`No specific news headlines found for ${asset.name}. General market conditions apply.`];
+  const sentiment = await summarizeNewsSentiment({ currencyPair: asset.name, newsHeadlines: headlines });
+  if (sentiment.error) errors.push(`Sentiment AI: ${sentiment.error}`);
+  else snapshot.sentimentScore = sentiment.sentimentScore;
+
+  // No signal while the market is closed or price data is missing, matching the dashboard
+  if (needs.tradeSignal && marketData.marketStatus !== 'closed' && marketData.price !== undefined) {
+    const currency = asset.economicIds.primaryCurrencyForInterestRate;
+    const rate = currency ? await fetchInterestRate(currency) : undefined;
+    const rateDifferential = asset.type === 'currency' ? (await fetchRateDifferential(asset)).differential : undefined;
+    const eventRisk = await getEventRisk(asset);
+    const input = buildTradeRecommendationInput(asset, marketData, snapshot.sentimentScore, rate, { eventRisk, rateDifferential });
+    const recommendation = applyEventBlackout(await generateTradeRecommendation(input), eventRisk);
+    if (recommendation.error) errors.push(`Trade AI: ${recommendation.error}`);
+    else snapshot.recommendation = recommendation.recommendation;
+  }
+  return snapshot;
+}
+
+async function evaluateUserRules(store: AlertStore, userId: string, rules: AlertRule[], now: number): Promise<AlertRunSummary> {
+  const summary: AlertRunSummary = { rulesEvaluated: 0, triggered: 0, errors: [] };
+  const groups = new Map<string, AlertRule[]>();
+  for (const rule of rules) {
+    const key = `${rule.asset.name}|${rule.timeframe}`;
+    groups.set(key, [...(groups.get(key) ?? []), rule]);
+  }
+
+  for (const group of groups.values()) {
+    const { asset, timeframe } = group[0];
+    const snapshot = await runAsSettingsUser(userId, () => collectAlertSnapshot(asset, timeframe, {
+      sentiment: group.some(r => needsSentiment(r.condition)),
+      tradeSignal: group.some(r => needsTradeSignal(r.condition)),
+    }));
+
+    for (const rule of group) {
+      summary.rulesEvaluated++;
+      const result = evaluateCondition(rule.condition, snapshot, rule.lastObserved);
+      const coolingDown = rule.lastTriggeredAt !== undefined && now - rule.lastTriggeredAt < rule.cooldownMinutes * 60_000;
+      let lastTriggeredAt = rule.lastTriggeredAt;
+
+      try {
+        if (result.triggered && !coolingDown) {
+          const event: AlertEvent = {
+            id: randomUUID(),
+            ruleId: rule.id,
+            ruleName: rule.name,
+            assetName: asset.name,
+            timeframe,
+            condition: rule.condition,
+            ...result.triggered,
+            channels: rule.channels,
+            triggeredAt: now,
+          };
+          if (rule.channels.includes('webhook') && rule.webhookUrl) {
+            event.webhook = await deliverWebhook(rule.webhookUrl, buildWebhookPayload(event));
+            if (!event.webhook.ok) summary.errors.push(`${rule.name}: ${event.webhook.error}`);
+          }
+          await store.saveEvent(userId, event);
+          lastTriggeredAt = now;
+          summary.triggered++;
+        }
+        await store.updateRuleState(userId, rule.id, {
+          lastObserved: result.observed ?? rule.lastObserved,
+          lastEvaluatedAt: now,
+          lastTriggeredAt,
+          lastError: snapshot.errors.length > 0 ? snapshot.errors.join('; ').substring(0, 300) : undefined,
+        });
+      } catch (err) {
+        summary.errors.push(`${rule.name}: ${(err instanceof Error ? err.message : String(err)).substring(0, 150)}`);
+      }
+    }
+  }
+  return summary;
+}
+
+/**
+ * Evaluates every enabled rule, or only `userId`'s rules when given. Rules sharing an asset and timeframe share one
+ * data fetch. Never throws; per-rule failures are collected in the summary.
+ */
+export async function runAlertEvaluation(store: AlertStore, options: { userId?: string } = {}): Promise<AlertRunSummary> {
+  const now = Date.now();
+  const total: AlertRunSummary = { rulesEvaluated: 0, triggered: 0, errors: [] };
+
+  let byUser: Map<string, AlertRule[]>;
+  try {
+    byUser = new Map();
+    if (options.userId) {
+      byUser.set(options.userId, (await store.listRules(options.userId)).filter(r => r.enabled));
+    } else {
+      for (const { userId, rule } of await store.listEnabledRules()) {
+        byUser.set(userId, [...(byUser.get(userId) ?? []), rule]);
+      }
+    }
+  } catch (err) {
+    total.errors.push(`Could not load alert rules: ${(err instanceof Error ? err.message : String(err)).substring(0, 150)}`);
+    return total;
+  }
+
+  for (const [userId, rules] of byUser) {
+    const summary = await evaluateUserRules(store, userId, rules, now);
+    total.rulesEvaluated += summary.rulesEvaluated;
+    total.triggered += summary.triggered;
+    total.errors.push(...summary.errors);
+  }
+  return total;
+}
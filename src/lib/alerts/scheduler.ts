@@ -0,0 +1,34 @@
+import { getAlertStore } from './store';
+import { runAlertEvaluation, type AlertRunSummary } from './runner';
+
+const MIN_INTERVAL_SECONDS = 30;
+
+let running: Promise<AlertRunSummary> | undefined;
+
+/** Evaluates all users' rules. Overlapping calls (cron + interval, or a slow run) share the run in progress. */
+export function runScheduledAlertEvaluation(): Promise<AlertRunSummary> {
+  const store = getAlertStore();
+  if (!store) return Promise.resolve({ rulesEvaluated: 0, triggered: 0, errors: ['Alerts are disabled: Firebase is not configured.'] });
+  if (!running) {
+    running = runAlertEvaluation(store).finally(() => {
+      running = undefined;
+    });
+  }
+  return running;
+}
+
+let timer: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Starts the in-process schedule when ALERTS_EVALUATION_INTERVAL_SECONDS is set. Suited to single-instance
+ * deployments; otherwise leave it unset and call /api/alerts/evaluate from an external scheduler.
+ */
+export function startAlertScheduler(): void {
+  const seconds = Number(process.env.ALERTS_EVALUATION_INTERVAL_SECONDS);
+  if (timer || !Number.isFinite(seconds) || seconds <= 0) return;
+  const intervalMs = Math.max(seconds, MIN_INTERVAL_SECONDS) * 1000;
+  timer = setInterval(async () => {
+    const summary = await runScheduledAlertEvaluation();
+    if (summary.errors.length > 0) console.error(`Alert evaluation: ${summary.errors.join('; ')}`);
+  }, intervalMs);
+}
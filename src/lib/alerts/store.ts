@@ -0,0 +1,79 @@
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { getFirestoreDb } from '@/lib/firebase';
+import type { AlertEvent, AlertRule, AlertRuleState } from './types';
+
+/** Alert rules and fired events per user. Swap the implementation via setAlertStore. */
+export interface AlertStore {
+  listRules(userId: string): Promise<AlertRule[]>;
+  getRule(userId: string, ruleId: string): Promise<AlertRule | undefined>;
+  saveRule(userId: string, rule: AlertRule): Promise<void>;
+  deleteRule(userId: string, ruleId: string): Promise<void>;
+  updateRuleState(userId: string, ruleId: string, state: AlertRuleState): Promise<void>;
+  /** Enabled rules of every user, for the scheduled evaluation. */
+  listEnabledRules(): Promise<{ userId: string; rule: AlertRule }[]>;
+  saveEvent(userId: string, event: AlertEvent): Promise<void>;
+  listEvents(userId: string, since?: number, max?: number): Promise<AlertEvent[]>;
+}
+
+const DEFAULT_EVENT_LIMIT = 50;
+
+// alerts/{userId}/alertRules/{ruleId} and alerts/{userId}/alertEvents/{eventId}; userId is the opaque storage id
+function createFirestoreAlertStore(db: Firestore): AlertStore {
+  const rulesOf = (userId: string) => db.collection('alerts').doc(userId).collection('alertRules');
+  const eventsOf = (userId: string) => db.collection('alerts').doc(userId).collection('alertEvents');
+
+  return {
+    async listRules(userId) {
+      const snapshot = await rulesOf(userId).orderBy('createdAt', 'desc').get();
+      return snapshot.docs.map(d => ({ ...(d.data() as Omit<AlertRule, 'id'>), id: d.id }));
+    },
+    async getRule(userId, ruleId) {
+      const snapshot = await rulesOf(userId).doc(ruleId).get();
+      return snapshot.exists ? { ...(snapshot.data() as Omit<AlertRule, 'id'>), id: snapshot.id } : undefined;
+    },
+    async saveRule(userId, rule) {
+      const { id, ...data } = rule;
+      await rulesOf(userId).doc(id).set(data);
+    },
+    async deleteRule(userId, ruleId) {
+      await rulesOf(userId).doc(ruleId).delete();
+    },
+    async updateRuleState(userId, ruleId, state) {
+      // Undefined clears the field (e.g. lastError after a clean run) instead of being skipped
+      const patch = Object.fromEntries(Object.entries(state).map(([key, value]) => [key, value === undefined ? FieldValue.delete() : value]));
+      await rulesOf(userId).doc(ruleId).update(patch);
+    },
+    async listEnabledRules() {
+      const snapshot = await db.collectionGroup('alertRules').where('enabled', '==', true).get();
+      return snapshot.docs.map(d => ({
+        userId: d.ref.parent.parent!.id,
+        rule: { ...(d.data() as Omit<AlertRule, 'id'>), id: d.id },
+      }));
+    },
+    async saveEvent(userId, event) {
+      const { id, ...data } = event;
+      await eventsOf(userId).doc(id).set(data);
+    },
+    async listEvents(userId, since, max = DEFAULT_EVENT_LIMIT) {
+      let events = eventsOf(userId).orderBy('triggeredAt', 'desc');
+      if (since !== undefined) events = events.where('triggeredAt', '>', since);
+      const snapshot = await events.limit(max).get();
+      return snapshot.docs.map(d => ({ ...(d.data() as Omit<AlertEvent, 'id'>), id: d.id }));
+    },
+  };
+}
+
+let store: AlertStore | undefined;
+
+/** The configured alert store, or undefined when no backend (Firebase) is configured. */
+export function getAlertStore(): AlertStore | undefined {
+  if (!store) {
+    const db = getFirestoreDb();
+    if (db) store = createFirestoreAlertStore(db);
+  }
+  return store;
+}
+
+export function setAlertStore(next: AlertStore): void {
+  store = next;
+}
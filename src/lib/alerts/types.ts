@@ -0,0 +1,66 @@
+// Shapes for user-defined alert rules and the events they fire. manage-alerts.ts re-exports them for components.
+
+import type { Asset } from '@/lib/assets/types';
+import type { TradeAction } from '@/lib/backtest/types';
+
+export type CrossDirection = 'above' | 'below' | 'either';
+
+export type AlertCondition =
+  | { kind: 'price-cross'; level: number; direction: CrossDirection }
+  | { kind: 'rsi-zone'; lower: number; upper: number }         // RSI crosses either bound, in or out of its zone
+  | { kind: 'macd-flip' }                                        // MACD histogram changes sign
+  | { kind: 'signal-change' }                                    // AI signal moves from HOLD to BUY or SELL
+  | { kind: 'sentiment-cross'; threshold: number; direction: CrossDirection };
+
+export type AlertConditionKind = AlertCondition['kind'];
+
+export type AlertChannel = 'toast' | 'browser' | 'webhook';
+
+// The value a condition watches, as seen at the previous evaluation
+export type ObservedValue = number | TradeAction;
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  asset: Asset;             // Copy of the catalog entry, so the server can fetch data without the browser
+  timeframe: string;
+  condition: AlertCondition;
+  channels: AlertChannel[];
+  webhookUrl?: string;
+  enabled: boolean;
+  cooldownMinutes: number;  // Minimum gap between two events of this rule
+  createdAt: number;        // Unix milliseconds
+  lastObserved?: ObservedValue;
+  lastEvaluatedAt?: number;
+  lastTriggeredAt?: number;
+  lastError?: string;
+}
+
+export type AlertRuleInput = Pick<AlertRule, 'name' | 'asset' | 'timeframe' | 'condition' | 'channels' | 'webhookUrl' | 'enabled' | 'cooldownMinutes'>;
+
+export type AlertRuleState = Pick<AlertRule, 'lastObserved' | 'lastEvaluatedAt' | 'lastTriggeredAt' | 'lastError'>;
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  assetName: string;
+  timeframe: string;
+  condition: AlertCondition;
+  message: string;
+  value: ObservedValue;
+  previousValue: ObservedValue;
+  channels: AlertChannel[];
+  triggeredAt: number; // Unix milliseconds
+  webhook?: { ok: boolean; status?: number; error?: string };
+}
+
+// Latest values for one asset and timeframe; fields stay undefined when the source failed or was not needed
+export interface AlertSnapshot {
+  price?: number;
+  rsi?: number;
+  macdHistogram?: number;
+  sentimentScore?: number;
+  recommendation?: TradeAction;
+  errors: string[];
+}
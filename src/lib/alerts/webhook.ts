@@ -0,0 +1,144 @@
+// Outgoing webhook delivery. The payload shape is documented in docs/alert-webhooks.md; bump
+// ALERT_WEBHOOK_VERSION on any breaking change to it.
+
+import { createHmac } from 'crypto';
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { request } from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { describeCondition } from './conditions';
+import type { AlertEvent } from './types';
+
+export const ALERT_WEBHOOK_VERSION = 1;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export interface AlertWebhookPayload {
+  version: typeof ALERT_WEBHOOK_VERSION;
+  type: 'alert.triggered' | 'alert.test';
+  id: string;
+  triggeredAt: string; // ISO 8601
+  rule: { id: string; name: string; condition: AlertEvent['condition']; description: string };
+  asset: string;
+  timeframe: string;
+  message: string;
+  value: AlertEvent['value'];
+  previousValue: AlertEvent['previousValue'];
+}
+
+export function buildWebhookPayload(event: AlertEvent, type: AlertWebhookPayload['type'] = 'alert.triggered'): AlertWebhookPayload {
+  return {
+    version: ALERT_WEBHOOK_VERSION,
+    type,
+    id: event.id,
+    triggeredAt: new Date(event.triggeredAt).toISOString(),
+    rule: { id: event.ruleId, name: event.ruleName, condition: event.condition, description: describeCondition(event.condition) },
+    asset: event.assetName,
+    timeframe: event.timeframe,
+    message: event.message,
+    value: event.value,
+    previousValue: event.previousValue,
+  };
+}
+
+export function isValidWebhookUrl(url: string): boolean {
+  try {
+    return new URL(url).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Loopback, private, link-local (incl. the 169.254.169.254 metadata endpoint), CGNAT, multicast and reserved ranges.
+// IPv4-mapped and NAT64 IPv6 forms are blocked outright rather than unwrapped. One list per family, because a
+// BlockList also matches IPv4 addresses against IPv4-mapped IPv6 rules.
+function blockList(family: 'ipv4' | 'ipv6', subnets: [string, number][]): BlockList {
+  const list = new BlockList();
+  for (const [network, prefix] of subnets) list.addSubnet(network, prefix, family);
+  return list;
+}
+
+const BLOCKED_IPV4 = blockList('ipv4', [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+]);
+const BLOCKED_IPV6 = blockList('ipv6', [
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+]);
+
+function isPublicAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4: return !BLOCKED_IPV4.check(address, 'ipv4');
+    case 6: return !BLOCKED_IPV6.check(address, 'ipv6');
+    default: return false;
+  }
+}
+
+/**
+ * Checks that the URL is https and that every address its host resolves to is public, so webhooks cannot reach the
+ * server's own network. Returns an error message, or undefined when the URL may be called.
+ */
+export async function checkWebhookTarget(url: string): Promise<string | undefined> {
+  if (!isValidWebhookUrl(url)) return 'Webhook URL must be a valid https URL.';
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Webhook host ${host} could not be resolved.`;
+  }
+  if (addresses.length === 0 || !addresses.every(a => isPublicAddress(a.address))) {
+    return `Webhook host ${host} resolves to a private or reserved address.`;
+  }
+  return undefined;
+}
+
+// Resolves like dns.lookup but fails unless every address is public. The connection uses the addresses checked here,
+// so a host that re-resolves to a private address after checkWebhookTarget (DNS rebinding) is still refused.
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    if (addresses.length === 0 || !addresses.every(a => isPublicAddress(a.address))) {
+      return callback(Object.assign(new Error(`Webhook host ${hostname} resolves to a private or reserved address.`), { code: 'EACCES' }), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function postJson(url: string, headers: Record<string, string>, body: string): Promise<{ status: number; statusText: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: publicOnlyLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, res => {
+      res.resume(); // The response body is not used
+      resolve({ status: res.statusCode ?? 0, statusText: res.statusMessage ?? '' });
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * POSTs the payload as JSON after checkWebhookTarget passes, connecting only to the public addresses it checked;
+ * redirects are not followed. When ALERTS_WEBHOOK_SECRET
+ * is set the body is signed with HMAC-SHA256 in the X-ForeSight-Signature header. Never throws.
+ */
+export async function deliverWebhook(url: string, payload: AlertWebhookPayload): Promise<NonNullable<AlertEvent['webhook']>> {
+  const blocked = await checkWebhookTarget(url);
+  if (blocked) return { ok: false, error: blocked };
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', 'User-Agent': `ForeSight-Alerts/${ALERT_WEBHOOK_VERSION}` };
+  const secret = process.env.ALERTS_WEBHOOK_SECRET;
+  if (secret) headers['X-ForeSight-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+  try {
+    const response = await postJson(url, headers, body);
+    if (response.status < 200 || response.status >= 300) return { ok: false, status: response.status, error: `Webhook responded ${response.status} ${response.statusText}`.trim() };
+    return { ok: true, status: response.status };
+  } catch (err) {
+    return { ok: false, error: `Webhook request failed - ${(err instanceof Error ? err.message : String(err)).substring(0, 100)}` };
+  }
+}
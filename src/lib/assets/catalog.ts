@@ -0,0 +1,106 @@
+// Validation and (de)serialization for user asset catalogs. Pure functions; persistence lives in store.ts.
+
+import { normalizeCanonicalSymbol } from '@/lib/market-data/symbols';
+import type { MarketDataProviderId } from '@/lib/market-data/types';
+import type { Asset, AssetCatalogFile, AssetType } from './types';
+
+export const ASSET_TYPES: AssetType[] = ['currency', 'commodity', 'crypto', 'index', 'equity'];
+export const MARKET_ID_PROVIDERS: MarketDataProviderId[] = ['polygon', 'finnhub', 'twelvedata'];
+export const MAX_CATALOG_SIZE = 200;
+
+const MAX_NAME_LENGTH = 40;
+const MAX_KEYWORDS = 12;
+const SYMBOL_PATTERN = /^[A-Za-z0-9:._/^=-]{1,40}$/;
+const CURRENCY_CODE_PATTERN = /^[A-Za-z]{3,4}$/;
+
+const trimmed = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Normalizes an asset from user input or an imported file: trims strings, drops empty ids, canonicalizes
+ * the symbol and upper-cases currency codes. Returns an error message instead when the asset is unusable.
+ */
+export function normalizeAsset(raw: unknown): { asset?: Asset; error?: string } {
+  if (!raw || typeof raw !== 'object') return { error: 'Asset must be an object.' };
+  const input = raw as Record<string, any>;
+
+  const name = trimmed(input.name);
+  if (!name || name.length > MAX_NAME_LENGTH) return { error: `Asset name must be 1-${MAX_NAME_LENGTH} characters.` };
+  if (!ASSET_TYPES.includes(input.type)) return { error: `${name}: type must be one of ${ASSET_TYPES.join(', ')}.` };
+
+  const rawSymbol = trimmed(input.symbol);
+  if (rawSymbol && !SYMBOL_PATTERN.test(rawSymbol)) return { error: `${name}: "${rawSymbol}" is not a valid symbol.` };
+  const symbol = rawSymbol ? normalizeCanonicalSymbol(rawSymbol, input.type) : undefined;
+
+  const marketIds: Asset['marketIds'] = {};
+  for (const provider of MARKET_ID_PROVIDERS) {
+    const ticker = trimmed(input.marketIds?.[provider]);
+    if (!ticker) continue;
+    if (!SYMBOL_PATTERN.test(ticker)) return { error: `${name}: "${ticker}" is not a valid ${provider} symbol.` };
+    marketIds[provider] = ticker;
+  }
+  if (!symbol && Object.keys(marketIds).length === 0) return { error: `${name}: set a canonical symbol or at least one provider ticker.` };
+
+  const economicIds: Asset['economicIds'] = {};
+  for (const key of ['openexchangerates', 'exchangerateapi', 'primaryCurrencyForInterestRate'] as const) {
+    const code = trimmed(input.economicIds?.[key]).toUpperCase();
+    if (!code) continue;
+    if (!CURRENCY_CODE_PATTERN.test(code)) return { error: `${name}: "${code}" is not a currency or commodity code.` };
+    economicIds[key] = code;
+  }
+
+  const keywords: unknown[] = Array.isArray(input.searchKeywords) ? input.searchKeywords : [];
+  const searchKeywords = Array.from(new Set(keywords.map(trimmed).filter(Boolean))).slice(0, MAX_KEYWORDS);
+
+  return {
+    asset: {
+      name,
+      type: input.type,
+      ...(symbol ? { symbol } : {}),
+      // Without keywords the news query falls back to the name's parts, e.g. "ETH" and "USD"
+      searchKeywords: searchKeywords.length > 0 ? searchKeywords : name.split(/[^A-Za-z0-9]+/).filter(Boolean),
+      marketIds,
+      economicIds,
+    },
+  };
+}
+
+/** Validates a whole catalog; names must be unique (case-insensitive). */
+export function normalizeCatalog(rawAssets: unknown[]): { assets: Asset[]; errors: string[] } {
+  const assets: Asset[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const raw of rawAssets) {
+    const { asset, error } = normalizeAsset(raw);
+    if (!asset) {
+      errors.push(error!);
+    } else if (seen.has(asset.name.toLowerCase())) {
+      errors.push(`${asset.name}: duplicate name.`);
+    } else {
+      seen.add(asset.name.toLowerCase());
+      assets.push(asset);
+    }
+  }
+  if (assets.length > MAX_CATALOG_SIZE) {
+    errors.push(`Only the first ${MAX_CATALOG_SIZE} assets were kept.`);
+    assets.length = MAX_CATALOG_SIZE;
+  }
+  return { assets, errors };
+}
+
+/** Parses an exported catalog file; a bare array of assets is accepted too. */
+export function parseAssetCatalogFile(json: string): { assets: Asset[]; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { assets: [], errors: ['File is not valid JSON.'] };
+  }
+  const rawAssets = Array.isArray(parsed) ? parsed : (parsed as Partial<AssetCatalogFile> | null)?.assets;
+  if (!Array.isArray(rawAssets)) return { assets: [], errors: ['Expected {"version": 1, "assets": [...]} or an array of assets.'] };
+  return normalizeCatalog(rawAssets);
+}
+
+export function serializeAssetCatalog(assets: Asset[]): string {
+  const file: AssetCatalogFile = { version: 1, exportedAt: new Date().toISOString(), assets };
+  return JSON.stringify(file, null, 2);
+}
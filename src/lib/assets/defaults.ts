@@ -0,0 +1,87 @@
+// Instruments every user starts with. A user's saved catalog replaces this list entirely.
+// Provider tickers are resolved from `symbol` (see lib/market-data/symbols.ts); marketIds only holds overrides.
+
+import type { Asset } from './types';
+
+export const DEFAULT_ASSETS: Asset[] = [
+  {
+    name: "EUR/USD", type: "currency", searchKeywords: ["EUR", "USD", "Euro", "Dollar", "ECB", "Federal Reserve"],
+    symbol: "EUR/USD", marketIds: {},
+    economicIds: { openexchangerates: "EUR", exchangerateapi: "EUR", primaryCurrencyForInterestRate: "EUR" }
+  },
+  {
+    name: "GBP/USD", type: "currency", searchKeywords: ["GBP", "USD", "British Pound", "US Dollar", "Bank of England", "BoE", "Federal Reserve", "Fed"],
+    symbol: "GBP/USD", marketIds: {},
+    economicIds: { openexchangerates: "GBP", exchangerateapi: "GBP", primaryCurrencyForInterestRate: "GBP" }
+  },
+  {
+    name: "USD/JPY", type: "currency", searchKeywords: ["USD", "JPY", "Japanese Yen", "Bank of Japan", "BoJ"],
+    symbol: "USD/JPY", marketIds: {},
+    economicIds: { openexchangerates: "USD", exchangerateapi: "USD", primaryCurrencyForInterestRate: "JPY" }
+  },
+  {
+    name: "AUD/USD", type: "currency", searchKeywords: ["AUD", "USD", "Australian Dollar", "Reserve Bank of Australia", "RBA"],
+    symbol: "AUD/USD", marketIds: {},
+    economicIds: { openexchangerates: "AUD", exchangerateapi: "AUD", primaryCurrencyForInterestRate: "AUD" }
+  },
+  {
+    name: "USD/CAD", type: "currency", searchKeywords: ["USD", "CAD", "Canadian Dollar", "Bank of Canada", "BoC"],
+    symbol: "USD/CAD", marketIds: {},
+    economicIds: { openexchangerates: "USD", exchangerateapi: "USD", primaryCurrencyForInterestRate: "CAD" }
+  },
+  {
+    name: "USD/CHF", type: "currency", searchKeywords: ["USD", "CHF", "Swiss Franc", "SNB", "Swiss National Bank"],
+    symbol: "USD/CHF", marketIds: {},
+    economicIds: { openexchangerates: "USD", exchangerateapi: "USD", primaryCurrencyForInterestRate: "CHF" }
+  },
+  {
+    name: "NZD/USD", type: "currency", searchKeywords: ["NZD", "USD", "New Zealand Dollar", "RBNZ", "Reserve Bank of New Zealand"],
+    symbol: "NZD/USD", marketIds: {},
+    economicIds: { openexchangerates: "NZD", exchangerateapi: "NZD", primaryCurrencyForInterestRate: "NZD" }
+  },
+  {
+    name: "EUR/GBP", type: "currency", searchKeywords: ["EUR", "GBP", "Euro", "British Pound", "ECB", "BoE"],
+    symbol: "EUR/GBP", marketIds: {},
+    economicIds: { openexchangerates: "EUR", exchangerateapi: "EUR", primaryCurrencyForInterestRate: "EUR" }
+  },
+  {
+    name: "EUR/JPY", type: "currency", searchKeywords: ["EUR", "JPY", "Euro", "Japanese Yen", "ECB", "Bank of Japan", "BoJ"],
+    symbol: "EUR/JPY", marketIds: {},
+    economicIds: { openexchangerates: "EUR", exchangerateapi: "EUR", primaryCurrencyForInterestRate: "EUR" }
+  },
+  {
+    name: "GBP/JPY", type: "currency", searchKeywords: ["GBP", "JPY", "British Pound", "Japanese Yen", "Bank of England", "Bank of Japan"],
+    symbol: "GBP/JPY", marketIds: {},
+    economicIds: { openexchangerates: "GBP", exchangerateapi: "GBP", primaryCurrencyForInterestRate: "GBP" }
+  },
+  {
+    name: "AUD/CAD", type: "currency", searchKeywords: ["AUD", "CAD", "Australian Dollar", "Canadian Dollar", "Reserve Bank of Australia", "RBA", "Bank of Canada", "BoC"],
+    symbol: "AUD/CAD", marketIds: {},
+    economicIds: { openexchangerates: "AUD", exchangerateapi: "AUD", primaryCurrencyForInterestRate: "AUD" }
+  },
+  {
+    name: "USD/SGD", type: "currency", searchKeywords: ["USD", "SGD", "Singapore Dollar", "Monetary Authority of Singapore", "MAS"],
+    symbol: "USD/SGD", marketIds: {},
+    economicIds: { openexchangerates: "USD", exchangerateapi: "USD", primaryCurrencyForInterestRate: "SGD" }
+  },
+  {
+    name: "Gold (XAU/USD)", type: "commodity", searchKeywords: ["Gold", "XAUUSD", "precious metals", "commodities"],
+    symbol: "XAU/USD", marketIds: {},
+    economicIds: { openexchangerates: "XAU", exchangerateapi: "XAU", primaryCurrencyForInterestRate: "USD" }
+  },
+  {
+    name: "Silver (XAG/USD)", type: "commodity", searchKeywords: ["Silver", "XAGUSD", "precious metals", "commodities"],
+    symbol: "XAG/USD", marketIds: {},
+    economicIds: { openexchangerates: "XAG", exchangerateapi: "XAG", primaryCurrencyForInterestRate: "USD" }
+  },
+  {
+    name: "Crude Oil (WTI)", type: "commodity", searchKeywords: ["Crude Oil", "WTI", "energy", "OPEC"],
+    symbol: "WTI", marketIds: {},
+    economicIds: { openexchangerates: "WTI", exchangerateapi: "WTI", primaryCurrencyForInterestRate: "USD" }
+  },
+  {
+    name: "Bitcoin (BTC/USD)", type: "crypto", searchKeywords: ["Bitcoin", "BTC", "crypto", "cryptocurrency"],
+    symbol: "BTC/USD", marketIds: {},
+    economicIds: { openexchangerates: "BTC", exchangerateapi: "BTC", primaryCurrencyForInterestRate: "USD" }
+  },
+];
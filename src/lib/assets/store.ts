@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { USER_ID_PATTERN } from '@/lib/settings/store';
+import type { Asset } from './types';
+
+export interface StoredAssetCatalog {
+  assets: Asset[];
+  updatedAt: number; // Unix milliseconds
+}
+
+/** Persists one asset catalog per user. Swap the implementation via setAssetCatalogStore. */
+export interface AssetCatalogStore {
+  load(userId: string): Promise<StoredAssetCatalog | undefined>; // undefined: the user still uses the defaults
+  save(userId: string, catalog: StoredAssetCatalog): Promise<void>;
+  remove(userId: string): Promise<void>;
+}
+
+// One JSON file per user under ASSET_CATALOG_DIR (default .data/catalogs). Catalogs hold no secrets,
+// so unlike settings they are stored in plain text.
+function createFileAssetCatalogStore(directory: string): AssetCatalogStore {
+  const fileFor = (userId: string) => {
+    if (!USER_ID_PATTERN.test(userId)) throw new Error('Invalid catalog user id.');
+    return path.join(directory, `${userId}.json`);
+  };
+
+  return {
+    async load(userId) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(userId), 'utf8')) as StoredAssetCatalog;
+      } catch (err: any) {
+        if (err?.code === 'ENOENT') return undefined;
+        throw err;
+      }
+    },
+    async save(userId, catalog) {
+      await fs.mkdir(directory, { recursive: true });
+      const file = fileFor(userId);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(catalog), 'utf8');
+      await fs.rename(tmp, file);
+    },
+    async remove(userId) {
+      await fs.rm(fileFor(userId), { force: true });
+    },
+  };
+}
+
+let store: AssetCatalogStore = createFileAssetCatalogStore(process.env.ASSET_CATALOG_DIR || path.join(process.cwd(), '.data', 'catalogs'));
+
+export function getAssetCatalogStore(): AssetCatalogStore {
+  return store;
+}
+
+export function setAssetCatalogStore(next: AssetCatalogStore): void {
+  store = next;
+}
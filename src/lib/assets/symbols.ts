@@ -0,0 +1,93 @@
+// Checks catalog symbol mappings against each provider's symbol search, and looks up tickers
+// the mapping table and naming rules can't produce.
+
+import { cached, cacheKey } from '@/lib/cache/cached';
+import { getMarketDataProvider } from '@/lib/market-data/registry';
+import { fitsProviderFormat, resolveMarketIds, type ResolvedSymbol } from '@/lib/market-data/symbols';
+import type { MarketDataApiKeys, MarketDataProvider, MarketDataProviderId, ProviderCallResult, SymbolMatch } from '@/lib/market-data/types';
+import { budgetExceededMessage, noteRateLimited, tryAcquire } from '@/lib/rate-limit/limiter';
+import type { Asset, SymbolCheck } from './types';
+
+// Search results are cached for a day, empty ones included, so an unknown instrument doesn't spend
+// a search call on every check and save
+function searchSymbols(provider: MarketDataProvider, query: string, apiKey: string): Promise<ProviderCallResult<SymbolMatch[]>> {
+  const load = async (): Promise<ProviderCallResult<SymbolMatch[]>> => {
+    const budget = tryAcquire(provider.id, apiKey);
+    if (!budget.ok) return { error: { kind: 'rate-limit', message: budgetExceededMessage(provider.name, budget.retryAfterMs) } };
+    const result = await provider.searchSymbols!(query, apiKey);
+    if (result.error?.kind === 'rate-limit') noteRateLimited(provider.id, apiKey);
+    return result;
+  };
+  return cached(cacheKey('symbolSearch', provider.id, query.toUpperCase()), 'symbolSearch', load, {
+    cacheable: result => !result.error,
+  });
+}
+
+const sameSymbol = (a: string, b: string) => a.trim().toUpperCase() === b.trim().toUpperCase();
+
+export async function checkProviderSymbol(providerId: MarketDataProviderId, symbol: string, apiKey?: string | null): Promise<SymbolCheck> {
+  const provider = getMarketDataProvider(providerId);
+  const base = { provider: providerId, symbol };
+  if (!provider?.searchSymbols) return { ...base, status: 'unverified', message: 'This provider has no symbol search.' };
+  if (!apiKey) return { ...base, status: 'unverified', message: `No ${provider.name} API key configured.` };
+
+  try {
+    const { data, error } = await searchSymbols(provider, symbol, apiKey);
+    if (error) return { ...base, status: 'unverified', message: error.message };
+    const match = data?.find(m => sameSymbol(m.symbol, symbol));
+    if (match) return { ...base, status: 'valid', description: match.description };
+    const suggestions = (data ?? []).slice(0, 3).map(m => m.symbol);
+    return {
+      ...base,
+      status: 'invalid',
+      message: `Not listed by ${provider.name}${suggestions.length > 0 ? `; did you mean ${suggestions.join(', ')}?` : '.'}`,
+    };
+  } catch (err) {
+    return { ...base, status: 'unverified', message: (err instanceof Error ? err.message : String(err)).substring(0, 150) };
+  }
+}
+
+/** One check per provider the asset resolves on, in parallel. */
+export function checkAssetSymbols(asset: Pick<Asset, 'name' | 'type' | 'symbol' | 'marketIds'>, apiKeys: MarketDataApiKeys): Promise<SymbolCheck[]> {
+  return Promise.all(
+    resolveMarketIds(asset)
+      .filter(r => r.symbol)
+      .map(r => checkProviderSymbol(r.provider, r.symbol!, apiKeys[r.provider])),
+  );
+}
+
+/**
+ * Searches a provider for the asset's canonical symbol and returns the first listed ticker in that
+ * provider's format for the asset class. Undefined when nothing fits or the search isn't possible.
+ */
+export async function lookupProviderSymbol(
+  providerId: MarketDataProviderId,
+  asset: Pick<Asset, 'type' | 'symbol'>,
+  apiKey?: string | null,
+): Promise<{ symbol?: string; description?: string }> {
+  const provider = getMarketDataProvider(providerId);
+  if (!asset.symbol || !provider?.searchSymbols || !apiKey) return {};
+
+  try {
+    const { data, error } = await searchSymbols(provider, asset.symbol, apiKey);
+    if (error) return {};
+    const match = data?.find(m => fitsProviderFormat(providerId, asset.type, m.symbol));
+    return { symbol: match?.symbol, description: match?.description };
+  } catch {
+    return {};
+  }
+}
+
+/** Resolves every provider, filling gaps the table and naming rules leave with a symbol search. */
+export async function resolveAssetSymbols(
+  asset: Pick<Asset, 'name' | 'type' | 'symbol' | 'marketIds'>,
+  apiKeys: MarketDataApiKeys,
+): Promise<ResolvedSymbol[]> {
+  return Promise.all(
+    resolveMarketIds(asset).map(async resolved => {
+      if (resolved.symbol) return resolved;
+      const { symbol } = await lookupProviderSymbol(resolved.provider, asset, apiKeys[resolved.provider]);
+      return symbol ? { ...resolved, symbol, source: 'lookup' as const } : resolved;
+    }),
+  );
+}
@@ -0,0 +1,42 @@
+// The one asset model shared by the dashboard, server actions, alerts and the watchlist.
+// Server actions (manage-assets.ts) re-export these shapes for components.
+
+import type { MarketAsset, MarketDataProviderId } from '@/lib/market-data/types';
+
+export type AssetType = 'currency' | 'commodity' | 'crypto' | 'index' | 'equity';
+
+export interface AssetEconomicIds {
+  openexchangerates?: string;             // Base currency (e.g. EUR) or commodity ticker (XAU)
+  exchangerateapi?: string;               // Base currency (e.g. EUR)
+  primaryCurrencyForInterestRate?: string; // Currency whose FRED policy rate feeds the signal
+}
+
+export interface Asset extends MarketAsset {
+  name: string;                // Display name, unique within a catalog, e.g. "EUR/USD"
+  type: AssetType;
+  symbol?: string;             // Canonical symbol, e.g. "EUR/USD", "XAU/USD", "WTI", "SPX", "AAPL"
+  searchKeywords: string[];    // NewsAPI query terms
+  marketIds: Partial<Record<MarketDataProviderId, string>>; // Explicit provider tickers; override the ones resolved from `symbol`
+  economicIds: AssetEconomicIds;
+}
+
+// Result of checking one provider ticker against that provider's symbol search
+export type SymbolCheckStatus =
+  | 'valid'       // The provider lists the symbol
+  | 'invalid'     // The provider answered and does not list it
+  | 'unverified'; // Could not check: no API key, rate limit, network error, or no search endpoint
+
+export interface SymbolCheck {
+  provider: MarketDataProviderId;
+  symbol: string;
+  status: SymbolCheckStatus;
+  description?: string; // Provider's name for the instrument when found
+  message?: string;
+}
+
+// Export/import file format
+export interface AssetCatalogFile {
+  version: 1;
+  exportedAt?: string; // ISO 8601
+  assets: Asset[];
+}
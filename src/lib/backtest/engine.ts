@@ -0,0 +1,139 @@
+import { timeframeToMinutes } from '@/lib/market-data/candles';
+import type { HistoricalDataPoint } from '@/lib/market-data/types';
+import type { BacktestConfig, BacktestMetrics, BacktestResult, BacktestTrade, EquityPoint, PositionSide, TradeAction } from './types';
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialEquity: 10000,
+  costBps: 1,
+  allowShort: true,
+  warmupBars: 35, // MACD(12,26,9) needs 34 closes before its histogram is defined
+};
+
+// FX and crypto trade close to 24h a day; ~260 weekdays gives a consistent annualisation across timeframes.
+const TRADING_DAYS_PER_YEAR = 260;
+
+interface OpenPosition {
+  side: PositionSide;
+  entryIndex: number;
+  entryPrice: number;
+  capital: number; // Equity committed at entry, after entry costs
+}
+
+function targetSide(action: TradeAction, current: PositionSide | null, allowShort: boolean): PositionSide | null {
+  if (action === 'BUY') return 'long';
+  if (action === 'SELL') return allowShort ? 'short' : null;
+  return current;
+}
+
+function markToMarket(position: OpenPosition, price: number): number {
+  const direction = position.side === 'long' ? 1 : -1;
+  return position.capital * (1 + direction * (price / position.entryPrice - 1));
+}
+
+/**
+ * Replays per-bar signals over oldest-first candles. A signal decided on bar i's close is filled at
+ * bar i+1's open, so no bar trades on information it could not have had. Positions use the full
+ * equity (no leverage), reverse on an opposite signal, and are closed on the last bar's close.
+ */
+export function runBacktest(
+  candles: HistoricalDataPoint[],
+  signals: TradeAction[],
+  timeframeId: string,
+  config: Partial<BacktestConfig> = {}
+): BacktestResult {
+  const { initialEquity, costBps, allowShort, warmupBars } = { ...DEFAULT_BACKTEST_CONFIG, ...config };
+  const cost = costBps / 10000;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  let cash = initialEquity;
+  let position = null as OpenPosition | null; // Cast keeps TS from narrowing to null; closePosition mutates it
+  let barsInMarket = 0;
+  const start = Math.min(warmupBars, candles.length);
+  const benchmarkEntry = candles[start]?.open;
+
+  const closePosition = (index: number, price: number, exitReason: BacktestTrade['exitReason']) => {
+    if (!position) return;
+    const exitValue = markToMarket(position, price) * (1 - cost);
+    const committed = position.capital / (1 - cost); // Equity before entry costs
+    trades.push({
+      side: position.side,
+      entryTimestamp: candles[position.entryIndex].timestamp,
+      entryPrice: position.entryPrice,
+      exitTimestamp: candles[index].timestamp,
+      exitPrice: price,
+      returnPct: (exitValue / committed - 1) * 100,
+      pnl: exitValue - committed,
+      bars: index - position.entryIndex,
+      exitReason,
+    });
+    cash = exitValue;
+    position = null;
+  };
+
+  for (let i = start; i < candles.length; i++) {
+    const bar = candles[i];
+    const previousSignal = i > start ? signals[i - 1] : undefined;
+    if (previousSignal) {
+      const desired = targetSide(previousSignal, position?.side ?? null, allowShort);
+      if (desired !== (position?.side ?? null)) {
+        closePosition(i, bar.open, 'signal');
+        if (desired) position = { side: desired, entryIndex: i, entryPrice: bar.open, capital: cash * (1 - cost) };
+      }
+    }
+
+    if (position) barsInMarket++;
+    if (i === candles.length - 1) closePosition(i, bar.close, 'end');
+
+    equityCurve.push({
+      timestamp: bar.timestamp,
+      date: bar.date,
+      equity: position ? markToMarket(position, bar.close) : cash,
+      buyAndHold: benchmarkEntry ? initialEquity * (bar.close / benchmarkEntry) : initialEquity,
+    });
+  }
+
+  return { metrics: computeMetrics(equityCurve, trades, initialEquity, barsInMarket, timeframeId), trades, equityCurve };
+}
+
+function computeMetrics(
+  equityCurve: EquityPoint[],
+  trades: BacktestTrade[],
+  initialEquity: number,
+  barsInMarket: number,
+  timeframeId: string
+): BacktestMetrics {
+  const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialEquity;
+  const finalBenchmark = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].buyAndHold : initialEquity;
+
+  let peak = initialEquity;
+  let maxDrawdown = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    returns.push(equityCurve[i].equity / equityCurve[i - 1].equity - 1);
+  }
+  let sharpe: number | undefined;
+  if (returns.length > 1) {
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance = returns.reduce((a, r) => a + (r - mean) ** 2, 0) / (returns.length - 1);
+    const barsPerYear = (TRADING_DAYS_PER_YEAR * 24 * 60) / timeframeToMinutes(timeframeId);
+    if (variance > 0) sharpe = (mean / Math.sqrt(variance)) * Math.sqrt(barsPerYear);
+  }
+
+  const wins = trades.filter(t => t.pnl > 0).length;
+  return {
+    totalReturnPct: (finalEquity / initialEquity - 1) * 100,
+    buyAndHoldReturnPct: (finalBenchmark / initialEquity - 1) * 100,
+    tradeCount: trades.length,
+    winRatePct: trades.length > 0 ? (wins / trades.length) * 100 : undefined,
+    averageTradePct: trades.length > 0 ? trades.reduce((a, t) => a + t.returnPct, 0) / trades.length : undefined,
+    maxDrawdownPct: maxDrawdown * 100,
+    sharpe,
+    exposurePct: equityCurve.length > 0 ? (barsInMarket / equityCurve.length) * 100 : 0,
+  };
+}
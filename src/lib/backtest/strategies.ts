@@ -0,0 +1,29 @@
+import { macd, rsi } from '@/lib/indicators';
+import type { HistoricalDataPoint } from '@/lib/market-data/types';
+import { evaluateTradeRules, type RuleEngineConfig } from '@/lib/signals/rule-engine';
+import type { TradeAction } from './types';
+
+// Sentiment and interest rates have no history to replay, so the backtest weighs only the technical
+// factors. Both must agree (score 1) for a trade; one alone (0.5) stays below the threshold.
+export const TECHNICAL_ONLY_RULES: Partial<RuleEngineConfig> = {
+  weights: { rsi: 1, macd: 1, sentiment: 0, interestRate: 0 },
+};
+
+/**
+ * Runs the dashboard's rule engine on every bar's close: BUY when RSI is oversold and MACD is positive,
+ * SELL when RSI is overbought and MACD is negative, otherwise HOLD.
+ */
+export function rsiMacdRuleSignals(
+  candles: HistoricalDataPoint[],
+  config: Partial<RuleEngineConfig> = TECHNICAL_ONLY_RULES
+): TradeAction[] {
+  const closes = candles.map(c => c.close);
+  const rsiSeries = rsi(closes);
+  const macdLine = macd(closes).macd;
+  return candles.map((c, i) => {
+    const r = rsiSeries[i];
+    const m = macdLine[i];
+    if (r === undefined || m === undefined) return 'HOLD';
+    return evaluateTradeRules({ rsi: r, macd: m, sentimentScore: 0, interestRate: 0, price: c.close }, config).recommendation;
+  });
+}
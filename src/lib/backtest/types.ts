@@ -0,0 +1,67 @@
+// Shared types for the backtest engine and the run-backtest server action.
+
+import type { MarketDataProviderName, ProviderAttempt } from '@/lib/market-data/types';
+
+export type TradeAction = 'BUY' | 'SELL' | 'HOLD';
+
+export type PositionSide = 'long' | 'short';
+
+// 'rules' replays the deterministic RSI/MACD rules; 'ai' replays generateTradeRecommendation with cached responses.
+export type BacktestStrategyId = 'rules' | 'ai';
+
+export interface BacktestConfig {
+  initialEquity: number;
+  costBps: number;       // Spread + commission per side, in basis points of price
+  allowShort: boolean;   // When false, SELL only exits a long position
+  warmupBars: number;    // Bars used only to seed indicators; no trades before this index
+}
+
+export interface BacktestTrade {
+  side: PositionSide;
+  entryTimestamp: number;
+  entryPrice: number;
+  exitTimestamp: number;
+  exitPrice: number;
+  returnPct: number; // Net of costs
+  pnl: number;
+  bars: number;
+  exitReason: 'signal' | 'end';
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  date: string;
+  equity: number;
+  buyAndHold: number; // Same starting equity held long from the first traded bar, for comparison
+}
+
+export interface BacktestMetrics {
+  totalReturnPct: number;
+  buyAndHoldReturnPct: number;
+  tradeCount: number;
+  winRatePct?: number;      // Undefined when no trades closed
+  averageTradePct?: number;
+  maxDrawdownPct: number;   // Positive number, peak-to-trough on the equity curve
+  sharpe?: number;          // Annualised from per-bar returns, risk-free rate 0
+  exposurePct: number;      // Share of bars with an open position
+}
+
+export interface BacktestResult {
+  metrics: BacktestMetrics;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+}
+
+export interface BacktestReport extends Partial<BacktestResult> {
+  assetName: string;
+  timeframe: string;
+  strategy: BacktestStrategyId;
+  barCount: number;
+  firstTimestamp?: number;
+  lastTimestamp?: number;
+  sourceProvider: MarketDataProviderName | 'Unknown';
+  attempts?: ProviderAttempt[];
+  aiCalls?: number;      // Model calls made for this run (cache misses)
+  aiCacheHits?: number;
+  error?: string;
+}
@@ -0,0 +1,101 @@
+// Central response cache for upstream API calls. Keys never contain API keys: responses are shared by every
+// user asking for the same data, which is what keeps two tabs or an auto-refresh timer from spending quota twice.
+
+import { getResponseCacheStore, type CacheEntry } from './store';
+import { policyFor, type CacheDataType } from './policies';
+
+export interface CacheStats {
+  hits: number;       // Fresh entry served
+  staleHits: number;  // Stale entry served while refreshing in the background
+  misses: number;     // Upstream called and awaited
+  coalesced: number;  // Joined a call already in flight for the same key
+  errors: number;     // Store reads/writes that failed (the call itself still went through)
+}
+
+export interface CachedOptions<T> {
+  timeframeId?: string;                  // Scales the candles TTL to the bar length
+  freshUntil?: number;                   // Ends freshness early (Unix ms), e.g. when the forming bar closes
+  cacheable?: (value: T) => boolean;     // Defaults to caching every value
+}
+
+const inFlight = new Map<string, Promise<unknown>>();
+const stats: CacheStats = { hits: 0, staleHits: 0, misses: 0, coalesced: 0, errors: 0 };
+
+/** Builds a cache key such as "candles|polygon|C:EURUSD|1H". Undefined parts are kept as empty segments. */
+export function cacheKey(dataType: CacheDataType, ...parts: (string | number | undefined)[]): string {
+  return [dataType, ...parts.map(p => (p === undefined ? '' : String(p)))].join('|');
+}
+
+/** Whether a call for `key` would be answered from the cache (fresh or stale) or go upstream. */
+export async function cacheState(key: string): Promise<'fresh' | 'stale' | 'missing'> {
+  const entry = await readEntry(key);
+  const now = Date.now();
+  return !entry ? 'missing' : now < entry.freshUntil ? 'fresh' : now < entry.staleUntil ? 'stale' : 'missing';
+}
+
+export function getCacheStats(): CacheStats {
+  return { ...stats };
+}
+
+async function readEntry(key: string): Promise<CacheEntry | undefined> {
+  try {
+    return await getResponseCacheStore().get(key);
+  } catch (err) {
+    stats.errors++;
+    console.warn(`Response cache read failed for ${key}:`, err);
+    return undefined;
+  }
+}
+
+// Runs `load` once per key at a time; concurrent callers share the same promise
+function refresh<T>(key: string, dataType: CacheDataType, load: () => Promise<T>, options: CachedOptions<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    stats.coalesced++;
+    return pending as Promise<T>;
+  }
+
+  const promise = (async () => {
+    const value = await load();
+    if (options.cacheable?.(value) ?? true) {
+      const { ttlSeconds, staleSeconds } = policyFor(dataType, options.timeframeId);
+      const now = Date.now();
+      const freshUntil = Math.min(now + ttlSeconds * 1000, options.freshUntil ?? Infinity);
+      const entry: CacheEntry<T> = { value, storedAt: now, freshUntil, staleUntil: now + (ttlSeconds + staleSeconds) * 1000 };
+      await getResponseCacheStore().set(key, entry).catch(err => {
+        stats.errors++;
+        console.warn(`Response cache write failed for ${key}:`, err);
+      });
+    }
+    return value;
+  })().finally(() => inFlight.delete(key));
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Returns the cached value for `key` when fresh. A stale value is returned immediately while one background
+ * call refreshes it; otherwise `load` runs, shared with any caller already waiting on the same key.
+ * `load` should report failures in its return value (and `cacheable` exclude them) rather than throw.
+ */
+export async function cached<T>(
+  key: string,
+  dataType: CacheDataType,
+  load: () => Promise<T>,
+  options: CachedOptions<T> = {},
+): Promise<T> {
+  const entry = await readEntry(key);
+  const now = Date.now();
+  if (entry && now < entry.freshUntil) {
+    stats.hits++;
+    return entry.value as T;
+  }
+  if (entry && now < entry.staleUntil) {
+    stats.staleHits++;
+    refresh(key, dataType, load, options).catch(err => console.warn(`Background refresh failed for ${key}:`, err));
+    return entry.value as T;
+  }
+  if (!inFlight.has(key)) stats.misses++;
+  return refresh(key, dataType, load, options);
+}
@@ -0,0 +1,42 @@
+// How long each kind of upstream response stays fresh, and how long after that it may still be served
+// while a background refresh runs.
+
+import { timeframeToMinutes } from '@/lib/market-data/candles';
+
+export type CacheDataType =
+  | 'quote'
+  | 'candles'
+  | 'marketStatus'
+  | 'symbolSearch'
+  | 'news'
+  | 'fxRates'
+  | 'interestRate'
+  | 'fredSeries'
+  | 'economicEvents';
+
+export interface CachePolicy {
+  ttlSeconds: number;
+  staleSeconds: number; // Extra time a stale value may be served; 0 disables stale-while-revalidate
+}
+
+export const CACHE_POLICIES: Record<CacheDataType, CachePolicy> = {
+  quote: { ttlSeconds: 15, staleSeconds: 45 },
+  candles: { ttlSeconds: 60, staleSeconds: 240 },        // Default; see candlesPolicy
+  marketStatus: { ttlSeconds: 60, staleSeconds: 240 },
+  symbolSearch: { ttlSeconds: 86400, staleSeconds: 6 * 86400 },
+  news: { ttlSeconds: 3600, staleSeconds: 2 * 3600 },
+  fxRates: { ttlSeconds: 3600, staleSeconds: 5 * 3600 },
+  interestRate: { ttlSeconds: 6 * 3600, staleSeconds: 18 * 3600 },
+  fredSeries: { ttlSeconds: 6 * 3600, staleSeconds: 18 * 3600 },    // Observation history; FRED publishes at most daily
+  economicEvents: { ttlSeconds: 900, staleSeconds: 3600 },      // Actuals appear minutes after each release
+};
+
+/** A quarter of a bar, between 15 seconds and 15 minutes: a new bar shows up within a quarter of its length. */
+export function candlesPolicy(timeframeId: string): CachePolicy {
+  const ttlSeconds = Math.min(900, Math.max(15, (timeframeToMinutes(timeframeId) * 60) / 4));
+  return { ttlSeconds, staleSeconds: ttlSeconds * 4 };
+}
+
+export function policyFor(dataType: CacheDataType, timeframeId?: string): CachePolicy {
+  return dataType === 'candles' && timeframeId ? candlesPolicy(timeframeId) : CACHE_POLICIES[dataType];
+}
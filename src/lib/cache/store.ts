@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;    // Unix milliseconds
+  freshUntil: number;  // Served without refetching until then
+  staleUntil: number;  // Served while a background refresh runs until then; dropped afterwards
+}
+
+/**
+ * Backing store for the response cache. Values must be JSON-serializable so file and Redis backends can hold them.
+ * Swap the implementation via setResponseCacheStore.
+ */
+export interface ResponseCacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const MAX_MEMORY_ENTRIES = 1000;
+
+// Per-process Map, oldest entries evicted first. Shared by every request the Node.js server handles; entries are
+// copied in and out so callers can't mutate each other's results, as with the serializing backends.
+export function createMemoryCacheStore(maxEntries = MAX_MEMORY_ENTRIES): ResponseCacheStore {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry && entry.staleUntil <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry && structuredClone(entry);
+    },
+    async set(key, entry) {
+      entries.delete(key); // Re-insert so Map order tracks recency
+      entries.set(key, structuredClone(entry));
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+// One JSON file per key under RESPONSE_CACHE_DIR (default .data/cache). Survives restarts and is shared by
+// processes on the same disk. File names are key hashes, so keys may contain any characters.
+export function createFileCacheStore(directory: string): ResponseCacheStore {
+  const fileFor = (key: string) => path.join(directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const entry = JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as CacheEntry;
+        if (entry.staleUntil > Date.now()) return entry;
+        await fs.rm(fileFor(key), { force: true });
+        return undefined;
+      } catch (err: any) {
+        if (err?.code === 'ENOENT') return undefined;
+        throw err;
+      }
+    },
+    async set(key, entry) {
+      await fs.mkdir(directory, { recursive: true });
+      const file = fileFor(key);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(entry), 'utf8');
+      await fs.rename(tmp, file);
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+// Any Redis-compatible service with a REST endpoint taking a JSON command array (e.g. Upstash). Entries expire
+// in Redis when their stale window ends, so no cleanup is needed.
+export function createRedisRestCacheStore(url: string, token: string, keyPrefix = 'foresight:cache:'): ResponseCacheStore {
+  const command = async (args: (string | number)[]): Promise<any> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+      cache: 'no-store',
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok || body?.error) throw new Error(`Redis ${args[0]} failed: ${body?.error ?? response.status}`);
+    return body?.result;
+  };
+
+  return {
+    async get(key) {
+      const raw = await command(['GET', keyPrefix + key]);
+      return typeof raw === 'string' ? (JSON.parse(raw) as CacheEntry) : undefined;
+    },
+    async set(key, entry) {
+      const ttlMs = Math.max(1, entry.staleUntil - Date.now());
+      await command(['SET', keyPrefix + key, JSON.stringify(entry), 'PX', ttlMs]);
+    },
+    async delete(key) {
+      await command(['DEL', keyPrefix + key]);
+    },
+  };
+}
+
+// RESPONSE_CACHE_BACKEND picks the store: memory (default), file, or redis
+function createConfiguredStore(): ResponseCacheStore {
+  const backend = process.env.RESPONSE_CACHE_BACKEND?.toLowerCase();
+  if (backend === 'file') {
+    return createFileCacheStore(process.env.RESPONSE_CACHE_DIR || path.join(process.cwd(), '.data', 'cache'));
+  }
+  if (backend === 'redis') {
+    const url = process.env.RESPONSE_CACHE_REDIS_REST_URL;
+    const token = process.env.RESPONSE_CACHE_REDIS_REST_TOKEN;
+    if (url && token) return createRedisRestCacheStore(url, token);
+    console.warn('RESPONSE_CACHE_BACKEND=redis needs RESPONSE_CACHE_REDIS_REST_URL and RESPONSE_CACHE_REDIS_REST_TOKEN; using memory.');
+  }
+  return createMemoryCacheStore();
+}
+
+let store: ResponseCacheStore = createConfiguredStore();
+
+export function getResponseCacheStore(): ResponseCacheStore {
+  return store;
+}
+
+export function setResponseCacheStore(next: ResponseCacheStore): void {
+  store = next;
+}
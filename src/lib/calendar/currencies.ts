@@ -0,0 +1,26 @@
+// Maps calendar country codes to currencies, and catalog assets to the currencies whose releases move them.
+
+import type { Asset } from '@/lib/assets/types';
+
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  US: 'USD', EU: 'EUR', EMU: 'EUR', DE: 'EUR', FR: 'EUR', IT: 'EUR', ES: 'EUR', NL: 'EUR', IE: 'EUR',
+  GB: 'GBP', UK: 'GBP', JP: 'JPY', AU: 'AUD', CA: 'CAD', CH: 'CHF', NZ: 'NZD', CN: 'CNY', SG: 'SGD',
+  HK: 'HKD', SE: 'SEK', NO: 'NOK', DK: 'DKK', MX: 'MXN', ZA: 'ZAR', IN: 'INR', KR: 'KRW', BR: 'BRL',
+};
+
+const CALENDAR_CURRENCIES = new Set(Object.values(COUNTRY_CURRENCIES));
+
+export function currencyForCountry(countryCode: string): string | undefined {
+  return COUNTRY_CURRENCIES[countryCode.toUpperCase()];
+}
+
+/**
+ * Currencies whose releases matter for `asset`: both legs of an FX pair, the quote currency of metals and crypto
+ * (XAU/USD → USD), otherwise the asset's interest-rate currency. Falls back to USD.
+ */
+export function currenciesForAsset(asset: Pick<Asset, 'name' | 'economicIds'>): string[] {
+  const legs = asset.name.toUpperCase().split('/').map(part => part.trim()).filter(part => CALENDAR_CURRENCIES.has(part));
+  if (legs.length > 0) return Array.from(new Set(legs));
+  const rateCurrency = asset.economicIds.primaryCurrencyForInterestRate?.toUpperCase();
+  return [rateCurrency && CALENDAR_CURRENCIES.has(rateCurrency) ? rateCurrency : 'USD'];
+}
@@ -0,0 +1,74 @@
+import { budgetExceededMessage, noteRateLimited, tryAcquire } from '@/lib/rate-limit/limiter';
+import { currencyForCountry } from '../currencies';
+import type { EconomicCalendarProvider, EconomicEvent, EconomicImpact } from '../types';
+
+const BASE_URL = 'https://finnhub.io/api/v1';
+
+interface FinnhubCalendarEntry {
+  actual?: number | null;
+  country?: string;
+  estimate?: number | null;
+  event?: string;
+  impact?: string;
+  prev?: number | null;
+  time?: string;            // "2024-06-12 12:30:00", UTC
+  unit?: string;
+}
+
+const IMPACTS: Record<string, EconomicImpact> = { low: 'Low', medium: 'Medium', high: 'High', holiday: 'Holiday' };
+
+const formatValue = (value: number | null | undefined, unit?: string) =>
+  value === null || value === undefined ? undefined : `${value}${unit ?? ''}`;
+
+function toEvent(entry: FinnhubCalendarEntry): EconomicEvent | undefined {
+  if (!entry.time || !entry.event || !entry.country) return undefined;
+  const timestamp = Date.parse(`${entry.time.replace(' ', 'T')}Z`);
+  if (isNaN(timestamp)) return undefined;
+  return {
+    id: `finnhub:${entry.country}:${entry.time}:${entry.event}`,
+    releaseTime: new Date(timestamp).toISOString(),
+    currency: currencyForCountry(entry.country) ?? entry.country.toUpperCase(),
+    countryCode: entry.country.toUpperCase(),
+    title: entry.event,
+    impact: IMPACTS[entry.impact?.toLowerCase() ?? ''] ?? 'Low',
+    actual: formatValue(entry.actual, entry.unit),
+    forecast: formatValue(entry.estimate, entry.unit),
+    previous: formatValue(entry.prev, entry.unit),
+    timestamp,
+  };
+}
+
+// Finnhub's /calendar/economic takes whole days and returns release times in UTC
+export const finnhubCalendarProvider: EconomicCalendarProvider = {
+  id: 'finnhub',
+  name: 'Finnhub.io',
+
+  async fetchEvents(from, to, apiKeys) {
+    const apiKey = apiKeys.finnhub;
+    if (!apiKey) return { events: [], sourceProvider: this.name, error: 'Finnhub API key not provided.' };
+    const budget = tryAcquire('finnhub', apiKey);
+    if (!budget.ok) return { events: [], sourceProvider: this.name, error: budgetExceededMessage('Finnhub economic calendar', budget.retryAfterMs) };
+
+    const day = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+    const url = `${BASE_URL}/calendar/economic?from=${day(from)}&to=${day(to - 1)}&token=${apiKey}`;
+    try {
+      const response = await fetch(url, { cache: 'no-store' });
+      if (response.status === 429) noteRateLimited('finnhub', apiKey);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        const message = response.status === 401 || response.status === 403
+          ? 'Finnhub rejected the key or the plan does not include the economic calendar.'
+          : data.error || response.statusText;
+        return { events: [], sourceProvider: this.name, error: `Finnhub economic calendar error (${response.status}): ${message}` };
+      }
+      const entries: FinnhubCalendarEntry[] = Array.isArray(data.economicCalendar) ? data.economicCalendar : [];
+      const events = entries
+        .map(toEvent)
+        .filter((event): event is EconomicEvent => !!event && event.timestamp >= from && event.timestamp < to);
+      return { events, sourceProvider: this.name };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { events: [], sourceProvider: this.name, error: `Network error fetching the Finnhub economic calendar: ${message}` };
+    }
+  },
+};
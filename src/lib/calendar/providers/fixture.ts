@@ -0,0 +1,53 @@
+import weeklyEvents from '../fixtures/weekly-events.json';
+import { currencyForCountry } from '../currencies';
+import type { EconomicCalendarProvider, EconomicEvent, EconomicImpact } from '../types';
+
+interface FixtureEntry {
+  weekday: number;          // 0 = Sunday, as Date.getUTCDay
+  time: string;             // "HH:mm", UTC
+  country: string;
+  title: string;
+  impact: string;
+  actual?: string;
+  forecast?: string;
+  previous?: string;
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Sample calendar for local development and tests, selected with ECONOMIC_CALENDAR_PROVIDER=fixture. A weekly
+ * template repeats on every day of the requested range, so any range has events; `actual` is only filled in for
+ * releases that are already in the past.
+ */
+export const fixtureCalendarProvider: EconomicCalendarProvider = {
+  id: 'fixture',
+  name: 'Sample calendar',
+
+  async fetchEvents(from, to) {
+    const events: EconomicEvent[] = [];
+    const now = Date.now();
+    for (let day = Math.floor(from / DAY_MS) * DAY_MS; day < to; day += DAY_MS) {
+      const weekday = new Date(day).getUTCDay();
+      for (const entry of (weeklyEvents as FixtureEntry[]).filter(e => e.weekday === weekday)) {
+        const [hours, minutes] = entry.time.split(':').map(Number);
+        const timestamp = day + (hours * 60 + minutes) * 60_000;
+        if (timestamp < from || timestamp >= to) continue;
+        const releaseTime = new Date(timestamp).toISOString();
+        events.push({
+          id: `fixture:${entry.country}:${releaseTime}:${entry.title}`,
+          releaseTime,
+          currency: currencyForCountry(entry.country) ?? entry.country,
+          countryCode: entry.country,
+          title: entry.title,
+          impact: entry.impact as EconomicImpact,
+          actual: timestamp <= now ? entry.actual : undefined,
+          forecast: entry.forecast,
+          previous: entry.previous,
+          timestamp,
+        });
+      }
+    }
+    return { events, sourceProvider: this.name };
+  },
+};
@@ -0,0 +1,20 @@
+import { finnhubCalendarProvider } from './providers/finnhub';
+import { fixtureCalendarProvider } from './providers/fixture';
+import type { EconomicCalendarProvider, EconomicCalendarProviderId } from './types';
+
+export const DEFAULT_CALENDAR_PROVIDER: EconomicCalendarProviderId = 'finnhub';
+
+const providers = new Map<EconomicCalendarProviderId, EconomicCalendarProvider>();
+
+export function registerEconomicCalendarProvider(provider: EconomicCalendarProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/** The provider named by ECONOMIC_CALENDAR_PROVIDER (e.g. "fixture"), else DEFAULT_CALENDAR_PROVIDER. */
+export function getEconomicCalendarProvider(): EconomicCalendarProvider {
+  const configured = (process.env.ECONOMIC_CALENDAR_PROVIDER || '').trim().toLowerCase() as EconomicCalendarProviderId;
+  return providers.get(configured) ?? providers.get(DEFAULT_CALENDAR_PROVIDER)!;
+}
+
+registerEconomicCalendarProvider(finnhubCalendarProvider);
+registerEconomicCalendarProvider(fixtureCalendarProvider);
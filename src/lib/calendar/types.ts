@@ -0,0 +1,42 @@
+// Shapes for the economic calendar. The fetch-economic-events action re-exports them for components.
+
+import type { ApiKeys } from '@/lib/settings/api-keys';
+
+export type EconomicImpact = 'Low' | 'Medium' | 'High' | 'Holiday';
+
+export const ECONOMIC_IMPACTS: EconomicImpact[] = ['High', 'Medium', 'Low', 'Holiday'];
+
+export interface EconomicEvent {
+  id: string;
+  releaseTime: string;      // ISO 8601, UTC
+  currency: string;         // ISO 4217 code of the economy the release concerns
+  countryCode: string;
+  title: string;
+  impact: EconomicImpact;
+  actual?: string;          // Values keep the provider's unit, e.g. "3.2%"
+  forecast?: string;
+  previous?: string;
+  timestamp: number;        // Unix milliseconds
+}
+
+export type EconomicCalendarProviderId = 'finnhub' | 'fixture';
+
+export interface EconomicEventsQuery {
+  from?: number;            // Unix milliseconds; defaults to the start of today (UTC)
+  to?: number;              // Unix milliseconds, exclusive; defaults to seven days after `from`
+  currencies?: string[];    // Empty or absent: all currencies
+  impacts?: EconomicImpact[];
+}
+
+export interface EconomicEventsResult {
+  events: EconomicEvent[];  // Sorted by release time
+  sourceProvider?: string;
+  error?: string;
+}
+
+export interface EconomicCalendarProvider {
+  id: EconomicCalendarProviderId;
+  name: string;
+  /** Every event released in [from, to). Errors come back in the result rather than as exceptions. */
+  fetchEvents(from: number, to: number, apiKeys: ApiKeys): Promise<EconomicEventsResult>;
+}
@@ -0,0 +1,38 @@
+// Server-side Firestore handle through the Admin SDK. Persistence runs only in server actions and jobs, with service
+// credentials, so the Firestore security rules can deny every client request. Features that persist data check
+// isFirebaseConfigured() and report themselves as disabled otherwise.
+
+import { applicationDefault, cert, getApp, getApps, initializeApp, type AppOptions } from 'firebase-admin/app';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+const APP_NAME = 'foresight-server';
+
+// FIREBASE_SERVICE_ACCOUNT_KEY holds the service-account JSON; otherwise Application Default Credentials apply
+// (GOOGLE_APPLICATION_CREDENTIALS or the host's identity). The emulator needs only a project id.
+function firebaseOptions(): AppOptions | undefined {
+  const projectId = process.env.FIREBASE_PROJECT_ID;
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+  if (serviceAccount) {
+    const parsed = JSON.parse(serviceAccount);
+    return { credential: cert(parsed), projectId: projectId ?? parsed.project_id };
+  }
+  if (process.env.GOOGLE_APPLICATION_CREDENTIALS) return { credential: applicationDefault(), projectId };
+  if (process.env.FIRESTORE_EMULATOR_HOST && projectId) return { projectId };
+  return undefined;
+}
+
+export function isFirebaseConfigured(): boolean {
+  return !!(process.env.FIREBASE_SERVICE_ACCOUNT_KEY || process.env.GOOGLE_APPLICATION_CREDENTIALS
+    || (process.env.FIRESTORE_EMULATOR_HOST && process.env.FIREBASE_PROJECT_ID));
+}
+
+/** The shared Firestore instance, or undefined when Firebase is not configured. */
+export function getFirestoreDb(): Firestore | undefined {
+  if (getApps().some(app => app.name === APP_NAME)) return getFirestore(getApp(APP_NAME));
+  const options = firebaseOptions();
+  if (!options) return undefined;
+  const db = getFirestore(initializeApp(options, APP_NAME));
+  // Optional fields are written as absent rather than rejected
+  db.settings({ ignoreUndefinedProperties: true });
+  return db;
+}
@@ -0,0 +1,72 @@
+// Reading FRED series: values in force on a date, when a rate last moved, year-over-year inflation and spreads.
+
+import type { FredObservation } from './types';
+
+/** Value in force on `date`: the latest observation on or before it. Observations are oldest first. */
+export function valueOn(observations: FredObservation[], date: string): number | undefined {
+  let value: number | undefined;
+  for (const observation of observations) {
+    if (observation.date > date) break;
+    value = observation.value;
+  }
+  return value;
+}
+
+export interface SeriesChange {
+  date: string;            // First observation at the new level
+  from: number;
+  to: number;
+}
+
+/** The most recent observation that differs from the one before it; undefined when the series never moved. */
+export function lastChange(observations: FredObservation[]): SeriesChange | undefined {
+  for (let i = observations.length - 1; i > 0; i--) {
+    if (observations[i].value !== observations[i - 1].value) {
+      return { date: observations[i].date, from: observations[i - 1].value, to: observations[i].value };
+    }
+  }
+  return undefined;
+}
+
+const yearEarlier = (date: string) => `${Number(date.slice(0, 4)) - 1}${date.slice(4)}`;
+
+/** Percent change of an index against its value a year earlier, for every observation with a year of history. */
+export function yearOverYear(observations: FredObservation[]): FredObservation[] {
+  if (observations.length === 0) return [];
+  const firstDate = observations[0].date;
+  return observations.flatMap(observation => {
+    const then = yearEarlier(observation.date);
+    const yearAgo = then >= firstDate ? valueOn(observations, then) : undefined;
+    return yearAgo ? [{ date: observation.date, value: parseFloat((((observation.value - yearAgo) / yearAgo) * 100).toFixed(2)) }] : [];
+  });
+}
+
+/** `long − short` on each date both series report, e.g. the 10y−2y yield-curve spread. */
+export function spreadSeries(long: FredObservation[], short: FredObservation[]): FredObservation[] {
+  const shortByDate = new Map(short.map(o => [o.date, o.value]));
+  return long.flatMap(o => {
+    const other = shortByDate.get(o.date);
+    return other === undefined ? [] : [{ date: o.date, value: parseFloat((o.value - other).toFixed(2)) }];
+  });
+}
+
+export interface AlignedRow {
+  date: string;
+  [seriesKey: string]: string | number;
+}
+
+/**
+ * Rows for a multi-line chart: one per date any series reports, each series carried forward from its last
+ * observation. Dates before a series' first observation leave it out.
+ */
+export function alignSeries(series: Record<string, FredObservation[]>): AlignedRow[] {
+  const dates = Array.from(new Set(Object.values(series).flatMap(observations => observations.map(o => o.date)))).sort();
+  return dates.map(date => {
+    const row: AlignedRow = { date };
+    for (const [key, observations] of Object.entries(series)) {
+      const value = valueOn(observations, date);
+      if (value !== undefined) row[key] = value;
+    }
+    return row;
+  });
+}
@@ -0,0 +1,57 @@
+// FRED observations API. History requests are cached per series and start date; the start is a month boundary, so
+// every caller asking for "the last N months" during a month shares one entry.
+
+import { cached, cacheKey } from '@/lib/cache/cached';
+import { budgetExceededMessage, noteRateLimited, tryAcquire } from '@/lib/rate-limit/limiter';
+import type { FredObservation, FredSeriesResult } from './types';
+
+const BASE_URL = 'https://api.stlouisfed.org/fred/series/observations';
+
+export interface FredRequestOptions {
+  start?: string;          // observation_start, yyyy-MM-dd
+  limit?: number;
+  sortOrder?: 'asc' | 'desc';
+}
+
+/** Observations of `seriesId`, returned oldest first whatever the sort order asked of FRED. Missing values are dropped. */
+export async function requestFredObservations(seriesId: string, apiKey: string, options: FredRequestOptions = {}): Promise<FredSeriesResult> {
+  const budget = tryAcquire('fred', apiKey);
+  if (!budget.ok) return { seriesId, error: budgetExceededMessage('FRED', budget.retryAfterMs) };
+
+  const params = new URLSearchParams({ series_id: seriesId, api_key: apiKey, file_type: 'json', sort_order: options.sortOrder ?? 'asc' });
+  if (options.start) params.set('observation_start', options.start);
+  if (options.limit) params.set('limit', String(options.limit));
+
+  try {
+    const response = await fetch(`${BASE_URL}?${params}`, { cache: 'no-store' });
+    const data = await response.json();
+    if (response.status === 429) noteRateLimited('fred', apiKey);
+
+    if (!response.ok || data.error_message || !Array.isArray(data.observations) || data.observations.length === 0) {
+      let errorMessage = data.error_message || response.statusText || 'No observations found.';
+      if (response.status === 400 && data.error_message?.includes('API key')) {
+        errorMessage = 'Invalid FRED API Key.';
+      } else if (response.status === 400 && data.error_message?.toLowerCase().includes('series does not exist')) {
+        errorMessage = `The series ${seriesId} does not exist or is not accessible.`;
+      }
+      return { seriesId, error: `FRED API Error for ${seriesId}: ${errorMessage}` };
+    }
+
+    // Missing values come through as "."
+    const observations: FredObservation[] = data.observations
+      .map((o: { date: string; value: string }) => ({ date: o.date, value: parseFloat(o.value) }))
+      .filter((o: FredObservation) => !isNaN(o.value));
+    if (options.sortOrder === 'desc') observations.reverse();
+    return { seriesId, observations };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { seriesId, error: `FRED: Network/Client error for ${seriesId} - ${msg.substring(0, 100)}` };
+  }
+}
+
+/** Every observation of `seriesId` since `start` (yyyy-MM-dd), cached. */
+export function fetchFredHistory(seriesId: string, apiKey: string, start: string): Promise<FredSeriesResult> {
+  return cached(cacheKey('fredSeries', seriesId, start), 'fredSeries', () => requestFredObservations(seriesId, apiKey, { start }), {
+    cacheable: result => !result.error,
+  });
+}
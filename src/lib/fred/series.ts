@@ -0,0 +1,26 @@
+// FRED series the dashboard reads: central-bank policy rates by currency, and the US yields and CPI that make up
+// the macro backdrop.
+
+import type { FredSeriesInfo } from './types';
+
+const policyRate = (currency: string, id: string, label: string): FredSeriesInfo => ({ id, label, kind: 'policyRate', currency, units: 'percent' });
+
+export const POLICY_RATE_SERIES: Record<string, FredSeriesInfo> = {
+  USD: policyRate('USD', 'FEDFUNDS', 'Federal Funds Effective Rate'),
+  EUR: policyRate('EUR', 'ECBDFR', 'ECB Deposit Facility Rate'),
+  JPY: policyRate('JPY', 'BOJDPBAL', 'BoJ Complementary Deposit Facility Rate'),
+  GBP: policyRate('GBP', 'BOEPR', 'Bank of England Official Bank Rate'),
+  AUD: policyRate('AUD', 'RBATCTR', 'RBA Cash Rate Target'),
+  CAD: policyRate('CAD', 'V122530', 'Bank of Canada Overnight Rate Target'),
+  CHF: policyRate('CHF', 'SNBCHFMA', 'SNB Policy Rate'),
+  NZD: policyRate('NZD', 'RBNZOCRHC', 'RBNZ Official Cash Rate'),
+  // SGD: MAS steers the exchange rate rather than a policy rate, so there is no series to map
+};
+
+export const US_TREASURY_2Y: FredSeriesInfo = { id: 'DGS2', label: '2-Year Treasury Yield', kind: 'yield', currency: 'USD', units: 'percent' };
+export const US_TREASURY_10Y: FredSeriesInfo = { id: 'DGS10', label: '10-Year Treasury Yield', kind: 'yield', currency: 'USD', units: 'percent' };
+export const US_CPI: FredSeriesInfo = { id: 'CPIAUCSL', label: 'US Consumer Price Index', kind: 'inflation', currency: 'USD', units: 'index' };
+
+export function policyRateSeriesFor(currency: string): FredSeriesInfo | undefined {
+  return POLICY_RATE_SERIES[currency.toUpperCase()];
+}
@@ -0,0 +1,22 @@
+// FRED (Federal Reserve Economic Data) series and observations.
+
+export interface FredObservation {
+  date: string;            // yyyy-MM-dd
+  value: number;           // In the series' units
+}
+
+export type FredSeriesKind = 'policyRate' | 'yield' | 'inflation';
+
+export interface FredSeriesInfo {
+  id: string;              // FRED series ID, e.g. "FEDFUNDS"
+  label: string;
+  kind: FredSeriesKind;
+  currency: string;        // Economy the series describes
+  units: 'percent' | 'index';
+}
+
+export interface FredSeriesResult {
+  seriesId: string;
+  observations?: FredObservation[]; // Oldest first
+  error?: string;
+}
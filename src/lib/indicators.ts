@@ -0,0 +1,275 @@
+// Pure technical-indicator functions computed from candle data.
+// Every series function returns an array aligned with its input; entries are undefined until
+// enough data exists for the indicator's look-back (the "warm-up" period).
+
+export type IndicatorSeries = Array<number | undefined>;
+
+export interface OhlcInput {
+  high: number;
+  low: number;
+  close: number;
+}
+
+export function sma(values: number[], period: number): IndicatorSeries {
+  const out: IndicatorSeries = new Array(values.length).fill(undefined);
+  if (period <= 0) return out;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) out[i] = sum / period;
+  }
+  return out;
+}
+
+// Exponential moving average, seeded with the SMA of the first `period` values.
+export function ema(values: number[], period: number): IndicatorSeries {
+  const out: IndicatorSeries = new Array(values.length).fill(undefined);
+  if (period <= 0 || values.length < period) return out;
+  const k = 2 / (period + 1);
+  let prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  out[period - 1] = prev;
+  for (let i = period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k);
+    out[i] = prev;
+  }
+  return out;
+}
+
+// Wilder's smoothing (RMA), used by RSI, ATR and ADX.
+function wilder(values: number[], period: number, startIndex = 0): IndicatorSeries {
+  const out: IndicatorSeries = new Array(values.length).fill(undefined);
+  if (values.length - startIndex < period) return out;
+  let prev = 0;
+  for (let i = startIndex; i < startIndex + period; i++) prev += values[i];
+  prev /= period;
+  out[startIndex + period - 1] = prev;
+  for (let i = startIndex + period; i < values.length; i++) {
+    prev = (prev * (period - 1) + values[i]) / period;
+    out[i] = prev;
+  }
+  return out;
+}
+
+export function rsi(closes: number[], period = 14): IndicatorSeries {
+  const out: IndicatorSeries = new Array(closes.length).fill(undefined);
+  if (closes.length <= period) return out;
+  const gains = [0];
+  const losses = [0];
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gains.push(Math.max(change, 0));
+    losses.push(Math.max(-change, 0));
+  }
+  const avgGain = wilder(gains, period, 1);
+  const avgLoss = wilder(losses, period, 1);
+  for (let i = 0; i < closes.length; i++) {
+    const g = avgGain[i];
+    const l = avgLoss[i];
+    if (g === undefined || l === undefined) continue;
+    out[i] = l === 0 ? (g === 0 ? 50 : 100) : 100 - 100 / (1 + g / l);
+  }
+  return out;
+}
+
+export interface MacdSeries {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+export function macd(closes: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MacdSeries {
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const macdLine: IndicatorSeries = closes.map((_, i) =>
+    fast[i] !== undefined && slow[i] !== undefined ? fast[i]! - slow[i]! : undefined
+  );
+
+  // Signal line is an EMA over the defined part of the MACD line
+  const firstDefined = macdLine.findIndex(v => v !== undefined);
+  const signal: IndicatorSeries = new Array(closes.length).fill(undefined);
+  if (firstDefined >= 0) {
+    const signalValues = ema(macdLine.slice(firstDefined) as number[], signalPeriod);
+    signalValues.forEach((v, i) => { signal[firstDefined + i] = v; });
+  }
+  const histogram: IndicatorSeries = macdLine.map((v, i) =>
+    v !== undefined && signal[i] !== undefined ? v - signal[i]! : undefined
+  );
+  return { macd: macdLine, signal, histogram };
+}
+
+export interface BollingerSeries {
+  middle: IndicatorSeries;
+  upper: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+export function bollinger(closes: number[], period = 20, stdDevMultiplier = 2): BollingerSeries {
+  const middle = sma(closes, period);
+  const upper: IndicatorSeries = new Array(closes.length).fill(undefined);
+  const lower: IndicatorSeries = new Array(closes.length).fill(undefined);
+  for (let i = period - 1; i < closes.length; i++) {
+    const mean = middle[i];
+    if (mean === undefined) continue;
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) variance += (closes[j] - mean) ** 2;
+    const sd = Math.sqrt(variance / period);
+    upper[i] = mean + stdDevMultiplier * sd;
+    lower[i] = mean - stdDevMultiplier * sd;
+  }
+  return { middle, upper, lower };
+}
+
+function trueRanges(candles: OhlcInput[]): number[] {
+  return candles.map((c, i) => {
+    if (i === 0) return c.high - c.low;
+    const prevClose = candles[i - 1].close;
+    return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+  });
+}
+
+export function atr(candles: OhlcInput[], period = 14): IndicatorSeries {
+  return wilder(trueRanges(candles), period);
+}
+
+export interface StochasticSeries {
+  k: IndicatorSeries;
+  d: IndicatorSeries;
+}
+
+export function stochastic(candles: OhlcInput[], kPeriod = 14, dPeriod = 3): StochasticSeries {
+  const k: IndicatorSeries = new Array(candles.length).fill(undefined);
+  for (let i = kPeriod - 1; i < candles.length; i++) {
+    const window = candles.slice(i - kPeriod + 1, i + 1);
+    const highest = Math.max(...window.map(c => c.high));
+    const lowest = Math.min(...window.map(c => c.low));
+    k[i] = highest === lowest ? 50 : ((candles[i].close - lowest) / (highest - lowest)) * 100;
+  }
+  const firstDefined = k.findIndex(v => v !== undefined);
+  const d: IndicatorSeries = new Array(candles.length).fill(undefined);
+  if (firstDefined >= 0) {
+    sma(k.slice(firstDefined) as number[], dPeriod).forEach((v, i) => { d[firstDefined + i] = v; });
+  }
+  return { k, d };
+}
+
+export interface AdxSeries {
+  adx: IndicatorSeries;
+  plusDI: IndicatorSeries;
+  minusDI: IndicatorSeries;
+}
+
+export function adx(candles: OhlcInput[], period = 14): AdxSeries {
+  const len = candles.length;
+  const plusDM = [0];
+  const minusDM = [0];
+  for (let i = 1; i < len; i++) {
+    const up = candles[i].high - candles[i - 1].high;
+    const down = candles[i - 1].low - candles[i].low;
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+  const smoothedTr = wilder(trueRanges(candles), period, 1);
+  const smoothedPlus = wilder(plusDM, period, 1);
+  const smoothedMinus = wilder(minusDM, period, 1);
+
+  const plusDI: IndicatorSeries = new Array(len).fill(undefined);
+  const minusDI: IndicatorSeries = new Array(len).fill(undefined);
+  const dx: number[] = [];
+  let dxStart = -1;
+  for (let i = 0; i < len; i++) {
+    const tr = smoothedTr[i];
+    if (tr === undefined || smoothedPlus[i] === undefined || smoothedMinus[i] === undefined) continue;
+    plusDI[i] = tr === 0 ? 0 : (smoothedPlus[i]! / tr) * 100;
+    minusDI[i] = tr === 0 ? 0 : (smoothedMinus[i]! / tr) * 100;
+    const sum = plusDI[i]! + minusDI[i]!;
+    if (dxStart < 0) dxStart = i;
+    dx.push(sum === 0 ? 0 : (Math.abs(plusDI[i]! - minusDI[i]!) / sum) * 100);
+  }
+
+  const adxSeries: IndicatorSeries = new Array(len).fill(undefined);
+  if (dxStart >= 0) {
+    wilder(dx, period).forEach((v, i) => { adxSeries[dxStart + i] = v; });
+  }
+  return { adx: adxSeries, plusDI, minusDI };
+}
+
+export interface SupportResistanceLevels {
+  support: number[];
+  resistance: number[];
+}
+
+/**
+ * Finds horizontal levels from swing pivots: a bar whose high (low) is the extreme of the
+ * `lookback` bars on either side. Pivots within `tolerance` (fraction of price) are merged, and
+ * the levels touched most often are kept, nearest to the last close first.
+ */
+export function supportResistanceLevels(
+  candles: OhlcInput[],
+  lookback = 3,
+  maxLevels = 3,
+  tolerance = 0.0015
+): SupportResistanceLevels {
+  const highs: number[] = [];
+  const lows: number[] = [];
+  for (let i = lookback; i < candles.length - lookback; i++) {
+    const window = candles.slice(i - lookback, i + lookback + 1);
+    if (candles[i].high === Math.max(...window.map(c => c.high))) highs.push(candles[i].high);
+    if (candles[i].low === Math.min(...window.map(c => c.low))) lows.push(candles[i].low);
+  }
+
+  const cluster = (levels: number[]) => {
+    const groups: { sum: number; count: number }[] = [];
+    for (const level of [...levels].sort((a, b) => a - b)) {
+      const last = groups[groups.length - 1];
+      if (last && Math.abs(level - last.sum / last.count) <= (last.sum / last.count) * tolerance) {
+        last.sum += level;
+        last.count += 1;
+      } else {
+        groups.push({ sum: level, count: 1 });
+      }
+    }
+    return groups.map(g => ({ level: g.sum / g.count, touches: g.count }));
+  };
+
+  const lastClose = candles.length > 0 ? candles[candles.length - 1].close : 0;
+  const pick = (levels: number[], below: boolean) =>
+    cluster(levels)
+      .filter(l => (below ? l.level <= lastClose : l.level >= lastClose))
+      .sort((a, b) => b.touches - a.touches || Math.abs(a.level - lastClose) - Math.abs(b.level - lastClose))
+      .slice(0, maxLevels)
+      .map(l => l.level)
+      .sort((a, b) => Math.abs(a - lastClose) - Math.abs(b - lastClose));
+
+  return { support: pick(lows, true), resistance: pick(highs, false) };
+}
+
+export function lastDefined(series: IndicatorSeries): number | undefined {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i] !== undefined && !isNaN(series[i]!)) return series[i];
+  }
+  return undefined;
+}
+
+export interface IndicatorSnapshot {
+  rsi?: number;
+  macd?: { value?: number; signal?: number; histogram?: number };
+}
+
+/** Latest RSI(14) and MACD(12,26,9) values for a close series, as shown on the dashboard. */
+export function computeIndicatorSnapshot(closes: number[]): IndicatorSnapshot {
+  const snapshot: IndicatorSnapshot = {};
+  const rsiValue = lastDefined(rsi(closes));
+  if (rsiValue !== undefined) snapshot.rsi = rsiValue;
+
+  const macdSeries = macd(closes);
+  const value = lastDefined(macdSeries.macd);
+  if (value !== undefined) {
+    snapshot.macd = {
+      value,
+      signal: lastDefined(macdSeries.signal),
+      histogram: lastDefined(macdSeries.histogram),
+    };
+  }
+  return snapshot;
+}
@@ -0,0 +1,125 @@
+// Pure outcome scoring for recorded signals: labels BUY/SELL signals hit or miss from the bars that followed
+// them, and aggregates scored signals into a scorecard.
+
+import { timeframeToMinutes } from '@/lib/market-data/candles';
+import type { HistoricalDataPoint } from '@/lib/market-data/types';
+import type { ScorecardRow, SignalOutcome, SignalRecord, SignalScorecard } from './types';
+
+export const DEFAULT_OUTCOME_HORIZON_BARS = 10;
+const MAX_OUTCOME_HISTORY_BARS = 5000;
+
+export const isDirectionalSignal = (record: SignalRecord) =>
+  record.output.recommendation === 'BUY' || record.output.recommendation === 'SELL';
+
+// The bars the signal was generated from; records journaled before barMinutes was stored assume the timeframe's own
+const signalBarMinutes = (record: SignalRecord) => record.barMinutes ?? timeframeToMinutes(record.timeframe);
+
+/** Unix ms after which `horizonBars` full bars have closed since the signal. */
+export function outcomeDueAt(record: SignalRecord, horizonBars: number): number {
+  return record.createdAt + horizonBars * signalBarMinutes(record) * 60_000;
+}
+
+/**
+ * Bars of history reaching back past the oldest of `records` (same timeframe), so one request scores them all.
+ * Counted in the timeframe's own bars, the shortest any provider serves for it.
+ */
+export function outcomeHistoryBars(records: SignalRecord[], now: number = Date.now()): number {
+  const oldest = Math.min(...records.map(r => r.createdAt));
+  const barMs = timeframeToMinutes(records[0].timeframe) * 60_000;
+  return Math.min(MAX_OUTCOME_HISTORY_BARS, Math.ceil((now - oldest) / barMs) + 2); // Plus the bar the signal fell in
+}
+
+/**
+ * Scores one BUY/SELL signal against `candles` (oldest first, same asset and timeframe, `barMinutes` long). The
+ * horizon spans `horizonBars` of the signal's bars, taken as the candles opening at or after the signal time; only
+ * closed candles count. Returns undefined while the horizon is still incomplete.
+ */
+export function evaluateSignalOutcome(
+  record: SignalRecord,
+  candles: HistoricalDataPoint[],
+  barMinutes: number,
+  horizonBars: number = DEFAULT_OUTCOME_HORIZON_BARS,
+  now: number = Date.now()
+): SignalOutcome | undefined {
+  if (!isDirectionalSignal(record)) return undefined;
+  const barMs = barMinutes * 60_000;
+  const pathBars = Math.max(1, Math.round(horizonBars * signalBarMinutes(record) / barMinutes)); // The history may come from another provider
+  const unscorable = (note: string): SignalOutcome => ({ status: 'unscorable', horizonBars, note, evaluatedAt: now });
+  if (record.priceIsFallback) return unscorable('The signal was generated from a placeholder price, not market data.');
+
+  if (candles.length === 0) return undefined;
+  if (candles[0].timestamp > record.createdAt) {
+    return unscorable('Available price history starts after the signal was generated.');
+  }
+
+  const path = candles
+    .filter(c => c.timestamp >= record.createdAt && c.timestamp + barMs <= now)
+    .slice(0, pathBars);
+  if (path.length < pathBars) return undefined;
+
+  const entryPrice = record.input.price ?? path[0].open;
+  if (!entryPrice || !isFinite(entryPrice)) return unscorable('No entry price recorded for the signal.');
+
+  const direction = record.output.recommendation === 'BUY' ? 1 : -1;
+  const highest = Math.max(...path.map(c => c.high));
+  const lowest = Math.min(...path.map(c => c.low));
+  const exitPrice = path[path.length - 1].close;
+  const returnPct = direction * (exitPrice - entryPrice) / entryPrice * 100;
+  const upPct = (highest - entryPrice) / entryPrice * 100;
+  const downPct = (entryPrice - lowest) / entryPrice * 100;
+
+  return {
+    status: returnPct > 0 ? 'hit' : 'miss',
+    horizonBars,
+    entryPrice,
+    exitPrice,
+    returnPct,
+    mfePct: Math.max(0, direction === 1 ? upPct : downPct),
+    maePct: Math.max(0, direction === 1 ? downPct : upPct),
+    evaluatedAt: now,
+  };
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined);
+
+function scorecardRow(key: string, records: SignalRecord[]): ScorecardRow {
+  const outcomes = records.map(r => r.outcome!);
+  const hits = outcomes.filter(o => o.status === 'hit').length;
+  const signals = outcomes.length;
+  return {
+    key,
+    signals,
+    hits,
+    misses: signals - hits,
+    hitRatePct: signals > 0 ? hits / signals * 100 : undefined,
+    avgReturnPct: average(outcomes.map(o => o.returnPct ?? 0)),
+    avgMfePct: average(outcomes.map(o => o.mfePct ?? 0)),
+    avgMaePct: average(outcomes.map(o => o.maePct ?? 0)),
+  };
+}
+
+function groupRows(records: SignalRecord[], keyOf: (record: SignalRecord) => string): ScorecardRow[] {
+  const groups = new Map<string, SignalRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return Array.from(groups, ([key, group]) => scorecardRow(key, group)).sort((a, b) => b.signals - a.signals);
+}
+
+/** Accuracy of scored BUY/SELL signals, overall and by asset, timeframe, confidence, data provider and flow. */
+export function buildSignalScorecard(records: SignalRecord[]): SignalScorecard {
+  const directional = records.filter(isDirectionalSignal);
+  const scored = directional.filter(r => r.outcome && r.outcome.status !== 'unscorable');
+
+  return {
+    overall: scorecardRow('All signals', scored),
+    byAsset: groupRows(scored, r => r.assetName),
+    byTimeframe: groupRows(scored, r => r.timeframe),
+    byConfidence: groupRows(scored, r => r.output.confidence ?? 'Not stated'),
+    byProvider: groupRows(scored, r => r.marketDataProvider ?? 'Unknown'),
+    bySource: groupRows(scored, r => (r.source === 'chart-analysis' ? 'Chart analysis' : 'Trade recommendation')),
+    pending: directional.filter(r => !r.outcome).length,
+    unscorable: directional.filter(r => r.outcome?.status === 'unscorable').length,
+  };
+}
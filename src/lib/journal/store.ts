@@ -0,0 +1,67 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import { getFirestoreDb } from '@/lib/firebase';
+import type { NewSignalRecord, SignalAnnotation, SignalHistoryFilter, SignalOutcome, SignalRecord } from './types';
+
+/** Persists each user's signal history. Swap the implementation via setSignalJournalStore. */
+export interface SignalJournalStore {
+  add(userId: string, record: NewSignalRecord): Promise<SignalRecord>;
+  list(userId: string, filter: SignalHistoryFilter): Promise<SignalRecord[]>;
+  annotate(userId: string, signalId: string, annotation: SignalAnnotation): Promise<void>;
+  setOutcome(userId: string, signalId: string, outcome: SignalOutcome): Promise<void>;
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+// Filters are applied to the most recent documents in memory, so no composite Firestore indexes are needed
+export const SCAN_LIMIT = 1000;
+
+export function matchesSignalFilter(record: SignalRecord, filter: SignalHistoryFilter): boolean {
+  if (filter.assetName && record.assetName !== filter.assetName) return false;
+  if (filter.timeframe && record.timeframe !== filter.timeframe) return false;
+  if (filter.recommendation && record.output.recommendation !== filter.recommendation) return false;
+  if (filter.source && record.source !== filter.source) return false;
+  if (filter.annotated !== undefined && !!record.annotation !== filter.annotated) return false;
+  if (filter.scored !== undefined && !!record.outcome !== filter.scored) return false;
+  if (filter.since !== undefined && record.createdAt < filter.since) return false;
+  return true;
+}
+
+// One subcollection per user: signalJournal/{userId}/signals/{signalId}; userId is the opaque storage id
+function createFirestoreSignalJournalStore(db: Firestore): SignalJournalStore {
+  const signalsOf = (userId: string) => db.collection('signalJournal').doc(userId).collection('signals');
+
+  return {
+    async add(userId, record) {
+      const stored = { ...record, createdAt: Date.now() };
+      const ref = await signalsOf(userId).add(stored);
+      return { ...stored, id: ref.id };
+    },
+    async list(userId, filter) {
+      const snapshot = await signalsOf(userId).orderBy('createdAt', 'desc').limit(SCAN_LIMIT).get();
+      return snapshot.docs
+        .map(d => ({ ...(d.data() as Omit<SignalRecord, 'id'>), id: d.id }))
+        .filter(record => matchesSignalFilter(record, filter))
+        .slice(0, filter.limit ?? DEFAULT_LIST_LIMIT);
+    },
+    async annotate(userId, signalId, annotation) {
+      await signalsOf(userId).doc(signalId).update({ annotation });
+    },
+    async setOutcome(userId, signalId, outcome) {
+      await signalsOf(userId).doc(signalId).update({ outcome });
+    },
+  };
+}
+
+let store: SignalJournalStore | undefined;
+
+/** The configured journal store, or undefined when no backend (Firebase) is configured. */
+export function getSignalJournalStore(): SignalJournalStore | undefined {
+  if (!store) {
+    const db = getFirestoreDb();
+    if (db) store = createFirestoreSignalJournalStore(db);
+  }
+  return store;
+}
+
+export function setSignalJournalStore(next: SignalJournalStore): void {
+  store = next;
+}
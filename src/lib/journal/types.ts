@@ -0,0 +1,99 @@
+// Shapes for the persisted signal history. Server actions (signal-journal.ts) re-export them for components.
+
+import type { AnalyzeChartImageInput } from '@/ai/flows/analyze-chart-image-flow';
+import type { GenerateTradeRecommendationInput } from '@/ai/flows/generate-trade-recommendation';
+import type { TradeAction } from '@/lib/backtest/types';
+
+// Which flow produced the signal
+export type SignalSource = 'trade-recommendation' | 'chart-analysis';
+
+export type SignalRecommendation = TradeAction | 'UNCLEAR'; // UNCLEAR only comes from chart analysis
+
+export type SignalConfidence = 'High' | 'Medium' | 'Low';
+
+export interface RecordedSignal {
+  recommendation: SignalRecommendation;
+  reason: string;
+  confidence?: SignalConfidence;
+}
+
+// The chart image itself is not stored; only the live data that accompanied it
+export type ChartAnalysisInputSnapshot = Omit<AnalyzeChartImageInput, 'imageDataUri'>;
+
+// What the user actually did with a signal
+export type SignalTradeAction = 'followed' | 'faded' | 'skipped' | 'other';
+
+export interface SignalAnnotation {
+  action: SignalTradeAction;
+  note?: string;
+  updatedAt: number; // Unix milliseconds
+}
+
+export type SignalOutcomeStatus =
+  | 'hit'          // Price moved in the signal's direction over the horizon
+  | 'miss'
+  | 'unscorable';  // History no longer covers the signal time, or no real entry price is known
+
+export interface SignalOutcome {
+  status: SignalOutcomeStatus;
+  horizonBars: number;
+  entryPrice?: number;
+  exitPrice?: number;  // Close of the last bar in the horizon
+  returnPct?: number;  // Signed in the signal's direction: positive means the signal was right
+  mfePct?: number;     // Max favorable excursion within the horizon, >= 0
+  maePct?: number;     // Max adverse excursion within the horizon, >= 0
+  note?: string;       // Why an outcome is unscorable
+  evaluatedAt: number; // Unix milliseconds
+}
+
+export interface SignalRecord {
+  id: string;
+  source: SignalSource;
+  assetName: string;
+  timeframe: string;
+  input: GenerateTradeRecommendationInput | ChartAnalysisInputSnapshot; // Exactly what was sent to the flow
+  priceIsFallback?: boolean;               // input.price was a placeholder, not market data; never scored
+  output: RecordedSignal;                  // AI flow output
+  ruleOutput?: RecordedSignal;             // Rule engine output for the same input (trade recommendations only)
+  marketDataProvider?: string;
+  dataTimestamp?: number; // Last trade time of the market data the input was built from, Unix milliseconds
+  barMinutes?: number;    // Length of the bars the provider served, which may be coarser than the timeframe
+  createdAt: number;      // Unix milliseconds
+  annotation?: SignalAnnotation;
+  outcome?: SignalOutcome;
+}
+
+export type NewSignalRecord = Omit<SignalRecord, 'id' | 'createdAt' | 'annotation' | 'outcome'>;
+
+export interface SignalHistoryFilter {
+  assetName?: string;
+  timeframe?: string;
+  recommendation?: SignalRecommendation;
+  source?: SignalSource;
+  annotated?: boolean; // true: only annotated, false: only unannotated
+  scored?: boolean;    // true: only signals with an outcome, false: only signals without one
+  since?: number;      // Unix milliseconds
+  limit?: number;
+}
+
+export interface ScorecardRow {
+  key: string;
+  signals: number; // Scored BUY/SELL signals (hits + misses)
+  hits: number;
+  misses: number;
+  hitRatePct?: number;
+  avgReturnPct?: number;
+  avgMfePct?: number;
+  avgMaePct?: number;
+}
+
+export interface SignalScorecard {
+  overall: ScorecardRow;
+  byAsset: ScorecardRow[];
+  byTimeframe: ScorecardRow[];
+  byConfidence: ScorecardRow[];
+  byProvider: ScorecardRow[];
+  bySource: ScorecardRow[];
+  pending: number;    // BUY/SELL signals still waiting for their horizon to complete
+  unscorable: number;
+}
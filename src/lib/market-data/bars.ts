@@ -0,0 +1,84 @@
+// Bar boundaries per timeframe. Intraday bars up to 1H sit on the UTC clock grid. 4H and daily bars are anchored
+// to the market's day roll: 17:00 New York for FX and commodities (the interbank close), 16:00 New York for US
+// equities and indices, and midnight UTC for crypto, which trades around the clock. The grid paces refreshes only:
+// providers align their own 4H/1D candles (Polygon.io and TwelveData on UTC), so whether a candle has closed is
+// decided from its own open time and the bar length the provider actually served.
+
+import { computeIndicatorSnapshot } from '@/lib/indicators';
+import { timeframeToMinutes } from './candles';
+import type { ClosedBarSnapshot, HistoricalDataPoint } from './types';
+
+export type SessionConvention = 'fx' | 'us-equity' | 'crypto';
+
+export interface BarBounds {
+  openTime: number;  // Unix milliseconds, inclusive
+  closeTime: number; // Unix milliseconds, exclusive; the bar is complete from this instant
+}
+
+const DAY_ROLL: Record<SessionConvention, { timeZone: string; hour: number }> = {
+  fx: { timeZone: 'America/New_York', hour: 17 },
+  'us-equity': { timeZone: 'America/New_York', hour: 16 },
+  crypto: { timeZone: 'UTC', hour: 0 },
+};
+
+const SESSION_ANCHORED_MINUTES = 240; // 4H and longer follow the day roll
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Offset of `timeZone` from UTC at `timestamp`, in milliseconds (e.g. -4h for New York in summer)
+function timeZoneOffsetMs(timestamp: number, timeZone: string): number {
+  if (timeZone === 'UTC') return 0;
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(timestamp)).map(p => [p.type, Number(p.value)]));
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return asUtc - Math.floor(timestamp / 60_000) * 60_000;
+}
+
+export function sessionConventionFor(assetType: string): SessionConvention {
+  if (assetType === 'crypto') return 'crypto';
+  if (assetType === 'equity' || assetType === 'index') return 'us-equity';
+  return 'fx';
+}
+
+/** The bar of `timeframeId` that contains `timestamp`. */
+export function barBounds(timestamp: number, timeframeId: string, convention: SessionConvention): BarBounds {
+  const barMs = timeframeToMinutes(timeframeId) * 60_000;
+  if (timeframeToMinutes(timeframeId) < SESSION_ANCHORED_MINUTES) {
+    const openTime = Math.floor(timestamp / barMs) * barMs;
+    return { openTime, closeTime: openTime + barMs };
+  }
+  // Shift the clock so the day roll falls on midnight, align there, and shift back
+  const { timeZone, hour } = DAY_ROLL[convention];
+  const shift = timeZoneOffsetMs(timestamp, timeZone) - hour * 3_600_000;
+  const openTime = Math.floor((timestamp + shift) / barMs) * barMs - shift;
+  return { openTime, closeTime: openTime + barMs };
+}
+
+/** Close of the bar forming at `now`, i.e. when the next official signal is due. */
+export function nextBarClose(timeframeId: string, convention: SessionConvention, now = Date.now()): number {
+  return barBounds(now, timeframeId, convention).closeTime;
+}
+
+/** When the candle opening at `timestamp` closes, whatever grid the provider aligned it to. */
+export function candleCloseTime(timestamp: number, barMinutes: number): number {
+  return timestamp + barMinutes * 60_000;
+}
+
+/** Indicators over the candles that had closed by `now`; undefined when none had. */
+export function closedBarSnapshot(
+  candles: HistoricalDataPoint[] | undefined,
+  barMinutes: number,
+  now = Date.now()
+): ClosedBarSnapshot | undefined {
+  const closed = (candles ?? []).filter(c => candleCloseTime(c.timestamp, barMinutes) <= now);
+  const last = closed[closed.length - 1];
+  if (!last) return undefined;
+  const { rsi, macd } = computeIndicatorSnapshot(closed.map(c => c.close));
+  return { closeTime: candleCloseTime(last.timestamp, barMinutes), close: last.close, rsi, macd };
+}
@@ -0,0 +1,101 @@
+import { format } from 'date-fns';
+import type { HistoricalDataPoint } from './types';
+
+export interface RawCandle {
+  timestamp: number; // Unix milliseconds
+  open: number | string;
+  high: number | string;
+  low: number | string;
+  close: number | string;
+  volume?: number | string | null;
+}
+
+const toNumber = (v: number | string | null | undefined) => (v === null || v === undefined || v === '' ? NaN : Number(v));
+
+// Intraday bars are labelled by time, daily and above by date.
+export function candleDateFormat(timeframeId: string): string {
+  return timeframeId.includes('min') || timeframeId.includes('H') ? 'HH:mm' : 'MMM dd';
+}
+
+const TIMEFRAME_MINUTES: Record<string, number> = {
+  '1min': 1, '2min': 2, '3min': 3, '4min': 4, '5min': 5, '15min': 15, '1H': 60, '4H': 240, '1D': 1440,
+};
+
+/** Bar length in minutes for a dashboard timeframe id; unknown ids are treated as 1H like the providers do. */
+export function timeframeToMinutes(timeframeId: string): number {
+  return TIMEFRAME_MINUTES[timeframeId] ?? 60;
+}
+
+/**
+ * Converts provider rows into oldest-first HistoricalDataPoints. Rows with a non-finite OHLC value
+ * are dropped and duplicate timestamps keep the last occurrence.
+ */
+export function normalizeCandles(rows: RawCandle[], dateFormat: string): HistoricalDataPoint[] {
+  const byTimestamp = new Map<number, HistoricalDataPoint>();
+  for (const row of rows) {
+    const open = toNumber(row.open);
+    const high = toNumber(row.high);
+    const low = toNumber(row.low);
+    const close = toNumber(row.close);
+    if (!Number.isFinite(row.timestamp) || ![open, high, low, close].every(Number.isFinite)) continue;
+    const volume = toNumber(row.volume);
+    byTimestamp.set(row.timestamp, {
+      timestamp: row.timestamp,
+      date: format(new Date(row.timestamp), dateFormat),
+      open,
+      high,
+      low,
+      close,
+      ...(Number.isFinite(volume) && { volume }),
+    });
+  }
+  return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Merges two candle series; bars in `newer` replace bars with the same timestamp in `older`. */
+export function mergeCandles(older: HistoricalDataPoint[], newer: HistoricalDataPoint[]): HistoricalDataPoint[] {
+  const byTimestamp = new Map<number, HistoricalDataPoint>();
+  for (const c of older) byTimestamp.set(c.timestamp, c);
+  for (const c of newer) byTimestamp.set(c.timestamp, c);
+  return Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Folds a streamed price into the latest bar, or opens the next bar (dropping the oldest, so the window keeps
+ * its length) once the tick falls past it. Ticks older than the latest bar are ignored. `barMinutes` is the length
+ * of the bars the provider served, which may be coarser than the timeframe.
+ */
+export function applyTickToCandles(
+  candles: HistoricalDataPoint[],
+  tick: { price: number; timestamp: number; volume?: number },
+  timeframeId: string,
+  barMinutes: number = timeframeToMinutes(timeframeId)
+): HistoricalDataPoint[] {
+  const last = candles[candles.length - 1];
+  if (!last || tick.timestamp < last.timestamp) return candles;
+  const barMs = barMinutes * 60_000;
+
+  if (tick.timestamp < last.timestamp + barMs) {
+    const updated: HistoricalDataPoint = {
+      ...last,
+      high: Math.max(last.high, tick.price),
+      low: Math.min(last.low, tick.price),
+      close: tick.price,
+      ...(last.volume !== undefined && tick.volume !== undefined && { volume: last.volume + tick.volume }),
+    };
+    return [...candles.slice(0, -1), updated];
+  }
+
+  // Bars stay on the provider's grid, counted on from the latest one
+  const timestamp = last.timestamp + Math.floor((tick.timestamp - last.timestamp) / barMs) * barMs;
+  const bar: HistoricalDataPoint = {
+    timestamp,
+    date: format(new Date(timestamp), candleDateFormat(timeframeId)),
+    open: tick.price,
+    high: tick.price,
+    low: tick.price,
+    close: tick.price,
+    ...(tick.volume !== undefined && { volume: tick.volume }),
+  };
+  return [...candles.slice(1), bar];
+}
@@ -0,0 +1,293 @@
+import { cached, cacheKey, cacheState } from '@/lib/cache/cached';
+import type { CacheDataType } from '@/lib/cache/policies';
+import { computeIndicatorSnapshot } from '@/lib/indicators';
+import { acquire, budgetExceededMessage, budgetWaitMs, noteRateLimited } from '@/lib/rate-limit/limiter';
+import { closedBarSnapshot, nextBarClose, sessionConventionFor, type SessionConvention } from './bars';
+import { timeframeToMinutes } from './candles';
+import { getMarketDataProvider, getProviderOrder } from './registry';
+import type {
+  CandleHistory,
+  MarketAsset,
+  MarketData,
+  MarketDataApiKeys,
+  MarketDataProvider,
+  MarketDataProviderId,
+  ProviderAttempt,
+  ProviderCallResult,
+  ProviderError,
+  ProviderErrorKind,
+} from './types';
+
+// A call waits this long for its provider's budget before the provider is treated as exhausted
+const BUDGET_SCHEDULE_WAIT_MS = 2000;
+
+// When several calls fail, report the kind that best explains the failure to the user.
+const ERROR_KIND_PRIORITY: ProviderErrorKind[] = ['auth', 'rate-limit', 'network', 'not-found', 'upstream', 'no-data'];
+
+function mostSevereKind(errors: ProviderError[]): ProviderErrorKind | undefined {
+  return ERROR_KIND_PRIORITY.find(kind => errors.some(e => e.kind === kind));
+}
+
+export function hasEssentialData(data: MarketData): boolean {
+  return data.price !== undefined ||
+    (data.rsi !== undefined && data.macd?.value !== undefined) ||
+    (!!data.historical && data.historical.length > 0);
+}
+
+async function safeCall<T>(label: string, call: () => Promise<ProviderCallResult<T>>): Promise<ProviderCallResult<T>> {
+  try {
+    return await call();
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { error: { kind: 'network', message: `${label}: Network/Client error - ${msg.substring(0, 100)}` } };
+  }
+}
+
+interface ProviderCall {
+  key: string;
+  dataType: CacheDataType;
+}
+
+// The upstream calls fetchFromProvider makes for one refresh
+function refreshCalls(provider: MarketDataProvider, symbol: string, timeframeId: string): Record<'quote' | 'candles' | 'marketStatus', ProviderCall | undefined> {
+  const { capabilities } = provider;
+  return {
+    quote: capabilities.quote ? { key: cacheKey('quote', provider.id, symbol), dataType: 'quote' } : undefined,
+    candles: capabilities.candles ? { key: cacheKey('candles', provider.id, symbol, timeframeId), dataType: 'candles' } : undefined,
+    marketStatus: capabilities.marketStatus && provider.fetchMarketStatus
+      ? { key: cacheKey('marketStatus', provider.id, symbol), dataType: 'marketStatus' }
+      : undefined,
+  };
+}
+
+/**
+ * Undefined when the provider's request budget covers the calls the cache can't answer; otherwise how long until
+ * it does. Lets the cascade move on to the next provider before a call is refused, rather than after a 429.
+ */
+async function budgetShortfallMs(provider: MarketDataProvider, apiKey: string, calls: (ProviderCall | undefined)[]): Promise<number | undefined> {
+  const states = await Promise.all(calls.filter((c): c is ProviderCall => !!c).map(c => cacheState(c.key)));
+  const needed = states.filter(state => state === 'missing').length;
+  if (needed === 0) return undefined;
+  const wait = budgetWaitMs(provider.id, apiKey, needed);
+  return wait > BUDGET_SCHEDULE_WAIT_MS ? wait : undefined;
+}
+
+// Every upstream call draws from the provider's request budget and goes through the response cache. Successful
+// responses are cached; so are not-found answers, which don't change between refreshes (e.g. Polygon has no
+// snapshot for most FX pairs). Other failures are only coalesced.
+function cachedProviderCall<T>(
+  { key, dataType }: ProviderCall,
+  provider: MarketDataProvider,
+  apiKey: string,
+  label: string,
+  call: () => Promise<ProviderCallResult<T>>,
+  timeframeId?: string,
+  freshUntil?: number
+): Promise<ProviderCallResult<T>> {
+  const load = async (): Promise<ProviderCallResult<T>> => {
+    const budget = await acquire(provider.id, apiKey, BUDGET_SCHEDULE_WAIT_MS);
+    if (!budget.ok) return { error: { kind: 'rate-limit', message: budgetExceededMessage(label, budget.retryAfterMs) } };
+    const result = await safeCall(label, call);
+    if (result.error?.kind === 'rate-limit') noteRateLimited(provider.id, apiKey);
+    return result;
+  };
+  return cached(key, dataType, load, {
+    timeframeId,
+    freshUntil,
+    cacheable: result => !result.error || result.error.kind === 'not-found',
+  });
+}
+
+// The bar length a provider serves for a timeframe, which is coarser than the timeframe when it has no such resolution
+function servedBarMinutes(provider: MarketDataProvider, timeframeId: string): number {
+  return provider.candleMinutes?.(timeframeId) ?? timeframeToMinutes(timeframeId);
+}
+
+/**
+ * Runs every capability a provider supports in parallel and merges the results into one MarketData.
+ * RSI and MACD are computed locally from the candles, so values agree regardless of provider.
+ * A missing market-status snapshot (not-found) is not treated as an error when other data arrived.
+ */
+export async function fetchFromProvider(
+  provider: MarketDataProvider,
+  symbol: string,
+  assetName: string,
+  timeframeId: string,
+  apiKey: string,
+  convention: SessionConvention = 'fx'
+): Promise<MarketData> {
+  const result: MarketData = { assetName, timeframe: timeframeId, sourceProvider: provider.name, marketStatus: 'unknown' };
+  const calls = refreshCalls(provider, symbol, timeframeId);
+
+  const [quote, candles, status] = await Promise.all([
+    calls.quote
+      ? cachedProviderCall(calls.quote, provider, apiKey, 'Price', () => provider.fetchQuote(symbol, apiKey))
+      : undefined,
+    calls.candles
+      // Cached candles expire when the forming bar closes, so the closed bar is picked up right away
+      ? cachedProviderCall(calls.candles, provider, apiKey, 'Historical', () => provider.fetchCandles(symbol, timeframeId, apiKey), timeframeId, nextBarClose(timeframeId, convention))
+      : undefined,
+    calls.marketStatus
+      ? cachedProviderCall(calls.marketStatus, provider, apiKey, 'Snapshot', () => provider.fetchMarketStatus!(symbol, apiKey))
+      : undefined,
+  ]);
+
+  const errors: ProviderError[] = [];
+
+  if (status?.data) {
+    result.marketStatus = status.data.marketStatus;
+    result.lastTradeTimestamp = status.data.lastTradeTimestamp;
+  }
+  if (quote?.data) {
+    result.price = quote.data.price;
+    if (!result.lastTradeTimestamp && quote.data.timestamp) result.lastTradeTimestamp = quote.data.timestamp;
+  }
+  if (candles?.data && candles.data.length > 0) {
+    const { rsi, macd } = computeIndicatorSnapshot(candles.data.map(c => c.close));
+    result.rsi = rsi;
+    result.macd = macd;
+    result.historical = candles.data; // Full series; the chart trims for display and uses the rest as overlay warm-up
+    result.barMinutes = servedBarMinutes(provider, timeframeId);
+  }
+
+  for (const call of [status, quote, candles]) {
+    if (call?.error) errors.push(call.error);
+  }
+
+  const essential = hasEssentialData(result);
+  const blockingErrors = essential && status?.error?.kind === 'not-found'
+    ? errors.filter(e => e !== status.error)
+    : errors;
+  if (blockingErrors.length !== errors.length) {
+    console.warn(`${provider.name}: Snapshot for ${symbol} returned 404, but other data was fetched.`);
+  }
+
+  if (blockingErrors.length > 0) {
+    result.error = `${provider.name}: ${blockingErrors.map(e => e.message).join('; ')}`;
+    result.errorKind = mostSevereKind(blockingErrors);
+  } else if (!essential) {
+    result.error = `${provider.name}: No market data could be retrieved for ${assetName}. Verify symbol and API key/plan.`;
+    result.errorKind = 'no-data';
+  }
+  return result;
+}
+
+/**
+ * Tries each configured provider in priority order. The first provider returning essential data wins;
+ * partial results are returned with their error prefixed. Every provider considered is recorded in `attempts`.
+ */
+export async function runProviderCascade(
+  asset: MarketAsset,
+  timeframeId: string,
+  apiKeys: MarketDataApiKeys,
+  providerOrder?: MarketDataProviderId[]
+): Promise<MarketData> {
+  const attempts: ProviderAttempt[] = [];
+  let lastResult: MarketData | undefined;
+
+  for (const id of getProviderOrder(providerOrder)) {
+    const provider = getMarketDataProvider(id);
+    const apiKey = apiKeys[id];
+    const symbol = provider?.resolveSymbol(asset);
+    if (!provider || !apiKey || !symbol) {
+      attempts.push({ provider: id, status: 'skipped', error: !apiKey ? 'No API key configured.' : 'Asset not mapped for this provider.' });
+      continue;
+    }
+    const shortfallMs = await budgetShortfallMs(provider, apiKey, Object.values(refreshCalls(provider, symbol, timeframeId)));
+    if (shortfallMs !== undefined) {
+      attempts.push({ provider: id, status: 'skipped', error: budgetExceededMessage(provider.name, shortfallMs), errorKind: 'rate-limit' });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    const convention = sessionConventionFor(asset.type);
+    const data = await fetchFromProvider(provider, symbol, asset.name, timeframeId, apiKey, convention);
+    const durationMs = Date.now() - startedAt;
+    data.closedBar = closedBarSnapshot(data.historical, data.barMinutes ?? timeframeToMinutes(timeframeId));
+
+    if (hasEssentialData(data)) {
+      if (data.error) {
+        console.warn(`${provider.name} for ${asset.name} (${timeframeId}) had partial data with error: ${data.error}`);
+        attempts.push({ provider: id, status: 'partial', error: data.error, errorKind: data.errorKind, durationMs });
+        return { ...data, error: `Partial data from ${provider.name}: ${data.error}`, attempts };
+      }
+      console.log(`Successfully fetched from ${provider.name} for ${asset.name} (${timeframeId}). Market Status: ${data.marketStatus}`);
+      attempts.push({ provider: id, status: 'success', durationMs });
+      return { ...data, attempts };
+    }
+
+    attempts.push({ provider: id, status: 'failed', error: data.error, errorKind: data.errorKind, durationMs });
+    lastResult = data;
+  }
+
+  const attemptSummary = attempts.map(a => `${a.provider}: ${a.status}${a.error ? ` (${a.error})` : ''}`).join(' | ');
+  console.warn(`All market data providers failed for ${asset.name} (${timeframeId}). Attempts: ${attemptSummary}`);
+
+  if (lastResult) return { ...lastResult, attempts };
+  const budgetSkip = attempts.find(a => a.errorKind === 'rate-limit');
+  return {
+    assetName: asset.name,
+    timeframe: timeframeId,
+    sourceProvider: 'Unknown',
+    marketStatus: 'unknown',
+    error: budgetSkip ? `All providers are over their request budget. ${budgetSkip.error}` : 'No API providers configured or all failed for market data.',
+    errorKind: budgetSkip ? 'rate-limit' : undefined,
+    attempts,
+  };
+}
+
+/**
+ * Candle-only cascade: returns up to `limit` recent bars from the first provider that has any.
+ * Quotes and market status are not requested, so this costs one call per provider tried.
+ */
+export async function fetchCandleHistory(
+  asset: MarketAsset,
+  timeframeId: string,
+  apiKeys: MarketDataApiKeys,
+  limit: number,
+  providerOrder?: MarketDataProviderId[]
+): Promise<CandleHistory> {
+  const attempts: ProviderAttempt[] = [];
+  let lastError: ProviderError | undefined;
+  let lastProvider: MarketDataProvider | undefined;
+
+  for (const id of getProviderOrder(providerOrder)) {
+    const provider = getMarketDataProvider(id);
+    const apiKey = apiKeys[id];
+    const symbol = provider?.resolveSymbol(asset);
+    if (!provider || !apiKey || !symbol || !provider.capabilities.candles) {
+      attempts.push({ provider: id, status: 'skipped', error: !apiKey ? 'No API key configured.' : 'Asset not mapped for this provider.' });
+      continue;
+    }
+    const call: ProviderCall = { key: cacheKey('candles', provider.id, symbol, timeframeId, limit), dataType: 'candles' };
+    const shortfallMs = await budgetShortfallMs(provider, apiKey, [call]);
+    if (shortfallMs !== undefined) {
+      attempts.push({ provider: id, status: 'skipped', error: budgetExceededMessage(provider.name, shortfallMs), errorKind: 'rate-limit' });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    const { data, error } = await cachedProviderCall(
+      call, provider, apiKey, 'Historical', () => provider.fetchCandles(symbol, timeframeId, apiKey, limit), timeframeId
+    );
+    const durationMs = Date.now() - startedAt;
+
+    if (data && data.length > 0) {
+      attempts.push({ provider: id, status: 'success', durationMs });
+      return { candles: data, sourceProvider: provider.name, barMinutes: servedBarMinutes(provider, timeframeId), attempts };
+    }
+    const failure = error ?? { kind: 'no-data' as const, message: 'Historical: No data returned.' };
+    attempts.push({ provider: id, status: 'failed', error: failure.message, errorKind: failure.kind, durationMs });
+    lastError = failure;
+    lastProvider = provider;
+  }
+
+  return {
+    candles: [],
+    sourceProvider: lastProvider?.name ?? 'Unknown',
+    barMinutes: timeframeToMinutes(timeframeId),
+    error: lastError && lastProvider ? `${lastProvider.name}: ${lastError.message}` : 'No API providers configured or all failed for market data.',
+    errorKind: lastError?.kind,
+    attempts,
+  };
+}
@@ -0,0 +1,44 @@
+import type { MarketDataProvider, ProviderCallResult, ProviderErrorKind } from './types';
+
+const ERROR_KIND_MESSAGES: Record<ProviderErrorKind, string> = {
+  'auth': 'Invalid/unauthorized API Key.',
+  'rate-limit': 'API rate limit hit.',
+  'not-found': 'Symbol or endpoint not found.',
+  'no-data': 'Data not found/unexpected format.',
+  'network': 'Network/Client error.',
+  'upstream': 'Upstream API error.',
+};
+
+export function describeErrorKind(kind: ProviderErrorKind): string {
+  return ERROR_KIND_MESSAGES[kind];
+}
+
+// Fetches a JSON endpoint and converts non-OK responses into a classified ProviderError.
+// `label` prefixes error messages (e.g. "Price", "Historical") so combined errors stay readable.
+// Not cached here: the cascade caches per data type (see lib/cache).
+export async function fetchProviderJson(
+  provider: Pick<MarketDataProvider, 'classifyError'>,
+  url: string,
+  label: string
+): Promise<ProviderCallResult<any>> {
+  try {
+    const response = await fetch(url, { cache: 'no-store' });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      const kind = provider.classifyError(response.status, body);
+      const detail = body?.message || body?.error || body?.s || response.statusText || '';
+      const message = kind === 'upstream'
+        ? `${label} API Error ${response.status}: ${String(detail).substring(0, 100)}`
+        : `${label}: ${describeErrorKind(kind)}`;
+      return { error: { kind, message } };
+    }
+    return { data: body };
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { error: { kind: 'network', message: `${label}: Network/Client error - ${msg.substring(0, 100)}` } };
+  }
+}
+
+export function noData(label: string, detail?: string): ProviderCallResult<never> {
+  return { error: { kind: 'no-data', message: `${label}: ${detail || describeErrorKind('no-data')}` } };
+}
@@ -0,0 +1,125 @@
+import { subDays } from 'date-fns';
+import { fetchProviderJson, noData } from '../http';
+import { resolveProviderSymbol } from '../symbols';
+import { normalizeCandles } from '../candles';
+import type { MarketDataProvider, ProviderErrorKind } from '../types';
+
+const BASE_URL = 'https://finnhub.io/api/v1';
+
+// Helper to map our timeframe IDs to Finnhub resolution
+function mapTimeframeToFinnhubResolution(timeframeId: string): string {
+  switch (timeframeId) {
+    case '1min': return '1';
+    case '2min': return '1'; // Finnhub doesn't have 2min, use 1min
+    case '3min': return '1'; // Finnhub doesn't have 3min, use 1min
+    case '4min': return '1'; // Finnhub doesn't have 4min, use 1min
+    case '5min': return '5';
+    case '15min': return '15';
+    case '1H': return '60';
+    case '4H': return 'D'; // Finnhub may not have 4H, use Daily as fallback
+    case '1D': return 'D';
+    default: return '60';
+  }
+}
+
+// Forex and crypto tickers carry an exchange prefix (OANDA:EUR_USD, BINANCE:BTCUSDT) and are only listed
+// by the per-exchange symbol endpoints; /search covers stocks, ETFs and indices.
+const FOREX_EXCHANGES = ['OANDA', 'FXCM', 'FOREX.COM', 'FXPRO', 'ICMTRADER', 'OCTAFX', 'PEPPERSTONE'];
+const CRYPTO_EXCHANGES = ['BINANCE', 'COINBASE', 'KRAKEN', 'BITFINEX', 'BITSTAMP', 'GEMINI', 'HUOBI', 'KUCOIN', 'OKEX', 'POLONIEX'];
+
+function symbolListPath(query: string): string | undefined {
+  const exchange = query.includes(':') ? query.split(':')[0].toUpperCase() : undefined;
+  if (!exchange) return undefined;
+  if (FOREX_EXCHANGES.includes(exchange)) return `/forex/symbol?exchange=${encodeURIComponent(exchange.toLowerCase())}`;
+  if (CRYPTO_EXCHANGES.includes(exchange)) return `/crypto/symbol?exchange=${encodeURIComponent(exchange.toLowerCase())}`;
+  return undefined;
+}
+
+export const finnhubProvider: MarketDataProvider = {
+  id: 'finnhub',
+  name: 'Finnhub.io',
+  capabilities: { quote: true, candles: true, marketStatus: false },
+
+  resolveSymbol: (asset) => resolveProviderSymbol(asset, 'finnhub').symbol,
+
+  classifyError(status): ProviderErrorKind {
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 429) return 'rate-limit';
+    if (status === 404) return 'not-found';
+    return 'upstream';
+  },
+
+  async fetchQuote(symbol, apiKey) {
+    const url = `${BASE_URL}/quote?symbol=${symbol}&token=${apiKey}`;
+    const { data, error } = await fetchProviderJson(this, url, 'Quote');
+    if (error) return { error };
+    if (data.c === undefined) return noData('Quote', 'Price data (c) not found.');
+    return {
+      data: {
+        price: parseFloat(data.c),
+        timestamp: data.t !== undefined ? data.t * 1000 : undefined, // Finnhub 't' is Unix seconds
+      },
+    };
+  },
+
+  candleMinutes(timeframeId) {
+    const resolution = mapTimeframeToFinnhubResolution(timeframeId);
+    return resolution === 'D' ? 1440 : Number(resolution);
+  },
+
+  async fetchCandles(symbol, timeframeId, apiKey, limit) {
+    const resolution = mapTimeframeToFinnhubResolution(timeframeId);
+    const now = Math.floor(Date.now() / 1000);
+    // The window follows the mapped resolution, not the timeframe: 4H is served as daily candles
+    const minutesPerPoint = Number(resolution); // Intraday resolutions are minute counts; D, W and M are not
+    let fromTs: number;
+    if (Number.isFinite(minutesPerPoint)) {
+      fromTs = now - ((limit ?? 60) * minutesPerPoint * 60 * 2); // Fetch ~double needed
+    } else {
+      const daysPerPoint = resolution === 'M' ? 31 : resolution === 'W' ? 7 : 1;
+      fromTs = Math.floor(subDays(new Date(), Math.max(90, Math.ceil((limit ?? 0) * daysPerPoint * 1.5))).getTime() / 1000); // At least 90 days
+    }
+
+    const url = `${BASE_URL}/stock/candle?symbol=${symbol}&resolution=${resolution}&from=${fromTs}&to=${now}&token=${apiKey}`;
+    const { data, error } = await fetchProviderJson(this, url, 'Historical');
+    if (error) return { error };
+    if (data.s === 'ok' && data.c && data.t) {
+      const dateFormat = Number.isFinite(minutesPerPoint) ? 'HH:mm' : 'MMM dd';
+      // Finnhub returns parallel arrays; 't' is Unix seconds
+      const points = normalizeCandles(
+        data.t.map((t: number, i: number) => ({
+          timestamp: t * 1000,
+          open: data.o?.[i],
+          high: data.h?.[i],
+          low: data.l?.[i],
+          close: data.c[i],
+          volume: data.v?.[i],
+        })),
+        dateFormat
+      );
+      return { data: limit ? points.slice(-limit) : points };
+    }
+    if (data.s !== 'ok') return { error: { kind: data.s === 'no_data' ? 'no-data' : 'upstream', message: `Historical: API error - ${data.s || 'Finnhub Historical Error'}` } };
+    return noData('Historical');
+  },
+
+  async searchSymbols(query, apiKey) {
+    const listPath = symbolListPath(query);
+    if (listPath) {
+      const { data, error } = await fetchProviderJson(this, `${BASE_URL}${listPath}&token=${apiKey}`, 'Symbol search');
+      if (error) return { error };
+      if (!Array.isArray(data)) return noData('Symbol search');
+      const term = query.toUpperCase();
+      return {
+        data: data
+          .filter((s: any) => String(s.symbol).toUpperCase().includes(term) || String(s.displaySymbol).toUpperCase().includes(term))
+          .slice(0, 50)
+          .map((s: any) => ({ symbol: s.symbol, description: s.description, exchange: String(s.symbol).split(':')[0] })),
+      };
+    }
+    const { data, error } = await fetchProviderJson(this, `${BASE_URL}/search?q=${encodeURIComponent(query)}&token=${apiKey}`, 'Symbol search');
+    if (error) return { error };
+    if (!Array.isArray(data.result)) return noData('Symbol search');
+    return { data: data.result.map((r: any) => ({ symbol: r.symbol, description: r.description, type: r.type })) };
+  },
+};
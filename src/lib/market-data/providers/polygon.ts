@@ -0,0 +1,107 @@
+import { format, subDays, subMinutes } from 'date-fns';
+import { fetchProviderJson, noData } from '../http';
+import { resolveProviderSymbol } from '../symbols';
+import { candleDateFormat, normalizeCandles } from '../candles';
+import type { MarketDataProvider, ProviderErrorKind } from '../types';
+
+const BASE_URL = 'https://api.polygon.io';
+const HISTORICAL_LIMIT = 120; // Aim for up to 120 data points for charts
+const MAX_LIMIT = 5000;
+
+// Multiplier, timespan and lookback window for the aggregates (candles) endpoint.
+// Windows are sized for HISTORICAL_LIMIT bars and stretched proportionally for larger requests.
+function getAggregatesRange(timeframeId: string, today: Date, bars: number): { multiplier: number; timespan: string; from: Date } {
+  const scale = Math.max(1, bars / HISTORICAL_LIMIT);
+  switch (timeframeId) {
+    case '1min': return { multiplier: 1, timespan: 'minute', from: subMinutes(today, bars * 1 * 2) }; // ~2 hours
+    case '2min': return { multiplier: 2, timespan: 'minute', from: subMinutes(today, bars * 2 * 2) }; // ~4 hours
+    case '3min': return { multiplier: 3, timespan: 'minute', from: subMinutes(today, bars * 3 * 2) }; // ~6 hours
+    case '4min': return { multiplier: 4, timespan: 'minute', from: subMinutes(today, bars * 4 * 2) }; // ~8 hours
+    case '5min': return { multiplier: 5, timespan: 'minute', from: subMinutes(today, bars * 5 * 2) }; // ~10 hours
+    case '15min': return { multiplier: 15, timespan: 'minute', from: subDays(today, Math.ceil(3 * scale)) };
+    case '1H': return { multiplier: 1, timespan: 'hour', from: subDays(today, Math.ceil(10 * scale)) };
+    case '4H': return { multiplier: 4, timespan: 'hour', from: subDays(today, Math.ceil(30 * scale)) };
+    case '1D': return { multiplier: 1, timespan: 'day', from: subDays(today, Math.ceil(180 * scale)) };
+    default: return { multiplier: 1, timespan: 'hour', from: subDays(today, Math.ceil(10 * scale)) }; // Default to 1H equivalent
+  }
+}
+
+// Ticker prefixes select the reference-data market: C:EURUSD (fx), X:BTCUSD (crypto), I:SPX (indices), else stocks
+const MARKET_BY_PREFIX: Record<string, string> = { C: 'fx', X: 'crypto', I: 'indices' };
+
+export const polygonProvider: MarketDataProvider = {
+  id: 'polygon',
+  name: 'Polygon.io',
+  capabilities: { quote: true, candles: true, marketStatus: true },
+
+  resolveSymbol: (asset) => resolveProviderSymbol(asset, 'polygon').symbol,
+
+  classifyError(status, body): ProviderErrorKind {
+    if (status === 401 || status === 403 || body?.status === 'NOT_AUTHORIZED') return 'auth';
+    if (status === 429) return 'rate-limit';
+    if (status === 404) return 'not-found';
+    return 'upstream';
+  },
+
+  async fetchQuote(symbol, apiKey) {
+    const url = `${BASE_URL}/v2/aggs/ticker/${symbol}/prev?adjusted=true&apiKey=${apiKey}`;
+    const { data, error } = await fetchProviderJson(this, url, 'Price');
+    if (error) return { error };
+    if (data.results?.[0]?.c !== undefined) {
+      return { data: { price: parseFloat(data.results[0].c), timestamp: data.results[0].t } };
+    }
+    if (data.status === 'ERROR') return { error: { kind: 'upstream', message: `Price: API error - ${data.error || data.message}` } };
+    return noData('Price');
+  },
+
+  async fetchCandles(symbol, timeframeId, apiKey, limit) {
+    const today = new Date();
+    const bars = Math.min(limit ?? HISTORICAL_LIMIT, MAX_LIMIT);
+    const { multiplier, timespan, from } = getAggregatesRange(timeframeId, today, bars);
+    // Newest-first so `limit` keeps the most recent bars; normalizeCandles restores chronological order
+    const url = `${BASE_URL}/v2/aggs/ticker/${symbol}/range/${multiplier}/${timespan}/${format(from, 'yyyy-MM-dd')}/${format(today, 'yyyy-MM-dd')}?adjusted=true&sort=desc&limit=${bars}&apiKey=${apiKey}`;
+    const { data, error } = await fetchProviderJson(this, url, 'Historical');
+    if (error) return { error };
+    if (data.results) {
+      const points = normalizeCandles(
+        data.results.map((r: any) => ({ timestamp: r.t, open: r.o, high: r.h, low: r.l, close: r.c, volume: r.v })),
+        candleDateFormat(timeframeId)
+      );
+      return { data: points };
+    }
+    if (data.status === 'ERROR') return { error: { kind: 'upstream', message: `Historical: API error - ${data.error || data.message}` } };
+    return noData('Historical');
+  },
+
+  async fetchMarketStatus(symbol, apiKey) {
+    const url = `${BASE_URL}/v2/snapshot/tickers/${symbol}?apiKey=${apiKey}`;
+    const { data, error } = await fetchProviderJson(this, url, 'Snapshot');
+    if (error) {
+      if (error.kind === 'not-found') {
+        return { error: { kind: 'not-found', message: `Market status snapshot unavailable for ${symbol} (404).` } };
+      }
+      return { error };
+    }
+    const ticker = data.ticker;
+    if (!ticker) return noData('Snapshot');
+    return {
+      data: {
+        marketStatus: ticker.marketStatus ? ticker.marketStatus.toLowerCase() : 'unknown',
+        // Prefer last trade, then last quote (no trade yet), then snapshot update time
+        lastTradeTimestamp: ticker.lastTrade?.t ?? ticker.lastQuote?.t ?? ticker.updated,
+      },
+    };
+  },
+
+  async searchSymbols(query, apiKey) {
+    const [, prefix, term] = query.match(/^([A-Z]):(.+)$/) ?? [undefined, undefined, query];
+    const market = prefix ? MARKET_BY_PREFIX[prefix] : undefined;
+    const url = `${BASE_URL}/v3/reference/tickers?search=${encodeURIComponent(term!)}${market ? `&market=${market}` : ''}&active=true&limit=50&apiKey=${apiKey}`;
+    const { data, error } = await fetchProviderJson(this, url, 'Symbol search');
+    if (error) return { error };
+    if (!Array.isArray(data.results)) return noData('Symbol search');
+    return {
+      data: data.results.map((r: any) => ({ symbol: r.ticker, description: r.name, type: r.market, exchange: r.primary_exchange })),
+    };
+  },
+};
@@ -0,0 +1,102 @@
+import { fetchProviderJson, noData } from '../http';
+import { resolveProviderSymbol } from '../symbols';
+import { normalizeCandles } from '../candles';
+import type { MarketDataProvider, ProviderCallResult, ProviderErrorKind } from '../types';
+
+const BASE_URL = 'https://api.twelvedata.com';
+
+// Helper to map our timeframe IDs to Twelve Data interval
+function mapTimeframeToTwelveDataInterval(timeframeId: string): string {
+  switch (timeframeId) {
+    case '1min': return '1min';
+    case '2min': return '1min'; // TwelveData might not have 2min, use 1min
+    case '3min': return '1min'; // TwelveData might not have 3min, use 1min
+    case '4min': return '1min'; // TwelveData might not have 4min, use 1min
+    case '5min': return '5min';
+    case '15min': return '15min';
+    case '1H': return '1h';
+    case '4H': return '4h';
+    case '1D': return '1day';
+    default: return '1h';
+  }
+}
+
+// time_series is requested with timezone=UTC; datetimes come back as "yyyy-MM-dd HH:mm:ss" or "yyyy-MM-dd".
+function parseUtcDatetime(datetime: string): number {
+  const iso = datetime.includes(' ') ? datetime.replace(' ', 'T') : `${datetime}T00:00:00`;
+  return Date.parse(`${iso}Z`);
+}
+
+// TwelveData frequently answers HTTP 200 with {status: 'error', code, message}; treat those like HTTP errors.
+function bodyError(provider: MarketDataProvider, label: string, body: any): ProviderCallResult<never> | undefined {
+  if (body?.status !== 'error') return undefined;
+  const kind = provider.classifyError(typeof body.code === 'number' ? body.code : 200, body);
+  return { error: { kind, message: `${label}: API error - ${String(body.message || 'Unknown error').substring(0, 100)}` } };
+}
+
+export const twelveDataProvider: MarketDataProvider = {
+  id: 'twelvedata',
+  name: 'TwelveData',
+  capabilities: { quote: true, candles: true, marketStatus: false },
+
+  resolveSymbol: (asset) => resolveProviderSymbol(asset, 'twelvedata').symbol,
+
+  classifyError(status, body): ProviderErrorKind {
+    const message = String(body?.message || '').toLowerCase();
+    if (status === 401 || status === 403 || message.includes('api key')) return 'auth';
+    if (status === 429 || message.includes('limit')) return 'rate-limit';
+    if (status === 404 || message.includes('symbol')) return 'not-found';
+    return 'upstream';
+  },
+
+  async fetchQuote(symbol, apiKey) {
+    const url = `${BASE_URL}/price?symbol=${symbol}&apikey=${apiKey}`;
+    const { data, error } = await fetchProviderJson(this, url, 'Price');
+    if (error) return { error };
+    const apiError = bodyError(this, 'Price', data);
+    if (apiError) return apiError;
+    if (data.price === undefined) return noData('Price');
+    return {
+      data: {
+        price: parseFloat(data.price),
+        timestamp: data.timestamp !== undefined ? data.timestamp * 1000 : undefined, // TwelveData timestamp is Unix seconds
+      },
+    };
+  },
+
+  async fetchCandles(symbol, timeframeId, apiKey, limit) {
+    const interval = mapTimeframeToTwelveDataInterval(timeframeId);
+    const outputSize = Math.min(limit ?? 120, 5000); // Extra history gives the indicator engine enough warm-up bars; 5000 is the API maximum
+    const url = `${BASE_URL}/time_series?symbol=${symbol}&interval=${interval}&outputsize=${outputSize}&timezone=UTC&apikey=${apiKey}`;
+    const { data, error } = await fetchProviderJson(this, url, 'Historical');
+    if (error) return { error };
+    const apiError = bodyError(this, 'Historical', data);
+    if (apiError) return apiError;
+    if (!data.values) return noData('Historical', 'Data not found/unexpected format from TwelveData.');
+    const dateFormat = (interval !== '1day' && interval !== '1week' && interval !== '1month') ? 'HH:mm' : 'MMM dd';
+    const points = normalizeCandles(
+      data.values.map((v: any) => ({
+        timestamp: parseUtcDatetime(v.datetime),
+        open: v.open,
+        high: v.high,
+        low: v.low,
+        close: v.close,
+        volume: v.volume, // Absent for FX pairs
+      })),
+      dateFormat
+    ); // normalizeCandles sorts oldest-first; TwelveData returns newest first
+    return { data: points };
+  },
+
+  async searchSymbols(query, apiKey) {
+    const url = `${BASE_URL}/symbol_search?symbol=${encodeURIComponent(query)}&outputsize=50&apikey=${apiKey}`;
+    const { data, error } = await fetchProviderJson(this, url, 'Symbol search');
+    if (error) return { error };
+    const apiError = bodyError(this, 'Symbol search', data);
+    if (apiError) return apiError;
+    if (!Array.isArray(data.data)) return noData('Symbol search');
+    return {
+      data: data.data.map((d: any) => ({ symbol: d.symbol, description: d.instrument_name, type: d.instrument_type, exchange: d.exchange })),
+    };
+  },
+};
@@ -0,0 +1,42 @@
+import { polygonProvider } from './providers/polygon';
+import { finnhubProvider } from './providers/finnhub';
+import { twelveDataProvider } from './providers/twelvedata';
+import type { MarketDataProvider, MarketDataProviderId } from './types';
+
+// Priority order used when MARKET_DATA_PROVIDER_ORDER is not set.
+export const DEFAULT_PROVIDER_ORDER: MarketDataProviderId[] = ['polygon', 'finnhub', 'twelvedata'];
+
+const providers = new Map<MarketDataProviderId, MarketDataProvider>();
+
+export function registerMarketDataProvider(provider: MarketDataProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getMarketDataProvider(id: MarketDataProviderId): MarketDataProvider | undefined {
+  return providers.get(id);
+}
+
+export function listMarketDataProviders(): MarketDataProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Resolves the provider cascade order. An explicit order wins, then the
+ * comma-separated MARKET_DATA_PROVIDER_ORDER env var (e.g. "twelvedata,polygon"),
+ * then DEFAULT_PROVIDER_ORDER. Unknown IDs are dropped.
+ */
+export function getProviderOrder(explicitOrder?: MarketDataProviderId[]): MarketDataProviderId[] {
+  const configured = explicitOrder && explicitOrder.length > 0
+    ? explicitOrder
+    : (process.env.MARKET_DATA_PROVIDER_ORDER || '')
+        .split(',')
+        .map(id => id.trim().toLowerCase())
+        .filter(Boolean) as MarketDataProviderId[];
+
+  const order = configured.filter(id => providers.has(id));
+  return order.length > 0 ? Array.from(new Set(order)) : DEFAULT_PROVIDER_ORDER.filter(id => providers.has(id));
+}
+
+registerMarketDataProvider(polygonProvider);
+registerMarketDataProvider(finnhubProvider);
+registerMarketDataProvider(twelveDataProvider);
@@ -0,0 +1,156 @@
+// Provider ticker resolution. An asset names its instrument once with a canonical symbol ("EUR/USD", "XAU/USD",
+// "WTI", "SPX", "AAPL"); each provider's ticker comes from, in order: the asset's explicit marketIds override,
+// the built-in mapping table, or the provider's naming scheme for the asset class.
+
+import type { MarketAsset, MarketDataProviderId } from './types';
+
+export type SymbolSource = 'override' | 'table' | 'derived' | 'lookup';
+
+export interface ResolvedSymbol {
+  provider: MarketDataProviderId;
+  symbol?: string;          // Undefined when the provider cannot quote the instrument
+  source?: SymbolSource;
+  standard?: string;        // Table or derived ticker, for comparison when an override is in use
+}
+
+export interface SymbolWarning {
+  provider: MarketDataProviderId;
+  symbol: string;
+  severity: 'warning' | 'info';
+  message: string;
+}
+
+const PROVIDERS: MarketDataProviderId[] = ['polygon', 'finnhub', 'twelvedata'];
+
+// Instruments whose tickers don't follow a naming scheme. Missing entries mean the provider has no usable
+// instrument (e.g. Polygon has no commodity futures; its "CL" is the Colgate-Palmolive stock).
+const SYMBOL_TABLE: Record<string, Partial<Record<MarketDataProviderId, string>>> = {
+  WTI: { finnhub: 'OANDA:WTICO_USD', twelvedata: 'WTI/USD' },
+  BRENT: { finnhub: 'OANDA:BCO_USD' },
+  NATGAS: { finnhub: 'OANDA:NATGAS_USD' },
+  COPPER: { finnhub: 'OANDA:XCU_USD' },
+  SPX: { polygon: 'I:SPX', finnhub: '^GSPC', twelvedata: 'SPX' },
+  NDX: { polygon: 'I:NDX', finnhub: '^NDX', twelvedata: 'NDX' },
+  DJI: { polygon: 'I:DJI', finnhub: '^DJI', twelvedata: 'DJI' },
+  VIX: { polygon: 'I:VIX', finnhub: '^VIX', twelvedata: 'VIX' },
+};
+
+// Common alternative names for table instruments, per asset class ("CL" is only crude oil as a commodity)
+const SYMBOL_ALIASES: Partial<Record<string, Record<string, string>>> = {
+  commodity: { CL: 'WTI', USOIL: 'WTI', 'WTI/USD': 'WTI', UKOIL: 'BRENT', 'BRENT/USD': 'BRENT', NG: 'NATGAS', HG: 'COPPER' },
+  index: { US500: 'SPX', SPX500: 'SPX', GSPC: 'SPX', NAS100: 'NDX', US100: 'NDX', US30: 'DJI' },
+};
+
+const METALS = ['XAU', 'XAG', 'XPT', 'XPD'];
+
+export function normalizeCanonicalSymbol(symbol: string, type: string): string {
+  const upper = symbol.trim().toUpperCase();
+  return SYMBOL_ALIASES[type]?.[upper] ?? upper;
+}
+
+// "EUR/USD", "EUR-USD" and "EURUSD" all parse to ["EUR", "USD"]
+function splitPair(symbol: string): [string, string] | undefined {
+  const parts = symbol.split(/[/\-_]/);
+  if (parts.length === 2 && parts[0] && parts[1]) return [parts[0], parts[1]];
+  if (/^[A-Z]{6}$/.test(symbol)) return [symbol.slice(0, 3), symbol.slice(3)];
+  return undefined;
+}
+
+function derive(symbol: string, type: string, provider: MarketDataProviderId): string | undefined {
+  const pair = splitPair(symbol);
+  switch (type) {
+    case 'currency':
+    case 'commodity': {
+      // Spot metals trade like currency pairs; other commodities are table-only
+      if (!pair || (type === 'commodity' && !METALS.includes(pair[0]))) return undefined;
+      const [base, quote] = pair;
+      return { polygon: `C:${base}${quote}`, finnhub: `OANDA:${base}_${quote}`, twelvedata: `${base}/${quote}` }[provider];
+    }
+    case 'crypto': {
+      if (!pair) return undefined;
+      const [base, quote] = pair;
+      // Binance quotes USD pairs in USDT
+      return { polygon: `X:${base}${quote}`, finnhub: `BINANCE:${base}${quote === 'USD' ? 'USDT' : quote}`, twelvedata: `${base}/${quote}` }[provider];
+    }
+    case 'index':
+      return { polygon: `I:${symbol}`, finnhub: `^${symbol}`, twelvedata: symbol }[provider];
+    case 'equity':
+      return symbol;
+    default:
+      return undefined;
+  }
+}
+
+/** The standard ticker for a canonical symbol, ignoring overrides. */
+export function standardProviderSymbol(symbol: string, type: string, provider: MarketDataProviderId): { symbol?: string; source?: SymbolSource } {
+  const canonical = normalizeCanonicalSymbol(symbol, type);
+  const table = SYMBOL_TABLE[canonical];
+  if (table) return table[provider] ? { symbol: table[provider], source: 'table' } : {};
+  const derived = derive(canonical, type, provider);
+  return derived ? { symbol: derived, source: 'derived' } : {};
+}
+
+export function resolveProviderSymbol(asset: MarketAsset, provider: MarketDataProviderId): ResolvedSymbol {
+  const standard = asset.symbol ? standardProviderSymbol(asset.symbol, asset.type, provider) : {};
+  const override = asset.marketIds[provider];
+  if (override) return { provider, symbol: override, source: 'override', standard: standard.symbol };
+  return { provider, ...standard };
+}
+
+export function resolveMarketIds(asset: MarketAsset): ResolvedSymbol[] {
+  return PROVIDERS.map(provider => resolveProviderSymbol(asset, provider));
+}
+
+// What each provider's tickers look like per asset class; a ticker that doesn't fit is most likely
+// a different instrument (an ETF or stock standing in for a commodity, a crypto pair on an FX feed, ...)
+const TICKER_FORMATS: Record<MarketDataProviderId, Partial<Record<string, { pattern: RegExp; example: string }>>> = {
+  polygon: {
+    currency: { pattern: /^C:[A-Z]{6}$/, example: 'C:EURUSD' },
+    commodity: { pattern: /^C:X[A-Z]{2}[A-Z]{3}$/, example: 'C:XAUUSD (spot metals only)' },
+    crypto: { pattern: /^X:[A-Z0-9]+$/, example: 'X:BTCUSD' },
+    index: { pattern: /^I:[A-Z0-9.]+$/, example: 'I:SPX' },
+    equity: { pattern: /^[A-Z][A-Z0-9.]*$/, example: 'AAPL' },
+  },
+  finnhub: {
+    currency: { pattern: /^(OANDA|FXCM|FOREX\.COM|FXPRO|ICMTRADER|OCTAFX|PEPPERSTONE):[A-Z]{3}[_/][A-Z]{3}$/, example: 'OANDA:EUR_USD' },
+    commodity: { pattern: /^(OANDA|FXCM|FOREX\.COM|FXPRO|ICMTRADER|OCTAFX|PEPPERSTONE):[A-Z0-9]+[_/][A-Z]{3}$/, example: 'OANDA:WTICO_USD' },
+    crypto: { pattern: /^[A-Z]+:[A-Z0-9]+$/, example: 'BINANCE:BTCUSDT' },
+    index: { pattern: /^\^[A-Z0-9.]+$/, example: '^GSPC' },
+    equity: { pattern: /^[A-Z][A-Z0-9.]*$/, example: 'AAPL' },
+  },
+  twelvedata: {
+    currency: { pattern: /^[A-Z]{3}\/[A-Z]{3}$/, example: 'EUR/USD' },
+    commodity: { pattern: /^[A-Z]+\/[A-Z]{3}$/, example: 'XAU/USD' },
+    crypto: { pattern: /^[A-Z0-9]+\/[A-Z0-9]+$/, example: 'BTC/USD' },
+    index: { pattern: /^[A-Z0-9.]+$/, example: 'SPX' },
+    equity: { pattern: /^[A-Z][A-Z0-9.]*(:[A-Z]+)?$/, example: 'AAPL' },
+  },
+};
+
+export function fitsProviderFormat(provider: MarketDataProviderId, type: string, symbol: string): boolean {
+  return TICKER_FORMATS[provider][type]?.pattern.test(symbol) ?? true;
+}
+
+/**
+ * Flags tickers that don't fit the provider's format for the asset class (warning) and overrides that
+ * differ from the standard mapping (info). Pure, so the catalog editor can run it while typing.
+ */
+export function auditAssetSymbols(asset: MarketAsset): SymbolWarning[] {
+  const warnings: SymbolWarning[] = [];
+  for (const resolved of resolveMarketIds(asset)) {
+    const { provider, symbol, source, standard } = resolved;
+    if (!symbol) continue;
+    const format = TICKER_FORMATS[provider][asset.type];
+    if (format && !format.pattern.test(symbol)) {
+      warnings.push({
+        provider,
+        symbol,
+        severity: 'warning',
+        message: `${symbol} does not look like a ${asset.type} ticker on ${provider}; expected something like ${format.example}${standard ? ` (standard: ${standard})` : ''}.`,
+      });
+    } else if (source === 'override' && standard && standard !== symbol) {
+      warnings.push({ provider, symbol, severity: 'info', message: `Overrides the standard ticker ${standard}.` });
+    }
+  }
+  return warnings;
+}
@@ -0,0 +1,140 @@
+// Shared types for the pluggable market data provider layer.
+// Server actions (fetch-market-data.ts) re-export the public shapes so components keep importing from there.
+
+export type MarketDataProviderId = 'polygon' | 'finnhub' | 'twelvedata';
+
+export type MarketDataProviderName = 'Polygon.io' | 'Finnhub.io' | 'TwelveData';
+
+export type MarketStatus = 'open' | 'closed' | 'extended-hours' | 'pre-market' | 'post-market' | 'unknown';
+
+// How a provider call failed. Used to decide whether to fall back and to explain failures in the UI.
+export type ProviderErrorKind =
+  | 'auth'          // Invalid/unauthorized key or plan restriction
+  | 'rate-limit'    // 429 or credit/quota exhausted
+  | 'not-found'     // Symbol or endpoint unknown to this provider
+  | 'no-data'       // Request succeeded but returned nothing usable
+  | 'network'       // fetch threw (DNS, timeout, etc.)
+  | 'upstream';     // Any other non-OK response
+
+export interface MarketAsset {
+  name: string;
+  type: string;
+  symbol?: string;   // Canonical symbol ("EUR/USD", "WTI", "SPX") provider tickers are resolved from
+  marketIds: Partial<Record<MarketDataProviderId, string>>; // Per-provider overrides
+}
+
+export interface HistoricalDataPoint {
+  timestamp: number; // Bar open time, Unix milliseconds (UTC)
+  date: string;      // Display label only, e.g. "MMM dd" or "HH:mm" - sort/merge on `timestamp`
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;   // Not reported for most FX pairs
+}
+
+export interface MacdValues {
+  value?: number;
+  signal?: number;
+  histogram?: number;
+}
+
+// Indicators over completed bars only. Official signals use these; the top-level rsi/macd include the forming bar.
+export interface ClosedBarSnapshot {
+  closeTime: number;  // Unix milliseconds, when the latest completed bar closed
+  close: number;
+  rsi?: number;
+  macd?: MacdValues;
+}
+
+export interface ProviderAttempt {
+  provider: MarketDataProviderId;
+  status: 'success' | 'partial' | 'failed' | 'skipped';
+  error?: string;
+  errorKind?: ProviderErrorKind;
+  durationMs?: number;
+}
+
+export interface MarketData {
+  price?: number;
+  rsi?: number;
+  macd?: MacdValues;
+  historical?: HistoricalDataPoint[];
+  error?: string;
+  errorKind?: ProviderErrorKind; // Classification of `error`, if any
+  attempts?: ProviderAttempt[];  // One entry per provider considered, in priority order
+  assetName?: string;
+  timeframe?: string;
+  sourceProvider?: MarketDataProviderName | 'Unknown';
+  marketStatus?: MarketStatus;
+  lastTradeTimestamp?: number; // Unix milliseconds
+  closedBar?: ClosedBarSnapshot;
+  barMinutes?: number; // Length of the bars in `historical`; a provider may serve a coarser resolution than the timeframe
+}
+
+// Candles only, for consumers (e.g. backtests) that need deeper history than the dashboard snapshot.
+export interface CandleHistory {
+  candles: HistoricalDataPoint[];
+  sourceProvider: MarketDataProviderName | 'Unknown';
+  barMinutes: number; // Length of the bars in `candles`, as for MarketData
+  error?: string;
+  errorKind?: ProviderErrorKind;
+  attempts: ProviderAttempt[];
+}
+
+export interface ProviderError {
+  kind: ProviderErrorKind;
+  message: string;
+}
+
+export interface ProviderCallResult<T> {
+  data?: T;
+  error?: ProviderError;
+}
+
+export interface QuoteResult {
+  price: number;
+  timestamp?: number; // Unix milliseconds
+}
+
+export interface MarketStatusResult {
+  marketStatus: MarketStatus;
+  lastTradeTimestamp?: number;
+}
+
+// One instrument from a provider's symbol search
+export interface SymbolMatch {
+  symbol: string;        // Provider ticker, in the format marketIds expects
+  description?: string;
+  type?: string;         // Provider's instrument type label
+  exchange?: string;
+}
+
+export interface ProviderCapabilities {
+  quote: boolean;
+  candles: boolean;
+  marketStatus: boolean;
+}
+
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  name: MarketDataProviderName;
+  capabilities: ProviderCapabilities;
+  /** Returns the provider-specific ticker for an asset (override, mapping table or derived), or undefined if none. */
+  resolveSymbol(asset: MarketAsset): string | undefined;
+  fetchQuote(symbol: string, apiKey: string): Promise<ProviderCallResult<QuoteResult>>;
+  /**
+   * Oldest-first candles with enough history for indicator warm-up; RSI/MACD are computed locally from these.
+   * `limit` asks for up to that many of the most recent bars (backtests); omitted, the provider uses its dashboard depth.
+   */
+  fetchCandles(symbol: string, timeframeId: string, apiKey: string, limit?: number): Promise<ProviderCallResult<HistoricalDataPoint[]>>;
+  /** Length in minutes of the bars fetchCandles serves for a timeframe, when it falls back to another resolution. */
+  candleMinutes?(timeframeId: string): number;
+  fetchMarketStatus?(symbol: string, apiKey: string): Promise<ProviderCallResult<MarketStatusResult>>;
+  /** Instruments matching a ticker or name, used to validate catalog symbol mappings. */
+  searchSymbols?(query: string, apiKey: string): Promise<ProviderCallResult<SymbolMatch[]>>;
+  /** Maps an HTTP status and (parsed) response body to an error kind. */
+  classifyError(status: number, body: any): ProviderErrorKind;
+}
+
+export type MarketDataApiKeys = Partial<Record<MarketDataProviderId, string | null>>;
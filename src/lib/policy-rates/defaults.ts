@@ -0,0 +1,40 @@
+import type { PolicyRateTable } from './types';
+
+// Decisions up to the table's review date, so the differential fallback can see recent moves. USD is the midpoint
+// of the fed funds target range. SGD has no entry: MAS steers the exchange rate, not a policy rate.
+export const DEFAULT_POLICY_RATE_TABLE: PolicyRateTable = {
+  version: 1,
+  asOf: '2025-09-30',
+  entries: [
+    { currency: 'AUD', rate: 4.35, effectiveDate: '2023-11-08', bank: 'RBA cash rate target' },
+    { currency: 'AUD', rate: 4.1, effectiveDate: '2025-02-19', bank: 'RBA cash rate target' },
+    { currency: 'AUD', rate: 3.85, effectiveDate: '2025-05-21', bank: 'RBA cash rate target' },
+    { currency: 'AUD', rate: 3.6, effectiveDate: '2025-08-13', bank: 'RBA cash rate target' },
+    { currency: 'CAD', rate: 3.25, effectiveDate: '2024-12-12', bank: 'BoC overnight rate target' },
+    { currency: 'CAD', rate: 3.0, effectiveDate: '2025-01-29', bank: 'BoC overnight rate target' },
+    { currency: 'CAD', rate: 2.75, effectiveDate: '2025-03-13', bank: 'BoC overnight rate target' },
+    { currency: 'CAD', rate: 2.5, effectiveDate: '2025-09-18', bank: 'BoC overnight rate target' },
+    { currency: 'CHF', rate: 0.5, effectiveDate: '2024-12-13', bank: 'SNB policy rate' },
+    { currency: 'CHF', rate: 0.25, effectiveDate: '2025-03-21', bank: 'SNB policy rate' },
+    { currency: 'CHF', rate: 0, effectiveDate: '2025-06-20', bank: 'SNB policy rate' },
+    { currency: 'EUR', rate: 3.0, effectiveDate: '2024-12-18', bank: 'ECB deposit facility' },
+    { currency: 'EUR', rate: 2.75, effectiveDate: '2025-02-05', bank: 'ECB deposit facility' },
+    { currency: 'EUR', rate: 2.5, effectiveDate: '2025-03-12', bank: 'ECB deposit facility' },
+    { currency: 'EUR', rate: 2.25, effectiveDate: '2025-04-23', bank: 'ECB deposit facility' },
+    { currency: 'EUR', rate: 2.0, effectiveDate: '2025-06-11', bank: 'ECB deposit facility' },
+    { currency: 'GBP', rate: 4.75, effectiveDate: '2024-11-07', bank: 'BoE Bank Rate' },
+    { currency: 'GBP', rate: 4.5, effectiveDate: '2025-02-06', bank: 'BoE Bank Rate' },
+    { currency: 'GBP', rate: 4.25, effectiveDate: '2025-05-08', bank: 'BoE Bank Rate' },
+    { currency: 'GBP', rate: 4.0, effectiveDate: '2025-08-07', bank: 'BoE Bank Rate' },
+    { currency: 'JPY', rate: 0.1, effectiveDate: '2024-03-19', bank: 'BoJ short-term policy rate' },
+    { currency: 'JPY', rate: 0.25, effectiveDate: '2024-07-31', bank: 'BoJ short-term policy rate' },
+    { currency: 'JPY', rate: 0.5, effectiveDate: '2025-01-24', bank: 'BoJ short-term policy rate' },
+    { currency: 'NZD', rate: 4.25, effectiveDate: '2024-11-27', bank: 'RBNZ official cash rate' },
+    { currency: 'NZD', rate: 3.75, effectiveDate: '2025-02-19', bank: 'RBNZ official cash rate' },
+    { currency: 'NZD', rate: 3.5, effectiveDate: '2025-04-09', bank: 'RBNZ official cash rate' },
+    { currency: 'NZD', rate: 3.25, effectiveDate: '2025-05-28', bank: 'RBNZ official cash rate' },
+    { currency: 'NZD', rate: 3.0, effectiveDate: '2025-08-20', bank: 'RBNZ official cash rate' },
+    { currency: 'USD', rate: 4.375, effectiveDate: '2024-12-19', bank: 'Fed funds target range midpoint' },
+    { currency: 'USD', rate: 4.125, effectiveDate: '2025-09-18', bank: 'Fed funds target range midpoint' },
+  ],
+};
@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { USER_ID_PATTERN } from '@/lib/settings/store';
+import type { PolicyRateTable } from './types';
+
+/** Persists one policy-rate table per user. Swap the implementation via setPolicyRateTableStore. */
+export interface PolicyRateTableStore {
+  load(userId: string): Promise<PolicyRateTable | undefined>; // undefined: the user still uses the built-in table
+  save(userId: string, table: PolicyRateTable): Promise<void>;
+  remove(userId: string): Promise<void>;
+}
+
+// One JSON file per user under POLICY_RATE_TABLE_DIR (default .data/policy-rates), in plain text like asset catalogs
+function createFilePolicyRateTableStore(directory: string): PolicyRateTableStore {
+  const fileFor = (userId: string) => {
+    if (!USER_ID_PATTERN.test(userId)) throw new Error('Invalid policy-rate table user id.');
+    return path.join(directory, `${userId}.json`);
+  };
+
+  return {
+    async load(userId) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(userId), 'utf8')) as PolicyRateTable;
+      } catch (err: any) {
+        if (err?.code === 'ENOENT') return undefined;
+        throw err;
+      }
+    },
+    async save(userId, table) {
+      await fs.mkdir(directory, { recursive: true });
+      const file = fileFor(userId);
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(table), 'utf8');
+      await fs.rename(tmp, file);
+    },
+    async remove(userId) {
+      await fs.rm(fileFor(userId), { force: true });
+    },
+  };
+}
+
+let store: PolicyRateTableStore = createFilePolicyRateTableStore(process.env.POLICY_RATE_TABLE_DIR || path.join(process.cwd(), '.data', 'policy-rates'));
+
+export function getPolicyRateTableStore(): PolicyRateTableStore {
+  return store;
+}
+
+export function setPolicyRateTableStore(next: PolicyRateTableStore): void {
+  store = next;
+}
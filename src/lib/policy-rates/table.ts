@@ -0,0 +1,107 @@
+// Validation, lookup and CSV (de)serialization for policy-rate tables. Pure functions; persistence lives in store.ts.
+
+import type { FredObservation } from '@/lib/fred/types';
+import type { PolicyRateEntry, PolicyRateTable, RateProvenance } from './types';
+
+export const MAX_TABLE_ENTRIES = 500;
+const CSV_HEADER = 'currency,rate,effective_date,bank';
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MIN_RATE = -5;
+const MAX_RATE = 100;
+const MAX_BANK_LENGTH = 60;
+
+export const isIsoDate = (value: string) => DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+/** Trims and upper-cases an entry from user input or a CSV row; returns an error message when it is unusable. */
+export function normalizePolicyRateEntry(raw: unknown): { entry?: PolicyRateEntry; error?: string } {
+  if (!raw || typeof raw !== 'object') return { error: 'Entry must be an object.' };
+  const input = raw as Record<string, unknown>;
+  const currency = String(input.currency ?? '').trim().toUpperCase();
+  if (!CURRENCY_PATTERN.test(currency)) return { error: `"${currency}" is not a three-letter currency code.` };
+  const rate = typeof input.rate === 'number' ? input.rate : parseFloat(String(input.rate ?? ''));
+  if (!Number.isFinite(rate) || rate < MIN_RATE || rate > MAX_RATE) return { error: `${currency}: rate must be a percentage between ${MIN_RATE} and ${MAX_RATE}.` };
+  const effectiveDate = String(input.effectiveDate ?? '').trim();
+  if (!isIsoDate(effectiveDate)) return { error: `${currency}: effective date must be yyyy-MM-dd.` };
+  const bank = String(input.bank ?? '').trim().slice(0, MAX_BANK_LENGTH);
+  return { entry: { currency, rate, effectiveDate, ...(bank && { bank }) } };
+}
+
+/** Sorted by currency and date; a later entry for the same currency and date replaces an earlier one. */
+export function normalizePolicyRateEntries(rawEntries: unknown[]): { entries: PolicyRateEntry[]; errors: string[] } {
+  const byKey = new Map<string, PolicyRateEntry>();
+  const errors: string[] = [];
+  rawEntries.forEach((raw, i) => {
+    const { entry, error } = normalizePolicyRateEntry(raw);
+    if (entry) byKey.set(`${entry.currency}|${entry.effectiveDate}`, entry);
+    else errors.push(`Row ${i + 1}: ${error}`);
+  });
+  const entries = Array.from(byKey.values()).sort((a, b) => a.currency.localeCompare(b.currency) || a.effectiveDate.localeCompare(b.effectiveDate));
+  if (entries.length > MAX_TABLE_ENTRIES) errors.push(`Tables are limited to ${MAX_TABLE_ENTRIES} entries.`);
+  return { entries: entries.slice(0, MAX_TABLE_ENTRIES), errors };
+}
+
+/** The entry for `currency` in force on `date` (yyyy-MM-dd). */
+export function rateInForce(table: PolicyRateTable, currency: string, date: string): PolicyRateEntry | undefined {
+  const code = currency.toUpperCase();
+  let current: PolicyRateEntry | undefined;
+  for (const entry of table.entries) {
+    if (entry.currency === code && entry.effectiveDate <= date && (!current || entry.effectiveDate > current.effectiveDate)) current = entry;
+  }
+  return current;
+}
+
+/** The table's decisions for `currency` as an observation series, for the same analysis as FRED history. */
+export function policyRatePath(table: PolicyRateTable, currency: string): FredObservation[] {
+  const code = currency.toUpperCase();
+  return table.entries
+    .filter(entry => entry.currency === code)
+    .map(entry => ({ date: entry.effectiveDate, value: entry.rate }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Parses `currency,rate,effective_date[,bank]` rows. The header row is optional; blank lines and lines starting
+ * with # are skipped. Bank names containing commas must be quoted.
+ */
+export function parsePolicyRateCsv(csv: string): { entries: PolicyRateEntry[]; errors: string[] } {
+  const rows = csv.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  if (rows[0]?.toLowerCase().replace(/\s/g, '').startsWith('currency,')) rows.shift();
+  if (rows.length === 0) return { entries: [], errors: [`No rows found. Expected "${CSV_HEADER}".`] };
+  const raw = rows.map(row => {
+    const [currency, rate, effectiveDate, ...bank] = splitCsvRow(row);
+    return { currency, rate, effectiveDate, bank: bank.join(',') };
+  });
+  return normalizePolicyRateEntries(raw);
+}
+
+export function policyRatesToCsv(table: PolicyRateTable): string {
+  const quote = (value: string) => (/[",]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const lines = table.entries.map(e => [e.currency, String(e.rate), e.effectiveDate, quote(e.bank ?? '')].join(','));
+  return [`# Policy rates as of ${table.asOf} (version ${table.version})`, CSV_HEADER, ...lines].join('\n');
+}
+
+function splitCsvRow(row: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { cells.push(cell.trim()); cell = ''; }
+    else cell += char;
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/** "live FRED, 2025-09-01" or "rate table as of 2025-09-30 (v3)". */
+export function describeRateProvenance(provenance: RateProvenance): string {
+  return provenance.source === 'fred'
+    ? `live FRED, ${provenance.asOf}`
+    : `rate table as of ${provenance.asOf}${provenance.tableVersion !== undefined ? ` (v${provenance.tableVersion})` : ''}`;
+}
@@ -0,0 +1,24 @@
+// Central-bank policy-rate table: the fallback when FRED has no rate, and where a rate came from.
+
+export interface PolicyRateEntry {
+  currency: string;        // ISO code, e.g. "EUR"
+  rate: number;            // Percent
+  effectiveDate: string;   // yyyy-MM-dd the rate took effect
+  bank?: string;           // e.g. "ECB deposit facility"
+}
+
+export interface PolicyRateTable {
+  version: number;         // Bumped on every save
+  asOf: string;            // yyyy-MM-dd the table was last reviewed
+  entries: PolicyRateEntry[]; // Sorted by currency, then effective date
+  updatedAt?: number;      // Unix milliseconds; unset for the built-in table
+}
+
+export type RateSource = 'fred' | 'table';
+
+// Where a rate fed to the signals came from
+export interface RateProvenance {
+  source: RateSource;
+  asOf: string;            // FRED observation date, or the table's review date
+  tableVersion?: number;
+}
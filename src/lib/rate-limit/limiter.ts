@@ -0,0 +1,160 @@
+// Token-bucket request budgets per provider and API key. Each plan limit is a bucket holding up to `limit` tokens that
+// refills continuously over its window; a call needs a token from every bucket. State is per server process, and
+// keys are identified by a hash so the same deployment key shared by many users draws from one budget.
+
+import { createHash } from 'crypto';
+import type { ApiKeyProviderId } from '@/lib/settings/api-keys';
+import { getProviderPlan, WINDOW_MS, type ProviderPlan, type RateWindow } from './plans';
+
+const DEFAULT_RATE_LIMIT_BLOCK_MS = 60_000;
+
+export interface BudgetDecision {
+  ok: boolean;
+  retryAfterMs: number; // 0 when ok
+}
+
+export interface QuotaWindowStatus {
+  window: RateWindow;
+  limit: number;
+  remaining: number;   // Whole calls available now
+  fullInMs: number;    // Until the bucket is full again
+}
+
+export interface ProviderQuotaStatus {
+  id: ApiKeyProviderId;
+  plan: string;
+  unlimited: boolean;
+  windows: QuotaWindowStatus[];
+  remaining?: number;        // Calls available now across all windows; undefined when unlimited
+  calls: number;             // Calls let through since the server started
+  denied: number;            // Calls refused locally to stay within the budget
+  rateLimited: number;       // 429/quota answers received anyway
+  lastRateLimitedAt?: number;
+  blockedUntil?: number;     // Set after a 429; no calls until then
+}
+
+interface Budget {
+  plan: ProviderPlan;
+  tokens: number[];          // Parallel to plan.limits
+  refilledAt: number;
+  blockedUntil: number;
+  calls: number;
+  denied: number;
+  rateLimited: number;
+  lastRateLimitedAt?: number;
+}
+
+const budgets = new Map<string, Budget>();
+
+const budgetKey = (id: ApiKeyProviderId, apiKey: string) =>
+  `${id}:${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`;
+
+function getBudget(id: ApiKeyProviderId, apiKey: string): Budget {
+  const key = budgetKey(id, apiKey);
+  let budget = budgets.get(key);
+  if (!budget) {
+    const plan = getProviderPlan(id);
+    budget = { plan, tokens: plan.limits.map(l => l.limit), refilledAt: Date.now(), blockedUntil: 0, calls: 0, denied: 0, rateLimited: 0 };
+    budgets.set(key, budget);
+  }
+  refill(budget);
+  return budget;
+}
+
+function refill(budget: Budget): void {
+  const now = Date.now();
+  const elapsed = now - budget.refilledAt;
+  budget.plan.limits.forEach((l, i) => {
+    budget.tokens[i] = Math.min(l.limit, budget.tokens[i] + (elapsed * l.limit) / WINDOW_MS[l.window]);
+  });
+  budget.refilledAt = now;
+}
+
+// Time until every bucket holds `cost` tokens
+function waitFor(budget: Budget, cost: number): number {
+  const now = Date.now();
+  const bucketWait = Math.max(0, ...budget.plan.limits.map((l, i) =>
+    budget.tokens[i] >= cost ? 0 : ((cost - budget.tokens[i]) * WINDOW_MS[l.window]) / l.limit,
+  ));
+  return Math.ceil(Math.max(bucketWait, budget.blockedUntil - now));
+}
+
+/** How long until `cost` calls could go through, without taking anything. */
+export function budgetWaitMs(id: ApiKeyProviderId, apiKey: string, cost = 1): number {
+  return waitFor(getBudget(id, apiKey), cost);
+}
+
+/** Takes `cost` tokens if all buckets have them; never waits. */
+export function tryAcquire(id: ApiKeyProviderId, apiKey: string, cost = 1): BudgetDecision {
+  const budget = getBudget(id, apiKey);
+  const retryAfterMs = waitFor(budget, cost);
+  if (retryAfterMs > 0) {
+    budget.denied++;
+    return { ok: false, retryAfterMs };
+  }
+  budget.tokens = budget.tokens.map(t => t - cost);
+  budget.calls += cost;
+  return { ok: true, retryAfterMs: 0 };
+}
+
+/**
+ * Like tryAcquire, but waits for the tokens when they arrive within `maxWaitMs`, so short bursts are spread
+ * out instead of refused. Longer waits are refused right away for the caller to defer or go elsewhere.
+ */
+export async function acquire(id: ApiKeyProviderId, apiKey: string, maxWaitMs: number, cost = 1): Promise<BudgetDecision> {
+  const deadline = Date.now() + maxWaitMs;
+  for (;;) {
+    const budget = getBudget(id, apiKey);
+    const wait = waitFor(budget, cost);
+    if (wait === 0 || Date.now() + wait > deadline) return tryAcquire(id, apiKey, cost);
+    await new Promise(resolve => setTimeout(resolve, wait));
+  }
+}
+
+/** Whole calls available right now without waiting. */
+export function remainingCalls(id: ApiKeyProviderId, apiKey: string): number {
+  const budget = getBudget(id, apiKey);
+  if (budget.blockedUntil > Date.now()) return 0;
+  return budget.plan.limits.length === 0 ? Infinity : Math.floor(Math.min(...budget.tokens));
+}
+
+/** Records a 429/quota answer: the provider's own count is ahead of ours, so stop calling it for a while. */
+export function noteRateLimited(id: ApiKeyProviderId, apiKey: string, retryAfterMs = DEFAULT_RATE_LIMIT_BLOCK_MS): void {
+  const budget = getBudget(id, apiKey);
+  budget.tokens = budget.tokens.map(() => 0);
+  budget.blockedUntil = Math.max(budget.blockedUntil, Date.now() + retryAfterMs);
+  budget.rateLimited++;
+  budget.lastRateLimitedAt = Date.now();
+}
+
+export function getQuotaStatus(id: ApiKeyProviderId, apiKey: string): ProviderQuotaStatus {
+  const budget = getBudget(id, apiKey);
+  const now = Date.now();
+  return {
+    id,
+    plan: budget.plan.name,
+    unlimited: budget.plan.limits.length === 0,
+    windows: budget.plan.limits.map((l, i) => ({
+      window: l.window,
+      limit: l.limit,
+      remaining: Math.floor(budget.tokens[i]),
+      fullInMs: Math.ceil(((l.limit - budget.tokens[i]) * WINDOW_MS[l.window]) / l.limit),
+    })),
+    remaining: budget.plan.limits.length === 0 ? undefined : remainingCalls(id, apiKey),
+    calls: budget.calls,
+    denied: budget.denied,
+    rateLimited: budget.rateLimited,
+    lastRateLimitedAt: budget.lastRateLimitedAt,
+    blockedUntil: budget.blockedUntil > now ? budget.blockedUntil : undefined,
+  };
+}
+
+function describeWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 120 ? `${seconds}s` : seconds < 7200 ? `${Math.ceil(seconds / 60)} min` : `${Math.ceil(seconds / 3600)} h`;
+}
+
+/** Error text for a call refused locally, e.g. "NewsAPI.org: Request budget used up, next call in 40s." */
+export function budgetExceededMessage(label: string, retryAfterMs: number): string {
+  return `${label}: Request budget used up, next call in ${describeWait(retryAfterMs)}.`;
+}
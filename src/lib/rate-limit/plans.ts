@@ -0,0 +1,67 @@
+// Request limits per API plan. Defaults are the providers' free tiers; set RATE_LIMIT_<PROVIDER> (e.g.
+// RATE_LIMIT_POLYGON, RATE_LIMIT_OPENEXCHANGERATES) to a plan name or to explicit limits like "100/min,5000/day".
+
+import type { ApiKeyProviderId } from '@/lib/settings/api-keys';
+
+export type RateWindow = 'sec' | 'min' | 'day' | 'month';
+
+export interface RateLimit {
+  limit: number;       // Requests allowed per window
+  window: RateWindow;
+}
+
+export interface ProviderPlan {
+  name: string;        // Plan name, or "custom" for explicit limits
+  limits: RateLimit[]; // Empty: unlimited
+}
+
+export const WINDOW_MS: Record<RateWindow, number> = {
+  sec: 1000,
+  min: 60_000,
+  day: 86_400_000,
+  month: 30 * 86_400_000,
+};
+
+const PLAN_PRESETS: Record<ApiKeyProviderId, Record<string, RateLimit[]>> = {
+  polygon: { free: [{ limit: 5, window: 'min' }], paid: [] },
+  finnhub: { free: [{ limit: 30, window: 'sec' }, { limit: 60, window: 'min' }] },
+  twelvedata: { free: [{ limit: 8, window: 'min' }, { limit: 800, window: 'day' }] },
+  openExchangeRates: { free: [{ limit: 1000, window: 'month' }], developer: [{ limit: 10_000, window: 'month' }] },
+  exchangeRateApi: { free: [{ limit: 1500, window: 'month' }], pro: [{ limit: 30_000, window: 'month' }] },
+  newsApi: { free: [{ limit: 100, window: 'day' }], business: [{ limit: 250_000, window: 'month' }] },
+  fred: { free: [{ limit: 120, window: 'min' }] },
+};
+
+const LIMIT_PATTERN = /^(\d+)\s*\/\s*(sec|min|day|month)$/;
+
+/** Parses "8/min,800/day"; undefined when any part is malformed. */
+export function parseRateLimits(spec: string): RateLimit[] | undefined {
+  const limits: RateLimit[] = [];
+  for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = LIMIT_PATTERN.exec(part);
+    if (!match || Number(match[1]) < 1) return undefined;
+    limits.push({ limit: Number(match[1]), window: match[2] as RateWindow });
+  }
+  return limits.length > 0 ? limits : undefined;
+}
+
+export function getProviderPlan(id: ApiKeyProviderId): ProviderPlan {
+  const spec = process.env[`RATE_LIMIT_${id.toUpperCase()}`]?.trim().toLowerCase();
+  if (spec === 'unlimited') return { name: 'unlimited', limits: [] };
+  if (spec && PLAN_PRESETS[id][spec]) return { name: spec, limits: PLAN_PRESETS[id][spec] };
+  if (spec) {
+    const limits = parseRateLimits(spec);
+    if (limits) return { name: 'custom', limits };
+    console.warn(`Ignoring RATE_LIMIT_${id.toUpperCase()}="${spec}": expected a plan name or limits like "100/min,5000/day".`);
+  }
+  return { name: 'free', limits: PLAN_PRESETS[id].free };
+}
+
+/** Shortest interval at which `callsPerUse` calls can repeat indefinitely without exceeding any limit. */
+export function sustainableIntervalMs(plan: ProviderPlan, callsPerUse: number): number {
+  return Math.max(0, ...plan.limits.map(l => (WINDOW_MS[l.window] * callsPerUse) / l.limit));
+}
+
+export function formatRateLimit({ limit, window }: RateLimit): string {
+  return `${limit.toLocaleString()}/${window}`;
+}
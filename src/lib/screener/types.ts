@@ -0,0 +1,35 @@
+// Shapes for the multi-asset watchlist. The screen-watchlist action re-exports them for components.
+
+import type { SignalConfidence, SignalRecommendation, SignalSource } from '@/lib/journal/types';
+import type { MarketStatus, MarketDataProviderName, ProviderErrorKind } from '@/lib/market-data/types';
+
+export interface ScreenerRow {
+  assetName: string;
+  timeframe: string;
+  price?: number;
+  changePct?: number;       // Price vs. the previous bar's close, in percent
+  rsi?: number;
+  rsiStatus: string;        // Oversold / Neutral / Overbought / N/A
+  macdHistogram?: number;
+  macdStatus: string;       // Uptrend / Downtrend / Neutral / N/A
+  sentimentScore?: number;  // Only when live sentiment was requested
+  marketStatus?: MarketStatus;
+  sourceProvider?: MarketDataProviderName | 'Unknown';
+  error?: string;
+  errorKind?: ProviderErrorKind;
+  updatedAt: number;        // Unix milliseconds
+}
+
+// Most recent journaled signal for an asset, so the screener doesn't have to run the AI per row
+export interface LatestSignal {
+  recommendation: SignalRecommendation;
+  confidence?: SignalConfidence;
+  source: SignalSource;
+  sentimentScore?: number;  // Sentiment that went into a trade recommendation
+  createdAt: number;        // Unix milliseconds
+}
+
+export interface LatestSignalsResult {
+  signals: Record<string, LatestSignal>; // Keyed by asset name
+  error?: string;
+}
@@ -0,0 +1,53 @@
+// Catalog of the third-party services that need an API key. Safe to import from client components:
+// it holds no key material, only ids, labels and the environment variables the server reads.
+
+import type { MarketDataProviderId } from '@/lib/market-data/types';
+
+export type ApiKeyProviderId = MarketDataProviderId | 'openExchangeRates' | 'exchangeRateApi' | 'newsApi' | 'fred';
+
+export type ApiKeyCategory = 'market' | 'economic' | 'news' | 'rates';
+
+export interface ApiKeyProviderInfo {
+  id: ApiKeyProviderId;
+  label: string;
+  category: ApiKeyCategory;
+  purpose: string;
+  envVar: string;
+}
+
+export const API_KEY_PROVIDERS: ApiKeyProviderInfo[] = [
+  { id: 'polygon', label: 'Polygon.io', category: 'market', purpose: 'Market data', envVar: 'POLYGON_API_KEY' },
+  { id: 'finnhub', label: 'Finnhub.io', category: 'market', purpose: 'Market data', envVar: 'FINNHUB_API_KEY' },
+  { id: 'twelvedata', label: 'Twelve Data', category: 'market', purpose: 'Market data', envVar: 'TWELVEDATA_API_KEY' },
+  { id: 'openExchangeRates', label: 'Open Exchange Rates', category: 'economic', purpose: 'Economic data', envVar: 'OPEN_EXCHANGE_RATES_API_KEY' },
+  { id: 'exchangeRateApi', label: 'ExchangeRate-API.com', category: 'economic', purpose: 'Economic data', envVar: 'EXCHANGERATE_API_KEY' },
+  { id: 'newsApi', label: 'NewsAPI.org', category: 'news', purpose: 'News headlines', envVar: 'NEWSAPI_KEY' },
+  { id: 'fred', label: 'FRED', category: 'rates', purpose: 'Interest rates', envVar: 'FRED_API_KEY' },
+];
+
+export const isApiKeyProviderId = (id: string): id is ApiKeyProviderId => API_KEY_PROVIDERS.some(p => p.id === id);
+
+export type ApiKeys = Partial<Record<ApiKeyProviderId, string>>;
+
+// Where a resolved key came from. A per-user key overrides the deployment-wide environment variable.
+export type ApiKeySource = 'user' | 'env' | 'none';
+
+export interface ApiKeyStatus {
+  id: ApiKeyProviderId;
+  source: ApiKeySource;
+  maskedKey?: string;
+}
+
+export interface ConnectionTestResult {
+  id: ApiKeyProviderId;
+  ok: boolean;
+  message: string;
+  durationMs?: number;
+  testedAt: number; // Unix milliseconds
+}
+
+/** Shows only the last four characters, e.g. "••••••4a4d". Short keys are fully masked. */
+export function maskApiKey(key: string): string {
+  if (key.length <= 8) return '•'.repeat(key.length);
+  return `${'•'.repeat(6)}${key.slice(-4)}`;
+}
@@ -0,0 +1,50 @@
+import { getMarketDataProvider } from '@/lib/market-data/registry';
+import type { MarketDataProviderId } from '@/lib/market-data/types';
+import type { ApiKeyProviderId } from './api-keys';
+
+// Symbols every plan of the provider can quote, so a failure points at the key rather than the plan.
+const MARKET_TEST_SYMBOLS: Record<MarketDataProviderId, string> = {
+  polygon: 'C:EURUSD',
+  finnhub: 'AAPL',
+  twelvedata: 'EUR/USD',
+};
+
+// Cheapest authenticated endpoint per non-market service; none of these count against search quotas.
+const SERVICE_TEST_URLS: Record<Exclude<ApiKeyProviderId, MarketDataProviderId>, (key: string) => string> = {
+  openExchangeRates: key => `https://openexchangerates.org/api/usage.json?app_id=${key}`,
+  exchangeRateApi: key => `https://v6.exchangerate-api.com/v6/${key}/quota`,
+  newsApi: key => `https://newsapi.org/v2/top-headlines/sources?language=en&apiKey=${key}`,
+  fred: key => `https://api.stlouisfed.org/fred/series?series_id=FEDFUNDS&file_type=json&api_key=${key}`,
+};
+
+/**
+ * Makes one lightweight authenticated request with the given key. Never throws; failures come back as
+ * `{ ok: false, message }` with the provider's own explanation where it gives one.
+ */
+export async function testProviderConnection(id: ApiKeyProviderId, apiKey: string): Promise<{ ok: boolean; message: string }> {
+  const marketProvider = id in MARKET_TEST_SYMBOLS ? getMarketDataProvider(id as MarketDataProviderId) : undefined;
+  if (marketProvider) {
+    const symbol = MARKET_TEST_SYMBOLS[id as MarketDataProviderId];
+    try {
+      const { data, error } = await marketProvider.fetchQuote(symbol, apiKey);
+      if (data) return { ok: true, message: `Connected: ${symbol} quoted at ${data.price}.` };
+      return { ok: false, message: error?.message ?? 'No data returned.' };
+    } catch (err) {
+      return { ok: false, message: `Network/Client error - ${(err instanceof Error ? err.message : String(err)).substring(0, 100)}` };
+    }
+  }
+
+  const url = SERVICE_TEST_URLS[id as keyof typeof SERVICE_TEST_URLS](apiKey);
+  try {
+    const response = await fetch(url, { cache: 'no-store' });
+    const body = await response.json().catch(() => null);
+    // These APIs report auth failures in the body as well as (or instead of) the status code
+    const bodyError = body?.error_message || body?.['error-type'] || (body?.status === 'error' && body?.message) || (body?.error === true && body?.description);
+    if (!response.ok || bodyError) {
+      return { ok: false, message: `API Error ${response.status}: ${String(bodyError || response.statusText || 'Request failed').substring(0, 120)}` };
+    }
+    return { ok: true, message: 'Connected: key accepted.' };
+  } catch (err) {
+    return { ok: false, message: `Network/Client error - ${(err instanceof Error ? err.message : String(err)).substring(0, 100)}` };
+  }
+}
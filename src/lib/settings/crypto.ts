@@ -0,0 +1,43 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// AES-256-GCM with a random 96-bit IV per write. Stored as "v1:<iv>:<tag>:<ciphertext>", all base64.
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+export class SettingsEncryptionError extends Error {}
+
+// Any secret string works; it is hashed to the 32-byte key AES-256 needs.
+function encryptionKey(): Buffer {
+  const secret = process.env.SETTINGS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new SettingsEncryptionError('SETTINGS_ENCRYPTION_KEY is not set; per-user API keys cannot be stored.');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+export function isEncryptionConfigured(): boolean {
+  return !!process.env.SETTINGS_ENCRYPTION_KEY;
+}
+
+export function encryptJson(value: unknown): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+  return [FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptJson<T>(payload: string): T {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new SettingsEncryptionError('Unrecognised settings payload format.');
+  }
+  try {
+    const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8')) as T;
+  } catch (err) {
+    if (err instanceof SettingsEncryptionError) throw err;
+    throw new SettingsEncryptionError('Stored settings could not be decrypted (was SETTINGS_ENCRYPTION_KEY changed?).');
+  }
+}
@@ -0,0 +1,93 @@
+// Server-side API key resolution. Keys never travel to the browser: server actions call resolveApiKeys()
+// instead of accepting keys as arguments.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, randomUUID } from 'crypto';
+import { cookies } from 'next/headers';
+import { API_KEY_PROVIDERS, type ApiKeyProviderId, type ApiKeys, type ApiKeySource } from './api-keys';
+import { getSettingsStore, type UserSettings } from './store';
+
+const USER_COOKIE = 'foresight_uid';
+const USER_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // One year, refreshed on every settings write
+
+// Background jobs (e.g. alert evaluation) have no request cookies; they run as a user through runAsSettingsUser
+const scopedUser = new AsyncLocalStorage<{ userId?: string }>();
+
+/**
+ * Runs `fn` with `userId` as the current settings user, so server actions called inside it resolve that user's
+ * keys without a request. `undefined` runs with environment keys only.
+ */
+export function runAsSettingsUser<T>(userId: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return scopedUser.run({ userId }, fn);
+}
+
+// The cookie holds a secret token; stores are keyed by its hash so a stored id never grants access to the account
+function storageIdFor(token: string): string {
+  return createHash('sha256').update(`foresight-user:${token}`).digest('hex');
+}
+
+/** The anonymous per-browser settings id (an opaque storage id, not the cookie value), if one has been issued. */
+export async function getSettingsUserId(): Promise<string | undefined> {
+  const scoped = scopedUser.getStore();
+  if (scoped) return scoped.userId;
+  const cookieStore = await cookies();
+  const token = cookieStore.get(USER_COOKIE)?.value;
+  return token ? storageIdFor(token) : undefined;
+}
+
+/** Returns the settings id, issuing an httpOnly cookie first if needed. Only callable from server actions. */
+export async function getOrCreateSettingsUserId(): Promise<string> {
+  const scoped = scopedUser.getStore();
+  if (scoped?.userId) return scoped.userId;
+  const cookieStore = await cookies();
+  const token = cookieStore.get(USER_COOKIE)?.value || randomUUID();
+  cookieStore.set(USER_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: USER_COOKIE_MAX_AGE,
+    path: '/',
+  });
+  return storageIdFor(token);
+}
+
+export async function loadUserSettings(userId?: string): Promise<UserSettings | undefined> {
+  if (!userId) return undefined;
+  try {
+    return await getSettingsStore().load(userId);
+  } catch (err) {
+    // Unreadable settings must not take the dashboard down; environment keys still apply
+    console.error(`Could not load settings for ${userId}: ${err instanceof Error ? err.message : String(err)}`);
+    return undefined;
+  }
+}
+
+function envKey(id: ApiKeyProviderId): string | undefined {
+  const envVar = API_KEY_PROVIDERS.find(p => p.id === id)?.envVar;
+  const value = envVar ? process.env[envVar]?.trim() : undefined;
+  return value || undefined;
+}
+
+export interface ResolvedApiKey {
+  key?: string;
+  source: ApiKeySource;
+}
+
+export function resolveApiKeyFrom(settings: UserSettings | undefined, id: ApiKeyProviderId): ResolvedApiKey {
+  const userKey = settings?.apiKeys[id];
+  if (userKey) return { key: userKey, source: 'user' };
+  const fromEnv = envKey(id);
+  if (fromEnv) return { key: fromEnv, source: 'env' };
+  return { source: 'none' };
+}
+
+/** Every key available to the current request: the user's stored keys, then environment variables. */
+export async function resolveApiKeys(): Promise<ApiKeys> {
+  const settings = await loadUserSettings(await getSettingsUserId());
+  const keys: ApiKeys = {};
+  for (const { id } of API_KEY_PROVIDERS) {
+    const { key } = resolveApiKeyFrom(settings, id);
+    if (key) keys[id] = key;
+  }
+  return keys;
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { decryptJson, encryptJson } from './crypto';
+import type { RuleEngineConfig } from '@/lib/signals/rule-engine';
+import type { ApiKeys } from './api-keys';
+
+export interface UserSettings {
+  apiKeys: ApiKeys;
+  ruleEngine?: RuleEngineConfig; // Absent while the built-in thresholds and weights apply
+  updatedAt?: number; // Unix milliseconds
+}
+
+/** Persists one encrypted settings document per user. Swap the implementation via setSettingsStore. */
+export interface SettingsStore {
+  load(userId: string): Promise<UserSettings | undefined>;
+  save(userId: string, settings: UserSettings): Promise<void>;
+  /** Loads, changes and saves the user's document, one write at a time per user; resolves to the saved document. */
+  update(userId: string, change: (current: UserSettings | undefined) => UserSettings): Promise<UserSettings>;
+}
+
+export const USER_ID_PATTERN = /^[a-zA-Z0-9-]{8,64}$/;
+
+// One file per user under SETTINGS_STORE_DIR (default .data/settings). The whole document is encrypted,
+// so the file reveals nothing beyond its size.
+function createFileSettingsStore(directory: string): SettingsStore {
+  const fileFor = (userId: string) => {
+    if (!USER_ID_PATTERN.test(userId)) throw new Error('Invalid settings user id.');
+    return path.join(directory, `${userId}.enc`);
+  };
+
+  // Tail of each user's pending writes, so a load-change-save never interleaves with another write for that user
+  const writeQueues = new Map<string, Promise<unknown>>();
+  const serialized = <T>(userId: string, write: () => Promise<T>): Promise<T> => {
+    const result = (writeQueues.get(userId) ?? Promise.resolve()).then(write);
+    const tail = result.catch(() => undefined);
+    writeQueues.set(userId, tail);
+    tail.then(() => {
+      if (writeQueues.get(userId) === tail) writeQueues.delete(userId);
+    });
+    return result;
+  };
+
+  const load = async (userId: string) => {
+    try {
+      const payload = await fs.readFile(fileFor(userId), 'utf8');
+      return decryptJson<UserSettings>(payload);
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return undefined;
+      throw err;
+    }
+  };
+
+  const write = async (userId: string, settings: UserSettings) => {
+    await fs.mkdir(directory, { recursive: true });
+    const file = fileFor(userId);
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, encryptJson(settings), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tmp, file); // Atomic replace so a crash never leaves a half-written document
+  };
+
+  return {
+    load,
+    save: (userId, settings) => serialized(userId, () => write(userId, settings)),
+    update: (userId, change) => serialized(userId, async () => {
+      const next = change(await load(userId));
+      await write(userId, next);
+      return next;
+    }),
+  };
+}
+
+let store: SettingsStore = createFileSettingsStore(process.env.SETTINGS_STORE_DIR || path.join(process.cwd(), '.data', 'settings'));
+
+export function getSettingsStore(): SettingsStore {
+  return store;
+}
+
+export function setSettingsStore(next: SettingsStore): void {
+  store = next;
+}
@@ -0,0 +1,95 @@
+// Per-timeframe trend and momentum readings for multi-timeframe confluence. Trend comes from where the close sits
+// against SMA(20) and SMA(50); momentum from the MACD histogram, with RSI extremes overriding it.
+
+import type { GenerateConfluenceRecommendationOutput } from '@/ai/flows/generate-confluence-recommendation';
+import { computeIndicatorSnapshot, lastDefined, sma } from '@/lib/indicators';
+import type { MarketData } from '@/lib/market-data/types';
+
+export type TimeframeBias = 'bullish' | 'bearish' | 'neutral';
+
+export const CONFLUENCE_TIMEFRAMES = ['15min', '1H', '4H', '1D'];
+
+export interface TimeframeReading {
+  timeframe: string;
+  trend: TimeframeBias;
+  momentum: TimeframeBias;
+  close?: number;
+  smaFast?: number;       // SMA(20)
+  smaSlow?: number;       // SMA(50)
+  rsi?: number;
+  macdHistogram?: number;
+  sourceProvider?: MarketData['sourceProvider'];
+  error?: string;
+}
+
+export interface ConfluenceSummary {
+  bias: TimeframeBias;    // Majority of the combined per-timeframe biases; neutral on a tie
+  bullish: string[];      // Timeframes where trend or momentum points up and neither points down
+  bearish: string[];
+  mixed: string[];        // Neutral, conflicting or without data
+}
+
+const RSI_OVERBOUGHT = 70;
+const RSI_OVERSOLD = 30;
+
+function trendOf(close: number, smaFast?: number, smaSlow?: number): TimeframeBias {
+  if (smaFast === undefined || smaSlow === undefined) return 'neutral';
+  if (close > smaFast && smaFast > smaSlow) return 'bullish';
+  if (close < smaFast && smaFast < smaSlow) return 'bearish';
+  return 'neutral';
+}
+
+function momentumOf(rsi?: number, histogram?: number): TimeframeBias {
+  // Stretched RSI means the move is more likely to stall than to extend
+  if (rsi !== undefined && rsi >= RSI_OVERBOUGHT) return 'bearish';
+  if (rsi !== undefined && rsi <= RSI_OVERSOLD) return 'bullish';
+  if (histogram === undefined || histogram === 0) return 'neutral';
+  return histogram > 0 ? 'bullish' : 'bearish';
+}
+
+/** Trend and momentum for one timeframe, from the candles the market data cascade returned. */
+export function readTimeframe(timeframeId: string, marketData: MarketData): TimeframeReading {
+  const closes = (marketData.historical ?? []).map(c => c.close);
+  const close = marketData.price ?? closes[closes.length - 1];
+  if (close === undefined) {
+    return { timeframe: timeframeId, trend: 'neutral', momentum: 'neutral', error: marketData.error ?? 'No price data.' };
+  }
+  const smaFast = lastDefined(sma(closes, 20));
+  const smaSlow = lastDefined(sma(closes, 50));
+  const { rsi, macd } = computeIndicatorSnapshot(closes);
+  return {
+    timeframe: timeframeId,
+    trend: trendOf(close, smaFast, smaSlow),
+    momentum: momentumOf(rsi, macd?.histogram),
+    close,
+    smaFast,
+    smaSlow,
+    rsi,
+    macdHistogram: macd?.histogram,
+    sourceProvider: marketData.sourceProvider,
+    error: marketData.error,
+  };
+}
+
+/** Which timeframes agree, and the direction most of them point in. */
+export function summarizeConfluence(readings: TimeframeReading[]): ConfluenceSummary {
+  const summary: ConfluenceSummary = { bias: 'neutral', bullish: [], bearish: [], mixed: [] };
+  for (const reading of readings) {
+    if (reading.error && reading.close === undefined) summary.mixed.push(reading.timeframe);
+    else if (reading.trend !== 'bearish' && reading.momentum !== 'bearish' && (reading.trend === 'bullish' || reading.momentum === 'bullish')) summary.bullish.push(reading.timeframe);
+    else if (reading.trend !== 'bullish' && reading.momentum !== 'bullish' && (reading.trend === 'bearish' || reading.momentum === 'bearish')) summary.bearish.push(reading.timeframe);
+    else summary.mixed.push(reading.timeframe);
+  }
+  if (summary.bullish.length > summary.bearish.length && summary.bullish.length > summary.mixed.length) summary.bias = 'bullish';
+  else if (summary.bearish.length > summary.bullish.length && summary.bearish.length > summary.mixed.length) summary.bias = 'bearish';
+  return summary;
+}
+
+export interface ConfluenceReport {
+  assetName: string;
+  readings: TimeframeReading[];
+  summary: ConfluenceSummary;
+  recommendation?: GenerateConfluenceRecommendationOutput; // Absent when too few timeframes had data
+  generatedAt: number;    // Unix milliseconds
+  error?: string;
+}
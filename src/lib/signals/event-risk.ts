@@ -0,0 +1,119 @@
+// Scheduled-event risk around a signal: high-impact releases coming up or just out for the asset's currencies.
+// Inside the blackout window around a release, signals are suppressed to HOLD or downgraded to Low confidence;
+// released events carry their actual-vs-forecast surprise into the trade input.
+
+import type { GenerateTradeRecommendationOutput } from '@/ai/flows/generate-trade-recommendation';
+import type { EconomicEvent, EconomicImpact } from '@/lib/calendar/types';
+
+export type BlackoutAction = 'suppress' | 'downgrade';
+
+export interface EventRiskConfig {
+  blackoutBeforeMinutes: number;  // Window before a release in which signals are held back
+  blackoutAfterMinutes: number;   // And after it, while the market digests the number
+  lookaheadHours: number;         // Upcoming events reported to the flow
+  lookbackHours: number;          // Released events whose surprise is reported to the flow
+  impacts: EconomicImpact[];      // Impact levels that count
+  action: BlackoutAction;
+}
+
+export const DEFAULT_EVENT_RISK_CONFIG: EventRiskConfig = {
+  blackoutBeforeMinutes: 30,
+  blackoutAfterMinutes: 15,
+  lookaheadHours: 24,
+  lookbackHours: 12,
+  impacts: ['High'],
+  action: 'suppress',
+};
+
+export interface RiskEvent {
+  title: string;
+  currency: string;
+  timestamp: number;              // Unix milliseconds
+  actual?: string;
+  forecast?: string;
+  surprise?: number;              // actual − forecast, in the release's unit
+  surprisePct?: number;           // Surprise relative to |forecast|, in percent
+}
+
+export interface EventRisk {
+  currencies: string[];
+  upcoming: RiskEvent[];          // Soonest first
+  recent: RiskEvent[];            // Most recent first
+  blackout?: RiskEvent & { endsAt: number }; // The release that puts `now` inside its window
+  action: BlackoutAction;
+  assessedAt: number;             // Unix milliseconds
+  error?: string;                 // Calendar unavailable; signals proceed without event awareness
+}
+
+// "3.2%", "-0.4", "228K", "1.2M" → number in the release's unit; undefined when not numeric
+function parseReleaseValue(value?: string): number | undefined {
+  if (!value) return undefined;
+  const match = value.replace(/,/g, '').trim().match(/^([+-]?\d+(?:\.\d+)?)\s*([KMBT%])?$/i);
+  if (!match) return undefined;
+  const scale: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+  return parseFloat(match[1]) * (scale[match[2]?.toUpperCase() ?? ''] ?? 1);
+}
+
+function toRiskEvent(event: EconomicEvent): RiskEvent {
+  const risk: RiskEvent = { title: event.title, currency: event.currency, timestamp: event.timestamp, actual: event.actual, forecast: event.forecast };
+  const actual = parseReleaseValue(event.actual);
+  const forecast = parseReleaseValue(event.forecast);
+  if (actual !== undefined && forecast !== undefined) {
+    risk.surprise = parseFloat((actual - forecast).toPrecision(6));
+    if (forecast !== 0) risk.surprisePct = parseFloat((((actual - forecast) / Math.abs(forecast)) * 100).toFixed(1));
+  }
+  return risk;
+}
+
+export function mergeEventRiskConfig(overrides?: Partial<EventRiskConfig>): EventRiskConfig {
+  return { ...DEFAULT_EVENT_RISK_CONFIG, ...overrides };
+}
+
+/** Sorts `events` for `currencies` into upcoming and recent releases, and finds any blackout covering `now`. */
+export function assessEventRisk(
+  events: EconomicEvent[],
+  currencies: string[],
+  config: EventRiskConfig = DEFAULT_EVENT_RISK_CONFIG,
+  now = Date.now()
+): EventRisk {
+  const relevant = events.filter(e => currencies.includes(e.currency) && config.impacts.includes(e.impact));
+  const upcoming = relevant
+    .filter(e => e.timestamp > now && e.timestamp <= now + config.lookaheadHours * 3_600_000)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(toRiskEvent);
+  const recent = relevant
+    .filter(e => e.timestamp <= now && e.timestamp >= now - config.lookbackHours * 3_600_000)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(toRiskEvent);
+
+  const risk: EventRisk = { currencies, upcoming, recent, action: config.action, assessedAt: now };
+  const blackoutEvent = [...recent, ...upcoming].find(e =>
+    now >= e.timestamp - config.blackoutBeforeMinutes * 60_000 && now < e.timestamp + config.blackoutAfterMinutes * 60_000);
+  if (blackoutEvent) risk.blackout = { ...blackoutEvent, endsAt: blackoutEvent.timestamp + config.blackoutAfterMinutes * 60_000 };
+  return risk;
+}
+
+const minutesBetween = (from: number, to: number) => Math.round((to - from) / 60_000);
+
+export function describeRiskEvent(event: RiskEvent, now = Date.now()): string {
+  const minutes = minutesBetween(now, event.timestamp);
+  const when = minutes >= 0 ? `in ${minutes} min` : `${-minutes} min ago`;
+  return `${event.title} (${event.currency}) ${when}`;
+}
+
+/**
+ * The signal to show while a blackout is active: HOLD when suppressing, the same call at Low confidence and without
+ * a trade plan when downgrading. Signals outside a blackout, and HOLDs, are returned as they are.
+ */
+export function applyEventBlackout(
+  signal: GenerateTradeRecommendationOutput,
+  risk: EventRisk | undefined,
+  now = Date.now()
+): GenerateTradeRecommendationOutput {
+  if (!risk?.blackout || signal.error || signal.recommendation === 'HOLD') return signal;
+  const note = `Event blackout: ${describeRiskEvent(risk.blackout, now)}.`;
+  if (risk.action === 'suppress') {
+    return { recommendation: 'HOLD', reason: `${note} Underlying ${signal.recommendation} signal held back: ${signal.reason}` };
+  }
+  return { ...signal, tradePlan: undefined, confidence: 'Low', reason: `${note} ${signal.reason}` };
+}
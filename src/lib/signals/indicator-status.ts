@@ -0,0 +1,23 @@
+// Plain-language labels for indicator readings, shared by the dashboard and the watchlist.
+
+import type { MacdValues } from '@/lib/market-data/types';
+
+export const getRsiStatus = (rsiValue?: number): string => {
+  if (rsiValue === undefined || rsiValue === null || isNaN(rsiValue)) return 'N/A';
+  if (rsiValue < 30) return 'Oversold';
+  if (rsiValue > 70) return 'Overbought';
+  return 'Neutral';
+};
+
+export const getMacdStatus = (macdData?: MacdValues): string => {
+  if (!macdData || macdData.value === undefined || macdData.value === null || isNaN(macdData.value) ||
+      macdData.signal === undefined || macdData.signal === null || isNaN(macdData.signal)) {
+    return 'N/A';
+  }
+  const epsilon = 0.0000001;
+  if (macdData.histogram !== undefined && macdData.histogram > epsilon) return 'Uptrend';
+  if (macdData.histogram !== undefined && macdData.histogram < -epsilon) return 'Downtrend';
+  if (macdData.value > macdData.signal) return 'Uptrend';
+  if (macdData.value < macdData.signal) return 'Downtrend';
+  return 'Neutral';
+};
@@ -0,0 +1,47 @@
+// Position size from account equity, risk per trade and the distance between entry and stop. Amounts are in the
+// asset's quote currency (USD for EUR/USD and BTC/USD), so accounts in another currency need converting first.
+
+import type { AssetType } from '@/lib/assets/types';
+
+const FX_LOT_UNITS = 100_000;
+
+export interface PositionSizeInput {
+  equity: number;         // Account equity in the quote currency
+  riskPercent: number;    // Share of equity lost if the stop is hit, e.g. 1 for 1%
+  entry: number;
+  stopLoss: number;
+  assetName: string;
+  assetType: AssetType;
+}
+
+export interface PositionSize {
+  riskAmount: number;     // Equity lost at the stop
+  stopDistance: number;   // Price units between entry and stop
+  units: number;          // Base currency units, coins, ounces or shares
+  notional: number;       // units × entry
+  leverage: number;       // notional ÷ equity
+  lots?: number;          // Standard FX lots of 100,000 units
+  stopPips?: number;      // FX only
+  error?: string;
+}
+
+const pipSizeFor = (assetName: string) => (assetName.includes('JPY') ? 0.01 : 0.0001);
+
+export function calculatePositionSize(input: PositionSizeInput): PositionSize {
+  const { equity, riskPercent, entry, stopLoss, assetName, assetType } = input;
+  const riskAmount = equity * (riskPercent / 100);
+  const stopDistance = Math.abs(entry - stopLoss);
+  const empty: PositionSize = { riskAmount, stopDistance, units: 0, notional: 0, leverage: 0 };
+  if (!(equity > 0)) return { ...empty, error: 'Enter a positive account equity.' };
+  if (!(riskPercent > 0) || riskPercent > 100) return { ...empty, error: 'Risk per trade must be between 0 and 100%.' };
+  if (!(stopDistance > 0)) return { ...empty, error: 'The stop-loss must differ from the entry.' };
+
+  const units = riskAmount / stopDistance;
+  const notional = units * entry;
+  const size: PositionSize = { riskAmount, stopDistance, units, notional, leverage: notional / equity };
+  if (assetType === 'currency') {
+    size.lots = units / FX_LOT_UNITS;
+    size.stopPips = stopDistance / pipSizeFor(assetName);
+  }
+  return size;
+}
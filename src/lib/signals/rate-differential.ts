@@ -0,0 +1,70 @@
+// Policy-rate differential and carry for FX pairs. A pair is long the base currency and short the quote currency,
+// so holding it earns (or pays) the base rate minus the quote rate; a widening differential tends to support the pair.
+
+import { subMonths } from 'date-fns';
+import { valueOn } from '@/lib/fred/analysis';
+import type { FredObservation } from '@/lib/fred/types';
+import type { RateProvenance } from '@/lib/policy-rates/types';
+
+export interface PolicyRateSeries {
+  currency: string;
+  seriesId: string;        // FRED series, or the rate table's version
+  observations: FredObservation[]; // Oldest first
+}
+
+export type DifferentialHorizon = '3m' | '6m' | '12m';
+
+export const DIFFERENTIAL_HORIZONS: { id: DifferentialHorizon; months: number }[] = [
+  { id: '3m', months: 3 },
+  { id: '6m', months: 6 },
+  { id: '12m', months: 12 },
+];
+
+export interface RateDifferential {
+  baseCurrency: string;
+  quoteCurrency: string;
+  baseRate: number;
+  quoteRate: number;
+  differential: number;     // baseRate − quoteRate, percentage points
+  carryPer100kPerDay: number; // Daily carry on 100,000 units of the base currency held long, in base currency
+  changes: Partial<Record<DifferentialHorizon, number>>; // Change of the differential over each horizon, points
+  lastUpdated: string;      // Date of the older of the two latest observations
+  provenance?: RateProvenance;
+}
+
+const DAYS_PER_YEAR = 365;
+
+const round = (value: number, decimals = 2) => parseFloat(value.toFixed(decimals));
+
+/** Differential, carry and its change over 3/6/12 months; undefined when either leg has no observations. */
+export function computeRateDifferential(base: PolicyRateSeries, quote: PolicyRateSeries, now = new Date()): RateDifferential | undefined {
+  const baseLatest = base.observations[base.observations.length - 1];
+  const quoteLatest = quote.observations[quote.observations.length - 1];
+  if (!baseLatest || !quoteLatest) return undefined;
+
+  const differential = baseLatest.value - quoteLatest.value;
+  const changes: RateDifferential['changes'] = {};
+  for (const { id, months } of DIFFERENTIAL_HORIZONS) {
+    const then = subMonths(now, months).toISOString().slice(0, 10);
+    const baseThen = valueOn(base.observations, then);
+    const quoteThen = valueOn(quote.observations, then);
+    if (baseThen !== undefined && quoteThen !== undefined) changes[id] = round(differential - (baseThen - quoteThen));
+  }
+
+  return {
+    baseCurrency: base.currency,
+    quoteCurrency: quote.currency,
+    baseRate: baseLatest.value,
+    quoteRate: quoteLatest.value,
+    differential: round(differential),
+    carryPer100kPerDay: round((100_000 * differential) / 100 / DAYS_PER_YEAR),
+    changes,
+    lastUpdated: baseLatest.date < quoteLatest.date ? baseLatest.date : quoteLatest.date,
+  };
+}
+
+/** Base and quote currency of an FX pair name ("USD/JPY" → ["USD", "JPY"]); undefined for anything else. */
+export function pairCurrencies(assetName: string): [string, string] | undefined {
+  const legs = assetName.toUpperCase().split('/').map(part => part.trim());
+  return legs.length === 2 && legs.every(leg => /^[A-Z]{3}$/.test(leg)) ? [legs[0], legs[1]] : undefined;
+}
@@ -0,0 +1,65 @@
+// When the dashboard refreshes each data domain, and when fresh data is different enough to run the AI flows
+// again. Prices poll on the auto-refresh timer; indicators settle once per closed bar; news and rates move slowly.
+// The sentiment flow reruns only for new headlines, the trade flow only when an input moved materially.
+
+import type { GenerateTradeRecommendationInput } from '@/ai/flows/generate-trade-recommendation';
+import { barBounds, type SessionConvention } from '@/lib/market-data/bars';
+
+export type DataDomain = 'price' | 'indicators' | 'news' | 'rates';
+
+export const ALL_DATA_DOMAINS: DataDomain[] = ['price', 'indicators', 'news', 'rates'];
+
+export type DomainTimestamps = Partial<Record<DataDomain, number>>; // Last fetch per domain, Unix milliseconds
+
+const NEWS_REFRESH_MS = 60 * 60 * 1000;
+const RATES_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+// Smallest moves in a trade input that warrant a new AI signal
+const MATERIAL_RSI_POINTS = 2;
+const MATERIAL_MACD_FRACTION = 0.25;   // Of the previous MACD's magnitude; a sign flip always counts
+const MATERIAL_SENTIMENT = 0.1;
+const MATERIAL_RATE_POINTS = 0.05;     // Percentage points
+const MATERIAL_PRICE_FRACTION = 0.0025;
+
+/** Domains due for a refresh at `now`. Indicators are due once a bar has closed since they were last fetched. */
+export function dueDomains(fetchedAt: DomainTimestamps, timeframeId: string, convention: SessionConvention, now = Date.now()): DataDomain[] {
+  const isDue: Record<DataDomain, (last: number) => boolean> = {
+    price: () => true, // The auto-refresh interval already paces prices
+    indicators: last => last < barBounds(now, timeframeId, convention).openTime,
+    news: last => now - last >= NEWS_REFRESH_MS,
+    rates: last => now - last >= RATES_REFRESH_MS,
+  };
+  return ALL_DATA_DOMAINS.filter(domain => {
+    const last = fetchedAt[domain];
+    return last === undefined || isDue[domain](last);
+  });
+}
+
+/** Identifies a set of headlines regardless of order, to tell whether the news actually changed. */
+export function headlinesKey(headlines: string[]): string {
+  return [...headlines].sort().join('\n');
+}
+
+// A new print counts; the minutes since each release ticking up does not
+const releasesKey = (input: GenerateTradeRecommendationInput) =>
+  (input.recentReleases ?? []).map(r => `${r.currency}:${r.event}:${r.actual ?? ''}`).join('|');
+
+/** Trade inputs that moved enough since `previous` to warrant a new AI signal; empty when none did. */
+export function materialTradeInputChanges(
+  previous: GenerateTradeRecommendationInput,
+  next: GenerateTradeRecommendationInput
+): (keyof GenerateTradeRecommendationInput)[] {
+  const changes: (keyof GenerateTradeRecommendationInput)[] = [];
+  if (Math.abs(next.rsi - previous.rsi) >= MATERIAL_RSI_POINTS) changes.push('rsi');
+  if (Math.sign(next.macd) !== Math.sign(previous.macd)
+    || Math.abs(next.macd - previous.macd) > MATERIAL_MACD_FRACTION * Math.abs(previous.macd)) changes.push('macd');
+  if (Math.abs(next.sentimentScore - previous.sentimentScore) >= MATERIAL_SENTIMENT) changes.push('sentimentScore');
+  if ((next.interestRate === undefined) !== (previous.interestRate === undefined)
+    || Math.abs((next.interestRate ?? 0) - (previous.interestRate ?? 0)) >= MATERIAL_RATE_POINTS) changes.push('interestRate');
+  if (!!next.rateDifferential !== !!previous.rateDifferential
+    || Math.abs((next.rateDifferential?.differential ?? 0) - (previous.rateDifferential?.differential ?? 0)) >= MATERIAL_RATE_POINTS) changes.push('rateDifferential');
+  if (previous.price === 0 || Math.abs(next.price - previous.price) / Math.abs(previous.price) >= MATERIAL_PRICE_FRACTION) changes.push('price');
+  if (next.marketStatus !== previous.marketStatus) changes.push('marketStatus');
+  if (releasesKey(next) !== releasesKey(previous)) changes.push('recentReleases');
+  return changes;
+}
@@ -0,0 +1,161 @@
+// Deterministic counterpart to the generateTradeRecommendation flow. It applies the prompt's
+// "Simplified Rule-Based Logic" as weighted votes and returns the same output shape, so the two can be
+// shown side by side and swapped for each other.
+
+import type { GenerateTradeRecommendationInput, GenerateTradeRecommendationOutput } from '@/ai/flows/generate-trade-recommendation';
+import { buildTradePlan } from './trade-plan';
+
+export type SignalEngineId = 'ai' | 'rules';
+
+export type RuleFactor = 'rsi' | 'macd' | 'sentiment' | 'interestRate';
+
+export interface RuleEngineConfig {
+  rsiOversold: number;        // RSI below this votes BUY
+  rsiOverbought: number;      // RSI above this votes SELL
+  macdNeutralBand: number;    // |MACD| at or below this is treated as flat
+  sentimentPositive: number;  // Sentiment above this votes BUY
+  sentimentNegative: number;  // Sentiment below this votes SELL
+  rateSupportive: number;     // Benchmark rate (%) at or above this votes BUY
+  rateUnsupportive: number;   // Benchmark rate (%) at or below this votes SELL
+  differentialSupportive: number; // FX pairs vote on base − quote rate instead: at or above this BUY, at or below its negative SELL
+  weights: Record<RuleFactor, number>;
+  decisionThreshold: number;  // Weighted score (-1..1) needed for BUY (>=) or SELL (<= negative)
+}
+
+// Thresholds mirror the prompt. With these weights a signal needs RSI, MACD and sentiment to agree and the
+// rate to be at least neutral (score 0.86); an opposing rate (0.71) or only two agreeing factors fall short.
+export const DEFAULT_RULE_ENGINE_CONFIG: RuleEngineConfig = {
+  rsiOversold: 35,
+  rsiOverbought: 65,
+  macdNeutralBand: 0,
+  sentimentPositive: 0.3,
+  sentimentNegative: -0.3,
+  rateSupportive: 3,
+  rateUnsupportive: 1,
+  differentialSupportive: 0.5,
+  weights: { rsi: 1, macd: 1, sentiment: 1, interestRate: 0.5 },
+  decisionThreshold: 0.75,
+};
+
+export interface RuleVote {
+  factor: RuleFactor;
+  vote: -1 | 0 | 1;
+  detail: string;
+}
+
+function castVotes(input: GenerateTradeRecommendationInput, config: RuleEngineConfig): RuleVote[] {
+  const { rsi, macd, sentimentScore, interestRate } = input;
+  const votes: RuleVote[] = [];
+
+  if (rsi < config.rsiOversold) votes.push({ factor: 'rsi', vote: 1, detail: `RSI is oversold at ${rsi.toFixed(2)}` });
+  else if (rsi > config.rsiOverbought) votes.push({ factor: 'rsi', vote: -1, detail: `RSI is overbought at ${rsi.toFixed(2)}` });
+  else votes.push({ factor: 'rsi', vote: 0, detail: `RSI is neutral at ${rsi.toFixed(2)}` });
+
+  if (macd > config.macdNeutralBand) votes.push({ factor: 'macd', vote: 1, detail: 'MACD is positive (bullish momentum)' });
+  else if (macd < -config.macdNeutralBand) votes.push({ factor: 'macd', vote: -1, detail: 'MACD is negative (bearish momentum)' });
+  else votes.push({ factor: 'macd', vote: 0, detail: 'MACD is flat' });
+
+  if (sentimentScore > config.sentimentPositive) votes.push({ factor: 'sentiment', vote: 1, detail: `news sentiment is positive (${sentimentScore.toFixed(2)})` });
+  else if (sentimentScore < config.sentimentNegative) votes.push({ factor: 'sentiment', vote: -1, detail: `news sentiment is negative (${sentimentScore.toFixed(2)})` });
+  else votes.push({ factor: 'sentiment', vote: 0, detail: `news sentiment is neutral (${sentimentScore.toFixed(2)})` });
+
+  // Rates from the fallback table say so, since they may be out of date
+  const tableNote = (provenance?: { source: string; asOf: string }) => (provenance?.source === 'table' ? ` (rate table as of ${provenance.asOf})` : '');
+  const differential = input.rateDifferential;
+  if (differential) {
+    const { differential: points, baseCurrency, quoteCurrency } = differential;
+    const label = `the ${points >= 0 ? '+' : ''}${points.toFixed(2)} pt ${baseCurrency}-${quoteCurrency} rate differential${tableNote(differential.provenance)}`;
+    if (points >= config.differentialSupportive) votes.push({ factor: 'interestRate', vote: 1, detail: `${label} favours carry longs` });
+    else if (points <= -config.differentialSupportive) votes.push({ factor: 'interestRate', vote: -1, detail: `${label} favours carry shorts` });
+    else votes.push({ factor: 'interestRate', vote: 0, detail: `${label} is narrow` });
+  } else if (interestRate === undefined) votes.push({ factor: 'interestRate', vote: 0, detail: 'no benchmark rate is available' });
+  else {
+    const label = `the ${interestRate.toFixed(2)}% rate${tableNote(input.interestRateProvenance)}`;
+    if (interestRate >= config.rateSupportive) votes.push({ factor: 'interestRate', vote: 1, detail: `${label} is supportive` });
+    else if (interestRate <= config.rateUnsupportive) votes.push({ factor: 'interestRate', vote: -1, detail: `${label} is unsupportive` });
+    else votes.push({ factor: 'interestRate', vote: 0, detail: `${label} is neutral` });
+  }
+
+  return votes;
+}
+
+/** Weighted mean of the votes, from -1 (every factor bearish) to 1 (every factor bullish). */
+export function scoreRuleVotes(votes: RuleVote[], weights: RuleEngineConfig['weights']): number {
+  const totalWeight = votes.reduce((sum, v) => sum + weights[v.factor], 0);
+  if (totalWeight === 0) return 0;
+  return votes.reduce((sum, v) => sum + weights[v.factor] * v.vote, 0) / totalWeight;
+}
+
+export function mergeRuleEngineConfig(overrides?: Partial<RuleEngineConfig>): RuleEngineConfig {
+  return {
+    ...DEFAULT_RULE_ENGINE_CONFIG,
+    ...overrides,
+    weights: { ...DEFAULT_RULE_ENGINE_CONFIG.weights, ...overrides?.weights },
+  };
+}
+
+const MAX_RULE_WEIGHT = 10;
+
+/**
+ * Copies only the known fields of an untrusted config (e.g. from a server action) and checks it. Returns the
+ * config, or an error naming the first invalid setting.
+ */
+export function validateRuleEngineConfig(raw: RuleEngineConfig): { config?: RuleEngineConfig; error?: string } {
+  const config: RuleEngineConfig = {
+    rsiOversold: raw?.rsiOversold,
+    rsiOverbought: raw?.rsiOverbought,
+    macdNeutralBand: raw?.macdNeutralBand,
+    sentimentPositive: raw?.sentimentPositive,
+    sentimentNegative: raw?.sentimentNegative,
+    rateSupportive: raw?.rateSupportive,
+    rateUnsupportive: raw?.rateUnsupportive,
+    differentialSupportive: raw?.differentialSupportive,
+    weights: { rsi: raw?.weights?.rsi, macd: raw?.weights?.macd, sentiment: raw?.weights?.sentiment, interestRate: raw?.weights?.interestRate },
+    decisionThreshold: raw?.decisionThreshold,
+  };
+  const { weights, ...thresholds } = config;
+  const numbers = [...Object.values(thresholds), ...Object.values(weights)];
+  if (!numbers.every(v => typeof v === 'number' && Number.isFinite(v))) return { error: 'Every rule setting must be a number.' };
+
+  if (!(config.rsiOversold >= 0 && config.rsiOversold < config.rsiOverbought && config.rsiOverbought <= 100)) {
+    return { error: 'RSI thresholds must satisfy 0 <= oversold < overbought <= 100.' };
+  }
+  if (config.macdNeutralBand < 0) return { error: 'The MACD neutral band cannot be negative.' };
+  if (!(config.sentimentNegative >= -1 && config.sentimentNegative < config.sentimentPositive && config.sentimentPositive <= 1)) {
+    return { error: 'Sentiment thresholds must satisfy -1 <= negative < positive <= 1.' };
+  }
+  if (config.rateUnsupportive >= config.rateSupportive) return { error: 'The unsupportive rate must be below the supportive rate.' };
+  if (config.differentialSupportive < 0) return { error: 'The supportive rate differential cannot be negative.' };
+  if (!Object.values(weights).every(w => w >= 0 && w <= MAX_RULE_WEIGHT)) return { error: `Weights must be between 0 and ${MAX_RULE_WEIGHT}.` };
+  if (!Object.values(weights).some(w => w > 0)) return { error: 'At least one factor needs a weight above 0.' };
+  if (!(config.decisionThreshold > 0 && config.decisionThreshold <= 1)) return { error: 'The decision threshold must be above 0 and at most 1.' };
+  return { config };
+}
+
+/**
+ * Evaluates the rules for one set of inputs. Pure and synchronous: the same input and config always
+ * give the same recommendation and reason.
+ */
+export function evaluateTradeRules(
+  input: GenerateTradeRecommendationInput,
+  overrides?: Partial<RuleEngineConfig>
+): GenerateTradeRecommendationOutput {
+  const config = mergeRuleEngineConfig(overrides);
+  const votes = castVotes(input, config);
+  const score = scoreRuleVotes(votes, config.weights);
+
+  let recommendation: GenerateTradeRecommendationOutput['recommendation'] = 'HOLD';
+  if (score >= config.decisionThreshold) recommendation = 'BUY';
+  else if (score <= -config.decisionThreshold) recommendation = 'SELL';
+
+  const weighted = votes.filter(v => config.weights[v.factor] > 0);
+  const drivers = recommendation === 'HOLD' ? weighted : weighted.filter(v => v.vote === (recommendation === 'BUY' ? 1 : -1));
+  const summary = drivers.map(v => v.detail).join(', ');
+  const closedNote = input.marketStatus && input.marketStatus !== 'open' && input.marketStatus !== 'unknown' ? `Based on last session data (market ${input.marketStatus}), ` : '';
+  const reason = recommendation === 'HOLD'
+    ? `${closedNote}${closedNote ? 'signals' : 'Signals'} are mixed (score ${score.toFixed(2)}, needs ±${config.decisionThreshold}): ${summary}.`
+    : `${closedNote}${closedNote ? summary : summary.charAt(0).toUpperCase() + summary.slice(1)} (score ${score.toFixed(2)}).`;
+
+  const tradePlan = buildTradePlan(recommendation, input);
+  return tradePlan ? { recommendation, reason, tradePlan } : { recommendation, reason };
+}
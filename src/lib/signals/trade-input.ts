@@ -0,0 +1,97 @@
+// Builds the generateTradeRecommendation input from fetched data. Shared by the dashboard and server-side jobs
+// so a signal computed in the background sees exactly what the dashboard would have sent.
+
+import type { GenerateTradeRecommendationInput } from '@/ai/flows/generate-trade-recommendation';
+import type { Asset } from '@/lib/assets/types';
+import { atr, lastDefined, supportResistanceLevels } from '@/lib/indicators';
+import type { MarketData } from '@/lib/market-data/types';
+import type { RateProvenance } from '@/lib/policy-rates/types';
+import type { EventRisk } from './event-risk';
+import type { RateDifferential } from './rate-differential';
+
+export type TradeInputAsset = Pick<Asset, 'name' | 'type' | 'economicIds'>;
+
+// Optional context beyond prices, sentiment and the benchmark rate
+export interface TradeInputContext {
+  eventRisk?: EventRisk;
+  rateDifferential?: RateDifferential; // FX pairs only
+}
+
+export function priceDecimalsFor(asset: { name: string; type: string }): number {
+  const { name } = asset;
+  return name.includes('JPY') || name.includes('XAU') || name.includes('XAG') || name.includes('Oil') || asset.type === 'crypto' ? 2 : 4;
+}
+
+// Placeholder price when no provider returned one, so the flow still gets a plausible magnitude
+function fallbackPrice(asset: TradeInputAsset): number {
+  if (asset.type === 'crypto') return 60000;
+  if (asset.type === 'commodity') {
+    if (asset.name.includes('XAU')) return 2300;
+    if (asset.name.includes('XAG')) return 25;
+    if (asset.name.includes('Oil')) return 75;
+    return 100;
+  }
+  return 1.1;
+}
+
+export function buildTradeRecommendationInput(
+  asset: TradeInputAsset,
+  marketData: MarketData,
+  sentimentScore: number | undefined,
+  fetchedRate?: { rate?: number; provenance?: RateProvenance },
+  { eventRisk, rateDifferential }: TradeInputContext = {}
+): GenerateTradeRecommendationInput {
+  const price = marketData.price ?? fallbackPrice(asset);
+  const decimals = priceDecimalsFor(asset);
+  const input: GenerateTradeRecommendationInput = {
+    rsi: parseFloat((marketData.rsi ?? 50).toFixed(2)),
+    macd: parseFloat((marketData.macd?.value ?? 0).toFixed(4)),
+    sentimentScore: parseFloat((sentimentScore ?? 0).toFixed(2)),
+    price: parseFloat(price.toFixed(decimals)),
+    marketStatus: marketData.marketStatus,
+  };
+
+  // No invented rate when neither FRED nor the rate table has one; the flow is told the rate is unavailable
+  if (fetchedRate?.rate !== undefined) {
+    input.interestRate = parseFloat(fetchedRate.rate.toFixed(2));
+    if (fetchedRate.provenance) input.interestRateProvenance = { source: fetchedRate.provenance.source, asOf: fetchedRate.provenance.asOf };
+  }
+
+  // Trade plans are anchored to ATR and levels, so they are only offered with real candles
+  const candles = marketData.historical ?? [];
+  const atrValue = lastDefined(atr(candles));
+  if (atrValue !== undefined && atrValue > 0) {
+    const levels = supportResistanceLevels(candles);
+    const atrDecimals = Math.max(decimals, Math.ceil(-Math.log10(atrValue)) + 2);
+    input.atr = parseFloat(atrValue.toFixed(atrDecimals));
+    input.supportLevels = levels.support.map(level => parseFloat(level.toFixed(decimals)));
+    input.resistanceLevels = levels.resistance.map(level => parseFloat(level.toFixed(decimals)));
+  }
+
+  if (rateDifferential) {
+    const { baseCurrency, quoteCurrency, baseRate, quoteRate, differential, changes, provenance } = rateDifferential;
+    input.rateDifferential = {
+      baseCurrency, quoteCurrency, baseRate, quoteRate, differential,
+      change3m: changes['3m'], change6m: changes['6m'], change12m: changes['12m'],
+      provenance: provenance && { source: provenance.source, asOf: provenance.asOf },
+    };
+  }
+
+  if (eventRisk && !eventRisk.error) {
+    const minutesFrom = (timestamp: number) => Math.round(Math.abs(timestamp - eventRisk.assessedAt) / 60_000);
+    if (eventRisk.upcoming.length > 0) {
+      input.upcomingEvents = eventRisk.upcoming.map(e => ({ event: e.title, currency: e.currency, minutesUntil: minutesFrom(e.timestamp) }));
+    }
+    if (eventRisk.recent.length > 0) {
+      input.recentReleases = eventRisk.recent.map(e => ({
+        event: e.title,
+        currency: e.currency,
+        minutesAgo: minutesFrom(e.timestamp),
+        actual: e.actual,
+        forecast: e.forecast,
+        surprisePct: e.surprisePct,
+      }));
+    }
+  }
+  return input;
+}
@@ -0,0 +1,94 @@
+// Entry, stop and targets for a BUY or SELL, anchored to ATR and the support/resistance levels in the trade input.
+// The rules engine uses the plan as built here; the AI flow's plan is kept only when its prices are consistent
+// with the side, and replaced by this one otherwise.
+
+import type { GenerateTradeRecommendationInput, GenerateTradeRecommendationOutput, TradePlan } from '@/ai/flows/generate-trade-recommendation';
+
+const ENTRY_ZONE_ATR = 0.25;    // Zone extends this far from the price toward a better fill
+const STOP_BUFFER_ATR = 0.5;    // Beyond the protecting level
+const MIN_STOP_ATR = 1;
+const MAX_STOP_ATR = 3;
+const DEFAULT_STOP_ATR = 1.5;   // When no level sits within the allowed stop range
+const MIN_TARGET_RR = 1;        // Levels closer than this multiple of the risk aren't worth targeting
+const DEFAULT_TARGET_RR = 2;
+const MAX_TARGETS = 3;
+
+const round = (value: number, decimals: number) => parseFloat(value.toFixed(decimals));
+
+// Enough decimals to keep a tenth of the ATR visible
+const decimalsFor = (price: number, atr: number) => Math.min(8, Math.max(2, Math.ceil(-Math.log10(atr / 10)), price >= 1000 ? 2 : 4));
+
+/** A plan for `recommendation` from the input's ATR and levels; undefined for HOLD or without a positive ATR. */
+export function buildTradePlan(
+  recommendation: GenerateTradeRecommendationOutput['recommendation'],
+  input: GenerateTradeRecommendationInput
+): TradePlan | undefined {
+  const { price, atr } = input;
+  if (recommendation === 'HOLD' || atr === undefined || !(atr > 0)) return undefined;
+  const dir = recommendation === 'BUY' ? 1 : -1;
+  const decimals = decimalsFor(price, atr);
+
+  const entryEdge = price - dir * ENTRY_ZONE_ATR * atr;
+  const entry = (price + entryEdge) / 2;
+
+  // Protecting levels sit on the losing side of the entry; targets on the winning side
+  const protecting = (dir === 1 ? input.supportLevels : input.resistanceLevels) ?? [];
+  const opposing = (dir === 1 ? input.resistanceLevels : input.supportLevels) ?? [];
+
+  const stopFromLevel = protecting
+    .filter(level => dir * (entry - level) > 0)
+    .sort((a, b) => dir * (b - a))
+    .map(level => level - dir * STOP_BUFFER_ATR * atr)
+    .find(stop => {
+      const distance = dir * (entry - stop);
+      return distance >= MIN_STOP_ATR * atr && distance <= MAX_STOP_ATR * atr;
+    });
+  const protectingLevel = stopFromLevel === undefined ? undefined : stopFromLevel + dir * STOP_BUFFER_ATR * atr;
+  const stopLoss = stopFromLevel ?? entry - dir * DEFAULT_STOP_ATR * atr;
+  const risk = dir * (entry - stopLoss);
+
+  const takeProfits = opposing
+    .filter(level => dir * (level - entry) >= MIN_TARGET_RR * risk)
+    .sort((a, b) => dir * (a - b))
+    .slice(0, MAX_TARGETS);
+  if (takeProfits.length === 0) takeProfits.push(entry + dir * DEFAULT_TARGET_RR * risk);
+
+  const invalidationPrice = round(protectingLevel ?? stopLoss, decimals);
+  return {
+    entryZone: { low: round(Math.min(price, entryEdge), decimals), high: round(Math.max(price, entryEdge), decimals) },
+    stopLoss: round(stopLoss, decimals),
+    takeProfits: takeProfits.map(tp => round(tp, decimals)),
+    riskReward: round(dir * (takeProfits[0] - entry) / risk, 2),
+    invalidation: protectingLevel === undefined
+      ? `A close ${dir === 1 ? 'below' : 'above'} ${invalidationPrice} (${DEFAULT_STOP_ATR} ATR from the entry).`
+      : `A close ${dir === 1 ? 'below' : 'above'} the ${dir === 1 ? 'support' : 'resistance'} at ${invalidationPrice}.`,
+  };
+}
+
+/** Whether the plan's prices line up with the side: stop beyond the entry zone, every target on the winning side. */
+export function isConsistentTradePlan(recommendation: GenerateTradeRecommendationOutput['recommendation'], plan: TradePlan): boolean {
+  if (recommendation === 'HOLD' || plan.takeProfits.length === 0 || plan.entryZone.low > plan.entryZone.high) return false;
+  const values = [plan.entryZone.low, plan.entryZone.high, plan.stopLoss, ...plan.takeProfits];
+  if (values.some(v => !Number.isFinite(v))) return false;
+  return recommendation === 'BUY'
+    ? plan.stopLoss < plan.entryZone.low && plan.takeProfits.every(tp => tp > plan.entryZone.high)
+    : plan.stopLoss > plan.entryZone.high && plan.takeProfits.every(tp => tp < plan.entryZone.low);
+}
+
+/**
+ * The plan to attach to a recommendation: the model's when consistent (targets sorted, risk/reward recomputed from
+ * its own prices), otherwise the one built from ATR and levels. Undefined for HOLD.
+ */
+export function reconcileTradePlan(
+  recommendation: GenerateTradeRecommendationOutput['recommendation'],
+  input: GenerateTradeRecommendationInput,
+  modelPlan?: TradePlan
+): TradePlan | undefined {
+  if (recommendation === 'HOLD') return undefined;
+  if (!modelPlan || !isConsistentTradePlan(recommendation, modelPlan)) return buildTradePlan(recommendation, input);
+  const dir = recommendation === 'BUY' ? 1 : -1;
+  const takeProfits = [...modelPlan.takeProfits].sort((a, b) => dir * (a - b));
+  const entry = (modelPlan.entryZone.low + modelPlan.entryZone.high) / 2;
+  const riskReward = round(dir * (takeProfits[0] - entry) / (dir * (entry - modelPlan.stopLoss)), 2);
+  return { ...modelPlan, takeProfits, riskReward };
+}
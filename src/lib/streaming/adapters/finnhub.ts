@@ -0,0 +1,27 @@
+import type { StreamAdapter } from '../types';
+
+export const finnhubStreamAdapter: StreamAdapter = {
+  id: 'finnhub',
+  name: 'Finnhub.io',
+
+  channelFor: () => 'trades',
+
+  url: (_channel, apiKey) => `wss://ws.finnhub.io?token=${apiKey}`,
+
+  // One message per symbol
+  subscribeMessages: (symbols) => symbols.map(symbol => ({ type: 'subscribe', symbol })),
+
+  unsubscribeMessages: (symbols) => symbols.map(symbol => ({ type: 'unsubscribe', symbol })),
+
+  parseMessage(message) {
+    if (message?.type === 'error') {
+      const text = String(message.msg ?? 'Unknown error');
+      return { ticks: [], error: { kind: /key|token|auth/i.test(text) ? 'auth' : 'upstream', message: `Stream error: ${text}` } };
+    }
+    if (message?.type !== 'trade' || !Array.isArray(message.data)) return { ticks: [] }; // e.g. {"type":"ping"}
+    const ticks = message.data
+      .filter((t: any) => typeof t.s === 'string' && Number.isFinite(t.p) && Number.isFinite(t.t))
+      .map((t: any) => ({ symbol: t.s, price: t.p, timestamp: t.t, ...(Number.isFinite(t.v) && { volume: t.v }) }));
+    return { ticks };
+  },
+};
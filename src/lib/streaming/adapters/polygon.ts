@@ -0,0 +1,59 @@
+import type { PriceTick, StreamAdapter } from '../types';
+
+// One socket per market. Tickers keep the REST format (C:EURUSD, X:BTCUSD, I:SPX, AAPL); the feeds name
+// pairs with a dash or slash, so they are converted both ways.
+const CHANNEL_BY_PREFIX: Record<string, string> = { C: 'forex', X: 'crypto', I: 'indices' };
+
+const splitPair = (ticker: string) => {
+  const pair = ticker.slice(2);
+  return `${pair.slice(0, 3)}-${pair.slice(3)}`;
+};
+
+function subscriptionParam(symbol: string): string {
+  if (symbol.startsWith('C:')) return `C.C:${splitPair(symbol)}`;   // Quotes
+  if (symbol.startsWith('X:')) return `XT.X:${splitPair(symbol)}`;  // Trades
+  if (symbol.startsWith('I:')) return `V.${symbol}`;                // Index values
+  return `T.${symbol}`;                                             // Stock trades
+}
+
+const fromPair = (prefix: string, pair: string) => `${prefix}:${pair.replace(/[^A-Za-z0-9]/g, '').toUpperCase()}`;
+
+function toTick(event: any): PriceTick | undefined {
+  switch (event.ev) {
+    case 'C': // Forex quote: mid of bid and ask
+      return typeof event.a === 'number' && typeof event.b === 'number'
+        ? { symbol: fromPair('C', String(event.p)), price: (event.a + event.b) / 2, timestamp: event.t }
+        : undefined;
+    case 'XT':
+      return { symbol: fromPair('X', String(event.pair)), price: event.p, timestamp: event.t, volume: event.s };
+    case 'V':
+      return { symbol: event.T, price: event.val, timestamp: event.t };
+    case 'T':
+      return { symbol: event.sym, price: event.p, timestamp: event.t, volume: event.s };
+    default:
+      return undefined;
+  }
+}
+
+export const polygonStreamAdapter: StreamAdapter = {
+  id: 'polygon',
+  name: 'Polygon.io',
+
+  channelFor: (symbol) => CHANNEL_BY_PREFIX[symbol.split(':')[0]] ?? 'stocks',
+
+  url: (channel) => `wss://socket.polygon.io/${channel}`,
+
+  authMessage: (apiKey) => ({ action: 'auth', params: apiKey }),
+
+  subscribeMessages: (symbols) => [{ action: 'subscribe', params: symbols.map(subscriptionParam).join(',') }],
+
+  unsubscribeMessages: (symbols) => [{ action: 'unsubscribe', params: symbols.map(subscriptionParam).join(',') }],
+
+  parseMessage(message) {
+    const events: any[] = Array.isArray(message) ? message : [message];
+    const authFailure = events.find(e => e?.ev === 'status' && e.status === 'auth_failed');
+    if (authFailure) return { ticks: [], error: { kind: 'auth', message: `Stream authentication failed: ${authFailure.message}` } };
+    const ticks = events.map(toTick).filter((t): t is PriceTick => !!t && Number.isFinite(t.price) && Number.isFinite(t.timestamp));
+    return { ticks };
+  },
+};
@@ -0,0 +1,31 @@
+import type { StreamAdapter } from '../types';
+
+const HEARTBEAT_INTERVAL_MS = 10_000; // TwelveData drops sockets that stay silent
+
+export const twelveDataStreamAdapter: StreamAdapter = {
+  id: 'twelvedata',
+  name: 'TwelveData',
+
+  channelFor: () => 'price',
+
+  url: (_channel, apiKey) => `wss://ws.twelvedata.com/v1/quotes/price?apikey=${apiKey}`,
+
+  subscribeMessages: (symbols) => [{ action: 'subscribe', params: { symbols: symbols.join(',') } }],
+
+  unsubscribeMessages: (symbols) => [{ action: 'unsubscribe', params: { symbols: symbols.join(',') } }],
+
+  parseMessage(message) {
+    if (message?.event === 'subscribe-status' && message.status === 'error') {
+      const failed = Array.isArray(message.fails) ? message.fails.map((f: any) => f.symbol).join(', ') : '';
+      return { ticks: [], error: { kind: 'not-found', message: `Stream subscription failed${failed ? ` for ${failed}` : ''}.` } };
+    }
+    if (message?.status === 'error' && message.code === 401) {
+      return { ticks: [], error: { kind: 'auth', message: `Stream authentication failed: ${message.message}` } };
+    }
+    if (message?.event !== 'price' || !Number.isFinite(message.price) || !Number.isFinite(message.timestamp)) return { ticks: [] };
+    // Timestamps are Unix seconds
+    return { ticks: [{ symbol: message.symbol, price: message.price, timestamp: message.timestamp * 1000 }] };
+  },
+
+  heartbeat: { intervalMs: HEARTBEAT_INTERVAL_MS, message: { action: 'heartbeat' } },
+};
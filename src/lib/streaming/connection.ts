@@ -0,0 +1,164 @@
+// Connections behind the stream hub: a reconnecting WebSocket speaking a provider's protocol, and a local
+// random-walk feed for working offline. Both keep their own subscription set and resubscribe after reconnects.
+
+import WebSocket from 'ws';
+import type { PriceTick, StreamAdapter, StreamStatus } from './types';
+
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60_000;
+const MAX_RECONNECT_ATTEMPTS = 8; // Then the feed is reported unavailable and clients fall back to polling
+
+const MOCK_TICK_INTERVAL_MS = 1000;
+const MOCK_VOLATILITY = 0.0002; // Standard deviation of each step, as a fraction of price
+const MOCK_DEFAULT_PRICE = 100;
+
+export interface FeedHandlers {
+  onTick(tick: PriceTick): void;
+  onStatus(status: StreamStatus, message?: string): void;
+}
+
+export interface FeedConnection {
+  readonly status: StreamStatus;
+  subscribe(symbols: string[], seedPrice?: number): void;
+  unsubscribe(symbols: string[]): void;
+  close(): void;
+}
+
+export function createSocketConnection(adapter: StreamAdapter, channel: string, apiKey: string, handlers: FeedHandlers): FeedConnection {
+  const symbols = new Set<string>();
+  let socket: WebSocket | undefined;
+  let status: StreamStatus = 'connecting';
+  let attempts = 0;
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  const setStatus = (next: StreamStatus, message?: string) => {
+    status = next;
+    handlers.onStatus(next, message);
+  };
+
+  const send = (message: unknown) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const stop = () => {
+    clearTimeout(reconnectTimer);
+    clearInterval(heartbeatTimer);
+    const current = socket;
+    socket = undefined;
+    current?.close();
+  };
+
+  const fail = (message: string) => {
+    stop();
+    setStatus('unavailable', message);
+  };
+
+  function scheduleReconnect() {
+    if (attempts >= MAX_RECONNECT_ATTEMPTS) {
+      fail(`${adapter.name} stream keeps disconnecting; prices are polled instead.`);
+      return;
+    }
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, BASE_RECONNECT_DELAY_MS * 2 ** attempts++);
+    setStatus('reconnecting', `${adapter.name} stream disconnected, retrying in ${Math.ceil(delay / 1000)}s.`);
+    reconnectTimer = setTimeout(connect, delay);
+  }
+
+  function connect() {
+    const current = new WebSocket(adapter.url(channel, apiKey));
+    socket = current;
+
+    current.onopen = () => {
+      attempts = 0;
+      if (adapter.authMessage) send(adapter.authMessage(apiKey));
+      if (symbols.size > 0) adapter.subscribeMessages(Array.from(symbols), channel).forEach(send);
+      if (adapter.heartbeat) {
+        const { intervalMs, message } = adapter.heartbeat;
+        heartbeatTimer = setInterval(() => send(message), intervalMs);
+      }
+      setStatus('live');
+    };
+
+    current.onmessage = (event) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      const { ticks, error } = adapter.parseMessage(parsed);
+      if (error?.kind === 'auth') {
+        fail(`${adapter.name}: ${error.message}`);
+        return;
+      }
+      if (error) console.warn(`${adapter.name} stream: ${error.message}`);
+      ticks.forEach(handlers.onTick);
+    };
+
+    // An error event is always followed by close
+    current.onclose = () => {
+      if (socket !== current) return; // Replaced or stopped on purpose
+      clearInterval(heartbeatTimer);
+      socket = undefined;
+      if (!closed) scheduleReconnect();
+    };
+  }
+
+  connect();
+
+  return {
+    get status() {
+      return status;
+    },
+    subscribe(added) {
+      const fresh = added.filter(s => !symbols.has(s));
+      fresh.forEach(s => symbols.add(s));
+      if (fresh.length > 0) adapter.subscribeMessages(fresh, channel).forEach(send);
+    },
+    unsubscribe(removed) {
+      const known = removed.filter(s => symbols.delete(s));
+      if (known.length > 0) adapter.unsubscribeMessages(known, channel).forEach(send);
+    },
+    close() {
+      closed = true;
+      stop();
+    },
+  };
+}
+
+// Box-Muller transform; the mock feed only needs plausible noise
+function gaussian(): number {
+  return Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+}
+
+/** Random-walk prices from `seedPrice` (the last price the dashboard fetched), one tick per symbol per second. */
+export function createMockConnection(handlers: Pick<FeedHandlers, 'onTick'>): FeedConnection {
+  const prices = new Map<string, number>();
+  let timer: ReturnType<typeof setInterval> | undefined = setInterval(() => {
+    const now = Date.now();
+    prices.forEach((price, symbol) => {
+      const next = price * (1 + MOCK_VOLATILITY * gaussian());
+      prices.set(symbol, next);
+      handlers.onTick({ symbol, price: next, timestamp: now });
+    });
+  }, MOCK_TICK_INTERVAL_MS);
+
+  return {
+    get status(): StreamStatus {
+      return timer ? 'live' : 'unavailable';
+    },
+    subscribe(symbols, seedPrice) {
+      for (const symbol of symbols) {
+        if (!prices.has(symbol)) prices.set(symbol, seedPrice && seedPrice > 0 ? seedPrice : MOCK_DEFAULT_PRICE);
+      }
+    },
+    unsubscribe(symbols) {
+      symbols.forEach(s => prices.delete(s));
+    },
+    close() {
+      clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}
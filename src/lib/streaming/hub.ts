@@ -0,0 +1,161 @@
+// Server-side fan-out of streamed prices. One connection per feed, channel and API key is shared by every browser
+// watching a symbol on it; symbols are unsubscribed when their last listener leaves and idle connections close.
+// MARKET_STREAM_MODE selects the feed: "auto" (default, first provider in the cascade order with a stream),
+// "mock" (local random walk, no keys or network needed) or "off".
+
+import { createHash } from 'crypto';
+import { getProviderOrder } from '@/lib/market-data/registry';
+import { resolveProviderSymbol } from '@/lib/market-data/symbols';
+import type { MarketAsset, MarketDataProviderId } from '@/lib/market-data/types';
+import type { ApiKeys } from '@/lib/settings/api-keys';
+import { finnhubStreamAdapter } from './adapters/finnhub';
+import { polygonStreamAdapter } from './adapters/polygon';
+import { twelveDataStreamAdapter } from './adapters/twelvedata';
+import { createMockConnection, createSocketConnection, type FeedConnection } from './connection';
+import type { PriceTick, StreamAdapter, StreamFeedId, StreamStatus } from './types';
+
+const IDLE_CLOSE_MS = 30_000; // Keeps a socket across quick asset switches
+const MOCK_FEED_NAME = 'Mock feed';
+
+export type StreamMode = 'auto' | 'mock' | 'off';
+
+export interface PriceListener {
+  onTick(tick: PriceTick): void;
+  onStatus(status: StreamStatus, message?: string): void;
+}
+
+export interface PriceSubscription {
+  feed: StreamFeedId;
+  feedName: string;
+  symbol: string;
+  unsubscribe(): void;
+}
+
+interface HubConnection {
+  connection: FeedConnection;
+  listeners: Map<string, Set<PriceListener>>; // By symbol
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+const STREAM_ADAPTERS: Partial<Record<MarketDataProviderId, StreamAdapter>> = {
+  polygon: polygonStreamAdapter,
+  finnhub: finnhubStreamAdapter,
+  twelvedata: twelveDataStreamAdapter,
+};
+
+const connections = new Map<string, HubConnection>();
+
+export function getStreamMode(): StreamMode {
+  const mode = process.env.MARKET_STREAM_MODE?.trim().toLowerCase();
+  return mode === 'mock' || mode === 'off' ? mode : 'auto';
+}
+
+const keyHash = (apiKey: string) => createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+
+function allListeners(entry: HubConnection): PriceListener[] {
+  return Array.from(entry.listeners.values()).flatMap(set => Array.from(set));
+}
+
+function openConnection(key: string, create: (entry: HubConnection) => FeedConnection): HubConnection {
+  const existing = connections.get(key);
+  if (existing) {
+    clearTimeout(existing.idleTimer);
+    return existing;
+  }
+  const entry = { listeners: new Map() } as HubConnection;
+  entry.connection = create(entry);
+  if (entry.connection.status !== 'unavailable') connections.set(key, entry);
+  return entry;
+}
+
+function handlersFor(key: string, entry: HubConnection) {
+  return {
+    onTick: (tick: PriceTick) => entry.listeners.get(tick.symbol)?.forEach(l => l.onTick(tick)),
+    onStatus: (status: StreamStatus, message?: string) => {
+      // Unavailable is final for a connection; the next subscriber starts a new one
+      if (status === 'unavailable' && connections.get(key) === entry) connections.delete(key);
+      allListeners(entry).forEach(l => l.onStatus(status, message));
+    },
+  };
+}
+
+// The stream to use for an asset: the first provider in cascade order with a stream adapter, a key and a ticker
+function pickProviderFeed(asset: MarketAsset, apiKeys: ApiKeys): { adapter: StreamAdapter; apiKey: string; symbol: string } | undefined {
+  for (const id of getProviderOrder()) {
+    const adapter = STREAM_ADAPTERS[id];
+    const apiKey = apiKeys[id];
+    const symbol = resolveProviderSymbol(asset, id).symbol;
+    if (adapter && apiKey && symbol) return { adapter, apiKey, symbol };
+  }
+  return undefined;
+}
+
+/**
+ * Subscribes `listener` to streamed prices for `asset`. The listener first receives the connection's current
+ * status. Returns an error instead when no feed can serve the asset, so callers fall back to polling.
+ */
+export function subscribeToPrices(
+  asset: MarketAsset,
+  apiKeys: ApiKeys,
+  listener: PriceListener,
+  options: { seedPrice?: number } = {},
+): { subscription?: PriceSubscription; error?: string } {
+  const mode = getStreamMode();
+  if (mode === 'off') return { error: 'Streaming is turned off (MARKET_STREAM_MODE=off).' };
+
+  let key: string;
+  let entry: HubConnection;
+  let feed: StreamFeedId;
+  let feedName: string;
+  let symbol: string;
+
+  if (mode === 'mock') {
+    key = 'mock';
+    feed = 'mock';
+    feedName = MOCK_FEED_NAME;
+    symbol = asset.symbol ?? asset.name;
+    entry = openConnection(key, e => createMockConnection(handlersFor(key, e)));
+  } else {
+    const picked = pickProviderFeed(asset, apiKeys);
+    if (!picked) return { error: `No streaming provider is configured for ${asset.name}.` };
+    const { adapter, apiKey } = picked;
+    const channel = adapter.channelFor(picked.symbol);
+    key = `${adapter.id}:${channel}:${keyHash(apiKey)}`;
+    feed = adapter.id;
+    feedName = adapter.name;
+    symbol = picked.symbol;
+    entry = openConnection(key, e => createSocketConnection(adapter, channel, apiKey, handlersFor(key, e)));
+  }
+
+  if (entry.connection.status === 'unavailable') return { error: `${feedName} stream is unavailable.` };
+
+  const isNewSymbol = !entry.listeners.has(symbol);
+  const symbolListeners = entry.listeners.get(symbol) ?? new Set<PriceListener>();
+  if (isNewSymbol) {
+    entry.listeners.set(symbol, symbolListeners);
+    entry.connection.subscribe([symbol], options.seedPrice);
+  }
+  symbolListeners.add(listener);
+
+  let active = true;
+  // After returning, so the caller holds the subscription when the first status arrives
+  queueMicrotask(() => {
+    if (active) listener.onStatus(entry.connection.status);
+  });
+  const unsubscribe = () => {
+    if (!active) return;
+    active = false;
+    symbolListeners.delete(listener);
+    if (symbolListeners.size > 0) return;
+    entry.listeners.delete(symbol);
+    entry.connection.unsubscribe([symbol]);
+    if (entry.listeners.size > 0) return;
+    entry.idleTimer = setTimeout(() => {
+      if (entry.listeners.size > 0) return;
+      entry.connection.close();
+      if (connections.get(key) === entry) connections.delete(key);
+    }, IDLE_CLOSE_MS);
+  };
+
+  return { subscription: { feed, feedName, symbol, unsubscribe } };
+}
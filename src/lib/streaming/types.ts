@@ -0,0 +1,52 @@
+// Shared types for streaming prices. Provider sockets live on the server (keys never reach the browser) and
+// ticks are fanned out to browsers over server-sent events by /api/stream/prices.
+
+import type { MarketDataProviderId, MarketDataProviderName, ProviderError } from '@/lib/market-data/types';
+
+export type StreamFeedId = MarketDataProviderId | 'mock';
+
+export type StreamStatus =
+  | 'connecting'
+  | 'live'
+  | 'reconnecting'
+  | 'unavailable'; // Terminal: no feed for this asset, or auth failed; clients keep polling
+
+export interface PriceTick {
+  symbol: string;     // Provider ticker, in the format marketIds use (e.g. "C:EURUSD" for Polygon)
+  price: number;
+  timestamp: number;  // Unix milliseconds
+  volume?: number;    // Trade size, when the feed reports trades
+}
+
+export interface StreamMessage {
+  ticks: PriceTick[];
+  error?: ProviderError; // 'auth' stops the connection; anything else is logged
+}
+
+/** Wire protocol of one provider's WebSocket feed. Connection handling is shared (connection.ts). */
+export interface StreamAdapter {
+  id: MarketDataProviderId;
+  name: MarketDataProviderName;
+  /** Connection a ticker streams over; providers such as Polygon.io have one socket per market. */
+  channelFor(symbol: string): string;
+  url(channel: string, apiKey: string): string;
+  /** Sent right after the socket opens, before any subscription. */
+  authMessage?(apiKey: string): unknown;
+  subscribeMessages(symbols: string[], channel: string): unknown[];
+  unsubscribeMessages(symbols: string[], channel: string): unknown[];
+  parseMessage(message: any): StreamMessage;
+  heartbeat?: { intervalMs: number; message: unknown };
+}
+
+// Server-sent event payloads
+export interface PriceStreamStatusEvent {
+  status: StreamStatus;
+  feed?: string;      // Display name of the feed, e.g. "Finnhub.io" or "Mock feed"
+  message?: string;   // Why the stream is unavailable or reconnecting
+}
+
+export interface PriceStreamTickEvent {
+  price: number;
+  timestamp: number;
+  volume?: number;
+}